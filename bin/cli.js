@@ -6,4 +6,6 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Import and run the server
+// Transport flags (--http, --port, --host, --path) and subcommands
+// (validate-contracts, mock) are read from process.argv
 import(join(__dirname, '..', 'dist', 'index.js'));
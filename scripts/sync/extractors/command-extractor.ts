@@ -94,7 +94,8 @@ export async function extractCommands(
  *
  * NOTE: Package system has been removed in favor of option-based system.
  * This function now returns an empty array as packages are no longer used.
- * The buildCommand function uses --with-import and --with-events flags instead.
+ * Commands are built from the synced options (--with-import, --with-events)
+ * by src/data/command-registry.ts instead.
  *
  * @param content - QUICK_REFERENCE.md file content (unused)
  * @returns Empty array (packages are deprecated)
@@ -490,102 +490,6 @@ function generateTypeScriptCode(
   lines.push('}');
   lines.push('');
 
-  lines.push('/**');
-  lines.push(' * Build command string from options');
-  lines.push(' */');
-  lines.push('export function buildCommand(');
-  lines.push('  tableName: string,');
-  lines.push('  options: {');
-  lines.push("    target?: 'backend' | 'frontend';");
-  lines.push('    withImport?: boolean;');
-  lines.push('    withEvents?: boolean;');
-  lines.push('    force?: boolean;');
-  lines.push('    dryRun?: boolean;');
-  lines.push('    domain?: string;');
-  lines.push('    schema?: string;');
-  lines.push('    shell?: string;');
-  lines.push('    section?: string;');
-  lines.push('    smartStats?: boolean;');
-  lines.push('    directDb?: boolean;');
-  lines.push('    noRoles?: boolean;');
-  lines.push('    migrationOnly?: boolean;');
-  lines.push('    multipleRoles?: boolean;');
-  lines.push('  },');
-  lines.push('): string {');
-  lines.push('  const parts: string[] = [];');
-  lines.push('');
-  lines.push("  if (options.target === 'frontend') {");
-  lines.push("    parts.push('./bin/cli.js generate');");
-  lines.push('    parts.push(tableName);');
-  lines.push("    parts.push('--target frontend');");
-  lines.push('  } else {');
-  lines.push(
-    '    // Backend - always use direct CLI for proper option handling',
-  );
-  lines.push("    parts.push('./bin/cli.js generate');");
-  lines.push('    parts.push(tableName);');
-  lines.push('  }');
-  lines.push('');
-  lines.push('  // Feature options (for both backend and frontend)');
-  lines.push('  if (options.withImport) {');
-  lines.push("    parts.push('--with-import');");
-  lines.push('  }');
-  lines.push('');
-  lines.push('  if (options.withEvents) {');
-  lines.push("    parts.push('--with-events');");
-  lines.push('  }');
-  lines.push('');
-  lines.push('  // Domain options (for both backend and frontend)');
-  lines.push('  if (options.domain) {');
-  lines.push('    parts.push(`--domain ${options.domain}`);');
-  lines.push('  }');
-  lines.push('');
-  lines.push("  if (options.schema && options.schema !== 'public') {");
-  lines.push('    parts.push(`--schema ${options.schema}`);');
-  lines.push('  }');
-  lines.push('');
-  lines.push('  // Shell integration options (for frontend)');
-  lines.push("  if (options.shell && options.target === 'frontend') {");
-  lines.push('    parts.push(`--shell ${options.shell}`);');
-  lines.push('  }');
-  lines.push('');
-  lines.push("  if (options.section && options.target === 'frontend') {");
-  lines.push('    parts.push(`--section ${options.section}`);');
-  lines.push('  }');
-  lines.push('');
-  lines.push("  if (options.smartStats && options.target === 'frontend') {");
-  lines.push("    parts.push('--smart-stats');");
-  lines.push('  }');
-  lines.push('');
-  lines.push('  // Role/permission options (for backend)');
-  lines.push("  if (options.directDb && options.target !== 'frontend') {");
-  lines.push("    parts.push('--direct-db');");
-  lines.push('  }');
-  lines.push('');
-  lines.push("  if (options.noRoles && options.target !== 'frontend') {");
-  lines.push("    parts.push('--no-roles');");
-  lines.push('  }');
-  lines.push('');
-  lines.push("  if (options.migrationOnly && options.target !== 'frontend') {");
-  lines.push("    parts.push('--migration-only');");
-  lines.push('  }');
-  lines.push('');
-  lines.push("  if (options.multipleRoles && options.target !== 'frontend') {");
-  lines.push("    parts.push('--multiple-roles');");
-  lines.push('  }');
-  lines.push('');
-  lines.push('  if (options.force) {');
-  lines.push("    parts.push('--force');");
-  lines.push('  }');
-  lines.push('');
-  lines.push('  if (options.dryRun) {');
-  lines.push("    parts.push('--dry-run');");
-  lines.push('  }');
-  lines.push('');
-  lines.push("  return parts.join(' ');");
-  lines.push('}');
-  lines.push('');
-
   // Add GeneratedFile interface
   lines.push('export interface GeneratedFile {');
   lines.push('  path: string;');
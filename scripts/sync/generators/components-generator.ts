@@ -300,6 +300,11 @@ function generateTypeScriptCode(
 ): string {
   const lines: string[] = [];
 
+  lines.push(
+    "import { createSearchIndex, type SearchIndex } from '../utils/search-index.js';",
+  );
+  lines.push('');
+
   // Add file documentation
   lines.push('/**');
   lines.push(' * AegisX UI Components Registry');
@@ -479,20 +484,49 @@ function generateTypeScriptCode(
   lines.push('}');
   lines.push('');
 
+  // Full-text index, built on first search
+  lines.push('/**');
+  lines.push(' * Full-text index over the components (built on first search)');
+  lines.push(' */');
+  lines.push('');
+  lines.push('let componentIndex: SearchIndex<ComponentInfo> | null = null;');
+  lines.push('');
+  lines.push('function getComponentIndex(): SearchIndex<ComponentInfo> {');
+  lines.push('  if (!componentIndex) {');
+  lines.push('    componentIndex = createSearchIndex<ComponentInfo>({');
+  lines.push('      name: 3,');
+  lines.push('      selector: 3,');
+  lines.push('      category: 2,');
+  lines.push('      description: 1,');
+  lines.push('      api: 0.5,');
+  lines.push('    });');
+  lines.push('    for (const c of components) {');
+  lines.push('      componentIndex.add(c, {');
+  lines.push('        name: c.name,');
+  lines.push('        selector: c.selector,');
+  lines.push('        category: c.category,');
+  lines.push('        description: c.description,');
+  lines.push('        api: [...c.inputs, ...c.outputs].map(');
+  lines.push('          (io) => `${io.name} ${io.description}`,');
+  lines.push('        ),');
+  lines.push('      });');
+  lines.push('    }');
+  lines.push('  }');
+  lines.push('  return componentIndex;');
+  lines.push('}');
+  lines.push('');
+
   lines.push('/**');
-  lines.push(' * Search components');
+  lines.push(' * Search components, most relevant first');
+  lines.push(' * An empty query returns every component in registry order.');
   lines.push(' */');
   lines.push(
     'export function searchComponents(query: string): ComponentInfo[] {',
   );
-  lines.push('  const q = query.toLowerCase();');
-  lines.push('  return components.filter(');
-  lines.push('    (c) =>');
-  lines.push('      c.name.toLowerCase().includes(q) ||');
-  lines.push('      c.selector.toLowerCase().includes(q) ||');
-  lines.push('      c.description.toLowerCase().includes(q) ||');
-  lines.push('      c.category.includes(q),');
-  lines.push('  );');
+  lines.push('  if (!query.trim()) return components;');
+  lines.push('  return getComponentIndex()');
+  lines.push('    .search(query)');
+  lines.push('    .map((hit) => hit.item);');
   lines.push('}');
 
   return lines.join('\n');
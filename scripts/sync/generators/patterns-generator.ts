@@ -204,6 +204,11 @@ function transformPattern(pattern: ExtractedPattern): CodePattern {
 function generateTypeScriptCode(patterns: CodePattern[]): string {
   const lines: string[] = [];
 
+  lines.push(
+    "import { createSearchIndex, type SearchIndex } from '../utils/search-index.js';",
+  );
+  lines.push('');
+
   // Add file documentation
   lines.push('/**');
   lines.push(' * AegisX Development Patterns');
@@ -292,17 +297,45 @@ function generateTypeScriptCode(patterns: CodePattern[]): string {
   lines.push('}');
   lines.push('');
 
+  // Full-text index, built on first search
+  lines.push('/**');
+  lines.push(' * Full-text index over the patterns (built on first search)');
+  lines.push(' */');
+  lines.push('');
+  lines.push('let patternIndex: SearchIndex<CodePattern> | null = null;');
+  lines.push('');
+  lines.push('function getPatternIndex(): SearchIndex<CodePattern> {');
+  lines.push('  if (!patternIndex) {');
+  lines.push('    patternIndex = createSearchIndex<CodePattern>({');
+  lines.push('      name: 3,');
+  lines.push('      category: 2,');
+  lines.push('      description: 1,');
+  lines.push('      notes: 0.5,');
+  lines.push('      code: 0.2,');
+  lines.push('    });');
+  lines.push('    for (const p of patterns) {');
+  lines.push('      patternIndex.add(p, {');
+  lines.push('        name: p.name,');
+  lines.push('        category: p.category,');
+  lines.push('        description: p.description,');
+  lines.push('        notes: p.notes,');
+  lines.push('        code: p.code,');
+  lines.push('      });');
+  lines.push('    }');
+  lines.push('  }');
+  lines.push('  return patternIndex;');
+  lines.push('}');
+  lines.push('');
+
   lines.push('/**');
-  lines.push(' * Search patterns');
+  lines.push(' * Search patterns, most relevant first');
+  lines.push(' * An empty query returns every pattern in registry order.');
   lines.push(' */');
   lines.push('export function searchPatterns(query: string): CodePattern[] {');
-  lines.push('  const q = query.toLowerCase();');
-  lines.push('  return patterns.filter(');
-  lines.push('    (p) =>');
-  lines.push('      p.name.toLowerCase().includes(q) ||');
-  lines.push('      p.description.toLowerCase().includes(q) ||');
-  lines.push('      p.category.includes(q),');
-  lines.push('  );');
+  lines.push('  if (!query.trim()) return patterns;');
+  lines.push('  return getPatternIndex()');
+  lines.push('    .search(query)');
+  lines.push('    .map((hit) => hit.item);');
   lines.push('}');
 
   return lines.join('\n');
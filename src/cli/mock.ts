@@ -0,0 +1,60 @@
+/**
+ * mock Command
+ * Serves the documented endpoints from a local mock API server until
+ * interrupted, for frontend work against endpoints that are not built yet:
+ *
+ *   aegisx-mcp mock [--feature <name>] [--workspace <name>]
+ *     [--port 4010] [--host 127.0.0.1]
+ *
+ * Requests are logged to stderr. Exit codes: 0 after Ctrl+C, 2 when the
+ * server could not start.
+ */
+
+import { callTool } from '../tools/index.js';
+import { DEFAULT_MOCK_PORT } from '../tools/api-mock.tool.js';
+import { getFlagValue } from '../utils/cli-args.js';
+
+/** Exit code when the server cannot start (bad flags, no contracts) */
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: aegisx-mcp mock [--feature <name>] [--workspace <name>]
+  [--port ${DEFAULT_MOCK_PORT}] [--host 127.0.0.1]`;
+
+/**
+ * Run the command
+ * @param args - Arguments after `mock`
+ * @returns Process exit code
+ */
+export async function runMock(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const port = Number(getFlagValue(args, '--port') ?? DEFAULT_MOCK_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Invalid port: ${getFlagValue(args, '--port')}\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const result = await callTool('aegisx_mock_start', {
+    feature: getFlagValue(args, '--feature'),
+    workspace: getFlagValue(args, '--workspace'),
+    host: getFlagValue(args, '--host'),
+    port,
+  });
+  const text = result.content.map((item) => item.text).join('\n');
+  if (result.isError) {
+    console.error(text);
+    return EXIT_USAGE;
+  }
+  process.stdout.write(`${text}\n\nPress Ctrl+C to stop.\n`);
+
+  await new Promise<void>((resolvePromise) => {
+    process.once('SIGINT', () => resolvePromise());
+    process.once('SIGTERM', () => resolvePromise());
+  });
+
+  await callTool('aegisx_mock_stop', { port: result.structuredContent?.port });
+  return 0;
+}
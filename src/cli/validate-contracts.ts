@@ -0,0 +1,106 @@
+/**
+ * validate-contracts Command
+ * Runs `aegisx_api_validate` once, outside an MCP client, for pre-commit
+ * hooks and CI:
+ *
+ *   aegisx-mcp validate-contracts [--feature <name>] [--workspace <name>]
+ *     [--format markdown|json|sarif|junit] [--fail-on error|warn|none]
+ *     [--output <file>]
+ *
+ * The report goes to stdout (or `--output`). Exit codes: 0 when no finding
+ * reaches the `--fail-on` severity (default: error), 1 when one does, 2 when
+ * validation could not run.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { callTool } from '../tools/index.js';
+import type { ToolResult } from '../tools/tool-definition.js';
+import { getFlagValue } from '../utils/cli-args.js';
+import {
+  meetsThreshold,
+  type ValidationFinding,
+  type ValidationOutputFormat,
+  type ValidationThreshold,
+} from '../data/validation-formats.js';
+
+const FORMATS: ValidationOutputFormat[] = [
+  'markdown',
+  'json',
+  'sarif',
+  'junit',
+];
+const THRESHOLDS: ValidationThreshold[] = ['error', 'warn', 'none'];
+
+/** Exit code when validation itself fails (bad flags, no contracts) */
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: aegisx-mcp validate-contracts [--feature <name>] [--workspace <name>]
+  [--format ${FORMATS.join('|')}] [--fail-on ${THRESHOLDS.join('|')}] [--output <file>]`;
+
+/**
+ * Run the command
+ * @param args - Arguments after `validate-contracts`
+ * @returns Process exit code
+ */
+export async function runValidateContracts(args: string[]): Promise<number> {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const format = (getFlagValue(args, '--format') ??
+    'markdown') as ValidationOutputFormat;
+  const failOn = (getFlagValue(args, '--fail-on') ??
+    'error') as ValidationThreshold;
+  if (!FORMATS.includes(format)) {
+    console.error(`Unknown format: ${format}\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!THRESHOLDS.includes(failOn)) {
+    console.error(`Unknown severity: ${failOn}\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  let result: ToolResult;
+  try {
+    result = await callTool('aegisx_api_validate', {
+      feature: getFlagValue(args, '--feature'),
+      workspace: getFlagValue(args, '--workspace'),
+      format,
+      failOn,
+    });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_USAGE;
+  }
+
+  const text = result.content.map((item) => item.text).join('\n');
+  if (result.isError) {
+    console.error(text);
+    return EXIT_USAGE;
+  }
+
+  const output = getFlagValue(args, '--output');
+  if (output) {
+    const outputPath = resolve(output);
+    await fs.mkdir(dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, text.endsWith('\n') ? text : `${text}\n`);
+    console.error(`Wrote ${format} report to ${outputPath}`);
+  } else {
+    process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+  }
+
+  const findings = (result.structuredContent?.findings ??
+    []) as ValidationFinding[];
+  const failing = findings.filter((finding) =>
+    meetsThreshold(finding.severity, failOn),
+  );
+  if (failing.length > 0) {
+    console.error(
+      `${failing.length} finding(s) at or above "${failOn}" severity`,
+    );
+    return 1;
+  }
+  return 0;
+}
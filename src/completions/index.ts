@@ -0,0 +1,135 @@
+/**
+ * AegisX MCP Argument Completion
+ * Completion sources for component names, pattern names, features and endpoint paths
+ *
+ * MCP completion (`completion/complete`) covers prompt arguments and
+ * resource template variables; tools reuse the same candidates for their
+ * "did you mean" hints.
+ */
+
+import { getAllComponents } from '../data/components.js';
+import { getAllPatterns } from '../data/patterns.js';
+import { getCommandToolSpecs } from '../data/command-registry.js';
+import {
+  discoverContractFeatures,
+  getAllContracts,
+} from '../data/api-contracts-parser.js';
+import { getDocsPath } from '../tools/api-contracts.tool.js';
+import { fuzzyMatch } from '../utils/fuzzy-match.js';
+
+/**
+ * Filter on already-completed arguments of the same prompt or template
+ */
+export interface EndpointScope {
+  feature?: string;
+  method?: string;
+}
+
+/**
+ * Component names and selectors (either is accepted by `aegisx_components_get`)
+ */
+export function componentCandidates(): string[] {
+  return getAllComponents().flatMap((c) => [c.selector, c.name]);
+}
+
+/**
+ * Component selectors only
+ */
+export function componentSelectorCandidates(): string[] {
+  return getAllComponents().map((c) => c.selector);
+}
+
+/**
+ * Development pattern names
+ */
+export function patternCandidates(): string[] {
+  return getAllPatterns().map((p) => p.name);
+}
+
+/**
+ * CLI command paths (e.g., "generate", "templates add")
+ */
+export function commandCandidates(): string[] {
+  return getCommandToolSpecs().map((spec) => spec.commandPath);
+}
+
+/**
+ * Features with a contract file under docs/features
+ */
+export function featureCandidates(): Promise<string[]> {
+  return discoverContractFeatures(getDocsPath());
+}
+
+/**
+ * HTTP methods documented for a feature (or all features)
+ */
+export async function methodCandidates(
+  scope: EndpointScope = {},
+): Promise<string[]> {
+  const endpoints = await scopedEndpoints({ feature: scope.feature });
+  return endpoints.map((e) => e.method);
+}
+
+/**
+ * Documented endpoint paths, optionally limited to a feature and method
+ */
+export async function endpointPathCandidates(
+  scope: EndpointScope = {},
+): Promise<string[]> {
+  const endpoints = await scopedEndpoints(scope);
+  return endpoints.map((e) => e.path);
+}
+
+/**
+ * Endpoints matching the scope (case-insensitive)
+ */
+async function scopedEndpoints(scope: EndpointScope) {
+  const contracts = await getAllContracts(getDocsPath());
+  const feature = scope.feature?.toLowerCase();
+  const method = scope.method?.toUpperCase();
+  return contracts
+    .filter((c) => !feature || c.feature.toLowerCase() === feature)
+    .flatMap((c) => c.endpoints)
+    .filter((e) => !method || e.method === method);
+}
+
+// ============ COMPLETERS ============
+
+/**
+ * Completion callbacks ready for `completable()` and resource templates
+ * Each receives the typed value and the arguments completed so far.
+ */
+export const complete = {
+  component: (value: string) => fuzzyMatch(value, componentCandidates()),
+
+  componentSelector: (value: string) =>
+    fuzzyMatch(value, componentSelectorCandidates()),
+
+  pattern: (value: string) => fuzzyMatch(value, patternCandidates()),
+
+  command: (value: string) => fuzzyMatch(value, commandCandidates()),
+
+  feature: async (value: string) =>
+    fuzzyMatch(value, await featureCandidates()),
+
+  method: async (
+    value: string,
+    context?: { arguments?: Record<string, string> },
+  ) =>
+    fuzzyMatch(
+      value,
+      await methodCandidates({ feature: context?.arguments?.feature }),
+    ),
+
+  endpointPath: async (
+    value: string,
+    context?: { arguments?: Record<string, string> },
+  ) =>
+    fuzzyMatch(
+      value,
+      await endpointPathCandidates({
+        feature: context?.arguments?.feature,
+        method: context?.arguments?.method,
+      }),
+    ),
+};
@@ -0,0 +1,578 @@
+/**
+ * AegisX MCP Project Configuration
+ * Loads project settings from `aegisx-mcp.config.json` (or the "aegisx-mcp"
+ * key in package.json), then applies environment variable overrides
+ *
+ * Precedence: defaults < config file < environment variables. Relative
+ * `codebaseRoot` is resolved against the directory holding the config;
+ * relative `docsPath` is resolved against `codebaseRoot`.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { z } from 'zod';
+import {
+  DEFAULT_API_ENTRY,
+  DEFAULT_ROUTE_PATTERNS,
+} from '../data/api-contracts-parser.js';
+import { DEFAULT_CLI_PATH } from '../data/command-registry.js';
+import { didYouMean, formatDidYouMean } from '../utils/fuzzy-match.js';
+
+/** Config file looked up in the working directory */
+export const CONFIG_FILE_NAME = 'aegisx-mcp.config.json';
+
+/** Key holding the config inside package.json */
+export const PACKAGE_JSON_KEY = 'aegisx-mcp';
+
+// ============ SCHEMA ============
+
+export const authPathsSchema = z
+  .object({
+    loginPath: z.string().startsWith('/').describe('Login endpoint path'),
+    logoutPath: z.string().startsWith('/').describe('Logout endpoint path'),
+    forceLoginPath: z
+      .string()
+      .startsWith('/')
+      .describe('Force-login endpoint used when MAX_SESSIONS is reached'),
+  })
+  .strict();
+
+export const configSchema = z
+  .object({
+    docsPath: z
+      .string()
+      .min(1)
+      .describe('Directory holding <feature>/API_CONTRACTS.md files'),
+    codebaseRoot: z
+      .string()
+      .min(1)
+      .describe('Monorepo root used to find route files'),
+    routeGlobs: z
+      .array(z.string().min(1))
+      .min(1)
+      .describe('Route file globs, relative to codebaseRoot'),
+    apiEntry: z
+      .string()
+      .min(1)
+      .describe(
+        'API entry file, relative to codebaseRoot; register prefixes are resolved from here',
+      ),
+    apiBaseUrl: z.string().url().describe('Base URL of the running API'),
+    auth: authPathsSchema,
+    adminApp: z
+      .string()
+      .min(1)
+      .describe('Frontend app under apps/ that hosts CRUD pages'),
+    cliPath: z.string().min(1).describe('CLI entry point in built commands'),
+  })
+  .strict();
+
+export type AegisxConfig = z.infer<typeof configSchema>;
+
+/** Config as written in a file: every key optional */
+const configFileSchema = configSchema
+  .extend({ auth: authPathsSchema.partial() })
+  .partial();
+
+type ConfigFileValues = z.infer<typeof configFileSchema>;
+
+export const workspaceNameSchema = z
+  .string()
+  .regex(
+    /^[a-z0-9][a-z0-9_-]*$/i,
+    'Workspace names use letters, digits, "-" and "_"',
+  );
+
+/** Top level of the config file: settings plus named workspaces */
+const rootFileSchema = configFileSchema.extend({
+  workspaces: z.record(workspaceNameSchema, configFileSchema).optional(),
+  defaultWorkspace: workspaceNameSchema.optional(),
+});
+
+export const DEFAULT_CONFIG: AegisxConfig = {
+  docsPath: 'docs/features',
+  codebaseRoot: '.',
+  routeGlobs: DEFAULT_ROUTE_PATTERNS,
+  apiEntry: DEFAULT_API_ENTRY,
+  apiBaseUrl: 'http://localhost:3000',
+  auth: {
+    loginPath: '/api/auth/login',
+    logoutPath: '/api/auth/logout',
+    forceLoginPath: '/api/auth/force-login',
+  },
+  adminApp: 'admin',
+  cliPath: DEFAULT_CLI_PATH,
+};
+
+/**
+ * Environment variables overriding each setting
+ * `AEGISX_ROUTE_GLOBS` is comma-separated.
+ */
+export const CONFIG_ENV_VARS = {
+  docsPath: 'AEGISX_DOCS_PATH',
+  codebaseRoot: 'AEGISX_CODEBASE_ROOT',
+  routeGlobs: 'AEGISX_ROUTE_GLOBS',
+  apiEntry: 'AEGISX_API_ENTRY',
+  apiBaseUrl: 'AEGISX_API_URL',
+  'auth.loginPath': 'AEGISX_LOGIN_PATH',
+  'auth.logoutPath': 'AEGISX_LOGOUT_PATH',
+  'auth.forceLoginPath': 'AEGISX_FORCE_LOGIN_PATH',
+  adminApp: 'AEGISX_ADMIN_APP',
+  cliPath: 'AEGISX_CLI_PATH',
+} as const;
+
+/** Explicit config file path, overriding the lookup */
+export const CONFIG_PATH_ENV_VAR = 'AEGISX_MCP_CONFIG';
+
+/**
+ * Extra workspaces as comma-separated `name=codebaseRoot` pairs
+ * e.g. AEGISX_WORKSPACES="main=/repos/aegisx,hotfix=/repos/aegisx-hotfix"
+ */
+export const WORKSPACES_ENV_VAR = 'AEGISX_WORKSPACES';
+
+/** Workspace used when a tool call names none */
+export const DEFAULT_WORKSPACE_ENV_VAR = 'AEGISX_WORKSPACE';
+
+/** Name of the workspace formed by the top-level settings */
+export const DEFAULT_WORKSPACE = 'default';
+
+/** Setting name as shown to users (nested keys use dots) */
+export type ConfigKey = keyof typeof CONFIG_ENV_VARS;
+
+/** Where an effective value came from */
+export type ConfigSource = 'default' | 'file' | 'env' | 'workspace';
+
+/**
+ * One named project the server can work on
+ */
+export interface LoadedWorkspace {
+  /** Workspace name (e.g., "default", "hotfix") */
+  name: string;
+
+  /** Effective values; docsPath and codebaseRoot are absolute */
+  config: AegisxConfig;
+
+  /** Source of each setting */
+  sources: Record<ConfigKey, ConfigSource>;
+}
+
+/**
+ * Effective configuration with provenance
+ */
+export interface LoadedConfig {
+  /** Effective values of the default workspace */
+  config: AegisxConfig;
+
+  /** Directory relative paths in the config file are resolved against */
+  projectRoot: string;
+
+  /** Config file that was read (package.json when using the key) */
+  configFile?: string;
+
+  /** Source of each setting of the default workspace */
+  sources: Record<ConfigKey, ConfigSource>;
+
+  /** Workspace used when a tool call names none */
+  defaultWorkspace: string;
+
+  /** Every workspace, the top-level "default" first */
+  workspaces: LoadedWorkspace[];
+
+  /** Problems found while loading; affected values fall back */
+  warnings: string[];
+}
+
+/**
+ * Thrown when a tool names a workspace that is not configured
+ */
+export class UnknownWorkspaceError extends Error {
+  constructor(
+    public readonly workspace: string,
+    public readonly available: string[],
+  ) {
+    super(
+      `Unknown workspace "${workspace}". Available workspaces: ${available.join(', ')}${formatDidYouMean(didYouMean(workspace, available))}`,
+    );
+    this.name = 'UnknownWorkspaceError';
+  }
+}
+
+/**
+ * Optional `workspace` argument shared by workspace-aware tools
+ */
+export const workspaceArgShape = {
+  workspace: z
+    .string()
+    .optional()
+    .describe(
+      'Workspace name from aegisx-mcp.config.json (default: the default workspace; see aegisx_workspaces_list)',
+    ),
+};
+
+// ============ LOADING ============
+
+/**
+ * Find and parse the config file for a project directory
+ * @returns Raw values and the file they came from, or undefined
+ */
+function readConfigFile(
+  cwd: string,
+  warnings: string[],
+): { values: unknown; file: string } | undefined {
+  const explicit = process.env[CONFIG_PATH_ENV_VAR];
+  if (explicit) {
+    const file = resolve(cwd, explicit);
+    if (!existsSync(file)) {
+      warnings.push(`${CONFIG_PATH_ENV_VAR} points to a missing file: ${file}`);
+      return undefined;
+    }
+    return readJsonFile(file, warnings);
+  }
+
+  const configFile = join(cwd, CONFIG_FILE_NAME);
+  if (existsSync(configFile)) {
+    return readJsonFile(configFile, warnings);
+  }
+
+  const packageFile = join(cwd, 'package.json');
+  if (existsSync(packageFile)) {
+    const pkg = readJsonFile(packageFile, warnings);
+    const values = (pkg?.values as Record<string, unknown> | undefined)?.[
+      PACKAGE_JSON_KEY
+    ];
+    if (values !== undefined) {
+      return { values, file: packageFile };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a JSON file, recording parse errors as warnings
+ */
+function readJsonFile(
+  file: string,
+  warnings: string[],
+): { values: unknown; file: string } | undefined {
+  try {
+    return { values: JSON.parse(readFileSync(file, 'utf-8')), file };
+  } catch (error) {
+    warnings.push(
+      `Failed to read ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Format zod issues as "key: message" pairs
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join('.')}: ${issue.message}`
+        : issue.message,
+    )
+    .join('; ');
+}
+
+/**
+ * Read one environment override, validated against its schema
+ */
+function readEnv<T>(
+  key: ConfigKey,
+  schema: z.ZodType<T>,
+  parse: (raw: string) => unknown,
+  warnings: string[],
+): T | undefined {
+  const name = CONFIG_ENV_VARS[key];
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+  const result = schema.safeParse(parse(raw.trim()));
+  if (!result.success) {
+    warnings.push(`Ignoring ${name}: ${formatIssues(result.error)}`);
+    return undefined;
+  }
+  return result.data;
+}
+
+/**
+ * A set of settings and where they came from, lowest precedence first
+ */
+interface SettingsLayer {
+  source: ConfigSource;
+  values: ConfigFileValues;
+}
+
+/**
+ * Read one setting from a layer by its dotted key
+ */
+function layerValue(values: ConfigFileValues, key: ConfigKey): unknown {
+  if (key.startsWith('auth.')) {
+    const authKey = key.slice('auth.'.length) as keyof AegisxConfig['auth'];
+    return values.auth?.[authKey];
+  }
+  return values[key as Exclude<ConfigKey, `auth.${string}`>];
+}
+
+/**
+ * Merge settings layers and resolve relative paths
+ * @param layers - Settings, lowest precedence first
+ * @param projectRoot - Directory codebaseRoot is relative to
+ * @returns Effective values and the source of each
+ */
+function resolveSettings(
+  layers: SettingsLayer[],
+  projectRoot: string,
+): Omit<LoadedWorkspace, 'name'> {
+  const sources = {} as Record<ConfigKey, ConfigSource>;
+
+  function value<T>(key: ConfigKey): T {
+    for (let i = layers.length - 1; i >= 0; i--) {
+      const found = layerValue(layers[i].values, key);
+      if (found !== undefined) {
+        sources[key] = layers[i].source;
+        return found as T;
+      }
+    }
+    // The default layer always holds every setting
+    throw new Error(`Missing default for ${key}`);
+  }
+
+  const codebaseRoot = resolve(projectRoot, value<string>('codebaseRoot'));
+  const docsPath = value<string>('docsPath');
+
+  const config: AegisxConfig = {
+    docsPath: isAbsolute(docsPath) ? docsPath : resolve(codebaseRoot, docsPath),
+    codebaseRoot,
+    routeGlobs: value('routeGlobs'),
+    apiEntry: value('apiEntry'),
+    apiBaseUrl: value<string>('apiBaseUrl').replace(/\/+$/, ''),
+    auth: {
+      loginPath: value('auth.loginPath'),
+      logoutPath: value('auth.logoutPath'),
+      forceLoginPath: value('auth.forceLoginPath'),
+    },
+    adminApp: value('adminApp'),
+    cliPath: value('cliPath'),
+  };
+
+  return { config, sources };
+}
+
+/**
+ * Collect settings overridden by environment variables
+ */
+function readEnvSettings(warnings: string[]): ConfigFileValues {
+  const shape = configSchema.shape;
+  const authShape = authPathsSchema.shape;
+  const auth = {
+    loginPath: readEnv('auth.loginPath', authShape.loginPath, String, warnings),
+    logoutPath: readEnv(
+      'auth.logoutPath',
+      authShape.logoutPath,
+      String,
+      warnings,
+    ),
+    forceLoginPath: readEnv(
+      'auth.forceLoginPath',
+      authShape.forceLoginPath,
+      String,
+      warnings,
+    ),
+  };
+
+  return {
+    docsPath: readEnv('docsPath', shape.docsPath, String, warnings),
+    codebaseRoot: readEnv('codebaseRoot', shape.codebaseRoot, String, warnings),
+    routeGlobs: readEnv(
+      'routeGlobs',
+      shape.routeGlobs,
+      (raw) =>
+        raw
+          .split(',')
+          .map((glob) => glob.trim())
+          .filter((glob) => glob.length > 0),
+      warnings,
+    ),
+    apiEntry: readEnv('apiEntry', shape.apiEntry, String, warnings),
+    apiBaseUrl: readEnv('apiBaseUrl', shape.apiBaseUrl, String, warnings),
+    auth,
+    adminApp: readEnv('adminApp', shape.adminApp, String, warnings),
+    cliPath: readEnv('cliPath', shape.cliPath, String, warnings),
+  };
+}
+
+/**
+ * Parse `AEGISX_WORKSPACES` ("name=codebaseRoot,...")
+ */
+function readEnvWorkspaces(
+  warnings: string[],
+): Record<string, ConfigFileValues> {
+  const raw = process.env[WORKSPACES_ENV_VAR];
+  const workspaces: Record<string, ConfigFileValues> = {};
+  if (!raw) return workspaces;
+
+  for (const entry of raw.split(',')) {
+    const [name, root] = entry.split('=').map((part) => part?.trim());
+    if (!name && !root) continue;
+    if (!name || !root || !workspaceNameSchema.safeParse(name).success) {
+      warnings.push(
+        `Ignoring ${WORKSPACES_ENV_VAR} entry "${entry.trim()}": expected name=codebaseRoot`,
+      );
+      continue;
+    }
+    workspaces[name] = { codebaseRoot: root };
+  }
+  return workspaces;
+}
+
+/**
+ * Load the effective configuration for a project directory
+ *
+ * Invalid files or variables never throw: they are reported in `warnings`
+ * and the affected values fall back to the next source.
+ *
+ * Named workspaces inherit the top-level settings (after environment
+ * overrides) and replace whatever they set themselves. The top-level
+ * settings form the "default" workspace.
+ *
+ * @param cwd - Project directory (default: process.cwd())
+ * @returns Effective configuration with workspaces, sources and warnings
+ */
+export function loadConfig(cwd: string = process.cwd()): LoadedConfig {
+  const warnings: string[] = [];
+
+  // Config file
+  let fileValues: z.infer<typeof rootFileSchema> = {};
+  let projectRoot = resolve(cwd);
+  const found = readConfigFile(cwd, warnings);
+  if (found) {
+    const parsed = rootFileSchema.safeParse(found.values);
+    if (parsed.success) {
+      fileValues = parsed.data;
+      projectRoot = dirname(found.file);
+    } else {
+      warnings.push(
+        `Ignoring invalid config in ${found.file}: ${formatIssues(parsed.error)}`,
+      );
+    }
+  }
+
+  const {
+    workspaces: fileWorkspaces = {},
+    defaultWorkspace,
+    ...settings
+  } = fileValues;
+  const baseLayers: SettingsLayer[] = [
+    { source: 'default', values: DEFAULT_CONFIG },
+    { source: 'file', values: settings },
+    { source: 'env', values: readEnvSettings(warnings) },
+  ];
+
+  // Named workspaces: file entries, then AEGISX_WORKSPACES roots
+  const named: Record<string, ConfigFileValues> = { ...fileWorkspaces };
+  for (const [name, values] of Object.entries(readEnvWorkspaces(warnings))) {
+    named[name] = { ...named[name], ...values };
+  }
+
+  const workspaces: LoadedWorkspace[] = [
+    { name: DEFAULT_WORKSPACE, ...resolveSettings(baseLayers, projectRoot) },
+  ];
+  for (const [name, values] of Object.entries(named)) {
+    const layers = [...baseLayers, { source: 'workspace' as const, values }];
+    const resolved = { name, ...resolveSettings(layers, projectRoot) };
+    if (name === DEFAULT_WORKSPACE) {
+      workspaces[0] = resolved;
+    } else {
+      workspaces.push(resolved);
+    }
+  }
+
+  // Default workspace: env, then file, then the top-level settings
+  let defaultName =
+    process.env[DEFAULT_WORKSPACE_ENV_VAR]?.trim() ||
+    defaultWorkspace ||
+    DEFAULT_WORKSPACE;
+  if (!workspaces.some((w) => w.name === defaultName)) {
+    warnings.push(
+      `Default workspace "${defaultName}" is not configured; using "${DEFAULT_WORKSPACE}"`,
+    );
+    defaultName = DEFAULT_WORKSPACE;
+  }
+  const current = workspaces.find((w) => w.name === defaultName)!;
+
+  return {
+    config: current.config,
+    projectRoot,
+    configFile: found?.file,
+    sources: current.sources,
+    defaultWorkspace: defaultName,
+    workspaces,
+    warnings,
+  };
+}
+
+/** Warnings already written to stderr */
+const reportedWarnings = new Set<string>();
+
+/**
+ * Load the configuration, logging each new warning to stderr once
+ */
+function loadConfigReported(): LoadedConfig {
+  const loaded = loadConfig();
+  for (const warning of loaded.warnings) {
+    if (!reportedWarnings.has(warning)) {
+      reportedWarnings.add(warning);
+      console.error(`[aegisx-mcp] ${warning}`);
+    }
+  }
+  return loaded;
+}
+
+/**
+ * Find a workspace by name (case-insensitive) in loaded configuration
+ * @param loaded - Loaded configuration
+ * @param workspace - Workspace name, or undefined for the default workspace
+ * @returns The workspace
+ * @throws UnknownWorkspaceError when no workspace has that name
+ */
+export function findWorkspace(
+  loaded: LoadedConfig,
+  workspace?: string,
+): LoadedWorkspace {
+  const name = workspace?.trim() || loaded.defaultWorkspace;
+  const match = loaded.workspaces.find(
+    (w) => w.name.toLowerCase() === name.toLowerCase(),
+  );
+  if (!match) {
+    throw new UnknownWorkspaceError(
+      name,
+      loaded.workspaces.map((w) => w.name),
+    );
+  }
+  return match;
+}
+
+/**
+ * Effective configuration of a workspace
+ * Read on every call so edits apply without a restart.
+ *
+ * @param workspace - Workspace name (default: the default workspace)
+ * @returns Effective values
+ * @throws UnknownWorkspaceError when no workspace has that name
+ */
+export function getConfig(workspace?: string): AegisxConfig {
+  return findWorkspace(loadConfigReported(), workspace).config;
+}
+
+/**
+ * All configured workspaces
+ */
+export function getWorkspaces(): LoadedWorkspace[] {
+  return loadConfigReported().workspaces;
+}
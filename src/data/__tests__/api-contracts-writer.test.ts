@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { getAllContracts, parseContractFile } from '../api-contracts-parser.js';
+import { formatContractMarkdown } from '../api-contracts-writer.js';
+
+const DOCS_PATH = fileURLToPath(new URL('./fixtures/docs', import.meta.url));
+
+describe('formatContractMarkdown', () => {
+  it('round-trips every fixture contract through the parser', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    expect(contracts.map((c) => c.feature).sort()).toEqual([
+      'budget-request',
+      'rbac',
+      'user-profile',
+    ]);
+
+    for (const contract of contracts) {
+      const markdown = formatContractMarkdown(contract);
+      const result = await parseContractFile(contract.filePath, markdown);
+
+      expect(result.errors ?? []).toEqual([]);
+      expect(result.contract).toBeDefined();
+
+      const { endpoints, parsedAt: _parsed, ...overview } = result.contract!;
+      const {
+        endpoints: original,
+        parsedAt: _originalParsed,
+        ...originalOverview
+      } = contract;
+      expect(overview).toEqual(originalOverview);
+
+      // Line numbers move with the layout; everything else must survive
+      const strip = ({ line: _line, ...rest }: (typeof original)[number]) =>
+        rest;
+      expect(endpoints.map(strip)).toEqual(original.map(strip));
+    }
+  });
+
+  it('writes a request schema only for endpoints that document one', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    const rbac = contracts.find((c) => c.feature === 'rbac')!;
+    const markdown = formatContractMarkdown(rbac);
+
+    const listSection = markdown.slice(
+      markdown.indexOf('### 1. List Roles'),
+      markdown.indexOf('### 2. Create Role'),
+    );
+    expect(listSection).not.toContain('#### Request Schema');
+    expect(listSection).toContain('#### Query Parameters');
+
+    const createSection = markdown.slice(
+      markdown.indexOf('### 2. Create Role'),
+      markdown.indexOf('### 3.'),
+    );
+    expect(createSection).toContain('#### Request Schema');
+    expect(createSection).toContain('interface CreateRolePayload');
+  });
+});
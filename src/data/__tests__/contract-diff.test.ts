@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { ApiContract, getAllContracts } from '../api-contracts-parser.js';
+import { diffContracts, formatContractChangelog } from '../contract-diff.js';
+import { compileSchema } from '../schema-compiler.js';
+
+const DOCS_PATH = fileURLToPath(new URL('./fixtures/docs', import.meta.url));
+
+/**
+ * Fixture contracts with rbac changed: the permissions endpoint removed,
+ * `description` made optional, a field and a query parameter added
+ */
+async function loadVersions(): Promise<{
+  before: ApiContract[];
+  after: ApiContract[];
+}> {
+  const before = await getAllContracts(DOCS_PATH);
+  const after = structuredClone(before);
+  const rbac = after.find((c) => c.feature === 'rbac')!;
+  rbac.endpoints = rbac.endpoints.filter((e) => e.method !== 'PUT');
+
+  const list = rbac.endpoints[0];
+  list.responseSchema = list
+    .responseSchema!.replace(
+      '  description: string;',
+      '  description?: string;',
+    )
+    .replace(
+      '  createdAt: string;',
+      '  createdAt: string;\n  archived: boolean;',
+    );
+  list.responseJsonSchema = compileSchema(list.responseSchema);
+  list.queryParameters = [
+    ...(list.queryParameters ?? []),
+    {
+      name: 'search',
+      type: 'string',
+      required: false,
+      description: 'Filter by name',
+    },
+  ];
+
+  return { before, after };
+}
+
+describe('diffContracts', () => {
+  it('finds no changes between identical versions', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    const diff = diffContracts(contracts, structuredClone(contracts));
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.summary).toEqual({
+      breaking: 0,
+      'non-breaking': 0,
+      documentation: 0,
+    });
+  });
+
+  it('classifies removed endpoints and loosened fields as breaking', async () => {
+    const { before, after } = await loadVersions();
+    const diff = diffContracts(before, after, { base: 'main', head: 'work' });
+
+    expect(diff.summary).toEqual({
+      breaking: 2,
+      'non-breaking': 2,
+      documentation: 0,
+    });
+    expect(
+      diff.changes.map((c) => [
+        c.severity,
+        c.kind,
+        c.method,
+        c.path,
+        c.field,
+        c.before,
+        c.after,
+      ]),
+    ).toEqual([
+      [
+        'breaking',
+        'endpoint-removed',
+        'PUT',
+        '/api/rbac/roles/:id/permissions',
+        undefined,
+        undefined,
+        undefined,
+      ],
+      [
+        'breaking',
+        'field-required',
+        'GET',
+        '/api/rbac/roles',
+        'roles[].description',
+        'required',
+        'optional',
+      ],
+      [
+        'non-breaking',
+        'parameter-added',
+        'GET',
+        '/api/rbac/roles',
+        'search',
+        undefined,
+        'string',
+      ],
+      [
+        'non-breaking',
+        'field-added',
+        'GET',
+        '/api/rbac/roles',
+        'roles[].archived',
+        undefined,
+        'boolean',
+      ],
+    ]);
+  });
+});
+
+describe('formatContractChangelog', () => {
+  it('groups changes by severity and feature', async () => {
+    const { before, after } = await loadVersions();
+    const changelog = formatContractChangelog(
+      diffContracts(before, after, { base: 'main', head: 'work' }),
+    );
+
+    expect(changelog).toContain('**Base:** `main` → **Head:** `work`');
+    expect(changelog).toContain('## ⚠️ Breaking Changes');
+    expect(changelog).toContain(
+      '- **PUT** `/api/rbac/roles/:id/permissions`: Endpoint removed',
+    );
+    expect(changelog).toContain(
+      '- **GET** `/api/rbac/roles`: New optional query parameter `search`',
+    );
+    expect(changelog.indexOf('Breaking Changes')).toBeLessThan(
+      changelog.indexOf('Non-breaking Changes'),
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { getAllContracts } from '../api-contracts-parser.js';
+import { lintContract } from '../contract-linter.js';
+import { callTool } from '../../tools/index.js';
+
+const DOCS_PATH = fileURLToPath(new URL('./fixtures/docs', import.meta.url));
+
+const BROKEN_CONTRACT = `# Widgets API Contract
+
+## API Overview
+
+**Base URL**: \`/api/widgets\`
+**Authentication**: Required
+
+## Endpoints
+
+### 1. Get Widget
+
+**GET** \`/api/widgets/:id\`
+
+**Authentication:** Required
+
+#### Response Schema
+
+\`\`\`typescript
+interface Widget {
+  id: string;
+  count: number;
+}
+\`\`\`
+
+#### Response Example
+
+\`\`\`json
+{ "id": "w1", "count": "three" }
+\`\`\`
+
+#### Error Responses
+
+**404 Not Found** - Widget not found
+
+### 3. Delete Widget
+
+**DELETE** \`/api/widgets/:id\`
+
+#### Path Parameters
+
+- \`id\` (string, required): Widget ID
+- \`slug\` (string, required): Unused
+
+#### Response Example
+
+\`\`\`json
+{ "deleted": true,
+\`\`\`
+
+### Get Widget Again
+
+**GET** \`/api/widgets/:id\`
+
+**Authentication:** None
+`;
+
+describe('lintContract', () => {
+  it('finds nothing in the fixture contracts', async () => {
+    for (const contract of await getAllContracts(DOCS_PATH)) {
+      expect(lintContract(readFileSync(contract.filePath, 'utf-8'))).toEqual(
+        [],
+      );
+    }
+  });
+
+  it('reports authoring problems with rule, severity and line', () => {
+    const issues = lintContract(BROKEN_CONTRACT);
+
+    expect(issues.map((i) => [i.rule, i.severity, i.line])).toEqual([
+      ['undocumented-path-param', 'warn', 12],
+      ['example-schema-mismatch', 'warn', 28],
+      ['missing-auth-errors', 'warn', 31],
+      ['numbering-gap', 'warn', 35],
+      ['missing-auth-errors', 'warn', 35],
+      ['missing-authentication', 'warn', 37],
+      ['unknown-path-param', 'warn', 42],
+      ['invalid-json', 'error', 47],
+      ['unnumbered-heading', 'error', 50],
+      ['duplicate-endpoint', 'error', 52],
+      ['undocumented-path-param', 'warn', 52],
+    ]);
+  });
+
+  it('suggests one-line replacements where it can', () => {
+    const issues = lintContract(BROKEN_CONTRACT);
+    const fix = (rule: string) => issues.find((i) => i.rule === rule)?.fix;
+
+    expect(fix('numbering-gap')?.replacement).toBe('### 2. Delete Widget');
+    expect(fix('unnumbered-heading')?.replacement).toBe(
+      '### 3. Get Widget Again',
+    );
+    expect(issues.find((i) => i.rule === 'example-schema-mismatch')).toEqual(
+      expect.objectContaining({
+        message: expect.stringContaining('/count'),
+      }),
+    );
+  });
+});
+
+describe('aegisx_api_lint', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lints the contracts under the configured docs path', async () => {
+    vi.stubEnv('AEGISX_DOCS_PATH', DOCS_PATH);
+
+    const result = await callTool('aegisx_api_lint', { feature: 'rbac' });
+    const { reports } = result.structuredContent as {
+      reports: Array<{ feature: string; issues: unknown[] }>;
+    };
+
+    expect(result.isError).toBeFalsy();
+    expect(reports).toEqual([
+      expect.objectContaining({ feature: 'rbac', issues: [] }),
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { getAllContracts } from '../api-contracts-parser.js';
+import { ContractTestSender, runContractTests } from '../contract-tests.js';
+
+const DOCS_PATH = fileURLToPath(new URL('./fixtures/docs', import.meta.url));
+
+async function budgetRequestEndpoints() {
+  const contracts = await getAllContracts(DOCS_PATH);
+  return contracts.find((c) => c.feature === 'budget-request')!.endpoints;
+}
+
+/**
+ * Sender answering creates with `createStatus` and lists with an existing
+ * record, recording every request
+ */
+function fakeSender(createStatus: number) {
+  const calls: string[] = [];
+  const send: ContractTestSender = async (method, path) => {
+    calls.push(`${method} ${path.split('?')[0]}`);
+    if (method === 'POST') {
+      return {
+        status: createStatus,
+        body: createStatus === 201 ? { data: { id: 'CREATED-1' } } : {},
+        responseTime: 1,
+      };
+    }
+    return {
+      status: 200,
+      body: { data: [{ id: 'EXISTING-1' }] },
+      responseTime: 1,
+    };
+  };
+  return { calls, send };
+}
+
+describe('runContractTests', () => {
+  it('updates and deletes only the record it created', async () => {
+    const { calls, send } = fakeSender(201);
+
+    await runContractTests(
+      'budget-request',
+      await budgetRequestEndpoints(),
+      send,
+    );
+
+    expect(calls).toEqual([
+      'POST /api/budget-requests',
+      'GET /api/budget-requests',
+      'GET /api/budget-requests/CREATED-1',
+      'PATCH /api/budget-requests/CREATED-1',
+      'DELETE /api/budget-requests/CREATED-1',
+    ]);
+  });
+
+  it('never modifies listed records when the create fails', async () => {
+    const { calls, send } = fakeSender(400);
+
+    const report = await runContractTests(
+      'budget-request',
+      await budgetRequestEndpoints(),
+      send,
+    );
+
+    expect(calls).toEqual([
+      'POST /api/budget-requests',
+      'GET /api/budget-requests',
+      'GET /api/budget-requests/EXISTING-1',
+    ]);
+    const skipped = report.results.filter((r) => r.outcome === 'skip');
+    expect(skipped.map((r) => r.method)).toEqual(['PATCH', 'DELETE']);
+    expect(skipped[0].message).toContain('existing records are never modified');
+  });
+});
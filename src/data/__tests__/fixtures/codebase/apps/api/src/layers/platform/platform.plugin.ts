@@ -0,0 +1,7 @@
+import fp from 'fastify-plugin';
+import type { FastifyInstance } from 'fastify';
+import { rbacRoutes } from './rbac/rbac.routes';
+
+export const platformPlugin = fp(async (fastify: FastifyInstance) => {
+  await fastify.register(rbacRoutes, { prefix: '/rbac/roles' });
+});
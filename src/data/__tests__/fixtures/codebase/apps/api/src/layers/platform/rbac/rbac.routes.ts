@@ -0,0 +1,34 @@
+import type { FastifyInstance } from 'fastify';
+import {
+  CreateRoleSchema,
+  ListRolesQuerySchema,
+  ListRolesResponseSchema,
+  RoleSchema,
+} from './rbac.schemas';
+
+export async function rbacRoutes(server: FastifyInstance) {
+  server.get(
+    '/',
+    {
+      schema: {
+        querystring: ListRolesQuerySchema,
+        response: { 200: ListRolesResponseSchema },
+      },
+    },
+    async () => ({ roles: [], total: 0 }),
+  );
+
+  server.route({
+    method: 'POST',
+    url: '/',
+    schema: {
+      body: CreateRoleSchema,
+      response: { 201: RoleSchema },
+    },
+    handler: async (request, reply) => reply.code(201).send(request.body),
+  });
+
+  server.patch('/:id/permissions', async () => ({}));
+
+  server.delete('/:id', async () => ({}));
+}
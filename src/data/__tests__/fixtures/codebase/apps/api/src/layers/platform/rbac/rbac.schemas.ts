@@ -0,0 +1,25 @@
+import { Type } from '@sinclair/typebox';
+
+export const RoleSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  description: Type.String(),
+  permissions: Type.Array(Type.String()),
+  createdAt: Type.String({ format: 'date-time' }),
+});
+
+export const ListRolesQuerySchema = Type.Object({
+  limit: Type.Optional(Type.Number()),
+  offset: Type.Optional(Type.Number()),
+});
+
+export const ListRolesResponseSchema = Type.Object({
+  roles: Type.Array(RoleSchema),
+  total: Type.Number(),
+});
+
+// Drifted from the contract: no description, permissions is a single string
+export const CreateRoleSchema = Type.Object({
+  name: Type.String(),
+  permissions: Type.String(),
+});
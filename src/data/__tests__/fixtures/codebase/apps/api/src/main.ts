@@ -0,0 +1,8 @@
+import Fastify from 'fastify';
+import { platformPlugin } from './layers/platform/platform.plugin';
+
+const app = Fastify({ logger: true });
+
+app.register(platformPlugin, { prefix: '/api' });
+
+app.listen({ port: 3000 });
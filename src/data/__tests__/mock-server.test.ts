@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { connect } from 'net';
+import { ApiContract, getAllContracts } from '../api-contracts-parser.js';
+import { ContractTestSender, runContractTests } from '../contract-tests.js';
+import { MockServer, startMockServer } from '../mock-server.js';
+
+const DOCS_PATH = fileURLToPath(new URL('./fixtures/docs', import.meta.url));
+
+let contracts: ApiContract[];
+let server: MockServer;
+
+// A fresh server per test: contract tests create and delete records
+beforeEach(async () => {
+  contracts = await getAllContracts(DOCS_PATH);
+  server = await startMockServer(contracts, { port: 0, host: '127.0.0.1' });
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+/**
+ * Send a request to the mock server and parse the JSON body
+ * Every fixture endpoint requires authentication; any bearer token passes.
+ */
+async function request(
+  method: string,
+  path: string,
+  body?: unknown,
+  token: string | null = 'test-token',
+): Promise<{ status: number; body: any }> {
+  const headers: Record<string, string> = {};
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+  const response = await fetch(`${server.url}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : undefined };
+}
+
+const send: ContractTestSender = async (method, path, body) => {
+  const started = Date.now();
+  const response = await request(method, path, body);
+  return { ...response, responseTime: Date.now() - started };
+};
+
+describe('startMockServer', () => {
+  it('serves every fixture feature on a free port', () => {
+    expect(server.port).toBeGreaterThan(0);
+    expect(server.features.sort()).toEqual([
+      'budget-request',
+      'rbac',
+      'user-profile',
+    ]);
+  });
+
+  it('passes the contract tests of every feature', async () => {
+    for (const contract of contracts) {
+      const report = await runContractTests(
+        contract.feature,
+        contract.endpoints,
+        send,
+      );
+      const failures = report.results.filter((r) => r.outcome === 'fail');
+
+      expect(failures).toEqual([]);
+      expect(report.passed).toBeGreaterThan(0);
+    }
+  });
+
+  it('creates records and returns them from later reads', async () => {
+    const created = await request('POST', '/api/rbac/roles', {
+      name: 'Auditor',
+      description: 'Read-only access',
+      permissions: ['reports.read'],
+    });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      name: 'Auditor',
+      permissions: ['reports.read'],
+    });
+
+    const list = await request('GET', '/api/rbac/roles');
+    expect(list.status).toBe(200);
+    expect(list.body.roles).toEqual(
+      expect.arrayContaining([expect.objectContaining({ name: 'Auditor' })]),
+    );
+  });
+
+  it('fills documented response fields on item actions and singletons', async () => {
+    const role = await request(
+      'PUT',
+      '/api/rbac/roles/role-admin/permissions',
+      {
+        permissions: ['users.read'],
+      },
+    );
+    expect(role.status).toBe(200);
+    expect(role.body).toMatchObject({
+      id: 'role-admin',
+      permissions: ['users.read'],
+      updatedAt: expect.any(String),
+    });
+
+    const first = await request('PUT', '/api/profile', {
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+    });
+    const second = await request('PUT', '/api/profile', {
+      firstName: 'Grace',
+      lastName: 'Hopper',
+    });
+    expect(second.status).toBe(200);
+    expect(second.body).toMatchObject({ firstName: 'Grace' });
+    expect(second.body.updatedAt >= first.body.updatedAt).toBe(true);
+  });
+
+  it('returns the error status asked for with __status', async () => {
+    const documented = await request(
+      'POST',
+      '/api/rbac/roles?__status=409',
+      {},
+    );
+    expect(documented.status).toBe(409);
+
+    const undocumented = await request('GET', '/api/rbac/roles?__status=418');
+    expect(undocumented.status).toBe(418);
+    expect(JSON.stringify(undocumented.body)).toContain('not documented');
+
+    const invalid = await request('GET', '/api/rbac/roles?__status=abc');
+    expect(invalid.status).toBe(400);
+    expect(JSON.stringify(invalid.body)).toContain('400-599');
+  });
+
+  it('validates request bodies against the request schema', async () => {
+    const response = await request('PUT', '/api/profile', {
+      firstName: 'Ada',
+    });
+    expect(response.status).toBe(400);
+    expect(JSON.stringify(response.body)).toContain('lastName');
+  });
+
+  it('rejects authenticated endpoints without a bearer token', async () => {
+    const response = await request('GET', '/api/rbac/roles', undefined, null);
+    expect(response.status).toBe(401);
+  });
+
+  it('answers undocumented paths with 404', async () => {
+    const response = await request('GET', '/api/unknown');
+    expect(response.status).toBe(404);
+  });
+
+  it('answers malformed path escapes with 400', async () => {
+    const response = await request(
+      'PUT',
+      '/api/rbac/roles/%E0%A4%A/permissions',
+      { permissions: [] },
+    );
+    expect(response.status).toBe(400);
+    expect(response.body.message).toContain('Malformed path segment');
+  });
+
+  it('survives a malformed Host header', async () => {
+    const statusLine = await new Promise<string>((resolve, reject) => {
+      const socket = connect(server.port, '127.0.0.1', () => {
+        socket.write(
+          'GET /api/rbac/roles HTTP/1.1\r\nHost: [bad\r\nConnection: close\r\n\r\n',
+        );
+      });
+      let data = '';
+      socket.on('data', (chunk) => (data += chunk));
+      socket.on('end', () => resolve(data.split('\r\n')[0]));
+      socket.on('error', reject);
+    });
+
+    expect(statusLine).toBe('HTTP/1.1 400 Bad Request');
+    expect((await request('GET', '/api/rbac/roles')).status).toBe(200);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'url';
+import { discoverRoutes, joinRoutePath } from '../route-discovery.js';
+import { callTool } from '../../tools/index.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures', import.meta.url));
+const CODEBASE_ROOT = `${FIXTURES}/codebase`;
+
+describe('joinRoutePath', () => {
+  it('joins prefixes and paths the way Fastify does', () => {
+    expect(joinRoutePath('/api/rbac', '/')).toBe('/api/rbac');
+    expect(joinRoutePath('/api/rbac', '')).toBe('/api/rbac');
+    expect(joinRoutePath('/api', '/roles/:id')).toBe('/api/roles/:id');
+    expect(joinRoutePath('', '/health')).toBe('/health');
+  });
+});
+
+describe('discoverRoutes', () => {
+  it('follows register prefixes from the entry through fp() plugins', async () => {
+    const routes = await discoverRoutes(CODEBASE_ROOT, {
+      entry: 'apps/api/src/main.ts',
+      routeGlobs: ['apps/api/src/layers/**/*.routes.ts'],
+    });
+
+    expect(
+      routes.map((r) => [r.method, r.path, r.line, r.prefixResolved]),
+    ).toEqual([
+      ['GET', '/api/rbac/roles', 10, true],
+      ['POST', '/api/rbac/roles', 21, true],
+      ['PATCH', '/api/rbac/roles/:id/permissions', 31, true],
+      ['DELETE', '/api/rbac/roles/:id', 33, true],
+    ]);
+    expect(routes[0].file).toBe(
+      `${CODEBASE_ROOT}/apps/api/src/layers/platform/rbac/rbac.routes.ts`,
+    );
+  });
+
+  it('reads route({ method, url }) and multi-line shorthand calls', async () => {
+    const routes = await discoverRoutes(CODEBASE_ROOT, {
+      entry: 'apps/api/src/main.ts',
+      routeGlobs: ['apps/api/src/layers/**/*.routes.ts'],
+    });
+    const [list, create] = routes;
+
+    expect(Object.keys(list.schemas ?? {})).toEqual([
+      'querystring',
+      'response',
+    ]);
+    expect(Object.keys(create.schemas ?? {})).toEqual(['body', 'response']);
+  });
+
+  it('leaves prefixes unresolved for route files the entry never reaches', async () => {
+    const routes = await discoverRoutes(CODEBASE_ROOT, {
+      routeGlobs: ['apps/api/src/layers/**/*.routes.ts'],
+    });
+
+    expect(routes.map((r) => [r.method, r.path, r.prefixResolved])).toEqual([
+      ['GET', '/', false],
+      ['POST', '/', false],
+      ['PATCH', '/:id/permissions', false],
+      ['DELETE', '/:id', false],
+    ]);
+  });
+});
+
+describe('aegisx_api_validate', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reports undocumented routes and method mismatches with file:line', async () => {
+    vi.stubEnv('AEGISX_DOCS_PATH', `${FIXTURES}/docs`);
+    vi.stubEnv('AEGISX_CODEBASE_ROOT', CODEBASE_ROOT);
+
+    const result = await callTool('aegisx_api_validate', { feature: 'rbac' });
+    const { reports } = result.structuredContent as {
+      reports: Array<Record<string, unknown>>;
+    };
+
+    expect(result.isError).toBeFalsy();
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      feature: 'rbac',
+      matched: 2,
+      missing: [],
+      undocumented: [
+        {
+          method: 'DELETE',
+          path: '/api/rbac/roles/:id',
+          foundIn: 'apps/api/src/layers/platform/rbac/rbac.routes.ts',
+          line: 33,
+        },
+      ],
+      methodMismatches: [
+        {
+          path: '/api/rbac/roles/:id/permissions',
+          documentedMethod: 'PUT',
+          implementedMethod: 'PATCH',
+          line: 31,
+        },
+      ],
+    });
+  });
+});
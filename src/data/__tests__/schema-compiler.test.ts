@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { getAllContracts } from '../api-contracts-parser.js';
+import { compileDeclarations, compileSchema } from '../schema-compiler.js';
+
+const DOCS_PATH = fileURLToPath(new URL('./fixtures/docs', import.meta.url));
+
+describe('compileSchema', () => {
+  it('compiles the first interface and collects referenced ones in $defs', () => {
+    const schema = compileSchema(`
+      interface Order {
+        id: string;
+        tags?: string[];
+        status: 'draft' | 'sent';
+        owner: Owner | null;
+      }
+
+      interface Owner {
+        name: string;
+        age: number;
+      }
+    `);
+
+    expect(schema).toMatchObject({
+      title: 'Order',
+      type: 'object',
+      required: ['id', 'status', 'owner'],
+      properties: {
+        id: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        status: { type: 'string', enum: ['draft', 'sent'] },
+        owner: { anyOf: [{ $ref: '#/$defs/Owner' }, { type: 'null' }] },
+      },
+      $defs: {
+        Owner: {
+          type: 'object',
+          required: ['name', 'age'],
+          properties: { name: { type: 'string' }, age: { type: 'number' } },
+        },
+      },
+    });
+  });
+
+  it('returns undefined for text without declarations', () => {
+    expect(compileSchema('just some prose')).toBeUndefined();
+  });
+});
+
+describe('compileDeclarations', () => {
+  it('refers to externally declared names instead of widening them', () => {
+    const compiled = compileDeclarations(
+      'interface ListItemsResponse { data: Item[]; total: number }',
+      new Set(['Item']),
+    );
+
+    expect(compiled?.root).toBe('ListItemsResponse');
+    expect(compiled?.definitions.ListItemsResponse.properties).toEqual({
+      data: { type: 'array', items: { $ref: '#/$defs/Item' } },
+      total: { type: 'number' },
+    });
+  });
+});
+
+describe('parsed contract schemas', () => {
+  it('compiles request schemas only from request sections', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    const endpoints = contracts.flatMap((c) => c.endpoints);
+    const find = (method: string, path: string) =>
+      endpoints.find((e) => e.method === method && e.path === path)!;
+
+    const listRoles = find('GET', '/api/rbac/roles');
+    expect(listRoles.requestSchema).toBeUndefined();
+    expect(listRoles.requestJsonSchema).toBeUndefined();
+    expect(listRoles.responseJsonSchema).toMatchObject({
+      title: 'ListRolesResponse',
+      properties: {
+        roles: { type: 'array', items: { $ref: '#/$defs/Role' } },
+      },
+    });
+
+    const createRole = find('POST', '/api/rbac/roles');
+    expect(createRole.requestJsonSchema).toMatchObject({
+      title: 'CreateRolePayload',
+      required: ['name', 'description', 'permissions'],
+    });
+  });
+});
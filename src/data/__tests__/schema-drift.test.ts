@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { getAllContracts, validateFeature } from '../api-contracts-parser.js';
+import { discoverRoutes } from '../route-discovery.js';
+import { compareRouteSchemas, compareSchemaVersions } from '../schema-drift.js';
+import { compileSchema } from '../schema-compiler.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures', import.meta.url));
+const CODEBASE_ROOT = `${FIXTURES}/codebase`;
+
+async function loadRbac() {
+  const contracts = await getAllContracts(`${FIXTURES}/docs`);
+  const routes = await discoverRoutes(CODEBASE_ROOT, {
+    entry: 'apps/api/src/main.ts',
+    routeGlobs: ['apps/api/src/layers/**/*.routes.ts'],
+  });
+  const endpoint = (method: string, path: string) =>
+    contracts
+      .flatMap((c) => c.endpoints)
+      .find((e) => e.method === method && e.path === path)!;
+  const route = (method: string, path: string) =>
+    routes.find((r) => r.method === method && r.path === path)!;
+  return { contracts, endpoint, route };
+}
+
+describe('compareRouteSchemas', () => {
+  it('finds no drift when the TypeBox schemas match the contract', async () => {
+    const { endpoint, route } = await loadRbac();
+
+    expect(
+      compareRouteSchemas(
+        endpoint('GET', '/api/rbac/roles'),
+        route('GET', '/api/rbac/roles').schemas,
+      ),
+    ).toEqual([]);
+  });
+
+  it('reports missing fields and type differences in the body', async () => {
+    const { endpoint, route } = await loadRbac();
+    const drifts = compareRouteSchemas(
+      endpoint('POST', '/api/rbac/roles'),
+      route('POST', '/api/rbac/roles').schemas,
+    );
+
+    expect(drifts).toEqual([
+      expect.objectContaining({
+        location: 'body',
+        field: 'description',
+        kind: 'missing',
+        documented: 'string',
+        required: true,
+      }),
+      expect.objectContaining({
+        location: 'body',
+        field: 'permissions',
+        kind: 'type',
+        documented: 'string[]',
+        implemented: 'string',
+      }),
+    ]);
+  });
+
+  it('skips routes without schemas', async () => {
+    const { endpoint } = await loadRbac();
+    expect(
+      compareRouteSchemas(endpoint('GET', '/api/rbac/roles'), undefined),
+    ).toEqual([]);
+  });
+});
+
+describe('validateFeature', () => {
+  it('attaches schema mismatches with the route location', async () => {
+    const { contracts } = await loadRbac();
+    const report = await validateFeature(contracts, 'rbac', CODEBASE_ROOT);
+
+    expect(report.schemaMismatches).toEqual([
+      expect.objectContaining({
+        method: 'POST',
+        path: '/api/rbac/roles',
+        field: 'description',
+        kind: 'missing',
+        file: 'apps/api/src/layers/platform/rbac/rbac.routes.ts',
+        line: 21,
+      }),
+      expect.objectContaining({
+        method: 'POST',
+        path: '/api/rbac/roles',
+        field: 'permissions',
+        kind: 'type',
+      }),
+    ]);
+  });
+});
+
+describe('compareSchemaVersions', () => {
+  it('reads drifts as before → after', () => {
+    const before = compileSchema(
+      'interface Role { id: string; name: string; level: number }',
+    )!;
+    const after = compileSchema(
+      'interface Role { id: string; name?: string; level: string; tags: string[] }',
+    )!;
+
+    const drifts = compareSchemaVersions('response', before, after);
+    expect(
+      drifts.map((d) => [d.field, d.kind, d.documented, d.implemented]),
+    ).toEqual(
+      expect.arrayContaining([
+        ['name', 'required', 'required', 'optional'],
+        ['level', 'type', 'number', 'string'],
+        ['tags', 'extra', undefined, 'string[]'],
+      ]),
+    );
+  });
+});
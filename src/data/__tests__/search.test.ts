@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { fileURLToPath } from 'url';
+import { getAllContracts, searchEndpoints } from '../api-contracts-parser.js';
+import { searchAll } from '../search.js';
+import { searchComponents } from '../components.js';
+import { searchPatterns } from '../patterns.js';
+
+const DOCS_PATH = fileURLToPath(new URL('./fixtures/docs', import.meta.url));
+
+describe('searchEndpoints', () => {
+  it('scores the best match 100 and the rest relative to it', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    const results = searchEndpoints(contracts, 'roles');
+
+    expect(results[0].matchScore).toBe(100);
+    expect(results.map((e) => e.path)).toEqual(
+      expect.arrayContaining([
+        '/api/rbac/roles',
+        '/api/rbac/roles/:id/permissions',
+      ]),
+    );
+    expect(results.every((e) => e.matchScore <= 100)).toBe(true);
+  });
+
+  it('applies the feature, method and limit options', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+
+    expect(
+      searchEndpoints(contracts, 'roles', { method: 'POST' }).map(
+        (e) => `${e.method} ${e.path}`,
+      ),
+    ).toEqual(['POST /api/rbac/roles']);
+    expect(searchEndpoints(contracts, 'budget', { feature: 'RBAC' })).toEqual(
+      [],
+    );
+    expect(searchEndpoints(contracts, 'roles', { limit: 1 })).toHaveLength(1);
+  });
+
+  it('returns nothing for an empty query', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    expect(searchEndpoints(contracts, '  ')).toEqual([]);
+  });
+
+  it('keeps using its index while the contracts are unchanged', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    const first = searchEndpoints(contracts, 'profile');
+
+    // The parser returns the same objects until a contract file changes
+    const again = await getAllContracts(DOCS_PATH);
+    expect(again.every((contract, i) => contract === contracts[i])).toBe(true);
+    expect(searchEndpoints(again, 'profile')).toEqual(first);
+
+    // Different contracts are indexed again
+    const rbacOnly = contracts.filter((c) => c.feature === 'rbac');
+    expect(searchEndpoints(rbacOnly, 'profile')).toEqual([]);
+  });
+});
+
+describe('searchAll', () => {
+  it('mixes endpoints with components, patterns and commands', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    const hits = searchAll('role permissions', contracts);
+
+    expect(hits[0].item).toMatchObject({
+      type: 'endpoint',
+      name: 'PUT /api/rbac/roles/:id/permissions',
+    });
+  });
+
+  it('filters by kind', async () => {
+    const contracts = await getAllContracts(DOCS_PATH);
+    const hits = searchAll('generate', contracts, {
+      types: ['command'],
+      limit: 5,
+    });
+
+    expect(hits.length).toBeGreaterThan(0);
+    expect(hits.length).toBeLessThanOrEqual(5);
+    expect(hits.every((hit) => hit.item.type === 'command')).toBe(true);
+  });
+});
+
+describe('searchComponents and searchPatterns', () => {
+  it('list everything for an empty query', () => {
+    expect(searchComponents('').length).toBeGreaterThan(0);
+    expect(searchComponents(' ')).toEqual(searchComponents(''));
+    expect(searchPatterns('').length).toBeGreaterThan(0);
+  });
+
+  it('rank by relevance', () => {
+    expect(searchComponents('status badge')[0].name).toBe('Status Badge');
+    expect(searchPatterns('migraton')[0].name).toMatch(/Migration/);
+  });
+});
@@ -0,0 +1,859 @@
+/**
+ * Angular Client Generator
+ * Renders an API contract as an Angular injectable service plus the
+ * TypeScript interfaces it uses, following the "Angular HTTP Service" pattern
+ */
+
+import {
+  REQUEST_BODY_METHODS,
+  type ApiContract,
+  type ApiEndpoint,
+} from './api-contracts-parser.js';
+import { parameterSchema } from './openapi.js';
+import {
+  compileDeclarations,
+  DEFS_REF_PREFIX,
+  type JsonSchema,
+} from './schema-compiler.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for generating a client
+ */
+export interface AngularClientOptions {
+  /** Module that exports `environment` with `apiUrl` (default: "@env/environment") */
+  environmentImport?: string;
+}
+
+/**
+ * One generated source file
+ */
+export interface GeneratedFile {
+  /** File name (e.g., "rbac.service.ts") */
+  fileName: string;
+
+  /** File content */
+  content: string;
+}
+
+/**
+ * Service method generated for one endpoint
+ */
+export interface GeneratedMethod {
+  /** Method name (e.g., "getRoles") */
+  name: string;
+
+  /** HTTP method */
+  method: ApiEndpoint['method'];
+
+  /** Contract path */
+  path: string;
+
+  /** Name of the signal wrapper, for GET endpoints */
+  resource?: string;
+}
+
+/**
+ * Generated Angular client for one feature
+ */
+export interface AngularClient {
+  /** Feature name */
+  feature: string;
+
+  /** Service class name (e.g., "RbacService") */
+  serviceName: string;
+
+  /** Types file, then service file */
+  files: GeneratedFile[];
+
+  /** One method per endpoint, in contract order */
+  methods: GeneratedMethod[];
+}
+
+/** Module used when no environment import is given */
+const DEFAULT_ENVIRONMENT_IMPORT = '@env/environment';
+
+/** Methods whose HttpClient shorthand takes a body argument */
+const BODY_METHODS = new Set(['POST', 'PUT', 'PATCH']);
+
+// ============================================================================
+// Naming
+// ============================================================================
+
+/**
+ * Convert "budget-requests" or "user_id" to "BudgetRequests" / "UserId"
+ */
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Convert "budget-requests" to "budgetRequests"
+ */
+function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Whether a path segment names a collection ("roles", not "status")
+ */
+function isPlural(word: string): boolean {
+  return /s$/i.test(word) && !/(ss|us|is)$/i.test(word);
+}
+
+/**
+ * Singular form of a collection name ("categories" → "category")
+ */
+function singularize(word: string): string {
+  if (!isPlural(word)) return word;
+  if (/ies$/i.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(ches|shes|xes|sses)$/i.test(word)) return word.slice(0, -2);
+  return word.slice(0, -1);
+}
+
+/**
+ * Method name in the pattern's style
+ * e.g. GET /roles → getRoles, GET /roles/:id → getRole,
+ * POST /roles → createRole, PUT /roles/:id/permissions → updateRolePermissions,
+ * POST /requests/:id/approve → approveRequest
+ */
+function buildMethodName(endpoint: ApiEndpoint): string {
+  const segments = endpoint.path.split('/').filter(Boolean);
+  const literals = segments.filter((s) => !s.startsWith(':'));
+  const last = segments[segments.length - 1] ?? '';
+  const resource = literals[literals.length - 1] ?? 'root';
+  const verb = {
+    GET: 'get',
+    POST: 'create',
+    PUT: 'update',
+    PATCH: 'update',
+    DELETE: 'delete',
+    HEAD: 'head',
+    OPTIONS: 'options',
+  }[endpoint.method];
+
+  // Single item: /roles/:id
+  if (last.startsWith(':')) {
+    return `${verb}${toPascalCase(singularize(resource))}`;
+  }
+
+  // Sub-resource or action of an item: /roles/:id/permissions
+  const previous = segments[segments.length - 2];
+  if (previous?.startsWith(':') && literals.length > 1) {
+    const parent = toPascalCase(singularize(literals[literals.length - 2]));
+    if (endpoint.method === 'POST') {
+      return isPlural(resource)
+        ? `create${parent}${toPascalCase(singularize(resource))}`
+        : `${toCamelCase(resource)}${parent}`;
+    }
+    return `${verb}${parent}${toPascalCase(resource)}`;
+  }
+
+  // Collection or singleton: /roles, /profile, /auth/login
+  if (endpoint.method === 'POST') {
+    return isPlural(resource)
+      ? `create${toPascalCase(singularize(resource))}`
+      : toCamelCase(resource);
+  }
+  return `${verb}${toPascalCase(resource)}`;
+}
+
+/**
+ * Make a name unique among the ones already taken
+ */
+function uniqueName(name: string, taken: Set<string>, suffix = ''): string {
+  let candidate = taken.has(name) && suffix ? `${name}${suffix}` : name;
+  for (let index = 2; taken.has(candidate); index++) {
+    candidate = `${name}${index}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Whether a property name can be written without quotes
+ */
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+/**
+ * Property key, quoted when it is not an identifier
+ */
+function propertyKey(name: string): string {
+  return isIdentifier(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Property access expression (`query.limit` or `query['page-size']`)
+ */
+function propertyAccess(object: string, name: string): string {
+  return isIdentifier(name)
+    ? `${object}.${name}`
+    : `${object}[${propertyKey(name)}]`;
+}
+
+// ============================================================================
+// TypeScript Rendering
+// ============================================================================
+
+/**
+ * Whether a schema is a plain object with named properties
+ */
+function isObjectSchema(schema: JsonSchema): boolean {
+  return schema.type === 'object' && !!schema.properties && !schema.allOf;
+}
+
+/**
+ * Merge two declarations with the same name from different sections
+ * Objects keep every property; only the ones all sections require stay
+ * required. Other conflicts become a union.
+ */
+function mergeDeclarations(a: JsonSchema, b: JsonSchema): JsonSchema {
+  if (JSON.stringify(a) === JSON.stringify(b)) return a;
+
+  if (isObjectSchema(a) && isObjectSchema(b)) {
+    const properties: Record<string, JsonSchema> = { ...a.properties };
+    for (const [name, property] of Object.entries(b.properties!)) {
+      properties[name] = properties[name]
+        ? mergeDeclarations(properties[name], property)
+        : property;
+    }
+    const required = (a.required ?? []).filter((name) =>
+      (b.required ?? []).includes(name),
+    );
+    const merged: JsonSchema = { ...a, properties };
+    if (required.length > 0) merged.required = required;
+    else delete merged.required;
+    return merged;
+  }
+
+  return {
+    ...(a.description && { description: a.description }),
+    anyOf: [a, b],
+  };
+}
+
+/**
+ * JSDoc line for a description
+ */
+function docComment(description: string | undefined, indent: string): string[] {
+  return description
+    ? [`${indent}/** ${description.replace(/\*\//g, '*\\/')} */`]
+    : [];
+}
+
+/**
+ * TypeScript literal type for a const or enum value
+ */
+function literalType(value: unknown): string {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : JSON.stringify(value);
+}
+
+/**
+ * Wrap a rendered type so it can take an array suffix
+ */
+function arrayOf(type: string): string {
+  return /^[\w.]+(\[\])*$/.test(type) ? `${type}[]` : `Array<${type}>`;
+}
+
+/**
+ * Render object members (properties and index signature)
+ */
+function renderMembers(schema: JsonSchema, indent: string): string[] {
+  const lines: string[] = [];
+  const required = new Set(schema.required ?? []);
+
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    lines.push(...docComment(property.description, indent));
+    lines.push(
+      `${indent}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${renderType(property, indent)};`,
+    );
+  }
+
+  const additional = schema.additionalProperties;
+  if (additional && typeof additional === 'object') {
+    lines.push(`${indent}[key: string]: ${renderType(additional, indent)};`);
+  } else if (additional === true) {
+    lines.push(`${indent}[key: string]: unknown;`);
+  }
+
+  return lines;
+}
+
+/**
+ * Render a schema as a TypeScript type expression
+ * @param schema - Schema compiled from a contract declaration
+ * @param indent - Indentation of the line the type appears on
+ */
+function renderType(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref?.startsWith(DEFS_REF_PREFIX)) {
+    return schema.$ref.slice(DEFS_REF_PREFIX.length);
+  }
+  if (schema.const !== undefined) return literalType(schema.const);
+  if (schema.enum) {
+    return schema.enum.map(literalType).join(' | ');
+  }
+  if (schema.anyOf) {
+    return schema.anyOf.map((s) => renderType(s, indent)).join(' | ');
+  }
+  if (schema.allOf) {
+    return schema.allOf
+      .map((s) => {
+        const type = renderType(s, indent);
+        return type.includes(' | ') ? `(${type})` : type;
+      })
+      .join(' & ');
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type
+      .map((type) => renderType({ ...schema, type }, indent))
+      .join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      if (schema.prefixItems) {
+        return `[${schema.prefixItems.map((s) => renderType(s, indent)).join(', ')}]`;
+      }
+      return arrayOf(
+        schema.items ? renderType(schema.items, indent) : 'unknown',
+      );
+    case 'object': {
+      const hasProperties = Object.keys(schema.properties ?? {}).length > 0;
+      const additional = schema.additionalProperties;
+      if (!hasProperties && additional && typeof additional === 'object') {
+        return `Record<string, ${renderType(additional, indent)}>`;
+      }
+      if (!hasProperties) return 'Record<string, unknown>';
+      return ['{', ...renderMembers(schema, `${indent}  `), `${indent}}`].join(
+        '\n',
+      );
+    }
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Render one named declaration
+ */
+function renderDeclaration(name: string, schema: JsonSchema): string {
+  const lines = docComment(schema.description, '');
+
+  // interface A extends B, C { ... }
+  const parts = schema.allOf ?? [];
+  const last = parts[parts.length - 1];
+  const bases = parts.slice(0, -1);
+  if (
+    last &&
+    isObjectSchema(last) &&
+    bases.length > 0 &&
+    bases.every((base) => base.$ref?.startsWith(DEFS_REF_PREFIX))
+  ) {
+    lines.push(
+      `export interface ${name} extends ${bases.map((base) => renderType(base)).join(', ')} {`,
+    );
+    lines.push(...renderMembers(last, '  '));
+    lines.push('}');
+  } else if (isObjectSchema(schema)) {
+    const members = renderMembers(schema, '  ');
+    if (members.length === 0) {
+      lines.push(`export interface ${name} {}`);
+    } else {
+      lines.push(`export interface ${name} {`, ...members, '}');
+    }
+  } else {
+    lines.push(`export type ${name} = ${renderType(schema)};`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Client Building
+// ============================================================================
+
+/**
+ * One parameter of a generated method
+ */
+interface MethodParameter {
+  name: string;
+  type: string;
+  optional?: boolean;
+}
+
+/**
+ * Endpoint with everything needed to render its method
+ */
+interface ClientMethod extends GeneratedMethod {
+  endpoint: ApiEndpoint;
+  pathParams: MethodParameter[];
+  bodyType?: string;
+  responseType: string;
+  queryType?: string;
+  queryRequired: boolean;
+}
+
+/**
+ * Collects declarations across endpoint sections and renders both files
+ */
+class AngularClientBuilder {
+  private declarations = new Map<string, JsonSchema>();
+  private usedTypes = new Set<string>();
+  private methodNames = new Set<string>();
+  private methods: ClientMethod[] = [];
+  private baseUrl: string;
+  readonly serviceName: string;
+
+  /** Types declared by any block the client emits */
+  private featureTypes: Set<string>;
+
+  constructor(
+    private contract: ApiContract,
+    private options: AngularClientOptions,
+  ) {
+    this.serviceName = `${toPascalCase(contract.feature)}Service`;
+    this.baseUrl = this.commonPrefix();
+    this.featureTypes = new Set(
+      contract.endpoints
+        .flatMap((endpoint) => [
+          endpoint.responseSchema,
+          REQUEST_BODY_METHODS.has(endpoint.method)
+            ? endpoint.requestSchema
+            : undefined,
+        ])
+        .flatMap((source) =>
+          source ? (compileDeclarations(source)?.names ?? []) : [],
+        ),
+    );
+  }
+
+  /**
+   * Literal path segments every endpoint shares, as the service base URL
+   */
+  private commonPrefix(): string {
+    const paths = this.contract.endpoints.map((e) =>
+      e.path.split('/').filter(Boolean),
+    );
+    const prefix: string[] = [];
+    for (const [index, segment] of (paths[0] ?? []).entries()) {
+      if (segment.startsWith(':')) break;
+      if (!paths.every((segments) => segments[index] === segment)) break;
+      prefix.push(segment);
+    }
+    return prefix.length > 0 ? `/${prefix.join('/')}` : '';
+  }
+
+  /**
+   * Add the declarations of a schema block
+   * Names declared in other blocks of the feature (e.g., `BudgetRequest` in
+   * `data: BudgetRequest[]`) resolve to those declarations.
+   *
+   * @returns Name of the declaration the block describes
+   */
+  private addSchema(source: string | undefined): string | undefined {
+    const compiled = source
+      ? compileDeclarations(source, this.featureTypes)
+      : null;
+    if (!compiled) return undefined;
+
+    for (const name of compiled.names) {
+      const schema = compiled.definitions[name];
+      const existing = this.declarations.get(name);
+      this.declarations.set(
+        name,
+        existing ? mergeDeclarations(existing, schema) : schema,
+      );
+    }
+    this.usedTypes.add(compiled.root);
+    return compiled.root;
+  }
+
+  /**
+   * Add an interface for the query parameters of a method
+   */
+  private addQuery(method: string, endpoint: ApiEndpoint): string | undefined {
+    const parameters = endpoint.queryParameters ?? [];
+    if (parameters.length === 0) return undefined;
+
+    const schema: JsonSchema = { type: 'object', properties: {} };
+    const required = parameters.filter((p) => p.required).map((p) => p.name);
+    for (const parameter of parameters) {
+      schema.properties![parameter.name] = {
+        ...parameterSchema(parameter.type),
+        ...(parameter.description && { description: parameter.description }),
+      };
+    }
+    if (required.length > 0) schema.required = required;
+
+    const name = uniqueName(
+      `${toPascalCase(method)}Query`,
+      new Set(this.declarations.keys()),
+    );
+    this.declarations.set(name, schema);
+    this.usedTypes.add(name);
+    return name;
+  }
+
+  /**
+   * Collect one endpoint
+   */
+  addEndpoint(endpoint: ApiEndpoint): void {
+    const name = uniqueName(
+      buildMethodName(endpoint),
+      this.methodNames,
+      toPascalCase(endpoint.method.toLowerCase()),
+    );
+
+    const documented = new Map(
+      (endpoint.pathParameters ?? []).map((p) => [p.name, p]),
+    );
+    const pathParams = (endpoint.path.match(/:\w+/g) ?? []).map((param) => {
+      const documentedParam = documented.get(param.slice(1));
+      return {
+        name: toCamelCase(param.slice(1)),
+        type: renderType(parameterSchema(documentedParam?.type ?? 'string')),
+      };
+    });
+
+    const responseType =
+      this.addSchema(endpoint.responseSchema) ??
+      (endpoint.method === 'DELETE' ? 'void' : 'unknown');
+    const requestType = REQUEST_BODY_METHODS.has(endpoint.method)
+      ? this.addSchema(endpoint.requestSchema)
+      : undefined;
+    const bodyType =
+      requestType ??
+      (BODY_METHODS.has(endpoint.method) ? 'unknown' : undefined);
+
+    const queryType = this.addQuery(name, endpoint);
+
+    this.methods.push({
+      name,
+      method: endpoint.method,
+      path: endpoint.path,
+      ...(endpoint.method === 'GET' && {
+        resource: uniqueName(`${name}Resource`, this.methodNames),
+      }),
+      endpoint,
+      pathParams,
+      bodyType,
+      responseType,
+      queryType,
+      queryRequired: (endpoint.queryParameters ?? []).some((p) => p.required),
+    });
+  }
+
+  /**
+   * Render the types file
+   */
+  renderTypes(): string {
+    const lines: string[] = [];
+    lines.push('/**');
+    lines.push(` * ${toPascalCase(this.contract.feature)} API types`);
+    lines.push(
+      ` * Generated from the ${this.contract.feature} API contract by aegisx_api_generate_client`,
+    );
+    lines.push(' */');
+
+    for (const [name, schema] of this.declarations) {
+      lines.push('');
+      lines.push(renderDeclaration(name, schema));
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Parameter list of a method
+   */
+  private parameters(method: ClientMethod): MethodParameter[] {
+    const parameters: MethodParameter[] = [...method.pathParams];
+    if (method.bodyType) {
+      parameters.push({ name: 'data', type: method.bodyType });
+    }
+    if (method.queryType) {
+      parameters.push({
+        name: 'query',
+        type: method.queryType,
+        optional: !method.queryRequired,
+      });
+    }
+    return parameters;
+  }
+
+  /**
+   * URL expression of a method
+   */
+  private url(method: ClientMethod): string {
+    const rest = method.path
+      .slice(this.baseUrl.length)
+      .replace(/:(\w+)/g, (_, param: string) => `\${${toCamelCase(param)}}`);
+    return rest ? `\`\${this.baseUrl}${rest}\`` : 'this.baseUrl';
+  }
+
+  /**
+   * Render one service method
+   */
+  private renderMethod(method: ClientMethod): string[] {
+    const lines: string[] = [];
+    const { endpoint } = method;
+    const signature = this.parameters(method)
+      .map((p) => `${p.name}${p.optional ? '?' : ''}: ${p.type}`)
+      .join(', ');
+
+    lines.push('  /**');
+    if (endpoint.description) lines.push(`   * ${endpoint.description}`);
+    lines.push(`   * ${endpoint.method} ${endpoint.path}`);
+    lines.push('   */');
+    lines.push(
+      `  ${method.name}(${signature}): Observable<${method.responseType}> {`,
+    );
+
+    const options: string[] = [];
+    if (method.queryType) {
+      const indent = method.queryRequired ? '    ' : '      ';
+      lines.push('    let params = new HttpParams();');
+      lines.push('');
+      if (!method.queryRequired) lines.push('    if (query) {');
+      for (const parameter of endpoint.queryParameters ?? []) {
+        const value = propertyAccess('query', parameter.name);
+        const key = `'${parameter.name}'`;
+        if (parameterSchema(parameter.type).type === 'array') {
+          lines.push(
+            `${indent}for (const value of ${value} ?? []) params = params.append(${key}, String(value));`,
+          );
+        } else {
+          lines.push(
+            `${indent}if (${value} !== undefined) params = params.set(${key}, String(${value}));`,
+          );
+        }
+      }
+      if (!method.queryRequired) lines.push('    }');
+      lines.push('');
+      options.push('params');
+    }
+
+    const url = this.url(method);
+    const type = method.responseType;
+    let call: string;
+    if (BODY_METHODS.has(endpoint.method)) {
+      const args = [
+        url,
+        'data',
+        ...(options.length > 0 ? [`{ ${options.join(', ')} }`] : []),
+      ];
+      call = `this.http.${endpoint.method.toLowerCase()}<${type}>(${args.join(', ')})`;
+    } else if (endpoint.method === 'GET' || endpoint.method === 'DELETE') {
+      if (method.bodyType) options.unshift('body: data');
+      const args = [
+        url,
+        ...(options.length > 0 ? [`{ ${options.join(', ')} }`] : []),
+      ];
+      call = `this.http.${endpoint.method.toLowerCase()}<${type}>(${args.join(', ')})`;
+    } else {
+      if (method.bodyType) options.unshift('body: data');
+      call = `this.http.request<${type}>('${endpoint.method}', ${url}${options.length > 0 ? `, { ${options.join(', ')} }` : ''})`;
+    }
+
+    lines.push(`    return ${call}`);
+    lines.push('      .pipe(catchError(this.handleError));');
+    lines.push('  }');
+
+    return lines;
+  }
+
+  /**
+   * Render the signal wrapper of a GET method
+   */
+  private renderResource(method: ClientMethod): string[] {
+    const parameters = this.parameters(method);
+    const signature = parameters
+      .map((p) => `${p.name}${p.optional ? '?' : ''}: ${p.type}`)
+      .join(', ');
+    const args = parameters.map((p) => p.name).join(', ');
+
+    return [
+      `  /** Signal state of ${method.name}(); call reload() to fetch again */`,
+      `  ${method.resource}(${signature}): ApiResource<${method.responseType}> {`,
+      `    return this.toResource(() => this.${method.name}(${args}));`,
+      '  }',
+    ];
+  }
+
+  /**
+   * Render the service file
+   */
+  renderService(typesModule: string): string {
+    const hasResources = this.methods.some((m) => m.resource);
+    const hasQuery = this.methods.some((m) => m.queryType);
+    const lines: string[] = [];
+
+    lines.push('/**');
+    lines.push(` * ${this.serviceName}`);
+    lines.push(
+      ` * Generated from the ${this.contract.feature} API contract by aegisx_api_generate_client`,
+    );
+    lines.push(' */');
+    lines.push('');
+    lines.push(
+      `import { Injectable, ${hasResources ? 'Signal, ' : ''}inject${hasResources ? ', signal' : ''} } from '@angular/core';`,
+    );
+    lines.push(
+      `import { HttpClient${hasQuery ? ', HttpParams' : ''} } from '@angular/common/http';`,
+    );
+    lines.push(`import { Observable, catchError, throwError } from 'rxjs';`);
+    lines.push(
+      `import { environment } from '${this.options.environmentImport ?? DEFAULT_ENVIRONMENT_IMPORT}';`,
+    );
+    if (this.usedTypes.size > 0) {
+      lines.push(
+        `import { ${Array.from(this.usedTypes).join(', ')} } from './${typesModule}';`,
+      );
+    }
+    lines.push('');
+
+    if (hasResources) {
+      lines.push('/**');
+      lines.push(' * Signal state of a GET request');
+      lines.push(' */');
+      lines.push('export interface ApiResource<T> {');
+      lines.push('  value: Signal<T | undefined>;');
+      lines.push('  loading: Signal<boolean>;');
+      lines.push('  error: Signal<unknown>;');
+      lines.push('  reload: () => void;');
+      lines.push('}');
+      lines.push('');
+    }
+
+    lines.push(`@Injectable({ providedIn: 'root' })`);
+    lines.push(`export class ${this.serviceName} {`);
+    lines.push('  private http = inject(HttpClient);');
+    lines.push(
+      `  private baseUrl = \`\${environment.apiUrl}${this.baseUrl}\`;`,
+    );
+
+    for (const method of this.methods) {
+      lines.push('');
+      lines.push(...this.renderMethod(method));
+    }
+
+    for (const method of this.methods.filter((m) => m.resource)) {
+      lines.push('');
+      lines.push(...this.renderResource(method));
+    }
+
+    if (hasResources) {
+      lines.push('');
+      lines.push(
+        '  private toResource<T>(request: () => Observable<T>): ApiResource<T> {',
+      );
+      lines.push('    const value = signal<T | undefined>(undefined);');
+      lines.push('    const loading = signal(false);');
+      lines.push('    const error = signal<unknown>(undefined);');
+      lines.push('');
+      lines.push('    const reload = () => {');
+      lines.push('      loading.set(true);');
+      lines.push('      error.set(undefined);');
+      lines.push('      request().subscribe({');
+      lines.push('        next: (result) => {');
+      lines.push('          value.set(result);');
+      lines.push('          loading.set(false);');
+      lines.push('        },');
+      lines.push('        error: (err) => {');
+      lines.push('          error.set(err);');
+      lines.push('          loading.set(false);');
+      lines.push('        },');
+      lines.push('      });');
+      lines.push('    };');
+      lines.push('    reload();');
+      lines.push('');
+      lines.push('    return {');
+      lines.push('      value: value.asReadonly(),');
+      lines.push('      loading: loading.asReadonly(),');
+      lines.push('      error: error.asReadonly(),');
+      lines.push('      reload,');
+      lines.push('    };');
+      lines.push('  }');
+    }
+
+    lines.push('');
+    lines.push('  private handleError(error: any) {');
+    lines.push(`    console.error('API Error:', error);`);
+    lines.push('    return throwError(() => error);');
+    lines.push('  }');
+    lines.push('}');
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Generated methods, without rendering details
+   */
+  get generatedMethods(): GeneratedMethod[] {
+    return this.methods.map(({ name, method, path, resource }) => ({
+      name,
+      method,
+      path,
+      ...(resource && { resource }),
+    }));
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Generate an Angular service and its types from a contract
+ * Request and response bodies are typed from the contract's TypeScript
+ * blocks; declarations repeated across sections are merged into one.
+ *
+ * @param contract - Parsed contract of one feature
+ * @param options - Generation options
+ * @returns `<feature>.types.ts` and `<feature>.service.ts`
+ */
+export function generateAngularClient(
+  contract: ApiContract,
+  options: AngularClientOptions = {},
+): AngularClient {
+  const builder = new AngularClientBuilder(contract, options);
+  for (const endpoint of contract.endpoints) {
+    builder.addEndpoint(endpoint);
+  }
+
+  const typesModule = `${contract.feature}.types`;
+  return {
+    feature: contract.feature,
+    serviceName: builder.serviceName,
+    files: [
+      { fileName: `${typesModule}.ts`, content: builder.renderTypes() },
+      {
+        fileName: `${contract.feature}.service.ts`,
+        content: builder.renderService(typesModule),
+      },
+    ],
+    methods: builder.generatedMethods,
+  };
+}
@@ -9,6 +9,9 @@
  * - Validation reports comparing docs vs implementation
  */
 
+import type { JsonSchema } from './schema-compiler.js';
+import type { SchemaDrift } from './schema-drift.js';
+
 /**
  * Represents a single API endpoint within a contract
  */
@@ -34,6 +37,12 @@ export interface ApiEndpoint {
   /** TypeScript interface or JSON schema for response body (optional) */
   responseSchema?: string;
 
+  /** JSON Schema compiled from requestSchema (optional) */
+  requestJsonSchema?: JsonSchema;
+
+  /** JSON Schema compiled from responseSchema (optional) */
+  responseJsonSchema?: JsonSchema;
+
   /** Example request (bash, curl, or JSON format) (optional) */
   requestExample?: string;
 
@@ -48,8 +57,18 @@ export interface ApiEndpoint {
 
   /** Description of query parameters if any */
   queryParameters?: QueryParameter[];
+
+  /** 1-based line of the endpoint heading in the contract file */
+  line?: number;
 }
 
+/**
+ * Methods whose request schema describes a request body
+ * A request section on GET, HEAD or OPTIONS only documents that there is none.
+ */
+export const REQUEST_BODY_METHODS: ReadonlySet<ApiEndpoint['method']> =
+  new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
 /**
  * Represents an error response that can be returned by an endpoint
  */
@@ -147,6 +166,9 @@ export interface ValidationReport {
   /** Endpoints with method mismatches between docs and code */
   methodMismatches: MethodMismatch[];
 
+  /** Field-level differences between contract and TypeBox route schemas */
+  schemaMismatches: SchemaMismatch[];
+
   /** Timestamp when validation was performed */
   validatedAt?: Date;
 }
@@ -163,6 +185,12 @@ export interface MissingEndpoint {
 
   /** Expected location where this endpoint should be implemented */
   expectedFile: string;
+
+  /** Contract file documenting the endpoint, relative to the codebase root */
+  documentedIn?: string;
+
+  /** Line of the endpoint heading in the contract file */
+  line?: number;
 }
 
 /**
@@ -177,6 +205,9 @@ export interface UndocumentedEndpoint {
 
   /** File path where this endpoint is implemented */
   foundIn: string;
+
+  /** Line of the route declaration */
+  line?: number;
 }
 
 /**
@@ -194,6 +225,27 @@ export interface MethodMismatch {
 
   /** File path where the implementation is located */
   file: string;
+
+  /** Line of the route declaration */
+  line?: number;
+}
+
+/**
+ * Represents a field-level difference between a documented endpoint and the
+ * TypeBox schemas of its route (see `compareRouteSchemas`)
+ */
+export interface SchemaMismatch extends SchemaDrift {
+  /** HTTP method */
+  method: string;
+
+  /** API path specified in documentation */
+  path: string;
+
+  /** File path where the route is declared */
+  file: string;
+
+  /** Line of the route declaration */
+  line?: number;
 }
 
 /**
@@ -359,81 +411,140 @@ export interface CacheManager<T> {
 // File Discovery and Reading Functions
 // ============================================================================
 
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
-import { resolve, join, relative } from 'path';
+import { resolve, join, relative, sep } from 'path';
+import { compileSchema } from './schema-compiler.js';
+import { createSearchIndex, type SearchIndex } from '../utils/search-index.js';
 
 /**
- * In-memory cache for contract file contents and discoveries
- * Stores parsed contents and file lists with TTL for cache invalidation
+ * In-memory cache for contract file contents, parse results and discoveries
+ * Contents and parse results are keyed by the file's mtime and content
+ * hash, so an edited file is re-read on the next call and an unchanged one
+ * is never parsed twice. Discoveries are keyed by docs path, so every
+ * workspace keeps its own entries and clearing one workspace leaves the
+ * others warm. They stay valid until invalidated for docs paths under a
+ * file watcher (see `contract-watcher.ts`); other docs paths are re-scanned
+ * after `DISCOVERY_TTL`.
  */
 class ContractFileCache {
   private fileContentCache = new Map<
     string,
-    { content: string; timestamp: number }
+    { content: string; mtimeMs: number }
   >();
-  private discoveryCache: { files: string[]; timestamp: number } | null = null;
-  private readonly DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes default TTL
+  private parseCache = new Map<
+    string,
+    { result: ParseResult; mtimeMs: number; hash: string }
+  >();
+  private discoveryCache = new Map<
+    string,
+    { files: string[]; timestamp: number }
+  >();
+  private watchedPaths = new Set<string>();
+  private readonly DISCOVERY_TTL = 5 * 60 * 1000; // unwatched docs paths only
 
   /**
-   * Get cached file content if it exists and hasn't expired
+   * Get cached file content if the file hasn't changed since it was read
    */
-  getFileContent(
-    filePath: string,
-    ttl: number = this.DEFAULT_TTL,
-  ): string | null {
+  getFileContent(filePath: string, mtimeMs: number): string | null {
     const cached = this.fileContentCache.get(filePath);
-    if (!cached) return null;
+    return cached && cached.mtimeMs === mtimeMs ? cached.content : null;
+  }
 
-    const age = Date.now() - cached.timestamp;
-    if (age > ttl) {
-      this.fileContentCache.delete(filePath);
-      return null;
-    }
+  /**
+   * Cache file content with the mtime it was read at
+   */
+  setFileContent(filePath: string, content: string, mtimeMs: number): void {
+    this.fileContentCache.set(filePath, { content, mtimeMs });
+  }
 
-    return cached.content;
+  /**
+   * Get a cached parse result for an unchanged file
+   * A touched file (new mtime, same content hash) keeps its result.
+   */
+  getParseResult(
+    filePath: string,
+    mtimeMs: number,
+    hash?: string,
+  ): ParseResult | null {
+    const cached = this.parseCache.get(filePath);
+    if (!cached) return null;
+    if (cached.mtimeMs === mtimeMs) return cached.result;
+    if (hash !== undefined && cached.hash === hash) {
+      cached.mtimeMs = mtimeMs;
+      return cached.result;
+    }
+    return null;
   }
 
   /**
-   * Cache file content with timestamp
+   * Cache a parse result with the file's mtime and content hash
    */
-  setFileContent(filePath: string, content: string): void {
-    this.fileContentCache.set(filePath, {
-      content,
-      timestamp: Date.now(),
-    });
+  setParseResult(
+    filePath: string,
+    result: ParseResult,
+    mtimeMs: number,
+    hash: string,
+  ): void {
+    this.parseCache.set(filePath, { result, mtimeMs, hash });
   }
 
   /**
-   * Get cached discovery results if they haven't expired
+   * Get cached discovery results for a docs path if they are still valid
    */
-  getDiscovery(ttl: number = this.DEFAULT_TTL): string[] | null {
-    if (!this.discoveryCache) return null;
+  getDiscovery(docsPath: string): string[] | null {
+    const cached = this.discoveryCache.get(docsPath);
+    if (!cached) return null;
 
-    const age = Date.now() - this.discoveryCache.timestamp;
-    if (age > ttl) {
-      this.discoveryCache = null;
+    const age = Date.now() - cached.timestamp;
+    if (!this.watchedPaths.has(docsPath) && age > this.DISCOVERY_TTL) {
+      this.discoveryCache.delete(docsPath);
       return null;
     }
 
-    return this.discoveryCache.files;
+    return cached.files;
   }
 
   /**
-   * Cache discovery results with timestamp
+   * Cache discovery results for a docs path with timestamp
    */
-  setDiscovery(files: string[]): void {
-    this.discoveryCache = {
+  setDiscovery(docsPath: string, files: string[]): void {
+    this.discoveryCache.set(docsPath, {
       files,
       timestamp: Date.now(),
-    };
+    });
   }
 
   /**
-   * Clear all cached data
+   * Mark a docs path as watched (discoveries never expire) or unwatched
    */
-  clear(): void {
-    this.fileContentCache.clear();
-    this.discoveryCache = null;
+  setWatched(docsPath: string, watched: boolean): void {
+    if (watched) {
+      this.watchedPaths.add(docsPath);
+    } else {
+      this.watchedPaths.delete(docsPath);
+    }
+  }
+
+  /**
+   * Clear cached data for one docs path, or everything
+   */
+  clear(docsPath?: string): void {
+    if (!docsPath) {
+      this.fileContentCache.clear();
+      this.parseCache.clear();
+      this.discoveryCache.clear();
+      return;
+    }
+
+    this.discoveryCache.delete(docsPath);
+    for (const cache of [this.fileContentCache, this.parseCache]) {
+      for (const filePath of cache.keys()) {
+        if (isInside(filePath, docsPath)) {
+          cache.delete(filePath);
+        }
+      }
+    }
   }
 
   /**
@@ -441,21 +552,50 @@ class ContractFileCache {
    */
   invalidateFile(filePath: string): void {
     this.fileContentCache.delete(filePath);
-    // Invalidate discovery cache when a file changes
-    this.discoveryCache = null;
+    this.parseCache.delete(filePath);
+    // Invalidate discoveries of every docs path containing the file
+    for (const docsPath of this.discoveryCache.keys()) {
+      if (isInside(filePath, docsPath)) {
+        this.discoveryCache.delete(docsPath);
+      }
+    }
   }
 
   /**
-   * Get current cache size info
+   * Get current cache size info, optionally for one docs path
    */
-  getSize(): { files: number; discoveryCount: number } {
+  getSize(docsPath?: string): {
+    files: number;
+    parsedFiles: number;
+    discoveryCount: number;
+  } {
+    if (!docsPath) {
+      return {
+        files: this.fileContentCache.size,
+        parsedFiles: this.parseCache.size,
+        discoveryCount: this.discoveryCache.size,
+      };
+    }
+
+    const count = (cache: Map<string, unknown>) =>
+      Array.from(cache.keys()).filter((filePath) =>
+        isInside(filePath, docsPath),
+      ).length;
     return {
-      files: this.fileContentCache.size,
-      discoveryCount: this.discoveryCache ? 1 : 0,
+      files: count(this.fileContentCache),
+      parsedFiles: count(this.parseCache),
+      discoveryCount: this.discoveryCache.has(docsPath) ? 1 : 0,
     };
   }
 }
 
+/**
+ * Whether an absolute file path lies under a directory
+ */
+function isInside(filePath: string, dir: string): boolean {
+  return filePath.startsWith(dir.endsWith(sep) ? dir : dir + sep);
+}
+
 /**
  * Singleton instance of the file cache
  */
@@ -475,7 +615,7 @@ export async function discoverContractFiles(
 
   // Check cache first
   if (useCache) {
-    const cached = contractFileCache.getDiscovery();
+    const cached = contractFileCache.getDiscovery(absolutePath);
     if (cached) {
       return cached;
     }
@@ -514,7 +654,7 @@ export async function discoverContractFiles(
   try {
     await walkDir(absolutePath);
     // Cache the results
-    contractFileCache.setDiscovery(contractFiles);
+    contractFileCache.setDiscovery(absolutePath, contractFiles);
   } catch (error) {
     console.error(
       `Error discovering contract files in ${absolutePath}:`,
@@ -527,6 +667,19 @@ export async function discoverContractFiles(
   return contractFiles;
 }
 
+/**
+ * List feature names that have a contract file, without parsing the files
+ *
+ * @param docsPath - Root directory to search (typically docs/features)
+ * @returns Sorted unique feature names
+ */
+export async function discoverContractFeatures(
+  docsPath: string,
+): Promise<string[]> {
+  const files = await discoverContractFiles(docsPath);
+  return Array.from(new Set(files.map(extractFeatureFromPath))).sort();
+}
+
 /**
  * Read contract file content asynchronously
  * Uses cache to avoid re-reading the same file
@@ -540,18 +693,20 @@ export async function readContractFile(
 ): Promise<string | null> {
   const absolutePath = resolve(filePath);
 
-  // Check cache first
-  if (useCache) {
-    const cached = contractFileCache.getFileContent(absolutePath);
-    if (cached !== null) {
-      return cached;
+  try {
+    const { mtimeMs } = await fs.stat(absolutePath);
+
+    // Check cache first
+    if (useCache) {
+      const cached = contractFileCache.getFileContent(absolutePath, mtimeMs);
+      if (cached !== null) {
+        return cached;
+      }
     }
-  }
 
-  try {
     const content = await fs.readFile(absolutePath, 'utf-8');
     // Cache the content
-    contractFileCache.setFileContent(absolutePath, content);
+    contractFileCache.setFileContent(absolutePath, content, mtimeMs);
     return content;
   } catch (error) {
     // Gracefully handle file read errors
@@ -588,9 +743,10 @@ export async function readContractFiles(
 /**
  * Clear the contract file cache
  * Useful for forcing a refresh of all cached data
+ * @param docsPath - Only clear entries for this docs path (one workspace)
  */
-export function clearContractCache(): void {
-  contractFileCache.clear();
+export function clearContractCache(docsPath?: string): void {
+  contractFileCache.clear(docsPath ? resolve(docsPath) : undefined);
 }
 
 /**
@@ -602,17 +758,34 @@ export function invalidateContractFileCache(filePath: string): void {
   contractFileCache.invalidateFile(resolve(filePath));
 }
 
+/**
+ * Mark a docs path as watched for changes
+ * Discoveries of a watched path stay cached until a change invalidates
+ * them instead of being re-scanned periodically.
+ * @param docsPath - Docs path under a file watcher
+ * @param watched - False when the watcher stops
+ */
+export function setContractPathWatched(
+  docsPath: string,
+  watched: boolean,
+): void {
+  contractFileCache.setWatched(resolve(docsPath), watched);
+}
+
 /**
  * Get information about current cache state
  * Useful for debugging and monitoring cache effectiveness
+ * @param docsPath - Only count entries for this docs path (one workspace)
  * @returns Cache statistics
  */
-export function getCacheStats(): {
+export function getCacheStats(docsPath?: string): {
   cachedFiles: number;
   hasDiscoveryCache: boolean;
-  cacheSize: { files: number; discoveryCount: number };
+  cacheSize: { files: number; parsedFiles: number; discoveryCount: number };
 } {
-  const size = contractFileCache.getSize();
+  const size = contractFileCache.getSize(
+    docsPath ? resolve(docsPath) : undefined,
+  );
   return {
     cachedFiles: size.files,
     hasDiscoveryCache: size.discoveryCount > 0,
@@ -626,6 +799,9 @@ export function getCacheStats(): {
 
 /**
  * Extract feature name from file path
+ * Uses the directory after "features", or the file's parent directory when
+ * contracts live under a custom docsPath (e.g., contracts/rbac/API_CONTRACTS.md).
+ *
  * @param filePath - Path to contract file (e.g., docs/features/user-profile/api-contracts.md)
  * @returns Feature name (e.g., "user-profile")
  */
@@ -635,6 +811,9 @@ function extractFeatureFromPath(filePath: string): string {
   if (featuresIndex !== -1 && featuresIndex < parts.length - 1) {
     return parts[featuresIndex + 1];
   }
+  if (parts.length >= 2 && parts[parts.length - 2]) {
+    return parts[parts.length - 2];
+  }
   return 'unknown';
 }
 
@@ -738,6 +917,24 @@ function extractCodeBlock(
   return match ? match[1].trim() : undefined;
 }
 
+/**
+ * Extract the body of a `####` subsection, up to the next heading
+ * @param section - Markdown section
+ * @param heading - Pattern matched against the subsection title
+ * @returns Subsection text, or undefined when there is none
+ */
+function extractSubsection(
+  section: string,
+  heading: RegExp,
+): string | undefined {
+  const parts = section.split(/^(?=#{3,4}\s)/m);
+  const part = parts.find((p) => {
+    const title = p.match(/^####\s+([^\n]+)/);
+    return !!title && heading.test(title[1].trim());
+  });
+  return part?.replace(/^####[^\n]*\n/, '');
+}
+
 /**
  * Extract all code blocks of a specific language
  * @param section - Markdown section
@@ -923,10 +1120,11 @@ function parseEndpointSection(
   const description = extractDescription(section);
   const authentication = extractAuthentication(section);
 
-  // Extract schemas
-  const requestSchema =
-    extractCodeBlock(section, 'typescript') ||
-    extractCodeBlock(section.split('#### Response')[0], 'typescript');
+  // Extract schemas; only a request section documents a request body
+  const requestSection = extractSubsection(section, /^Request (Schema|Body)/i);
+  const requestSchema = requestSection
+    ? extractCodeBlock(requestSection, 'typescript')
+    : undefined;
   const responseSchema = extractCodeBlock(
     section.split('#### Response Schema')[1] || section,
     'typescript',
@@ -964,6 +1162,10 @@ function parseEndpointSection(
     authentication,
     requestSchema,
     responseSchema,
+    requestJsonSchema: requestSchema ? compileSchema(requestSchema) : undefined,
+    responseJsonSchema: responseSchema
+      ? compileSchema(responseSchema)
+      : undefined,
     requestExample,
     responseExample,
     errorResponses: errorResponses.length > 0 ? errorResponses : undefined,
@@ -984,6 +1186,11 @@ export async function parseContractFile(
   content?: string,
   options: ParseOptions = {},
 ): Promise<ParseResult> {
+  // Files read from disk are parsed once per content version
+  if (content === undefined) {
+    return parseCachedContractFile(filePath, options);
+  }
+
   const errors: ParsingError[] = [];
 
   try {
@@ -1026,6 +1233,10 @@ export async function parseContractFile(
       try {
         const endpoint = parseEndpointSection(section, feature);
         if (endpoint) {
+          const offset = markdown.indexOf(section);
+          if (offset >= 0) {
+            endpoint.line = markdown.slice(0, offset).split('\n').length;
+          }
           endpoints.push(endpoint);
         } else {
           errors.push({
@@ -1075,6 +1286,54 @@ export async function parseContractFile(
   }
 }
 
+/**
+ * Parse a contract file from disk, reusing the last result when its mtime
+ * or content hash is unchanged
+ */
+async function parseCachedContractFile(
+  filePath: string,
+  options: ParseOptions,
+): Promise<ParseResult> {
+  const absolutePath = resolve(filePath);
+  const mtimeMs = await fs
+    .stat(absolutePath)
+    .then((stats) => stats.mtimeMs)
+    .catch(() => null);
+  const cached =
+    mtimeMs !== null
+      ? contractFileCache.getParseResult(absolutePath, mtimeMs)
+      : null;
+  if (cached) return cached;
+
+  const markdown =
+    mtimeMs !== null ? await readContractFile(absolutePath) : null;
+  if (markdown === null || mtimeMs === null) {
+    return {
+      success: false,
+      errors: [
+        {
+          filePath,
+          message: 'Failed to read contract file',
+          severity: 'error',
+        },
+      ],
+      endpointCount: 0,
+    };
+  }
+
+  const hash = createHash('sha256').update(markdown).digest('hex');
+  const unchanged = contractFileCache.getParseResult(
+    absolutePath,
+    mtimeMs,
+    hash,
+  );
+  if (unchanged) return unchanged;
+
+  const result = await parseContractFile(filePath, markdown, options);
+  contractFileCache.setParseResult(absolutePath, result, mtimeMs, hash);
+  return result;
+}
+
 /**
  * Parse all contract files in a directory
  * @param docsPath - Path to docs/features directory
@@ -1122,67 +1381,64 @@ interface ScoredEndpoint extends ApiEndpoint {
 }
 
 /**
- * Rank a single endpoint based on search query match relevance
- * Returns a score from 0 to 100, where 100 is exact match
- * @param endpoint - Endpoint to score
- * @param query - Search query (lowercase)
- * @returns Match score (0-100)
+ * Index of the last searched contracts; reused while the parser returns the
+ * same contract objects (it does until a contract file changes)
  */
-function rankEndpointMatch(endpoint: ApiEndpoint, query: string): number {
-  const lowerPath = endpoint.path.toLowerCase();
-  const lowerDescription = endpoint.description.toLowerCase();
-  const lowerFeature = endpoint.feature.toLowerCase();
-  const lowerMethod = endpoint.method.toLowerCase();
-
-  let score = 0;
-
-  // Exact path match = highest score
-  if (lowerPath === query) {
-    return 100;
-  }
-
-  // Path starts with query = high score
-  if (lowerPath.startsWith(query)) {
-    score = Math.max(score, 90);
-  }
-
-  // Path contains query = high score
-  if (lowerPath.includes(query)) {
-    score = Math.max(score, 80);
-  }
-
-  // Exact method match = medium-high score
-  if (lowerMethod === query) {
-    score = Math.max(score, 75);
-  }
-
-  // Feature name match = medium score
-  if (lowerFeature === query) {
-    score = Math.max(score, 70);
-  }
-
-  // Feature name starts with query = medium score
-  if (lowerFeature.startsWith(query)) {
-    score = Math.max(score, 65);
-  }
+let endpointIndex: {
+  contracts: ApiContract[];
+  index: SearchIndex<ApiEndpoint>;
+} | null = null;
 
-  // Feature name contains query = medium score
-  if (lowerFeature.includes(query)) {
-    score = Math.max(score, 60);
+/**
+ * Get the full-text index over every endpoint of the contracts
+ * Paths, headings and feature names weigh most; parameters and schema field
+ * names let queries like "role permissions" find endpoints by their data.
+ *
+ * @param contracts - Contracts whose endpoints are indexed
+ * @returns Search index, built once per set of contract objects
+ */
+function getEndpointIndex(contracts: ApiContract[]): SearchIndex<ApiEndpoint> {
+  if (
+    endpointIndex &&
+    endpointIndex.contracts.length === contracts.length &&
+    endpointIndex.contracts.every((contract, i) => contract === contracts[i])
+  ) {
+    return endpointIndex.index;
   }
 
-  // Description contains query = lower score
-  if (lowerDescription.includes(query)) {
-    score = Math.max(score, 40);
+  const index = createSearchIndex<ApiEndpoint>({
+    path: 3,
+    description: 2,
+    feature: 2,
+    method: 2,
+    parameters: 0.5,
+    schemas: 0.3,
+  });
+  for (const endpoint of contracts.flatMap((c) => c.endpoints)) {
+    index.add(endpoint, {
+      path: endpoint.path,
+      description: endpoint.description,
+      feature: endpoint.feature,
+      method: endpoint.method,
+      parameters: [
+        ...(endpoint.pathParameters ?? []),
+        ...(endpoint.queryParameters ?? []),
+      ].map((p) => `${p.name} ${p.description}`),
+      schemas: [endpoint.requestSchema, endpoint.responseSchema].filter(
+        (schema): schema is string => !!schema,
+      ),
+    });
   }
 
-  return score;
+  endpointIndex = { contracts: [...contracts], index };
+  return index;
 }
 
 /**
  * Search endpoints by keyword across path, method, description, and feature name
- * Search is case-insensitive and supports partial matching
- * Results are ranked by relevance (highest scores first)
+ * Multi-word queries are matched word by word (stemmed, with prefix and typo
+ * tolerance) and ranked with BM25. `matchScore` is relative to the best
+ * result, which scores 100.
  *
  * @param contracts - Array of API contracts to search
  * @param query - Search query string
@@ -1194,53 +1450,23 @@ export function searchEndpoints(
   query: string,
   options: SearchOptions = {},
 ): ScoredEndpoint[] {
-  // Normalize query
-  const normalizedQuery = query.trim().toLowerCase();
-
-  if (!normalizedQuery) {
-    return [];
-  }
-
-  // Collect all endpoints with scores
-  const scoredEndpoints: ScoredEndpoint[] = [];
-
-  for (const contract of contracts) {
-    // Check if feature filter is applied
-    if (
-      options.feature &&
-      contract.feature.toLowerCase() !== options.feature.toLowerCase()
-    ) {
-      continue;
-    }
-
-    for (const endpoint of contract.endpoints) {
-      // Check if method filter is applied
-      if (options.method && endpoint.method !== options.method) {
-        continue;
-      }
-
-      // Calculate relevance score for this endpoint
-      const matchScore = rankEndpointMatch(endpoint, normalizedQuery);
-
-      // Only include endpoints with non-zero match score
-      if (matchScore > 0) {
-        scoredEndpoints.push({
-          ...endpoint,
-          matchScore,
-        });
-      }
-    }
-  }
-
-  // Sort by relevance (highest score first)
-  scoredEndpoints.sort((a, b) => b.matchScore - a.matchScore);
-
-  // Apply result limit if specified
-  if (options.limit && options.limit > 0) {
-    return scoredEndpoints.slice(0, options.limit);
-  }
+  const feature = options.feature?.toLowerCase();
+  const filtered = !!feature || !!options.method;
+
+  const hits = getEndpointIndex(contracts).search(query, {
+    limit: options.limit && options.limit > 0 ? options.limit : undefined,
+    filter: filtered
+      ? (endpoint) =>
+          (!feature || endpoint.feature.toLowerCase() === feature) &&
+          (!options.method || endpoint.method === options.method)
+      : undefined,
+  });
+  const best = hits[0]?.score ?? 0;
 
-  return scoredEndpoints;
+  return hits.map((hit) => ({
+    ...hit.item,
+    matchScore: Math.max(1, Math.round((hit.score / best) * 100)),
+  }));
 }
 
 /**
@@ -1275,7 +1501,9 @@ export function filterByFeature(
 /**
  * Find a specific endpoint by path and optional HTTP method
  * If method is not provided, returns the first endpoint matching the path
- * Search is case-insensitive for path comparison
+ * Search is case-insensitive for path comparison. Exact paths win; otherwise
+ * a concrete path such as "/api/users/42" matches the template
+ * "/api/users/:id".
  *
  * @param contracts - Array of API contracts to search
  * @param path - API path to find (e.g., "/api/profile")
@@ -1307,6 +1535,27 @@ export function findEndpoint(
     }
   }
 
+  // Fall back to :param templates matching concrete segments
+  const segments = normalizedPath.replace(/\/+$/, '').split('/');
+  for (const contract of contracts) {
+    for (const endpoint of contract.endpoints) {
+      if (method && endpoint.method !== method) {
+        continue;
+      }
+      const template = endpoint.path.toLowerCase().split('/');
+      if (
+        template.length === segments.length &&
+        template.some((part) => part.startsWith(':')) &&
+        template.every(
+          (part, i) =>
+            part === segments[i] || (part.startsWith(':') && !!segments[i]),
+        )
+      ) {
+        return endpoint;
+      }
+    }
+  }
+
   // No matching endpoint found
   return null;
 }
@@ -1315,126 +1564,41 @@ export function findEndpoint(
 // Validation Logic - Compare Documentation vs Implementation
 // ============================================================================
 
-import { execSync } from 'child_process';
+import {
+  discoverRoutes,
+  DiscoveredRoute,
+  joinRoutePath,
+} from './route-discovery.js';
+import { compareRouteSchemas } from './schema-drift.js';
 
 /**
- * Represents a route found in the codebase
+ * Default route file globs, relative to the codebase root
  */
-interface ImplementedRoute {
-  method: HttpMethod;
-  path: string;
-  file: string;
-  line: number;
-}
+export const DEFAULT_ROUTE_PATTERNS = ['apps/api/src/layers/**/*.routes.ts'];
 
 /**
- * Parse a route declaration line to extract method and path
- * Handles patterns like:
- * - fastify.get('/api/profile', ...)
- * - typedFastify.post('/rbac/roles', ...)
- * - fastify.put('/', ...) // relative paths
- *
- * @param line - Source code line containing route declaration
- * @param file - File path for context
- * @returns Parsed route info or null if not a valid route
+ * Default API entry file, relative to the codebase root
+ * Register prefixes are resolved starting from here.
  */
-function parseRouteDeclaration(
-  line: string,
-  file: string,
-): Omit<ImplementedRoute, 'line'> | null {
-  // Pattern: fastify.METHOD('PATH', ...)
-  // Matches: fastify.get, typedFastify.post, etc.
-  const routePattern =
-    /(?:fastify|typedFastify)\.(get|post|put|patch|delete|head|options)\s*\(\s*['"`]([^'"`]+)['"`]/i;
-  const match = line.match(routePattern);
-
-  if (!match) {
-    return null;
-  }
-
-  const method = match[1].toUpperCase() as HttpMethod;
-  const path = match[2].trim();
-
-  // Handle relative paths - need to determine base path from file
-  // For now, just track them as-is
-  // Future enhancement: resolve relative paths based on route registration context
-
-  return {
-    method,
-    path,
-    file,
-  };
-}
+export const DEFAULT_API_ENTRY = 'apps/api/src/main.ts';
 
 /**
- * Find all implemented routes in the codebase
- * Searches through route files and extracts route registrations
+ * Where a feature's routes are expected, for missing-endpoint reports
+ * The first `**` of the first glob is narrowed to the feature directory
+ * (one directory level, then `<feature>/`), matching the default layout.
  *
- * @param codebaseRoot - Root directory of the codebase
- * @param feature - Optional feature name to filter routes
- * @returns Array of implemented routes
+ * @param routePatterns - Route file globs
+ * @param feature - Feature name
+ * @returns Expected location pattern
  */
-async function findImplementedRoutes(
-  codebaseRoot: string,
-  feature?: string,
-): Promise<ImplementedRoute[]> {
-  const routes: ImplementedRoute[] = [];
-
-  try {
-    // Search for route files in the API directory
-    // Updated path to match actual structure: apps/api/src/layers/
-    const searchPath = join(codebaseRoot, 'apps/api/src/layers');
-
-    // Find all .routes.ts files
-    let routeFiles: string[] = [];
-
-    try {
-      const findResult = execSync(
-        `find "${searchPath}" -type f -name "*.routes.ts" 2>/dev/null || true`,
-        { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 },
-      );
-
-      routeFiles = findResult.split('\n').filter((f) => f.trim().length > 0);
-    } catch (error) {
-      console.warn(
-        `Warning: Failed to find route files in ${searchPath}:`,
-        error,
-      );
-      return routes;
-    }
-
-    // If feature filter is specified, filter files by feature name
-    if (feature) {
-      routeFiles = routeFiles.filter((f) => f.includes(`/${feature}/`));
-    }
-
-    // Read and parse each route file
-    for (const routeFile of routeFiles) {
-      try {
-        const content = await fs.readFile(routeFile, 'utf-8');
-        const lines = content.split('\n');
-
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          const parsed = parseRouteDeclaration(line, routeFile);
-
-          if (parsed) {
-            routes.push({
-              ...parsed,
-              line: i + 1,
-            });
-          }
-        }
-      } catch (error) {
-        console.warn(`Warning: Failed to read route file ${routeFile}:`, error);
-        continue;
-      }
-    }
-  } catch (error) {
-    console.error('Error finding implemented routes:', error);
-  }
-
-  return routes;
+function expectedRouteLocation(
+  routePatterns: string[],
+  feature: string,
+): string {
+  const pattern = routePatterns[0] ?? DEFAULT_ROUTE_PATTERNS[0];
+  return pattern.includes('**/')
+    ? pattern.replace('**/', `*/${feature}/`)
+    : pattern;
 }
 
 /**
@@ -1498,45 +1662,98 @@ function pathsMatch(docPath: string, implPath: string): boolean {
  * @param contracts - Array of API contracts from documentation
  * @param feature - Feature name to validate (optional - validates all if not specified)
  * @param codebaseRoot - Root directory of the codebase
+ * @param routePatterns - Route file globs, relative to codebaseRoot
+ * @param apiEntry - App entry file register prefixes are resolved from
  * @returns Validation report with matched, missing, undocumented, and mismatched endpoints
  */
 export async function validateFeature(
   contracts: ApiContract[],
   feature: string | undefined,
   codebaseRoot: string,
+  routePatterns: string[] = DEFAULT_ROUTE_PATTERNS,
+  apiEntry: string = DEFAULT_API_ENTRY,
 ): Promise<ValidationReport> {
+  const routes = await discoverRoutes(codebaseRoot, {
+    entry: apiEntry,
+    routeGlobs: routePatterns,
+  });
+  return compareWithRoutes(
+    contracts,
+    feature,
+    codebaseRoot,
+    routePatterns,
+    routes,
+  );
+}
+
+/**
+ * Compare documented endpoints of a feature with discovered routes
+ * Routes are narrowed to files under a `<feature>/` directory when a
+ * feature is given.
+ */
+function compareWithRoutes(
+  contracts: ApiContract[],
+  feature: string | undefined,
+  codebaseRoot: string,
+  routePatterns: string[],
+  routes: DiscoveredRoute[],
+): ValidationReport {
   // Filter contracts by feature if specified
   const contractsToValidate = feature
     ? contracts.filter((c) => c.feature === feature)
     : contracts;
 
-  // Collect all documented endpoints
+  // Collect all documented endpoints and the files documenting them
   const documentedEndpoints: ApiEndpoint[] = [];
+  const contractFiles = new Map<ApiEndpoint, string>();
   for (const contract of contractsToValidate) {
     documentedEndpoints.push(...contract.endpoints);
+    for (const endpoint of contract.endpoints) {
+      contractFiles.set(endpoint, contract.filePath);
+    }
   }
 
-  // Find all implemented routes
-  const implementedRoutes = await findImplementedRoutes(codebaseRoot, feature);
+  // Routes implemented in the feature's directory. Plugins the entry never
+  // reaches are assumed to be registered under the contract's base URL.
+  const baseUrl = contractsToValidate[0]?.baseUrl ?? '';
+  const implementedRoutes = feature
+    ? routes
+        .filter((route) => route.file.includes(`/${feature}/`))
+        .map((route) =>
+          !route.prefixResolved && baseUrl.startsWith('/')
+            ? { ...route, path: joinRoutePath(baseUrl, route.path) }
+            : route,
+        )
+    : routes;
 
   // Track validation results
   const missing: MissingEndpoint[] = [];
   const undocumented: UndocumentedEndpoint[] = [];
   const methodMismatches: MethodMismatch[] = [];
+  const schemaMismatches: SchemaMismatch[] = [];
   let matched = 0;
 
   // Check each documented endpoint
   for (const docEndpoint of documentedEndpoints) {
-    const matchingImpl = implementedRoutes.find((impl) =>
-      pathsMatch(docEndpoint.path, impl.path),
-    );
+    const matchingImpl =
+      implementedRoutes.find(
+        (impl) =>
+          pathsMatch(docEndpoint.path, impl.path) &&
+          impl.method === docEndpoint.method,
+      ) ??
+      implementedRoutes.find((impl) => pathsMatch(docEndpoint.path, impl.path));
 
     if (!matchingImpl) {
       // Documented but not implemented
+      const contractFile = contractFiles.get(docEndpoint);
       missing.push({
         method: docEndpoint.method,
         path: docEndpoint.path,
-        expectedFile: `apps/api/src/layers/*/${docEndpoint.feature}/*.routes.ts`,
+        expectedFile: expectedRouteLocation(routePatterns, docEndpoint.feature),
+        ...(contractFile
+          ? { documentedIn: relative(codebaseRoot, resolve(contractFile)) }
+          : {}),
+        line: docEndpoint.line,
       });
     } else if (matchingImpl.method !== docEndpoint.method) {
       // Implemented but with wrong method
@@ -1545,10 +1762,23 @@ export async function validateFeature(
         documentedMethod: docEndpoint.method,
         implementedMethod: matchingImpl.method,
         file: relative(codebaseRoot, matchingImpl.file),
+        line: matchingImpl.line,
       });
     } else {
-      // Correctly implemented
+      // Correctly implemented; compare its TypeBox schemas with the contract
       matched++;
+      for (const drift of compareRouteSchemas(
+        docEndpoint,
+        matchingImpl.schemas,
+      )) {
+        schemaMismatches.push({
+          method: docEndpoint.method,
+          path: docEndpoint.path,
+          ...drift,
+          file: relative(codebaseRoot, matchingImpl.file),
+          line: matchingImpl.line,
+        });
+      }
     }
   }
 
@@ -1571,6 +1801,7 @@ export async function validateFeature(
           method: implRoute.method,
           path: implRoute.path,
           foundIn: relative(codebaseRoot, implRoute.file),
+          line: implRoute.line,
         });
       }
     }
@@ -1582,6 +1813,7 @@ export async function validateFeature(
     missing,
     undocumented,
     methodMismatches,
+    schemaMismatches,
     validatedAt: new Date(),
   };
 }
@@ -1589,20 +1821,39 @@ export async function validateFeature(
 /**
  * Validate all features in the codebase
  * Runs validation for each feature separately and returns individual reports
+ * Routes are discovered once and shared by every feature.
  *
  * @param contracts - Array of API contracts
  * @param codebaseRoot - Root directory of the codebase
+ * @param routePatterns - Route file globs, relative to codebaseRoot
+ * @param apiEntry - App entry file register prefixes are resolved from
+ * @param discovered - Routes already discovered (default: discover them)
  * @returns Array of validation reports, one per feature
  */
 export async function validateAllFeatures(
   contracts: ApiContract[],
   codebaseRoot: string,
+  routePatterns: string[] = DEFAULT_ROUTE_PATTERNS,
+  apiEntry: string = DEFAULT_API_ENTRY,
+  discovered?: DiscoveredRoute[],
 ): Promise<ValidationReport[]> {
   const features = getUniqueFeatures(contracts);
   const reports: ValidationReport[] = [];
+  const routes =
+    discovered ??
+    (await discoverRoutes(codebaseRoot, {
+      entry: apiEntry,
+      routeGlobs: routePatterns,
+    }));
 
   for (const feature of features) {
-    const report = await validateFeature(contracts, feature, codebaseRoot);
+    const report = compareWithRoutes(
+      contracts,
+      feature,
+      codebaseRoot,
+      routePatterns,
+      routes,
+    );
     reports.push(report);
   }
 
@@ -0,0 +1,180 @@
+/**
+ * API Contract Markdown Writer
+ * Renders `ApiContract` objects into the API_CONTRACTS.md layout that
+ * `parseContractFile` reads back
+ *
+ * The layout follows the parser's expectations section by section, so
+ * parsing, writing and parsing again yields the same model:
+ * - `**Base URL**`, `**Authentication**` and `**Content Type**` overview lines
+ * - `### N. Title` headers followed by `**METHOD** \`/path\``
+ * - Path/query parameter lists, request/response schemas and examples
+ * - Error responses last, since the parser reads everything after their header
+ */
+
+import { STATUS_CODES } from 'http';
+import type {
+  ApiContract,
+  ApiEndpoint,
+  PathParameter,
+  QueryParameter,
+} from './api-contracts-parser.js';
+
+/** File name contract documents are written to */
+export const CONTRACT_FILE_NAME = 'API_CONTRACTS.md';
+
+/**
+ * Convert "user-profile" to "User Profile"
+ */
+function toTitle(feature: string): string {
+  return feature
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Render a parameter list item
+ * Format: - `name` (type, required|optional): Description (default: value)
+ */
+function formatParameter(param: PathParameter | QueryParameter): string {
+  const requirement = param.required ? 'required' : 'optional';
+  const description = param.description || param.name;
+  const defaultValue =
+    'default' in param && param.default !== undefined
+      ? ` (default: ${param.default})`
+      : '';
+  return `- \`${param.name}\` (${param.type || 'string'}, ${requirement}): ${description}${defaultValue}`;
+}
+
+/**
+ * Render one fenced code block with a header
+ */
+function pushCodeBlock(
+  lines: string[],
+  header: string,
+  language: string,
+  code: string,
+): void {
+  lines.push(`#### ${header}`);
+  lines.push('');
+  lines.push(`\`\`\`${language}`);
+  lines.push(code.trim());
+  lines.push('```');
+  lines.push('');
+}
+
+/**
+ * Render a single endpoint section
+ * @param endpoint - Endpoint to render
+ * @param index - 1-based position used in the `### N.` header
+ * @returns Markdown lines
+ */
+export function formatEndpointSection(
+  endpoint: ApiEndpoint,
+  index: number,
+): string[] {
+  const lines: string[] = [];
+
+  lines.push(
+    `### ${index}. ${endpoint.description || `${endpoint.method} ${endpoint.path}`}`,
+  );
+  lines.push('');
+  lines.push(`**${endpoint.method}** \`${endpoint.path}\``);
+  lines.push('');
+  // The parser treats any text containing "required" as authenticated
+  lines.push(
+    `**Authentication:** ${endpoint.authentication ? 'Required' : 'None'}`,
+  );
+  lines.push('');
+
+  if (endpoint.pathParameters && endpoint.pathParameters.length > 0) {
+    lines.push('#### Path Parameters');
+    lines.push('');
+    lines.push(...endpoint.pathParameters.map(formatParameter));
+    lines.push('');
+  }
+
+  if (endpoint.queryParameters && endpoint.queryParameters.length > 0) {
+    lines.push('#### Query Parameters');
+    lines.push('');
+    lines.push(...endpoint.queryParameters.map(formatParameter));
+    lines.push('');
+  }
+
+  if (endpoint.requestSchema) {
+    pushCodeBlock(
+      lines,
+      'Request Schema',
+      'typescript',
+      endpoint.requestSchema,
+    );
+  }
+
+  if (endpoint.requestExample) {
+    pushCodeBlock(lines, 'Request Example', 'bash', endpoint.requestExample);
+  }
+
+  if (endpoint.responseSchema) {
+    pushCodeBlock(
+      lines,
+      'Response Schema',
+      'typescript',
+      endpoint.responseSchema,
+    );
+  }
+
+  if (endpoint.responseExample) {
+    pushCodeBlock(lines, 'Response Example', 'json', endpoint.responseExample);
+  }
+
+  if (endpoint.errorResponses && endpoint.errorResponses.length > 0) {
+    lines.push('#### Error Responses');
+    lines.push('');
+    for (const error of endpoint.errorResponses) {
+      const status = STATUS_CODES[error.statusCode] ?? 'Error';
+      lines.push(
+        `**${error.statusCode} ${status}** - ${error.description || status}`,
+      );
+      lines.push('');
+      if (error.example) {
+        lines.push('```json');
+        lines.push(error.example.trim());
+        lines.push('```');
+        lines.push('');
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Render a contract as API_CONTRACTS.md markdown
+ * @param contract - Contract to render
+ * @returns Markdown document
+ */
+export function formatContractMarkdown(contract: ApiContract): string {
+  const lines: string[] = [];
+
+  lines.push(`# ${toTitle(contract.feature)} API Contract`);
+  lines.push('');
+  lines.push('## API Overview');
+  lines.push('');
+  lines.push(`**Base URL**: \`${contract.baseUrl}\``);
+  if (contract.authentication) {
+    lines.push(`**Authentication**: ${contract.authentication}`);
+  }
+  lines.push(
+    `**Content Type**: \`${contract.contentType || 'application/json'}\``,
+  );
+  lines.push('');
+  lines.push('## Endpoints');
+  lines.push('');
+
+  contract.endpoints.forEach((endpoint, i) => {
+    lines.push(...formatEndpointSection(endpoint, i + 1));
+  });
+
+  return lines.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,336 @@
+/**
+ * CLI Command Registry
+ * Derives MCP tool schemas and command builders from the synced CommandInfo metadata
+ *
+ * `crud-commands.ts` is regenerated from the real CLI by `scripts/sync`, so
+ * everything here is computed from that data instead of being maintained by
+ * hand. A CLI change shows up as an MCP tool after the next sync.
+ */
+
+import { z } from 'zod';
+import { getAllCommands, CommandInfo, CommandOption } from './crud-commands.js';
+
+/**
+ * Positional argument parsed from a command usage string
+ * e.g. `<shell-name>` (required) or `[table-name]` (optional)
+ */
+export interface PositionalArgument {
+  /** Original CLI name (e.g., "shell-name") */
+  name: string;
+
+  /** camelCase argument key (e.g., "shellName") */
+  key: string;
+
+  /** Whether the argument must be provided */
+  required: boolean;
+}
+
+/**
+ * Option after normalization - resolved key and choices
+ */
+export interface ResolvedOption {
+  /** Source option from the synced metadata */
+  option: CommandOption;
+
+  /** camelCase argument key (e.g., "withImport") */
+  key: string;
+
+  /** Allowed values, from metadata or derived from the description */
+  choices?: string[];
+}
+
+/**
+ * Everything needed to expose one CLI command as an MCP tool
+ */
+export interface CommandToolSpec {
+  /** MCP tool name (e.g., "aegisx_cli_generate") */
+  toolName: string;
+
+  /** Full CLI command words (e.g., "templates add", "domain:init") */
+  commandPath: string;
+
+  /** Synced command metadata */
+  command: CommandInfo;
+
+  /** Positional arguments in CLI order */
+  positionals: PositionalArgument[];
+
+  /** Options with resolved keys and choices */
+  options: ResolvedOption[];
+
+  /** Zod raw shape for tool input validation */
+  inputShape: z.ZodRawShape;
+}
+
+/**
+ * Default path to the CLI entry point used in built commands
+ */
+export const DEFAULT_CLI_PATH = './bin/cli.js';
+
+/**
+ * Convert a kebab/colon-case name to camelCase
+ * @param name - CLI name (e.g., "with-import", "shell-name")
+ * @returns camelCase key (e.g., "withImport", "shellName")
+ */
+export function toCamelCase(name: string): string {
+  return name.replace(/[-:]([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Get the base command words from a usage string (everything before the first argument)
+ * @param usage - Usage string (e.g., "shell <shell-name>")
+ * @returns Base command (e.g., "shell")
+ */
+function getBaseCommand(usage: string): string {
+  return usage
+    .split(/\s+/)
+    .filter((part) => !part.startsWith('<') && !part.startsWith('['))
+    .join(' ');
+}
+
+/**
+ * Parse positional arguments from a usage string
+ * @param usage - Usage string (e.g., "section <shell-name> <section-name>")
+ * @returns Positional arguments in order
+ */
+function parsePositionals(usage: string): PositionalArgument[] {
+  const positionals: PositionalArgument[] = [];
+  const regex = /([<[])([^>\]]+)[>\]]/g;
+  let match;
+
+  while ((match = regex.exec(usage)) !== null) {
+    const name = match[2].trim();
+    positionals.push({
+      name,
+      key: toCamelCase(name),
+      required: match[1] === '<',
+    });
+  }
+
+  return positionals;
+}
+
+/**
+ * Find the parent command of a subcommand
+ * The CLI metadata lists subcommands (e.g. "add") as top-level entries; their
+ * examples show the real invocation (e.g. "templates add"), which is used to
+ * recover the parent.
+ *
+ * @param command - Command to resolve
+ * @param baseCommand - Base command words of this command
+ * @param allCommands - All synced commands
+ * @returns Parent command words or undefined for top-level commands
+ */
+function findParentCommand(
+  command: CommandInfo,
+  baseCommand: string,
+  allCommands: CommandInfo[],
+): string | undefined {
+  const topLevel = new Set(
+    allCommands
+      .filter((c) => c !== command)
+      .map((c) => getBaseCommand(c.usage)),
+  );
+
+  for (const example of command.examples) {
+    const words = example.trim().split(/\s+/);
+    if (words[1] === baseCommand && topLevel.has(words[0])) {
+      return words[0];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve allowed values for an option
+ * Uses `choices` from the metadata when present, otherwise a trailing
+ * parenthesized list in the description such as "Target app (api, web, admin)"
+ *
+ * @param option - Synced command option
+ * @returns Allowed values or undefined for free-form options
+ */
+function resolveChoices(option: CommandOption): string[] | undefined {
+  if (option.choices && option.choices.length > 0) {
+    return option.choices;
+  }
+  if (option.type !== 'string') {
+    return undefined;
+  }
+
+  const listMatch = option.description.match(/\(([^()]+)\)\s*$/);
+  if (!listMatch) {
+    return undefined;
+  }
+
+  const items = listMatch[1].split(',').map((item) => item.trim());
+  const isChoiceList =
+    items.length >= 2 && items.every((item) => /^[a-z][a-z0-9-]*$/.test(item));
+
+  return isChoiceList ? items : undefined;
+}
+
+/**
+ * Build the zod schema for a single option
+ * @param resolved - Resolved option
+ * @returns Optional zod schema with description including alias and default
+ */
+function buildOptionSchema(resolved: ResolvedOption): z.ZodTypeAny {
+  const { option, choices } = resolved;
+
+  let schema: z.ZodTypeAny;
+  if (option.type === 'boolean') {
+    schema = z.boolean();
+  } else if (option.type === 'number') {
+    schema = z.number();
+  } else if (choices) {
+    schema = z.enum(choices as [string, ...string[]]);
+  } else {
+    schema = z.string();
+  }
+
+  const details: string[] = [`--${option.name}`];
+  if (option.alias) {
+    details.push(`-${option.alias}`);
+  }
+  if (option.default !== undefined) {
+    details.push(`default: ${option.default}`);
+  }
+
+  return schema
+    .optional()
+    .describe(`${option.description} (${details.join(', ')})`);
+}
+
+/**
+ * Build the tool spec for one command
+ * @param command - Synced command metadata
+ * @param allCommands - All synced commands (for subcommand resolution)
+ * @returns Tool spec
+ */
+function buildCommandToolSpec(
+  command: CommandInfo,
+  allCommands: CommandInfo[],
+): CommandToolSpec {
+  const baseCommand = getBaseCommand(command.usage);
+  const parent = findParentCommand(command, baseCommand, allCommands);
+  const commandPath = parent ? `${parent} ${baseCommand}` : baseCommand;
+
+  const positionals = parsePositionals(command.usage);
+  const options: ResolvedOption[] = command.options.map((option) => ({
+    option,
+    key: toCamelCase(option.name),
+    choices: resolveChoices(option),
+  }));
+
+  const inputShape: z.ZodRawShape = {};
+  for (const positional of positionals) {
+    const schema = z.string().describe(`<${positional.name}> argument`);
+    inputShape[positional.key] = positional.required
+      ? schema
+      : schema.optional();
+  }
+  for (const resolved of options) {
+    // Positional arguments win if a name collides
+    if (!(resolved.key in inputShape)) {
+      inputShape[resolved.key] = buildOptionSchema(resolved);
+    }
+  }
+
+  return {
+    toolName: `aegisx_cli_${commandPath.replace(/[\s:-]+/g, '_')}`,
+    commandPath,
+    command,
+    positionals,
+    options,
+    inputShape,
+  };
+}
+
+/**
+ * Build tool specs for every synced CLI command
+ * @returns One spec per command, keyed by unique tool name
+ */
+export function getCommandToolSpecs(): CommandToolSpec[] {
+  const allCommands = getAllCommands();
+  const specs = new Map<string, CommandToolSpec>();
+
+  for (const command of allCommands) {
+    const spec = buildCommandToolSpec(command, allCommands);
+    // First definition wins if the CLI metadata lists a command twice
+    if (!specs.has(spec.toolName)) {
+      specs.set(spec.toolName, spec);
+    }
+  }
+
+  return Array.from(specs.values());
+}
+
+/**
+ * Find a tool spec by MCP tool name
+ * @param toolName - Tool name (e.g., "aegisx_cli_shell")
+ * @returns Matching spec or undefined
+ */
+export function getCommandToolSpec(
+  toolName: string,
+): CommandToolSpec | undefined {
+  return getCommandToolSpecs().find((spec) => spec.toolName === toolName);
+}
+
+/**
+ * Quote a value for the shell if it contains anything but safe characters
+ */
+function quoteArg(value: string): string {
+  return /^[\w./:@%+=,-]+$/.test(value)
+    ? value
+    : `"${value.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+/**
+ * Build a CLI command string from tool arguments
+ * Options equal to their documented default are omitted; a boolean option
+ * that defaults to true and is set to false is emitted in commander's
+ * negated form (`--no-<name>`).
+ *
+ * @param spec - Tool spec for the command
+ * @param args - Tool arguments keyed by camelCase names
+ * @param cliPath - Path to the CLI entry point
+ * @returns Command string ready to run
+ */
+export function buildCliCommand(
+  spec: CommandToolSpec,
+  args: Record<string, unknown>,
+  cliPath: string = DEFAULT_CLI_PATH,
+): string {
+  const parts: string[] = [cliPath, spec.commandPath];
+
+  for (const positional of spec.positionals) {
+    const value = args[positional.key];
+    if (value !== undefined && value !== '') {
+      parts.push(quoteArg(String(value)));
+    }
+  }
+
+  for (const { option, key } of spec.options) {
+    const value = args[key];
+    if (value === undefined || spec.positionals.some((p) => p.key === key)) {
+      continue;
+    }
+
+    if (option.type === 'boolean') {
+      if (value === true && option.default !== true) {
+        parts.push(`--${option.name}`);
+      } else if (value === false && option.default === true) {
+        parts.push(`--no-${option.name}`);
+      }
+      continue;
+    }
+
+    if (value === '' || String(value) === String(option.default)) {
+      continue;
+    }
+    parts.push(`--${option.name} ${quoteArg(String(value))}`);
+  }
+
+  return parts.join(' ');
+}
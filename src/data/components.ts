@@ -8,8 +8,8 @@
  */
 
 /* eslint-disable no-useless-escape */
- 
- 
+
+import { createSearchIndex, type SearchIndex } from '../utils/search-index.js';
 
 /**
  * AegisX UI Components Registry
@@ -5584,16 +5584,43 @@ export function getComponentByName(name: string): ComponentInfo | undefined {
 }
 
 /**
- * Search components
+ * Full-text index over the components (built on first search)
+ */
+
+let componentIndex: SearchIndex<ComponentInfo> | null = null;
+
+function getComponentIndex(): SearchIndex<ComponentInfo> {
+  if (!componentIndex) {
+    componentIndex = createSearchIndex<ComponentInfo>({
+      name: 3,
+      selector: 3,
+      category: 2,
+      description: 1,
+      api: 0.5,
+    });
+    for (const c of components) {
+      componentIndex.add(c, {
+        name: c.name,
+        selector: c.selector,
+        category: c.category,
+        description: c.description,
+        api: [...c.inputs, ...c.outputs].map(
+          (io) => `${io.name} ${io.description}`,
+        ),
+      });
+    }
+  }
+  return componentIndex;
+}
+
+/**
+ * Search components, most relevant first
+ * An empty query returns every component in registry order.
  */
 
 export function searchComponents(query: string): ComponentInfo[] {
-  const q = query.toLowerCase();
-  return components.filter(
-    (c) =>
-      c.name.toLowerCase().includes(q) ||
-      c.selector.toLowerCase().includes(q) ||
-      c.description.toLowerCase().includes(q) ||
-      c.category.includes(q),
-  );
+  if (!query.trim()) return components;
+  return getComponentIndex()
+    .search(query)
+    .map((hit) => hit.item);
 }
@@ -0,0 +1,82 @@
+/**
+ * Live Response Conformance
+ * Compares an actual API response with the documented contract
+ *
+ * The status code must be a 2xx (contracts document a single success
+ * response) or one of the endpoint's `errorResponses`. Successful bodies are
+ * validated against `responseJsonSchema`, reporting missing, extra and
+ * wrongly-typed fields by JSON pointer.
+ */
+
+import type { ApiEndpoint } from './api-contracts-parser.js';
+import {
+  validateJsonSchema,
+  type SchemaViolation,
+} from './schema-validator.js';
+
+/**
+ * Result of checking one response against its contract
+ */
+export interface ConformanceReport {
+  /** Documented endpoint the response was checked against */
+  method: string;
+  path: string;
+
+  /** Actual status code */
+  status: number;
+
+  /** Whether the status code is documented ("2xx" or an error response) */
+  statusDocumented: boolean;
+
+  /** Documented status codes, e.g. ["2xx", "400", "404"] */
+  documentedStatuses: string[];
+
+  /** Whether the body was validated (2xx response with a response schema) */
+  bodyChecked: boolean;
+
+  /** Body mismatches against the response schema */
+  violations: SchemaViolation[];
+
+  /** True when the status is documented and the body has no violations */
+  conforms: boolean;
+}
+
+/**
+ * Check a response against an endpoint contract
+ * @param endpoint - Documented endpoint (see `findEndpoint`)
+ * @param status - Actual HTTP status code
+ * @param body - Parsed response body (JSON value or text)
+ * @returns Conformance report
+ */
+export function checkResponseConformance(
+  endpoint: ApiEndpoint,
+  status: number,
+  body: unknown,
+): ConformanceReport {
+  const errorStatuses = (endpoint.errorResponses ?? []).map(
+    (error) => error.statusCode,
+  );
+  const success = status >= 200 && status < 300;
+  const statusDocumented = success || errorStatuses.includes(status);
+
+  // 204 and other empty successes have nothing to validate
+  const hasBody = body !== undefined && body !== '' && status !== 204;
+  const bodyChecked = success && hasBody && !!endpoint.responseJsonSchema;
+  const violations = bodyChecked
+    ? validateJsonSchema(body, endpoint.responseJsonSchema!)
+    : [];
+
+  return {
+    method: endpoint.method,
+    path: endpoint.path,
+    status,
+    statusDocumented,
+    documentedStatuses: [
+      '2xx',
+      ...Array.from(new Set(errorStatuses)).map(String),
+    ],
+    bodyChecked,
+    violations,
+    conforms: statusDocumented && violations.length === 0,
+  };
+}
@@ -0,0 +1,396 @@
+/**
+ * Contract Coverage
+ * Aggregates documentation debt across features: how many documented
+ * endpoints are implemented, carry schemas, examples and error responses,
+ * and were exercised with the API testing tools. Features whose routes have
+ * no API_CONTRACTS.md at all are listed separately.
+ */
+
+import { relative, sep } from 'path';
+import type {
+  ApiContract,
+  ApiEndpoint,
+  ValidationReport,
+} from './api-contracts-parser.js';
+import type { DiscoveredRoute } from './route-discovery.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A request sent during this session (from the API testing history)
+ */
+export interface ExercisedRequest {
+  method: string;
+
+  /** Absolute URL that was requested */
+  url: string;
+
+  /** Response status; 0 when the request never got a response */
+  status: number;
+}
+
+/**
+ * Count of endpoints meeting a criterion, and its share of the documented ones
+ */
+export interface CoverageMetric {
+  count: number;
+
+  /** Whole-number percentage of documented endpoints */
+  percent: number;
+}
+
+/**
+ * Coverage of one feature (or the totals row)
+ */
+export interface FeatureCoverage {
+  /** Feature name, or "total" */
+  feature: string;
+
+  /** Documented endpoints */
+  documented: number;
+
+  /** Documented endpoints with a route of the same method */
+  implemented: CoverageMetric;
+
+  /** Endpoints with a response schema, and a request schema when they take a body */
+  schemas: CoverageMetric;
+
+  /** Endpoints with a response example */
+  examples: CoverageMetric;
+
+  /** Endpoints documenting at least one error response */
+  errorResponses: CoverageMetric;
+
+  /** Endpoints requested (and answered) during this session */
+  exercised: CoverageMetric;
+
+  /** Routes in the feature's directory that its contract doesn't document */
+  undocumentedRoutes: number;
+}
+
+/**
+ * A feature with routes but no contract file
+ */
+export interface UndocumentedFeature {
+  /** Feature directory name */
+  feature: string;
+
+  /** Feature directory, relative to codebaseRoot */
+  directory: string;
+
+  /** Routes declared in the directory */
+  routes: number;
+}
+
+/**
+ * Coverage across every feature
+ */
+export interface CoverageReport {
+  features: FeatureCoverage[];
+  totals: FeatureCoverage;
+  undocumentedFeatures: UndocumentedFeature[];
+
+  /** Requests in this session's history */
+  requestCount: number;
+  generatedAt: Date;
+}
+
+/**
+ * Inputs for building a coverage report
+ */
+export interface CoverageInput {
+  contracts: ApiContract[];
+
+  /** Validation reports per feature, from `validateAllFeatures()` */
+  reports: ValidationReport[];
+
+  /** Routes from `discoverRoutes()`, used to find features without contracts */
+  routes: DiscoveredRoute[];
+
+  /** Requests sent during this session */
+  history: ExercisedRequest[];
+  codebaseRoot: string;
+
+  /** Route file globs, relative to codebaseRoot */
+  routeGlobs: string[];
+}
+
+/** Methods that send a request body */
+const BODY_METHODS = new Set(['POST', 'PUT', 'PATCH']);
+
+// ============================================================================
+// Criteria
+// ============================================================================
+
+/**
+ * Whether an endpoint documents the schemas it needs
+ */
+function hasSchemas(endpoint: ApiEndpoint): boolean {
+  if (!endpoint.responseSchema) return false;
+  return !BODY_METHODS.has(endpoint.method) || !!endpoint.requestSchema;
+}
+
+/**
+ * Pattern matching request URL paths for an endpoint
+ * `:params` match one segment; a base path before the endpoint path (e.g.,
+ * an `apiBaseUrl` ending in "/v1") is allowed.
+ */
+function endpointPattern(path: string): RegExp {
+  const pattern = path
+    .replace(/\/+$/, '')
+    .split('/')
+    .map((segment) =>
+      segment.startsWith(':')
+        ? '[^/]+'
+        : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('/');
+  return new RegExp(`^(?:/.*)?${pattern}/?$`);
+}
+
+/**
+ * URL path of a requested URL
+ */
+function requestPath(url: string): string {
+  try {
+    return new URL(url, 'http://localhost').pathname;
+  } catch {
+    return url.split(/[?#]/)[0];
+  }
+}
+
+/**
+ * Whether an endpoint was requested and answered during the session
+ */
+function isExercised(
+  endpoint: ApiEndpoint,
+  history: ExercisedRequest[],
+): boolean {
+  const pattern = endpointPattern(endpoint.path);
+  return history.some(
+    (request) =>
+      request.status > 0 &&
+      request.method.toUpperCase() === endpoint.method &&
+      pattern.test(requestPath(request.url)),
+  );
+}
+
+/**
+ * Metric for a count out of a total
+ */
+function metric(count: number, total: number): CoverageMetric {
+  return {
+    count,
+    percent: total > 0 ? Math.round((count / total) * 100) : 0,
+  };
+}
+
+// ============================================================================
+// Features Without Contracts
+// ============================================================================
+
+/**
+ * Directory part of a glob before its first wildcard
+ * e.g. "apps/api/src/layers/**\/*.routes.ts" → "apps/api/src/layers"
+ */
+function globBase(pattern: string): string {
+  const segments = pattern.split('/');
+  const index = segments.findIndex((segment) => /[*?[{]/.test(segment));
+  return segments.slice(0, index === -1 ? -1 : index).join('/');
+}
+
+/**
+ * Group routes outside every documented feature by feature directory
+ * Follows the default layout `<base>/<layer>/<feature>/...`; routes directly
+ * under a layer use the layer directory.
+ */
+function findUndocumentedFeatures(
+  contracts: ApiContract[],
+  routes: DiscoveredRoute[],
+  codebaseRoot: string,
+  routeGlobs: string[],
+): UndocumentedFeature[] {
+  const bases = routeGlobs.map(globBase);
+  const features = new Map<string, UndocumentedFeature>();
+
+  for (const route of routes) {
+    // Same narrowing as validation: a feature owns files under `<feature>/`
+    if (contracts.some((c) => route.file.includes(`/${c.feature}/`))) {
+      continue;
+    }
+
+    const file = relative(codebaseRoot, route.file).split(sep).join('/');
+    const base = bases.find((b) => !b || file.startsWith(`${b}/`));
+    if (base === undefined) continue;
+
+    const directories = file
+      .slice(base ? base.length + 1 : 0)
+      .split('/')
+      .slice(0, -1);
+    if (directories.length === 0) continue;
+
+    const depth = directories.length > 1 ? 2 : 1;
+    const directory = [base, ...directories.slice(0, depth)]
+      .filter(Boolean)
+      .join('/');
+    const existing = features.get(directory);
+    if (existing) {
+      existing.routes++;
+    } else {
+      features.set(directory, {
+        feature: directories[depth - 1],
+        directory,
+        routes: 1,
+      });
+    }
+  }
+
+  return Array.from(features.values()).sort((a, b) =>
+    a.feature.localeCompare(b.feature),
+  );
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build the coverage report
+ * @param input - Contracts, validation reports, routes and request history
+ * @returns Per-feature coverage, totals and features without contracts
+ */
+export function computeContractCoverage(input: CoverageInput): CoverageReport {
+  const { contracts, reports, routes, history, codebaseRoot, routeGlobs } =
+    input;
+  const totals = {
+    documented: 0,
+    implemented: 0,
+    schemas: 0,
+    examples: 0,
+    errorResponses: 0,
+    exercised: 0,
+    undocumentedRoutes: 0,
+  };
+
+  const features: FeatureCoverage[] = [];
+  for (const contract of [...contracts].sort((a, b) =>
+    a.feature.localeCompare(b.feature),
+  )) {
+    const endpoints = contract.endpoints;
+    const report = reports.find((r) => r.feature === contract.feature);
+    const counts = {
+      documented: endpoints.length,
+      implemented: report?.matched ?? 0,
+      schemas: endpoints.filter(hasSchemas).length,
+      examples: endpoints.filter((e) => !!e.responseExample).length,
+      errorResponses: endpoints.filter(
+        (e) => (e.errorResponses ?? []).length > 0,
+      ).length,
+      exercised: endpoints.filter((e) => isExercised(e, history)).length,
+      undocumentedRoutes: report?.undocumented.length ?? 0,
+    };
+
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += counts[key];
+    }
+    features.push(toFeatureCoverage(contract.feature, counts));
+  }
+
+  return {
+    features,
+    totals: toFeatureCoverage('total', totals),
+    undocumentedFeatures: findUndocumentedFeatures(
+      contracts,
+      routes,
+      codebaseRoot,
+      routeGlobs,
+    ),
+    requestCount: history.length,
+    generatedAt: new Date(),
+  };
+}
+
+/**
+ * Turn raw counts into a coverage row
+ */
+function toFeatureCoverage(
+  feature: string,
+  counts: Record<
+    | 'documented'
+    | 'implemented'
+    | 'schemas'
+    | 'examples'
+    | 'errorResponses'
+    | 'exercised'
+    | 'undocumentedRoutes',
+    number
+  >,
+): FeatureCoverage {
+  const total = counts.documented;
+  return {
+    feature,
+    documented: total,
+    implemented: metric(counts.implemented, total),
+    schemas: metric(counts.schemas, total),
+    examples: metric(counts.examples, total),
+    errorResponses: metric(counts.errorResponses, total),
+    exercised: metric(counts.exercised, total),
+    undocumentedRoutes: counts.undocumentedRoutes,
+  };
+}
+
+/**
+ * Format a coverage report as markdown
+ * @param report - Coverage report
+ * @returns Markdown with one row per feature and a totals row
+ */
+export function formatCoverageReport(report: CoverageReport): string {
+  const lines: string[] = [];
+  const { totals } = report;
+  const cell = (value: CoverageMetric) => `${value.count} (${value.percent}%)`;
+
+  lines.push('# API Contract Coverage');
+  lines.push('');
+  lines.push(
+    `**Features:** ${report.features.length} | **Documented endpoints:** ${totals.documented} | **Implemented:** ${totals.implemented.percent}% | **Requests this session:** ${report.requestCount}`,
+  );
+  lines.push('');
+  lines.push(
+    '| Feature | Documented | Implemented | Schemas | Examples | Error responses | Exercised | Undocumented routes |',
+  );
+  lines.push(
+    '|---------|------------|-------------|---------|----------|-----------------|-----------|---------------------|',
+  );
+  for (const row of [...report.features, totals]) {
+    const name = row === totals ? '**Total**' : row.feature;
+    lines.push(
+      `| ${name} | ${row.documented} | ${cell(row.implemented)} | ${cell(row.schemas)} | ${cell(row.examples)} | ${cell(row.errorResponses)} | ${cell(row.exercised)} | ${row.undocumentedRoutes} |`,
+    );
+  }
+
+  lines.push('');
+  if (report.undocumentedFeatures.length > 0) {
+    lines.push('## Features Without Contracts');
+    lines.push('');
+    lines.push('| Feature | Routes | Directory |');
+    lines.push('|---------|--------|-----------|');
+    for (const feature of report.undocumentedFeatures) {
+      lines.push(
+        `| ${feature.feature} | ${feature.routes} | \`${feature.directory}\` |`,
+      );
+    }
+  } else {
+    lines.push('✅ Every feature with routes has an API contract.');
+  }
+
+  if (report.requestCount === 0) {
+    lines.push('');
+    lines.push(
+      '_Exercised is 0% until endpoints are called with aegisx_api_request in this session._',
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,744 @@
+/**
+ * API Contract Diff
+ * Classifies the changes between two versions of the API contracts
+ *
+ * Endpoints are matched by method and path (path parameter names ignored).
+ * Each change gets a severity:
+ * - breaking: clients written against the old contract may fail (removed
+ *   endpoint, new required parameter or request field, removed or newly
+ *   optional response field, changed type, authentication now required)
+ * - non-breaking: changes clients can ignore (new endpoint, optional
+ *   parameter or response field, error responses, relaxed requirements)
+ * - documentation: descriptions, examples and schema text that leave the
+ *   wire format unchanged
+ *
+ * Type changes count as breaking in either direction, enum values included.
+ * The old version can come from a directory or from a git ref, read with
+ * `git show` so the working tree is left untouched.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+import { promisify } from 'util';
+import {
+  parseContractFile,
+  type ApiContract,
+  type ApiEndpoint,
+} from './api-contracts-parser.js';
+import { parameterSchema } from './openapi.js';
+import type { JsonSchema } from './schema-compiler.js';
+import {
+  compareSchemaVersions,
+  type SchemaDrift,
+  type SchemaLocation,
+} from './schema-drift.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Contract files can be large; git output is buffered in full */
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+
+/** Contract file names, as in `discoverContractFiles` */
+const CONTRACT_FILE_NAMES = ['api-contracts.md', 'API_CONTRACTS.md'];
+
+/**
+ * Impact of a change on clients of the old contract
+ */
+export type ContractChangeSeverity =
+  'breaking' | 'non-breaking' | 'documentation';
+
+/**
+ * What changed
+ */
+export type ContractChangeKind =
+  | 'endpoint-removed'
+  | 'endpoint-added'
+  | 'authentication'
+  | 'parameter-removed'
+  | 'parameter-added'
+  | 'parameter-type'
+  | 'parameter-required'
+  | 'parameter-default'
+  | 'field-removed'
+  | 'field-added'
+  | 'field-type'
+  | 'field-required'
+  | 'error-response-removed'
+  | 'error-response-added'
+  | 'documentation';
+
+/**
+ * One classified difference between two contract versions
+ */
+export interface ContractChange {
+  severity: ContractChangeSeverity;
+  kind: ContractChangeKind;
+
+  /** Feature of the newer endpoint (the older one when removed) */
+  feature: string;
+
+  method: string;
+
+  /** Path of the newer endpoint (the older one when removed) */
+  path: string;
+
+  /** Part of the endpoint the change is in */
+  location?: SchemaLocation;
+
+  /** Parameter name or field path (e.g., "roles[].name") */
+  field?: string;
+
+  /** Old value (type, requiredness or text) */
+  before?: string;
+
+  /** New value */
+  after?: string;
+
+  message: string;
+}
+
+/**
+ * Result of comparing two contract versions
+ */
+export interface ContractDiff {
+  /** Label of the old version (git ref or directory) */
+  base: string;
+
+  /** Label of the new version */
+  head: string;
+
+  /** Changes, breaking first */
+  changes: ContractChange[];
+
+  /** Number of changes per severity */
+  summary: Record<ContractChangeSeverity, number>;
+}
+
+/** Order of severities in the diff and the changelog */
+const SEVERITY_ORDER: ContractChangeSeverity[] = [
+  'breaking',
+  'non-breaking',
+  'documentation',
+];
+
+/**
+ * Key matching one endpoint across versions (`GET /api/roles/:`)
+ */
+function endpointKey(endpoint: ApiEndpoint): string {
+  const path =
+    endpoint.path.replace(/:[^/]+|\{[^}]+\}/g, ':').replace(/\/+$/, '') || '/';
+  return `${endpoint.method} ${path}`;
+}
+
+/**
+ * Path parameter names in path order
+ */
+function pathParameterNames(path: string): string[] {
+  return Array.from(path.matchAll(/:([^/]+)|\{([^}]+)\}/g)).map(
+    (match) => match[1] ?? match[2],
+  );
+}
+
+/**
+ * JSON type of a documented parameter type (`uuid` reads as `string`)
+ */
+function parameterKind(type: string): string {
+  const schema = parameterSchema(type);
+  return String(schema.type ?? 'string').replace('integer', 'number');
+}
+
+/**
+ * Request or response schema of an endpoint
+ */
+function documentedSchema(
+  endpoint: ApiEndpoint,
+  request: boolean,
+): { text?: string; json?: JsonSchema; example?: string } {
+  if (!request) {
+    return {
+      text: endpoint.responseSchema,
+      json: endpoint.responseJsonSchema,
+      example: endpoint.responseExample,
+    };
+  }
+  return {
+    text: endpoint.requestSchema,
+    json: endpoint.requestJsonSchema,
+    example: endpoint.requestExample,
+  };
+}
+
+/**
+ * Compares one endpoint across two versions
+ */
+class EndpointDiffer {
+  readonly changes: ContractChange[] = [];
+
+  constructor(
+    private before: ApiEndpoint,
+    private after: ApiEndpoint,
+  ) {}
+
+  /**
+   * Record one change on this endpoint
+   */
+  report(change: Omit<ContractChange, 'feature' | 'method' | 'path'>): void {
+    this.changes.push({
+      feature: this.after.feature,
+      method: this.after.method,
+      path: this.after.path,
+      ...change,
+    });
+  }
+
+  /**
+   * Record a documentation-only change when two texts differ
+   */
+  text(
+    before: string | undefined,
+    after: string | undefined,
+    message: string,
+    location?: SchemaLocation,
+    field?: string,
+  ): void {
+    if ((before ?? '').trim() === (after ?? '').trim()) return;
+    this.report({
+      severity: 'documentation',
+      kind: 'documentation',
+      ...(location && { location }),
+      ...(field && { field }),
+      message,
+    });
+  }
+
+  /**
+   * Run every comparison
+   */
+  diff(): ContractChange[] {
+    this.compareEndpoint();
+    this.comparePathParameters();
+    this.compareQueryParameters();
+    this.compareSchema('body');
+    this.compareSchema('response');
+    this.compareErrorResponses();
+    return this.changes;
+  }
+
+  /**
+   * Authentication, feature and description
+   */
+  compareEndpoint(): void {
+    const { before, after } = this;
+
+    if (before.authentication !== after.authentication) {
+      this.report({
+        severity: after.authentication ? 'breaking' : 'non-breaking',
+        kind: 'authentication',
+        before: before.authentication ? 'required' : 'none',
+        after: after.authentication ? 'required' : 'none',
+        message: after.authentication
+          ? 'Authentication is now required'
+          : 'Authentication is no longer required',
+      });
+    }
+
+    if (before.feature !== after.feature) {
+      this.report({
+        severity: 'documentation',
+        kind: 'documentation',
+        before: before.feature,
+        after: after.feature,
+        message: `Moved from feature "${before.feature}" to "${after.feature}"`,
+      });
+    }
+
+    this.text(before.description, after.description, 'Description changed');
+  }
+
+  /**
+   * Path parameters, by position (names may change freely)
+   */
+  comparePathParameters(): void {
+    const beforeNames = pathParameterNames(this.before.path);
+    const afterNames = pathParameterNames(this.after.path);
+
+    afterNames.forEach((name, index) => {
+      const oldName = beforeNames[index];
+      if (oldName !== undefined && oldName !== name) {
+        this.report({
+          severity: 'documentation',
+          kind: 'documentation',
+          location: 'params',
+          field: name,
+          before: oldName,
+          after: name,
+          message: `Path parameter \`${oldName}\` renamed to \`${name}\``,
+        });
+      }
+
+      const oldParameter = this.before.pathParameters?.find(
+        (parameter) => parameter.name === oldName,
+      );
+      const parameter = this.after.pathParameters?.find(
+        (candidate) => candidate.name === name,
+      );
+      if (!oldParameter || !parameter) return;
+
+      if (parameterKind(oldParameter.type) !== parameterKind(parameter.type)) {
+        this.report({
+          severity: 'breaking',
+          kind: 'parameter-type',
+          location: 'params',
+          field: name,
+          before: oldParameter.type,
+          after: parameter.type,
+          message: `Path parameter \`${name}\` changed from ${oldParameter.type} to ${parameter.type}`,
+        });
+      }
+      this.text(
+        oldParameter.description,
+        parameter.description,
+        `Path parameter \`${name}\` description changed`,
+        'params',
+        name,
+      );
+    });
+  }
+
+  /**
+   * Query parameters, by name
+   */
+  compareQueryParameters(): void {
+    const before = new Map(
+      (this.before.queryParameters ?? []).map((p) => [p.name, p]),
+    );
+    const after = new Map(
+      (this.after.queryParameters ?? []).map((p) => [p.name, p]),
+    );
+    const base = { location: 'querystring' as const };
+
+    for (const [name, oldParameter] of before) {
+      if (!after.has(name)) {
+        this.report({
+          ...base,
+          severity: 'non-breaking',
+          kind: 'parameter-removed',
+          field: name,
+          before: oldParameter.type,
+          message: `Query parameter \`${name}\` removed`,
+        });
+      }
+    }
+
+    for (const [name, parameter] of after) {
+      const oldParameter = before.get(name);
+      if (!oldParameter) {
+        this.report({
+          ...base,
+          severity: parameter.required ? 'breaking' : 'non-breaking',
+          kind: 'parameter-added',
+          field: name,
+          after: parameter.type,
+          message: `New ${parameter.required ? 'required' : 'optional'} query parameter \`${name}\``,
+        });
+        continue;
+      }
+
+      if (oldParameter.required !== parameter.required) {
+        this.report({
+          ...base,
+          severity: parameter.required ? 'breaking' : 'non-breaking',
+          kind: 'parameter-required',
+          field: name,
+          before: oldParameter.required ? 'required' : 'optional',
+          after: parameter.required ? 'required' : 'optional',
+          message: `Query parameter \`${name}\` is now ${parameter.required ? 'required' : 'optional'}`,
+        });
+      }
+
+      if (parameterKind(oldParameter.type) !== parameterKind(parameter.type)) {
+        this.report({
+          ...base,
+          severity: 'breaking',
+          kind: 'parameter-type',
+          field: name,
+          before: oldParameter.type,
+          after: parameter.type,
+          message: `Query parameter \`${name}\` changed from ${oldParameter.type} to ${parameter.type}`,
+        });
+      }
+
+      if ((oldParameter.default ?? '') !== (parameter.default ?? '')) {
+        this.report({
+          ...base,
+          severity: 'non-breaking',
+          kind: 'parameter-default',
+          field: name,
+          before: oldParameter.default ?? 'none',
+          after: parameter.default ?? 'none',
+          message: `Query parameter \`${name}\` default changed from ${oldParameter.default ?? 'none'} to ${parameter.default ?? 'none'}`,
+        });
+      }
+
+      this.text(
+        oldParameter.description,
+        parameter.description,
+        `Query parameter \`${name}\` description changed`,
+        'querystring',
+        name,
+      );
+    }
+  }
+
+  /**
+   * Request body or response schema, field by field
+   * Schema text edits without a field change are documentation changes.
+   */
+  compareSchema(location: 'body' | 'response'): void {
+    const request = location === 'body';
+    const label = request ? 'Request' : 'Response';
+    const before = documentedSchema(this.before, request);
+    const after = documentedSchema(this.after, request);
+
+    const drifts =
+      before.json && after.json
+        ? compareSchemaVersions(location, before.json, after.json)
+        : [];
+    for (const drift of drifts) {
+      this.report(classifyDrift(drift, request));
+    }
+
+    if (drifts.length === 0) {
+      this.text(
+        before.text,
+        after.text,
+        `${label} schema text changed`,
+        location,
+      );
+    }
+    this.text(
+      before.example,
+      after.example,
+      `${label} example changed`,
+      location,
+    );
+  }
+
+  /**
+   * Documented error responses, by status code
+   */
+  compareErrorResponses(): void {
+    const before = new Map(
+      (this.before.errorResponses ?? []).map((e) => [e.statusCode, e]),
+    );
+    const after = new Map(
+      (this.after.errorResponses ?? []).map((e) => [e.statusCode, e]),
+    );
+
+    for (const [code, error] of before) {
+      if (!after.has(code)) {
+        this.report({
+          severity: 'non-breaking',
+          kind: 'error-response-removed',
+          field: String(code),
+          before: error.description,
+          message: `Error response ${code} no longer documented`,
+        });
+      }
+    }
+
+    for (const [code, error] of after) {
+      const oldError = before.get(code);
+      if (!oldError) {
+        this.report({
+          severity: 'non-breaking',
+          kind: 'error-response-added',
+          field: String(code),
+          after: error.description,
+          message: `New error response ${code} (${error.description})`,
+        });
+      } else {
+        this.text(
+          oldError.description,
+          error.description,
+          `Error response ${code} description changed`,
+          undefined,
+          String(code),
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Classify a field-level schema difference
+ * Request fields break clients when they become required or change type;
+ * response fields when they disappear, become optional or change type.
+ */
+function classifyDrift(
+  drift: SchemaDrift,
+  request: boolean,
+): Omit<ContractChange, 'feature' | 'method' | 'path'> {
+  const side = request ? 'Request' : 'Response';
+  const field = drift.field;
+  const name = field ? `${side} field \`${field}\`` : `${side} body`;
+  const base = {
+    location: drift.location,
+    ...(field && { field }),
+    ...(drift.documented !== undefined && { before: drift.documented }),
+    ...(drift.implemented !== undefined && { after: drift.implemented }),
+  };
+
+  switch (drift.kind) {
+    case 'missing':
+      return {
+        ...base,
+        severity: request ? 'non-breaking' : 'breaking',
+        kind: 'field-removed',
+        message: `${name} removed`,
+      };
+    case 'extra': {
+      const required = request && drift.required === true;
+      return {
+        ...base,
+        severity: required ? 'breaking' : 'non-breaking',
+        kind: 'field-added',
+        message: request
+          ? `New ${required ? 'required' : 'optional'} request field \`${field}\``
+          : `New response field \`${field}\``,
+      };
+    }
+    case 'required': {
+      const nowRequired = drift.implemented === 'required';
+      return {
+        ...base,
+        // Requests break on new requirements, responses on lost guarantees
+        severity: nowRequired === request ? 'breaking' : 'non-breaking',
+        kind: 'field-required',
+        message: `${name} is now ${drift.implemented}`,
+      };
+    }
+    default:
+      return {
+        ...base,
+        severity: 'breaking',
+        kind: 'field-type',
+        message: `${name} changed from ${drift.documented} to ${drift.implemented}`,
+      };
+  }
+}
+
+/**
+ * Compare two versions of the API contracts
+ * @param before - Old contracts
+ * @param after - New contracts
+ * @param labels - Names of the versions for the report
+ * @returns Classified changes, breaking first
+ */
+export function diffContracts(
+  before: ApiContract[],
+  after: ApiContract[],
+  labels: { base: string; head: string } = { base: 'before', head: 'after' },
+): ContractDiff {
+  const index = (contracts: ApiContract[]) =>
+    new Map(
+      contracts
+        .flatMap((contract) => contract.endpoints)
+        .map((endpoint) => [endpointKey(endpoint), endpoint]),
+    );
+  const oldEndpoints = index(before);
+  const newEndpoints = index(after);
+  const changes: ContractChange[] = [];
+
+  for (const [key, endpoint] of oldEndpoints) {
+    if (!newEndpoints.has(key)) {
+      changes.push({
+        severity: 'breaking',
+        kind: 'endpoint-removed',
+        feature: endpoint.feature,
+        method: endpoint.method,
+        path: endpoint.path,
+        message: 'Endpoint removed',
+      });
+    }
+  }
+
+  for (const [key, endpoint] of newEndpoints) {
+    const oldEndpoint = oldEndpoints.get(key);
+    if (oldEndpoint) {
+      changes.push(...new EndpointDiffer(oldEndpoint, endpoint).diff());
+    } else {
+      changes.push({
+        severity: 'non-breaking',
+        kind: 'endpoint-added',
+        feature: endpoint.feature,
+        method: endpoint.method,
+        path: endpoint.path,
+        message: 'New endpoint',
+      });
+    }
+  }
+
+  // Stable sort: severity first, discovery order within a severity
+  changes.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity),
+  );
+
+  const summary = Object.fromEntries(
+    SEVERITY_ORDER.map((severity) => [
+      severity,
+      changes.filter((change) => change.severity === severity).length,
+    ]),
+  ) as Record<ContractChangeSeverity, number>;
+
+  return { ...labels, changes, summary };
+}
+
+// ============================================================================
+// Git Source
+// ============================================================================
+
+/**
+ * Run git and return its stdout
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd,
+    encoding: 'utf8',
+    maxBuffer: GIT_MAX_BUFFER,
+  });
+  return stdout;
+}
+
+/**
+ * Git's own error message (stderr) for a failed command
+ */
+function gitErrorMessage(error: unknown): string {
+  const stderr = (error as { stderr?: string }).stderr?.trim();
+  return stderr || (error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Parse the contracts under a docs directory as of a git ref
+ * Files are read with `git show`, so neither the working tree nor the index
+ * changes.
+ *
+ * @param docsPath - Contracts directory in the working tree
+ * @param ref - Commit, branch or tag (e.g., "main", "HEAD~1")
+ * @returns Contracts that existed at the ref
+ */
+export async function loadContractsAtRef(
+  docsPath: string,
+  ref: string,
+): Promise<ApiContract[]> {
+  if (!ref.trim() || ref.startsWith('-')) {
+    throw new Error(`Invalid git ref: "${ref}"`);
+  }
+
+  const directory = resolve(docsPath);
+  let root: string;
+  try {
+    root = (await git(directory, ['rev-parse', '--show-toplevel'])).trim();
+  } catch (error) {
+    throw new Error(
+      `${directory} is not inside a git repository: ${gitErrorMessage(error)}`,
+    );
+  }
+
+  try {
+    await git(root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  } catch {
+    throw new Error(`Unknown git ref: "${ref}"`);
+  }
+
+  // Compare real paths so symlinked checkouts map onto the repository
+  const prefix = relative(await fs.realpath(root), await fs.realpath(directory))
+    .split(sep)
+    .join('/');
+  const listing = await git(root, [
+    'ls-tree',
+    '-r',
+    '-z',
+    '--name-only',
+    ref,
+    '--',
+    prefix || '.',
+  ]);
+
+  const contracts: ApiContract[] = [];
+  for (const file of listing.split('\0')) {
+    const name = file.split('/').pop() ?? '';
+    if (!CONTRACT_FILE_NAMES.includes(name)) continue;
+
+    const content = await git(root, ['show', `${ref}:${file}`]);
+    // An empty string would make the parser read the working tree file
+    const result = await parseContractFile(join(root, file), content || '\n');
+    if (result.success && result.contract) {
+      contracts.push(result.contract);
+    }
+  }
+
+  return contracts;
+}
+
+// ============================================================================
+// Changelog
+// ============================================================================
+
+/** Changelog section heading per severity */
+const SEVERITY_HEADINGS: Record<ContractChangeSeverity, string> = {
+  breaking: '⚠️ Breaking Changes',
+  'non-breaking': 'Non-breaking Changes',
+  documentation: 'Documentation',
+};
+
+/**
+ * Render a diff as a markdown changelog
+ * Changes are grouped by severity, then by feature.
+ *
+ * @param diff - Result of `diffContracts`
+ * @returns Markdown changelog
+ */
+export function formatContractChangelog(diff: ContractDiff): string {
+  const lines: string[] = [];
+
+  lines.push('# API Contract Changes');
+  lines.push('');
+  lines.push(`**Base:** \`${diff.base}\` → **Head:** \`${diff.head}\``);
+  lines.push('');
+  lines.push(`- **Breaking:** ${diff.summary.breaking}`);
+  lines.push(`- **Non-breaking:** ${diff.summary['non-breaking']}`);
+  lines.push(`- **Documentation:** ${diff.summary.documentation}`);
+  lines.push('');
+
+  if (diff.changes.length === 0) {
+    lines.push('No contract changes.');
+    return lines.join('\n');
+  }
+
+  for (const severity of SEVERITY_ORDER) {
+    const changes = diff.changes.filter(
+      (change) => change.severity === severity,
+    );
+    if (changes.length === 0) continue;
+
+    lines.push(`## ${SEVERITY_HEADINGS[severity]}`);
+    lines.push('');
+
+    const features = Array.from(new Set(changes.map((c) => c.feature)));
+    for (const feature of features.sort()) {
+      lines.push(`### ${feature}`);
+      lines.push('');
+      for (const change of changes.filter((c) => c.feature === feature)) {
+        lines.push(
+          `- **${change.method}** \`${change.path}\`: ${change.message}`,
+        );
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trimEnd();
+}
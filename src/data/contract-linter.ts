@@ -0,0 +1,691 @@
+/**
+ * API Contract Linter
+ * Reports API_CONTRACTS.md authoring mistakes the parser skips silently
+ *
+ * The parser is lenient: sections without a method line are dropped,
+ * unnumbered `###` headings are never split into endpoints, error headers
+ * outside the `**401 Unauthorized**` form are ignored and a missing
+ * `**Authentication:**` line reads as "Required". The linter walks the
+ * markdown line by line so every finding has a line number and, where the
+ * fix is mechanical, a replacement line.
+ */
+
+import { STATUS_CODES } from 'http';
+import type { ValidationSeverity } from './api-contracts-parser.js';
+import { compileSchema, type JsonSchema } from './schema-compiler.js';
+import { validateJsonSchema } from './schema-validator.js';
+
+/**
+ * Lint rules
+ * - missing-method-path: endpoint section without `**METHOD** \`/path\``
+ * - unnumbered-heading: endpoint heading without `N.` numbering
+ * - numbering-gap: endpoint numbers skip or repeat
+ * - duplicate-endpoint: method + path documented twice
+ * - undocumented-path-param: `:param` missing from `#### Path Parameters`
+ * - unknown-path-param: listed path parameter not in the path
+ * - malformed-parameter: parameter line the parser cannot read
+ * - invalid-json: JSON code block that does not parse
+ * - example-schema-mismatch: example does not match its interface
+ * - missing-authentication: no `**Authentication:**` line in the section
+ * - missing-auth-errors: authenticated endpoint without a 401 response
+ * - unparsed-error-response: error line not in `**401 Unauthorized**` form
+ */
+export type LintRule =
+  | 'missing-method-path'
+  | 'unnumbered-heading'
+  | 'numbering-gap'
+  | 'duplicate-endpoint'
+  | 'undocumented-path-param'
+  | 'unknown-path-param'
+  | 'malformed-parameter'
+  | 'invalid-json'
+  | 'example-schema-mismatch'
+  | 'missing-authentication'
+  | 'missing-auth-errors'
+  | 'unparsed-error-response';
+
+/**
+ * Suggested fix for a lint issue
+ */
+export interface LintFix {
+  /** What to change */
+  description: string;
+
+  /** Replacement text for the reported line, when the fix is one line */
+  replacement?: string;
+}
+
+/**
+ * One authoring problem in a contract file
+ */
+export interface LintIssue {
+  rule: LintRule;
+  severity: ValidationSeverity;
+
+  /** 1-based line in the contract file */
+  line: number;
+
+  message: string;
+  fix?: LintFix;
+}
+
+/** HTTP methods the parser accepts */
+const HTTP_METHODS = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+  'OPTIONS',
+];
+
+/** Error header form the parser reads (`**401 Unauthorized** - ...`) */
+const ERROR_HEADER_PATTERN = /\*\*(\d{3})\s+([^*]+)\*\*/;
+
+/** Parameter line form the parser reads */
+const PARAMETER_PATTERN = /-\s+`([^`]+)`\s*\(([^,)]+)(?:,\s*([^)]+))?\):\s*\S/;
+
+/** Fenced code block */
+interface Fence {
+  language: string;
+
+  /** 0-based line of the opening fence */
+  start: number;
+
+  content: string[];
+}
+
+/** Line range of a `###` or `####` section */
+interface Block {
+  title: string;
+
+  /** 0-based line of the heading */
+  start: number;
+
+  /** 0-based line after the last line */
+  end: number;
+}
+
+/** One `###` endpoint section */
+interface EndpointSection extends Block {
+  number?: number;
+  method?: string;
+  path?: string;
+
+  /** 0-based line of the method/path line */
+  methodLine?: number;
+
+  /** Method written in bold that the parser does not know */
+  unknownMethod?: string;
+
+  subsections: Block[];
+  fences: Fence[];
+}
+
+/**
+ * Markdown lines with code fences and headings indexed
+ */
+class ContractDocument {
+  readonly lines: string[];
+  readonly fences: Fence[] = [];
+
+  /** Whether each line is inside (or opens/closes) a code fence */
+  readonly inFence: boolean[];
+
+  constructor(content: string) {
+    this.lines = content.split(/\r?\n/);
+    this.inFence = this.lines.map(() => false);
+
+    let open: Fence | null = null;
+    this.lines.forEach((line, index) => {
+      const marker = line.match(/^\s*```\s*([\w-]*)/);
+      if (marker) {
+        this.inFence[index] = true;
+        if (open) {
+          this.fences.push(open);
+          open = null;
+        } else {
+          open = {
+            language: marker[1].toLowerCase(),
+            start: index,
+            content: [],
+          };
+        }
+        return;
+      }
+      if (open) {
+        this.inFence[index] = true;
+        open.content.push(line);
+      }
+    });
+  }
+
+  /**
+   * Headings of a level outside code fences, with their line ranges
+   * A section ends at the next heading of the same or a higher level.
+   */
+  blocks(level: number, from = 0, to = this.lines.length): Block[] {
+    const prefix = '#'.repeat(level);
+    const blocks: Block[] = [];
+    for (let index = from; index < to; index++) {
+      const heading = this.lines[index].match(/^(#{1,6})\s+(.*)$/);
+      if (this.inFence[index] || !heading) continue;
+
+      if (heading[1].length <= level && blocks.length > 0) {
+        const last = blocks[blocks.length - 1];
+        if (last.end === to) last.end = index;
+      }
+      if (heading[1] === prefix) {
+        blocks.push({ title: heading[2].trim(), start: index, end: to });
+      }
+    }
+    return blocks;
+  }
+}
+
+/**
+ * Find the method/path line of a section the way the parser does
+ */
+function findMethodLine(
+  document: ContractDocument,
+  section: Block,
+  fences: Fence[],
+): Pick<EndpointSection, 'method' | 'path' | 'methodLine' | 'unknownMethod'> {
+  let unknownMethod: string | undefined;
+
+  for (let index = section.start + 1; index < section.end; index++) {
+    if (document.inFence[index]) continue;
+    const line = document.lines[index];
+
+    const bold = line.match(/\*\*([A-Z]+)\*\*\s+`([^`]+)`/);
+    if (bold) {
+      if (HTTP_METHODS.includes(bold[1])) {
+        return { method: bold[1], path: bold[2].trim(), methodLine: index };
+      }
+      unknownMethod ??= bold[1];
+      continue;
+    }
+
+    const plain = line.match(/^([A-Z]+)\s+(\/\S*)/);
+    if (plain && HTTP_METHODS.includes(plain[1])) {
+      return { method: plain[1], path: plain[2], methodLine: index };
+    }
+  }
+
+  const http = fences.find((fence) => fence.language === 'http');
+  const request = http?.content[0]?.match(/^([A-Z]+)\s+(\S+)/);
+  if (http && request && HTTP_METHODS.includes(request[1])) {
+    return { method: request[1], path: request[2], methodLine: http.start + 1 };
+  }
+
+  return { unknownMethod };
+}
+
+/**
+ * Endpoint sections: numbered `###` headings and `###` headings with a
+ * method line
+ */
+function endpointSections(document: ContractDocument): EndpointSection[] {
+  const sections: EndpointSection[] = [];
+
+  for (const block of document.blocks(3)) {
+    const numbered = block.title.match(/^(\d+)\.\s*(.*)$/);
+    const fences = document.fences.filter(
+      (fence) => fence.start > block.start && fence.start < block.end,
+    );
+    const methodInfo = findMethodLine(document, block, fences);
+    if (!numbered && !methodInfo.method) continue;
+
+    sections.push({
+      ...block,
+      title: numbered ? numbered[2].trim() : block.title,
+      number: numbered ? Number(numbered[1]) : undefined,
+      ...methodInfo,
+      subsections: document.blocks(4, block.start + 1, block.end),
+      fences,
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Subsection whose heading matches a pattern
+ */
+function findSubsection(
+  section: EndpointSection,
+  pattern: RegExp,
+): Block | undefined {
+  return section.subsections.find((block) => pattern.test(block.title));
+}
+
+/**
+ * Subsection a line belongs to
+ */
+function subsectionAt(
+  section: EndpointSection,
+  line: number,
+): Block | undefined {
+  return section.subsections.find(
+    (block) => line > block.start && line < block.end,
+  );
+}
+
+/**
+ * Path parameter names (`:id` and `{id}`)
+ */
+function pathParameterNames(path: string): string[] {
+  return Array.from(path.matchAll(/:([A-Za-z_]\w*)|\{([A-Za-z_]\w*)\}/g)).map(
+    (match) => match[1] ?? match[2],
+  );
+}
+
+/**
+ * Rewrite an error line into the `**401 Unauthorized** - Description` form
+ */
+function errorHeaderReplacement(line: string, code: number): string {
+  const status = STATUS_CODES[code] ?? 'Error';
+  const separators = /^[\s:.,)\]–—-]+/;
+  let rest = line
+    .replace(/[*`#]/g, '')
+    .replace(/^\s*[-+>]\s*/, '')
+    .replace(new RegExp(`^.*?\\b${code}\\b`), '')
+    .replace(separators, '');
+  if (rest.toLowerCase().startsWith(status.toLowerCase())) {
+    rest = rest.slice(status.length).replace(separators, '');
+  }
+  return `**${code} ${status}** - ${rest.trim() || status}`;
+}
+
+/**
+ * Rewrite a parameter line into the `- \`name\` (type, required): ...` form
+ */
+function parameterReplacement(line: string, name: string): string {
+  const rest = line
+    .replace(/^\s*[-*]\s*`[^`]+`/, '')
+    .replace(/^[\s:–—-]+/, '')
+    .trim();
+  const requirement = /optional/i.test(rest) ? 'optional' : 'required';
+  return `- \`${name}\` (string, ${requirement}): ${rest || name}`;
+}
+
+/**
+ * Line of an example property, for pointing at schema mismatches
+ */
+function pointerLine(fence: Fence, pointer: string): number {
+  const key = pointer
+    .split('/')
+    .reverse()
+    .find((token) => token && !/^\d+$/.test(token));
+  const offset = key
+    ? fence.content.findIndex((line) => line.includes(`"${key}"`))
+    : -1;
+  return fence.start + 1 + Math.max(offset, 0);
+}
+
+/**
+ * Lints one contract document
+ */
+class ContractLinter {
+  readonly issues: LintIssue[] = [];
+
+  constructor(private document: ContractDocument) {}
+
+  /**
+   * Record an issue (line is 0-based here)
+   */
+  report(
+    rule: LintRule,
+    severity: ValidationSeverity,
+    line: number,
+    message: string,
+    fix?: LintFix,
+  ): void {
+    this.issues.push({
+      rule,
+      severity,
+      line: line + 1,
+      message,
+      ...(fix && { fix }),
+    });
+  }
+
+  /**
+   * Run every rule
+   */
+  lint(): LintIssue[] {
+    const sections = endpointSections(this.document);
+    this.checkHeadings(sections);
+    this.checkDuplicates(sections);
+    for (const section of sections) {
+      this.checkParameters(section);
+      this.checkExamples(section);
+      this.checkAuthentication(section);
+    }
+    return this.issues.sort((a, b) => a.line - b.line);
+  }
+
+  /**
+   * Method lines, numbering and unnumbered headings
+   */
+  checkHeadings(sections: EndpointSection[]): void {
+    sections.forEach((section, index) => {
+      const expected = index + 1;
+      const heading = `### ${expected}. ${section.title}`;
+
+      if (!section.method) {
+        this.report(
+          'missing-method-path',
+          'error',
+          section.start,
+          section.unknownMethod
+            ? `Unknown HTTP method "${section.unknownMethod}"; the parser drops this section`
+            : 'Endpoint section has no method/path line; the parser drops it',
+          {
+            description: section.unknownMethod
+              ? `Use one of ${HTTP_METHODS.join(', ')}`
+              : 'Add a line like **GET** `/api/resource` below the heading',
+          },
+        );
+      }
+
+      if (section.number === undefined) {
+        this.report(
+          'unnumbered-heading',
+          'error',
+          section.start,
+          'Endpoint heading is not numbered; the parser only starts endpoints at "### N." headings',
+          { description: 'Number the heading', replacement: heading },
+        );
+      } else if (section.number !== expected) {
+        const previous = sections[index - 1]?.number;
+        this.report(
+          'numbering-gap',
+          'warn',
+          section.start,
+          previous !== undefined && section.number > previous + 1
+            ? `Endpoint numbering skips from ${previous} to ${section.number}`
+            : `Endpoint is numbered ${section.number} but is endpoint ${expected}`,
+          { description: `Renumber as ${expected}`, replacement: heading },
+        );
+      }
+    });
+  }
+
+  /**
+   * Method + path pairs documented more than once
+   */
+  checkDuplicates(sections: EndpointSection[]): void {
+    const seen = new Map<string, EndpointSection>();
+    for (const section of sections) {
+      if (!section.method || !section.path) continue;
+      const key = `${section.method} ${section.path.replace(/:\w+|\{\w+\}/g, ':param').replace(/\/+$/, '')}`;
+      const first = seen.get(key);
+      if (first) {
+        this.report(
+          'duplicate-endpoint',
+          'error',
+          section.methodLine ?? section.start,
+          `${section.method} ${section.path} is already documented at line ${(first.methodLine ?? first.start) + 1}`,
+          {
+            description: `Merge with the endpoint at line ${first.start + 1} or remove this section`,
+          },
+        );
+      } else {
+        seen.set(key, section);
+      }
+    }
+  }
+
+  /**
+   * Path parameters against the path, and parameter line format
+   */
+  checkParameters(section: EndpointSection): void {
+    const lines = this.document.lines;
+    const listed = new Map<string, number>();
+
+    for (const pattern of [/^Path Parameters/i, /^Query Parameters/i]) {
+      const block = findSubsection(section, pattern);
+      if (!block) continue;
+      for (let index = block.start + 1; index < block.end; index++) {
+        const item = lines[index].match(/^\s*[-*]\s+`([^`]+)`/);
+        if (this.document.inFence[index] || !item) continue;
+
+        if (pattern.source.includes('Path')) listed.set(item[1], index);
+        if (!PARAMETER_PATTERN.test(lines[index])) {
+          this.report(
+            'malformed-parameter',
+            'warn',
+            index,
+            `Parameter \`${item[1]}\` is not in the "- \`name\` (type, required): Description" form; the parser skips it`,
+            {
+              description: 'Rewrite the parameter line',
+              replacement: parameterReplacement(lines[index], item[1]),
+            },
+          );
+        }
+      }
+    }
+
+    if (!section.path) return;
+    const names = pathParameterNames(section.path);
+    const pathBlock = findSubsection(section, /^Path Parameters/i);
+
+    for (const name of names) {
+      if (listed.has(name)) continue;
+      this.report(
+        'undocumented-path-param',
+        'warn',
+        pathBlock?.start ?? section.methodLine ?? section.start,
+        `Path parameter \`${name}\` is not listed under "#### Path Parameters"`,
+        {
+          description: pathBlock
+            ? `Add "- \`${name}\` (string, required): ${name}" to the list`
+            : `Add a "#### Path Parameters" section with "- \`${name}\` (string, required): ${name}"`,
+        },
+      );
+    }
+
+    for (const [name, line] of listed) {
+      if (!names.includes(name)) {
+        this.report(
+          'unknown-path-param',
+          'warn',
+          line,
+          `Path parameter \`${name}\` does not appear in ${section.path}`,
+          { description: `Remove it or add :${name} to the path` },
+        );
+      }
+    }
+  }
+
+  /**
+   * JSON examples: syntax, and shape against the request/response interface
+   */
+  checkExamples(section: EndpointSection): void {
+    const schemaOf = (pattern: RegExp): JsonSchema | undefined => {
+      const block = findSubsection(section, pattern);
+      const fence =
+        block &&
+        section.fences.find(
+          (f) =>
+            f.start > block.start &&
+            f.start < block.end &&
+            ['typescript', 'ts'].includes(f.language),
+        );
+      return fence ? compileSchema(fence.content.join('\n')) : undefined;
+    };
+    const requestSchema = schemaOf(/^Request (Schema|Body)/i);
+    const responseSchema = schemaOf(/^Response Schema/i);
+
+    for (const fence of section.fences) {
+      if (fence.language !== 'json') continue;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(fence.content.join('\n'));
+      } catch (error) {
+        this.reportInvalidJson(fence, error);
+        continue;
+      }
+
+      const title = subsectionAt(section, fence.start)?.title ?? '';
+      const schema = /^Request Example/i.test(title)
+        ? requestSchema
+        : /^Response Example/i.test(title)
+          ? responseSchema
+          : undefined;
+      if (!schema) continue;
+
+      const kind = /^Request/i.test(title) ? 'request' : 'response';
+      for (const violation of validateJsonSchema(value, schema)) {
+        const name = violation.pointer.split('/').pop() || kind;
+        const description =
+          violation.kind === 'missing'
+            ? `Add "${name}" to the example or mark it optional in the ${kind} interface`
+            : violation.kind === 'extra'
+              ? `Remove "${name}" from the example or declare it in the ${kind} interface`
+              : `Use a value of type ${violation.expected} or fix the ${kind} interface`;
+        this.report(
+          'example-schema-mismatch',
+          'warn',
+          pointerLine(fence, violation.pointer),
+          `${kind[0].toUpperCase()}${kind.slice(1)} example ${violation.pointer || '/'}: ${violation.message}`,
+          { description },
+        );
+      }
+    }
+  }
+
+  /**
+   * Report a JSON syntax error at its line, with a hint for common causes
+   */
+  reportInvalidJson(fence: Fence, error: unknown): void {
+    const text = fence.content.join('\n');
+    const message = error instanceof Error ? error.message : String(error);
+    const position = message.match(/position (\d+)/);
+    const offset = position
+      ? text.slice(0, Number(position[1])).split('\n').length - 1
+      : 0;
+
+    let description = 'Fix the JSON syntax';
+    if (/,\s*[}\]]/.test(text)) description = 'Remove trailing commas';
+    else if (/^\s*\/\/|\/\*/m.test(text)) {
+      description = 'Remove comments (JSON has no comments)';
+    } else if (/'[^']*'\s*:/.test(text)) {
+      description = 'Use double quotes for keys and strings';
+    } else if (/\.\.\./.test(text)) {
+      description = 'Replace "..." placeholders with real values';
+    }
+
+    this.report(
+      'invalid-json',
+      'error',
+      fence.start + 1 + offset,
+      `Invalid JSON example: ${message}`,
+      { description },
+    );
+  }
+
+  /**
+   * Authentication line and documented 401 responses
+   */
+  checkAuthentication(section: EndpointSection): void {
+    const lines = this.document.lines;
+    let required = true;
+    let authLine: number | undefined;
+
+    for (let index = section.start + 1; index < section.end; index++) {
+      if (this.document.inFence[index]) continue;
+      const strict = lines[index].match(/\*\*Authentication:\*\*\s*([^\n]+)/i);
+      if (strict) {
+        const text = strict[1].toLowerCase();
+        required = text.includes('required') || text.includes('yes');
+        authLine = index;
+        break;
+      }
+      const loose = lines[index].match(/\*\*Authentication\*\*\s*:\s*(.+)$/i);
+      if (loose) {
+        authLine = index;
+        this.report(
+          'missing-authentication',
+          'warn',
+          index,
+          'Endpoint authentication must be written "**Authentication:** ..." (colon inside the bold); the parser assumes Required',
+          {
+            description: 'Move the colon inside the bold text',
+            replacement: `**Authentication:** ${loose[1].trim()}`,
+          },
+        );
+        break;
+      }
+    }
+
+    if (authLine === undefined && section.method) {
+      this.report(
+        'missing-authentication',
+        'warn',
+        section.methodLine ?? section.start,
+        'No "**Authentication:**" line; the parser assumes Required',
+        {
+          description:
+            'Add "**Authentication:** Required" or "**Authentication:** None" below the method line',
+        },
+      );
+    }
+
+    const errors = findSubsection(section, /^Error Responses?/i);
+    const codes = new Set<number>();
+    if (errors) {
+      // The parser reads every line after the header, to the section end
+      for (let index = errors.start + 1; index < section.end; index++) {
+        if (this.document.inFence[index] || /^#/.test(lines[index])) continue;
+        const header = lines[index].match(ERROR_HEADER_PATTERN);
+        if (header) {
+          codes.add(Number(header[1]));
+          continue;
+        }
+        const status = lines[index].match(/\b([45]\d\d)\b/);
+        if (status) {
+          const code = Number(status[1]);
+          // Already reported here; a missing-auth-errors issue would repeat it
+          codes.add(code);
+          this.report(
+            'unparsed-error-response',
+            'warn',
+            index,
+            `Error response ${code} is not in the "**${code} Status** - Description" form; the parser skips it`,
+            {
+              description: 'Rewrite the error header',
+              replacement: errorHeaderReplacement(lines[index], code),
+            },
+          );
+        }
+      }
+    }
+
+    if (required && section.method && !codes.has(401)) {
+      this.report(
+        'missing-auth-errors',
+        'warn',
+        errors?.start ?? section.start,
+        'Authenticated endpoint documents no 401 response',
+        {
+          description: errors
+            ? 'Add "**401 Unauthorized** - Authentication required" to the error responses'
+            : 'Add "#### Error Responses" with "**401 Unauthorized** - Authentication required"',
+        },
+      );
+    }
+  }
+}
+
+/**
+ * Lint an API_CONTRACTS.md document
+ * @param content - Markdown content
+ * @returns Issues sorted by line
+ */
+export function lintContract(content: string): LintIssue[] {
+  return new ContractLinter(new ContractDocument(content)).lint();
+}
@@ -0,0 +1,520 @@
+/**
+ * Contract Test Runner
+ * Exercises every documented endpoint of a feature against a live API
+ *
+ * Requests are built from the contract: the curl `requestExample` (body,
+ * query string, concrete path segments), `pathParameters` and
+ * `queryParameters`, falling back to sample bodies generated from
+ * `requestJsonSchema`. Endpoints run in dependency order (create, list,
+ * get, update, delete) and IDs returned by creates fill the `:param`
+ * segments of later requests. Reads may also use IDs from list responses or
+ * the curl example, but updates and deletes only ever touch records this run
+ * created. Each response must be a 2xx that conforms to the contract (see
+ * `checkResponseConformance`).
+ */
+
+import type { ApiEndpoint, HttpMethod } from './api-contracts-parser.js';
+import { checkResponseConformance } from './contract-conformance.js';
+import type { JsonSchema } from './schema-compiler.js';
+import type { SchemaViolation } from './schema-validator.js';
+import type { JUnitTestSuite } from './junit.js';
+
+export type ContractTestOutcome = 'pass' | 'fail' | 'skip';
+
+/**
+ * Result of one endpoint test
+ */
+export interface ContractTestResult {
+  method: HttpMethod;
+
+  /** Documented path (e.g., "/api/users/:id") */
+  path: string;
+
+  /** Requested path with parameters and query string filled in */
+  requestPath?: string;
+
+  /** Response status (absent when skipped or the request failed) */
+  status?: number;
+
+  outcome: ContractTestOutcome;
+
+  /** Milliseconds */
+  responseTime: number;
+
+  /** Why the test failed or was skipped */
+  message?: string;
+
+  /** Response body mismatches against the contract */
+  violations: SchemaViolation[];
+}
+
+/**
+ * Results of a feature run
+ */
+export interface ContractTestReport {
+  feature: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+
+  /** Milliseconds for the whole run */
+  duration: number;
+
+  /** Results in execution order */
+  results: ContractTestResult[];
+}
+
+/**
+ * Response handed back by a `ContractTestSender`
+ */
+export interface ContractTestResponse {
+  status: number;
+  body: unknown;
+  responseTime: number;
+}
+
+/**
+ * Sends one request (path includes the query string); throws on network errors
+ */
+export type ContractTestSender = (
+  method: HttpMethod,
+  path: string,
+  body: unknown,
+) => Promise<ContractTestResponse>;
+
+/**
+ * Request parts recovered from a curl example
+ */
+export interface CurlExample {
+  /** URL path without origin or query string */
+  path?: string;
+  query: Record<string, string>;
+  body?: unknown;
+}
+
+// ============================================================================
+// Request Building
+// ============================================================================
+
+/**
+ * Extract path, query and JSON body from a curl command
+ * Handles `-d`/`--data`/`--data-raw` with single- or double-quoted payloads.
+ *
+ * @param example - `ApiEndpoint.requestExample`
+ * @returns Parsed parts (empty when the example is not a curl command)
+ */
+export function parseCurlExample(example: string | undefined): CurlExample {
+  const result: CurlExample = { query: {} };
+  if (!example) return result;
+
+  const command = example.replace(/\\\r?\n/g, ' ');
+
+  // A full URL, else a bare path argument (not "/json" inside a header)
+  const url =
+    command.match(/https?:\/\/[^\s"']+/)?.[0] ??
+    command.match(/(?:^|\s)["']?(\/[^\s"']*)/)?.[1];
+  if (url) {
+    const [pathname, search = ''] = url
+      .replace(/^https?:\/\/[^/]+/, '')
+      .split('?');
+    result.path = pathname;
+    for (const [key, value] of new URLSearchParams(search)) {
+      result.query[key] = value;
+    }
+  }
+
+  const data = command.match(
+    /(?:-d|--data(?:-raw|-binary)?)\s+(?:'((?:[^']|'\\'')*)'|"((?:[^"\\]|\\.)*)")/,
+  );
+  if (data) {
+    const raw =
+      data[1] !== undefined
+        ? data[1].replace(/'\\''/g, "'")
+        : data[2].replace(/\\(.)/g, '$1');
+    try {
+      result.body = JSON.parse(raw);
+    } catch {
+      result.body = raw;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build a placeholder value that satisfies a schema
+ * @param schema - Schema to sample (refs resolve against `root`)
+ * @param root - Document holding `$defs`
+ * @param depth - Recursion depth, to stop on self-referencing types
+ * @returns Sample value
+ */
+export function sampleFromSchema(
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  depth = 0,
+): unknown {
+  if (depth > 8) return null;
+
+  if (schema.$ref) {
+    const name = schema.$ref.replace(/^#\/\$defs\//, '');
+    const target = schema.$ref === '#' ? root : root.$defs?.[name];
+    return target ? sampleFromSchema(target, root, depth + 1) : null;
+  }
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf) return sampleFromSchema(schema.anyOf[0], root, depth + 1);
+  if (schema.allOf) {
+    return Object.assign(
+      {},
+      ...schema.allOf.map((part) => sampleFromSchema(part, root, depth + 1)),
+    );
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'string':
+      return schema.format === 'date-time' ? new Date().toISOString() : 'test';
+    case 'number':
+    case 'integer':
+      return 1;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    case 'array':
+      return [];
+    case 'object': {
+      const sample: Record<string, unknown> = {};
+      for (const name of schema.required ?? []) {
+        const property = schema.properties?.[name];
+        sample[name] = property
+          ? sampleFromSchema(property, root, depth + 1)
+          : null;
+      }
+      return sample;
+    }
+  }
+  return null;
+}
+
+/**
+ * Placeholder for a required query parameter without default or example
+ */
+function placeholderFor(type: string): string {
+  switch (type.toLowerCase()) {
+    case 'number':
+    case 'integer':
+      return '1';
+    case 'boolean':
+      return 'true';
+    default:
+      return 'test';
+  }
+}
+
+/**
+ * IDs collected during a run, keyed by collection path
+ */
+interface CapturedIds {
+  /** Returned by this run's creates; safe to update and delete */
+  created: Map<string, string>;
+
+  /** First item of list responses; existing data, only read */
+  listed: Map<string, string>;
+}
+
+/**
+ * Fill `:param` segments from captured IDs or the curl example's path
+ * With `createdOnly`, only IDs of records this run created are used, so
+ * updates and deletes never hit existing data.
+ *
+ * @returns Concrete path, or the name of the first parameter without a value
+ */
+function resolvePath(
+  template: string,
+  captured: CapturedIds,
+  examplePath: string | undefined,
+  createdOnly: boolean,
+): { path: string } | { missing: string } {
+  const segments = template.split('/');
+  const example = examplePath?.split('/') ?? [];
+  const resolved: string[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (!segment.startsWith(':')) {
+      resolved.push(segment);
+      continue;
+    }
+
+    const collection = segments.slice(0, i).join('/');
+    const fromExample =
+      example.length === segments.length && !/^[:{$]/.test(example[i] ?? '')
+        ? example[i]
+        : undefined;
+    const value =
+      captured.created.get(collection) ??
+      (createdOnly
+        ? undefined
+        : (captured.listed.get(collection) ?? fromExample));
+    if (!value) return { missing: segment.slice(1) };
+    resolved.push(encodeURIComponent(value));
+  }
+
+  return { path: resolved.join('/') };
+}
+
+/**
+ * Build the query string from documented parameters and the curl example
+ * Optional parameters are sent only when they have a default or an example.
+ */
+function buildQuery(endpoint: ApiEndpoint, curl: CurlExample): string {
+  const params = new URLSearchParams(curl.query);
+  for (const param of endpoint.queryParameters ?? []) {
+    if (params.has(param.name)) continue;
+    if (param.default !== undefined) {
+      params.set(param.name, param.default);
+    } else if (param.required) {
+      params.set(param.name, placeholderFor(param.type));
+    }
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Request body: the curl example's payload, else a schema sample
+ */
+function buildBody(endpoint: ApiEndpoint, curl: CurlExample): unknown {
+  if (!['POST', 'PUT', 'PATCH'].includes(endpoint.method)) return undefined;
+  if (curl.body !== undefined) return curl.body;
+
+  if (endpoint.requestJsonSchema) {
+    return sampleFromSchema(endpoint.requestJsonSchema);
+  }
+  return {};
+}
+
+// ============================================================================
+// Ordering and ID Capture
+// ============================================================================
+
+/** Methods that only read, and may use IDs of existing records */
+const READ_METHODS: HttpMethod[] = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Number of `:param` segments in a path
+ */
+function paramCount(path: string): number {
+  return path.split('/').filter((segment) => segment.startsWith(':')).length;
+}
+
+/**
+ * Execution phase: creates, lists, reads, updates, deletes
+ */
+function phase(endpoint: ApiEndpoint): number {
+  const lastSegment = endpoint.path.split('/').pop() ?? '';
+  switch (endpoint.method) {
+    case 'POST':
+      return lastSegment.startsWith(':') ? 3 : 0;
+    case 'GET':
+    case 'HEAD':
+    case 'OPTIONS':
+      return paramCount(endpoint.path) === 0 ? 1 : 2;
+    case 'PUT':
+    case 'PATCH':
+      return 3;
+    case 'DELETE':
+      return 4;
+  }
+}
+
+/**
+ * Order endpoints so resources exist before they are read, changed or deleted
+ * Parents are created first and deleted last.
+ *
+ * @param endpoints - Endpoints in document order
+ * @returns Endpoints in execution order
+ */
+export function orderEndpoints(endpoints: ApiEndpoint[]): ApiEndpoint[] {
+  return endpoints
+    .map((endpoint, index) => ({ endpoint, index }))
+    .sort((a, b) => {
+      const byPhase = phase(a.endpoint) - phase(b.endpoint);
+      if (byPhase !== 0) return byPhase;
+      const depth = paramCount(a.endpoint.path) - paramCount(b.endpoint.path);
+      if (depth !== 0) {
+        return a.endpoint.method === 'DELETE' ? -depth : depth;
+      }
+      return a.index - b.index;
+    })
+    .map(({ endpoint }) => endpoint);
+}
+
+/**
+ * ID of a created resource: `id` on the body or its `data` envelope
+ */
+function createdId(body: unknown): string | undefined {
+  const record = body as Record<string, any> | null;
+  const id = record?.id ?? record?.data?.id;
+  return typeof id === 'string' || typeof id === 'number'
+    ? String(id)
+    : undefined;
+}
+
+/**
+ * ID of the first item in a list response (bare array, `data`, or any array
+ * property such as `roles`)
+ */
+function firstListedId(body: unknown): string | undefined {
+  const record = body as Record<string, any> | null;
+  const candidates = [
+    body,
+    record?.data,
+    ...Object.values(record ?? {}),
+    ...Object.values(record?.data ?? {}),
+  ];
+  const list = candidates.find(
+    (value) => Array.isArray(value) && value.length > 0,
+  );
+  return list ? createdId(list[0]) : undefined;
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run contract tests for a feature
+ * @param feature - Feature name (used in the report)
+ * @param endpoints - Documented endpoints of the feature
+ * @param send - Performs HTTP requests against the live API
+ * @returns Report with one result per endpoint, in execution order
+ */
+export async function runContractTests(
+  feature: string,
+  endpoints: ApiEndpoint[],
+  send: ContractTestSender,
+): Promise<ContractTestReport> {
+  const startTime = Date.now();
+  const captured: CapturedIds = { created: new Map(), listed: new Map() };
+  const results: ContractTestResult[] = [];
+
+  for (const endpoint of orderEndpoints(endpoints)) {
+    const { method, path } = endpoint;
+    const curl = parseCurlExample(endpoint.requestExample);
+    const readOnly = READ_METHODS.includes(method);
+    const target = resolvePath(path, captured, curl.path, !readOnly);
+
+    if ('missing' in target) {
+      results.push({
+        method,
+        path,
+        outcome: 'skip',
+        responseTime: 0,
+        message: readOnly
+          ? `No value for path parameter :${target.missing} (no create or list response returned an id)`
+          : `No value for path parameter :${target.missing} (no create in this run returned an id; existing records are never modified)`,
+        violations: [],
+      });
+      continue;
+    }
+
+    const requestPath = `${target.path}${buildQuery(endpoint, curl)}`;
+
+    try {
+      const response = await send(
+        method,
+        requestPath,
+        buildBody(endpoint, curl),
+      );
+      const report = checkResponseConformance(
+        endpoint,
+        response.status,
+        response.body,
+      );
+      const success = response.status >= 200 && response.status < 300;
+
+      // Collection endpoints (last segment not a parameter) yield IDs
+      if (success && !/\/:[^/]+$/.test(path)) {
+        const id =
+          method === 'POST'
+            ? createdId(response.body)
+            : method === 'GET' && !captured.listed.has(path)
+              ? firstListedId(response.body)
+              : undefined;
+        const ids = method === 'POST' ? captured.created : captured.listed;
+        if (id) ids.set(path, id);
+      }
+
+      let message: string | undefined;
+      if (!success) {
+        message = `Expected 2xx, got ${response.status}${report.statusDocumented ? '' : ' (undocumented status)'}`;
+      } else if (report.violations.length > 0) {
+        message = `${report.violations.length} response field(s) do not match the contract`;
+      }
+
+      results.push({
+        method,
+        path,
+        requestPath,
+        status: response.status,
+        outcome: success && report.conforms ? 'pass' : 'fail',
+        responseTime: response.responseTime,
+        message,
+        violations: report.violations,
+      });
+    } catch (error) {
+      results.push({
+        method,
+        path,
+        requestPath,
+        outcome: 'fail',
+        responseTime: 0,
+        message: `Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        violations: [],
+      });
+    }
+  }
+
+  return {
+    feature,
+    passed: results.filter((r) => r.outcome === 'pass').length,
+    failed: results.filter((r) => r.outcome === 'fail').length,
+    skipped: results.filter((r) => r.outcome === 'skip').length,
+    duration: Date.now() - startTime,
+    results,
+  };
+}
+
+/**
+ * Convert a report into a JUnit test suite
+ * @param report - Contract test report
+ * @returns Suite with one case per endpoint
+ */
+export function toJUnitSuite(report: ContractTestReport): JUnitTestSuite {
+  return {
+    name: `contract-tests.${report.feature}`,
+    time: report.duration / 1000,
+    cases: report.results.map((result) => ({
+      name: `${result.method} ${result.path}`,
+      classname: report.feature,
+      time: result.responseTime / 1000,
+      ...(result.outcome === 'fail' && {
+        failure: {
+          message: result.message ?? 'Failed',
+          details: [
+            result.requestPath && `${result.method} ${result.requestPath}`,
+            result.message,
+            ...result.violations.map(
+              (v) => `${v.pointer || '/'} ${v.kind}: ${v.message}`,
+            ),
+          ]
+            .filter(Boolean)
+            .join('\n'),
+        },
+      }),
+      ...(result.outcome === 'skip' && { skipped: result.message ?? '' }),
+    })),
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Contract File Watcher
+ * Watches a docs path with `fs.watch` so edits to API_CONTRACTS.md files are
+ * picked up immediately: changed files are dropped from the contract cache,
+ * the contracts are re-read, and listeners learn which features and
+ * endpoints changed (for MCP `resources/updated` notifications).
+ *
+ * One watcher runs per docs path and is shared by every listener (one per
+ * MCP session); it stops when the last listener unsubscribes.
+ */
+
+import { promises as fs, watch, type FSWatcher } from 'fs';
+import { join, resolve } from 'path';
+import {
+  getAllContracts,
+  invalidateContractFileCache,
+  setContractPathWatched,
+  type ApiContract,
+  type ApiEndpoint,
+} from './api-contracts-parser.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Contracts that changed after one or more file events
+ */
+export interface ContractChangeEvent {
+  /** Absolute docs path that was watched */
+  docsPath: string;
+
+  /** Features whose contract changed, appeared or disappeared */
+  features: string[];
+
+  /** Endpoints that changed, appeared or disappeared (last known version) */
+  endpoints: ApiEndpoint[];
+
+  /** Whether contracts or endpoints were added or removed */
+  listChanged: boolean;
+}
+
+/**
+ * Callback for contract changes
+ */
+export type ContractChangeListener = (event: ContractChangeEvent) => void;
+
+/** Quiet period before re-reading; editors write a file in several events */
+const WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Contract content without fields that change when nothing was edited
+ */
+function fingerprint(value: ApiContract | ApiEndpoint): string {
+  return JSON.stringify(value, (key, field) =>
+    key === 'line' || key === 'parsedAt' ? undefined : field,
+  );
+}
+
+/**
+ * Endpoint key within a feature
+ */
+function endpointKey(endpoint: ApiEndpoint): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
+
+/**
+ * Compare two sets of contracts by feature
+ * @returns The change, or null when nothing a reader would see changed
+ */
+function diffSnapshots(
+  docsPath: string,
+  before: Map<string, ApiContract>,
+  after: Map<string, ApiContract>,
+): ContractChangeEvent | null {
+  const event: ContractChangeEvent = {
+    docsPath,
+    features: [],
+    endpoints: [],
+    listChanged: false,
+  };
+
+  for (const feature of new Set([...before.keys(), ...after.keys()])) {
+    const previous = before.get(feature);
+    const current = after.get(feature);
+
+    if (!previous || !current) {
+      event.features.push(feature);
+      event.endpoints.push(...(current ?? previous)!.endpoints);
+      event.listChanged = true;
+      continue;
+    }
+    if (fingerprint(previous) === fingerprint(current)) continue;
+
+    event.features.push(feature);
+    const previousEndpoints = new Map(
+      previous.endpoints.map((e) => [endpointKey(e), e]),
+    );
+    const currentEndpoints = new Map(
+      current.endpoints.map((e) => [endpointKey(e), e]),
+    );
+    for (const key of new Set([
+      ...previousEndpoints.keys(),
+      ...currentEndpoints.keys(),
+    ])) {
+      const old = previousEndpoints.get(key);
+      const updated = currentEndpoints.get(key);
+      if (!old || !updated) {
+        event.endpoints.push((updated ?? old)!);
+        event.listChanged = true;
+      } else if (fingerprint(old) !== fingerprint(updated)) {
+        event.endpoints.push(updated);
+      }
+    }
+  }
+
+  return event.features.length > 0 ? event : null;
+}
+
+// ============================================================================
+// Watcher
+// ============================================================================
+
+/**
+ * Watches one docs path and notifies its listeners
+ */
+class ContractWatcher {
+  readonly listeners = new Set<ContractChangeListener>();
+  private watchers = new Map<string, FSWatcher>();
+  private snapshot: Promise<Map<string, ApiContract>>;
+  private refreshing: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private recursive = true;
+  private closed = false;
+
+  constructor(readonly docsPath: string) {
+    this.snapshot = this.readSnapshot();
+  }
+
+  /**
+   * Start watching; falls back to one watcher per directory where
+   * recursive watching is unavailable (Linux before Node 20)
+   */
+  start(): void {
+    try {
+      this.watchDirectory(this.docsPath, true);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.error(
+          `Contract watcher: ${this.docsPath} does not exist; contracts are re-read periodically instead`,
+        );
+        return;
+      }
+      if (
+        (error as NodeJS.ErrnoException).code !==
+        'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM'
+      ) {
+        throw error;
+      }
+      this.recursive = false;
+      void this.watchTree();
+    }
+    setContractPathWatched(this.docsPath, true);
+  }
+
+  /**
+   * Stop watching and forget pending changes
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    for (const watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+    setContractPathWatched(this.docsPath, false);
+  }
+
+  /**
+   * Watch one directory (recursively when supported)
+   */
+  private watchDirectory(dir: string, recursive: boolean): void {
+    const watcher = watch(dir, { recursive }, (_event, filename) =>
+      this.onEvent(dir, filename?.toString() ?? null),
+    );
+    watcher.on('error', (error) => {
+      console.error(`Contract watcher error in ${dir}:`, error);
+      watcher.close();
+      this.watchers.delete(dir);
+    });
+    // The watcher must not keep a finished process alive
+    watcher.unref();
+    this.watchers.set(dir, watcher);
+  }
+
+  /**
+   * Non-recursive fallback: watch every directory, adding new ones as they
+   * appear and dropping removed ones
+   */
+  private async watchTree(): Promise<void> {
+    const directories = new Set<string>();
+    const walk = async (dir: string): Promise<void> => {
+      directories.add(dir);
+      const entries = await fs
+        .readdir(dir, { withFileTypes: true })
+        .catch(() => []);
+      for (const entry of entries) {
+        if (
+          entry.isDirectory() &&
+          !entry.name.startsWith('.') &&
+          entry.name !== 'node_modules'
+        ) {
+          await walk(join(dir, entry.name));
+        }
+      }
+    };
+    await walk(this.docsPath);
+    if (this.closed) return;
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!directories.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+    for (const dir of directories) {
+      if (this.watchers.has(dir)) continue;
+      try {
+        this.watchDirectory(dir, false);
+      } catch {
+        // Removed between the walk and the watch
+      }
+    }
+  }
+
+  /**
+   * Handle one file system event
+   */
+  private onEvent(dir: string, filename: string | null): void {
+    if (this.closed) return;
+
+    // Also drops the docs path's discovery, so added and removed files are
+    // found; unchanged files keep their parse results (mtime and hash)
+    invalidateContractFileCache(filename ? join(dir, filename) : dir);
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refreshing = this.refreshing.then(() => this.refresh());
+    }, WATCH_DEBOUNCE_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Re-read the contracts and notify listeners of what changed
+   */
+  private async refresh(): Promise<void> {
+    if (this.closed) return;
+    if (!this.recursive) await this.watchTree();
+
+    try {
+      const before = await this.snapshot;
+      this.snapshot = this.readSnapshot();
+      const event = diffSnapshots(this.docsPath, before, await this.snapshot);
+      if (!event) return;
+
+      for (const listener of this.listeners) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Contract watcher listener failed:', error);
+        }
+      }
+    } catch (error) {
+      console.error('Contract watcher: failed to re-read contracts:', error);
+    }
+  }
+
+  /**
+   * Parsed contracts by feature
+   */
+  private async readSnapshot(): Promise<Map<string, ApiContract>> {
+    const contracts = await getAllContracts(this.docsPath).catch(() => []);
+    return new Map(contracts.map((c) => [c.feature, c]));
+  }
+}
+
+/**
+ * Running watchers by absolute docs path
+ */
+const contractWatchers = new Map<string, ContractWatcher>();
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Watch a docs path for contract changes
+ * Changed files are dropped from the contract cache as soon as they change,
+ * whether or not the listener cares about the event.
+ *
+ * @param docsPath - Directory holding the contract files
+ * @param listener - Called after changes settle, with what changed
+ * @returns Function that removes the listener (and stops the watcher when
+ *   it was the last one)
+ */
+export function watchContracts(
+  docsPath: string,
+  listener: ContractChangeListener,
+): () => void {
+  const absolutePath = resolve(docsPath);
+  let watcher = contractWatchers.get(absolutePath);
+  if (!watcher) {
+    watcher = new ContractWatcher(absolutePath);
+    watcher.start();
+    contractWatchers.set(absolutePath, watcher);
+  }
+  watcher.listeners.add(listener);
+
+  const current = watcher;
+  return () => {
+    current.listeners.delete(listener);
+    if (
+      current.listeners.size === 0 &&
+      contractWatchers.get(absolutePath) === current
+    ) {
+      current.close();
+      contractWatchers.delete(absolutePath);
+    }
+  };
+}
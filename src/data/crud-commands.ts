@@ -759,172 +759,6 @@ export function getTroubleshooting(): TroubleshootingItem[] {
   return troubleshooting;
 }
 
-/**
- * Build command string from options
- */
-
-export function buildCommand(
-  tableName: string,
-  options: {
-    // Target & App
-    target?: 'backend' | 'frontend';
-    app?: 'api' | 'web' | 'admin';
-    output?: string;
-    config?: string;
-
-    // Shell & Section (Frontend)
-    shell?: string;
-    section?: string;
-
-    // Feature Options
-    withImport?: boolean;
-    withEvents?: boolean;
-    withExport?: boolean;
-    withHierarchy?: boolean;
-
-    // Frontend Options
-    smartStats?: boolean;
-    includeAuditFields?: boolean;
-
-    // Backend Options
-    package?: 'standard' | 'enterprise' | 'full';
-    multipleRoles?: boolean;
-    noRoles?: boolean;
-    directDb?: boolean;
-    migrationOnly?: boolean;
-
-    // General Options
-    noRegister?: boolean;
-    noFormat?: boolean;
-    layer?: string;
-    type?: string;
-
-    // Domain & Schema
-    domain?: string;
-    schema?: string;
-
-    // Control
-    force?: boolean;
-    dryRun?: boolean;
-  },
-): string {
-  const parts: string[] = [];
-
-  // Base command
-  parts.push('./bin/cli.js generate');
-  parts.push(tableName);
-
-  // Target
-  if (options.target === 'frontend') {
-    parts.push('--target frontend');
-  }
-
-  // === Domain & Schema ===
-  if (options.domain) {
-    parts.push(`--domain ${options.domain}`);
-  }
-
-  if (options.schema && options.schema !== 'public') {
-    parts.push(`--schema ${options.schema}`);
-  }
-
-  // === App & Shell (Frontend) ===
-  if (options.app && options.target === 'frontend') {
-    parts.push(`--app ${options.app}`);
-  }
-
-  if (options.shell && options.target === 'frontend') {
-    parts.push(`--shell ${options.shell}`);
-  }
-
-  if (options.section && options.target === 'frontend') {
-    parts.push(`--section ${options.section}`);
-  }
-
-  // === Feature Options (Both) ===
-  if (options.withImport) {
-    parts.push('--with-import');
-  }
-
-  if (options.withEvents) {
-    parts.push('--with-events');
-  }
-
-  if (options.withExport) {
-    parts.push('--with-export');
-  }
-
-  if (options.withHierarchy) {
-    parts.push('--with-hierarchy');
-  }
-
-  // === Frontend Options ===
-  if (options.smartStats && options.target === 'frontend') {
-    parts.push('--smart-stats');
-  }
-
-  if (options.includeAuditFields && options.target === 'frontend') {
-    parts.push('--include-audit-fields');
-  }
-
-  // === Backend Options ===
-  if (options.package && options.target !== 'frontend') {
-    parts.push(`--package ${options.package}`);
-  }
-
-  if (options.multipleRoles && options.target !== 'frontend') {
-    parts.push('--multiple-roles');
-  }
-
-  if (options.noRoles && options.target !== 'frontend') {
-    parts.push('--no-roles');
-  }
-
-  if (options.directDb && options.target !== 'frontend') {
-    parts.push('--direct-db');
-  }
-
-  if (options.migrationOnly && options.target !== 'frontend') {
-    parts.push('--migration-only');
-  }
-
-  // === General Options (Both) ===
-  if (options.output) {
-    parts.push(`--output ${options.output}`);
-  }
-
-  if (options.config) {
-    parts.push(`--config ${options.config}`);
-  }
-
-  if (options.noRegister) {
-    parts.push('--no-register');
-  }
-
-  if (options.noFormat) {
-    parts.push('--no-format');
-  }
-
-  if (options.layer) {
-    parts.push(`--layer ${options.layer}`);
-  }
-
-  if (options.type) {
-    parts.push(`--type ${options.type}`);
-  }
-
-  // === Control Options ===
-  if (options.force) {
-    parts.push('--force');
-  }
-
-  if (options.dryRun) {
-    parts.push('--dry-run');
-  }
-
-  return parts.join(' ');
-}
-
 export interface GeneratedFile {
   path: string;
   description: string;
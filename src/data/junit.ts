@@ -0,0 +1,127 @@
+/**
+ * JUnit XML Reports
+ * Renders test results in the JUnit format CI servers understand
+ * (GitHub Actions, GitLab, Jenkins)
+ */
+
+/**
+ * One test case
+ */
+export interface JUnitTestCase {
+  name: string;
+
+  /** Grouping shown by CI (e.g., the feature name) */
+  classname: string;
+
+  /** Duration in seconds */
+  time?: number;
+
+  /** Set when the test failed */
+  failure?: {
+    message: string;
+    details?: string;
+  };
+
+  /** Reason the test was skipped */
+  skipped?: string;
+}
+
+/**
+ * A named group of test cases
+ */
+export interface JUnitTestSuite {
+  name: string;
+  cases: JUnitTestCase[];
+
+  /** Duration in seconds (default: sum of case times) */
+  time?: number;
+}
+
+/**
+ * Escape text for XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Format seconds the way JUnit reports do ("0.123")
+ */
+function formatTime(seconds: number): string {
+  return seconds.toFixed(3);
+}
+
+/**
+ * Count failures and skips in a list of cases
+ */
+function countCases(cases: JUnitTestCase[]): {
+  tests: number;
+  failures: number;
+  skipped: number;
+  time: number;
+} {
+  return {
+    tests: cases.length,
+    failures: cases.filter((c) => c.failure).length,
+    skipped: cases.filter((c) => !c.failure && c.skipped !== undefined).length,
+    time: cases.reduce((sum, c) => sum + (c.time ?? 0), 0),
+  };
+}
+
+/**
+ * Render test suites as a JUnit XML document
+ * @param suites - Suites to render
+ * @param name - Name of the enclosing `<testsuites>` element
+ * @returns XML document
+ */
+export function formatJUnitXml(
+  suites: JUnitTestSuite[],
+  name = 'aegisx-mcp',
+): string {
+  const lines: string[] = [];
+  const totals = countCases(suites.flatMap((suite) => suite.cases));
+  const time = suites.reduce(
+    (sum, suite) => sum + (suite.time ?? countCases(suite.cases).time),
+    0,
+  );
+
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(
+    `<testsuites name="${escapeXml(name)}" tests="${totals.tests}" failures="${totals.failures}" skipped="${totals.skipped}" time="${formatTime(time)}">`,
+  );
+
+  for (const suite of suites) {
+    const counts = countCases(suite.cases);
+    lines.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${counts.tests}" failures="${counts.failures}" skipped="${counts.skipped}" time="${formatTime(suite.time ?? counts.time)}">`,
+    );
+
+    for (const testCase of suite.cases) {
+      const open = `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.classname)}" time="${formatTime(testCase.time ?? 0)}"`;
+
+      if (testCase.failure) {
+        lines.push(`${open}>`);
+        lines.push(
+          `      <failure message="${escapeXml(testCase.failure.message)}">${escapeXml(testCase.failure.details ?? testCase.failure.message)}</failure>`,
+        );
+        lines.push('    </testcase>');
+      } else if (testCase.skipped !== undefined) {
+        lines.push(`${open}>`);
+        lines.push(`      <skipped message="${escapeXml(testCase.skipped)}"/>`);
+        lines.push('    </testcase>');
+      } else {
+        lines.push(`${open}/>`);
+      }
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
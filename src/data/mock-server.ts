@@ -0,0 +1,872 @@
+/**
+ * Mock API Server
+ * Serves documented endpoints from their contracts so frontends can be built
+ * before the backend exists
+ *
+ * Every `ApiEndpoint` is served at its path with its `responseExample`.
+ * Data is kept in memory per resource, so create/read/update/delete
+ * sequences behave like the real API:
+ * - `GET /items` lists the collection, seeded from the list example
+ * - `POST /items` adds a record (body merged over the example record)
+ * - `GET|PUT|PATCH|DELETE /items/:id` read, merge into or remove a record
+ * - `PUT|PATCH /items/:id/<action>` merges the body into the parent record
+ * - paths without parameters (e.g., `/api/profile`) hold a single record
+ *
+ * Endpoints with `authentication` need an `Authorization: Bearer <token>`
+ * header (any token). Documented `errorResponses` are returned on demand with
+ * the `x-mock-status` header or the `__status` query parameter; other error
+ * statuses get a generic error body.
+ */
+
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  ServerResponse,
+  STATUS_CODES,
+} from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { ApiContract, ApiEndpoint } from './api-contracts-parser.js';
+import { validateJsonSchema } from './schema-validator.js';
+import { sampleFromSchema } from './contract-tests.js';
+
+/** Header that asks for a documented error response */
+export const MOCK_STATUS_HEADER = 'x-mock-status';
+
+/** Query parameter that asks for a documented error response */
+export const MOCK_STATUS_QUERY = '__status';
+
+/** Largest request body accepted */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Fields that identify a record */
+const ID_KEYS = ['id', '_id', 'uuid'];
+
+/** Timestamp fields refreshed on create/update */
+const CREATED_KEYS = ['createdAt', 'created_at'];
+const UPDATED_KEYS = ['updatedAt', 'updated_at'];
+
+/** How deep to look for records and lists inside response envelopes */
+const MAX_ENVELOPE_DEPTH = 3;
+
+/**
+ * Options for starting a mock server
+ */
+export interface MockServerOptions {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+
+  /** Interface to bind to */
+  host: string;
+
+  /** Called with one line per handled request */
+  log?: (line: string) => void;
+}
+
+/**
+ * A running mock server
+ */
+export interface MockServer {
+  /** Base URL (e.g., "http://127.0.0.1:4010") */
+  url: string;
+
+  host: string;
+  port: number;
+
+  /** Features served */
+  features: string[];
+
+  /** Endpoints served */
+  endpoints: ApiEndpoint[];
+
+  /** Stop listening and drop the in-memory data */
+  close(): Promise<void>;
+}
+
+type MockRecord = Record<string, unknown>;
+
+/**
+ * A documented endpoint compiled for matching
+ */
+interface MockRoute {
+  endpoint: ApiEndpoint;
+  pattern: RegExp;
+
+  /** Template segments (e.g., ["", "api", "roles", ":id"]) */
+  segments: string[];
+
+  /** Parsed response example, when it is valid JSON */
+  example?: unknown;
+
+  /** Response shape for writes: the example, else a response schema sample */
+  template?: unknown;
+}
+
+/**
+ * What a request operates on in the store
+ * - collection: list or create (`key` is the collection path)
+ * - item: one record of a collection
+ * - singleton: the one record at a path without parameters
+ */
+type MockResource =
+  | { kind: 'collection'; key: string }
+  | { kind: 'item'; key: string; id: string; action: boolean }
+  | { kind: 'singleton'; key: string };
+
+/**
+ * An error response with a status code
+ */
+class MockHttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly body: unknown,
+  ) {
+    super(`HTTP ${statusCode}`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Decode a percent-encoded path segment
+ * @throws MockHttpError (400) for malformed escapes such as `%E0%A4%A`
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new MockHttpError(
+      400,
+      errorBody(400, `Malformed path segment: ${segment}`).body,
+    );
+  }
+}
+
+/**
+ * Whether a template segment is a path parameter (`:id` or `{id}`)
+ */
+function isParameter(segment: string): boolean {
+  return /^:.+$|^\{.+\}$/.test(segment);
+}
+
+/**
+ * Parameter name of a template segment
+ */
+function parameterName(segment: string): string {
+  return segment.replace(/^:|^\{|\}$/g, '');
+}
+
+/**
+ * Path without trailing slashes
+ */
+function trimPath(path: string): string {
+  return path.replace(/\/+$/, '') || '/';
+}
+
+/**
+ * Parse JSON, or undefined when it is not valid
+ */
+function parseJson(text: string | undefined): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a value is a plain object
+ */
+function isRecord(value: unknown): value is MockRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Identifier field of a record
+ */
+function idKey(record: MockRecord): string | undefined {
+  return ID_KEYS.find((key) => key in record);
+}
+
+/**
+ * Deep copy of JSON data
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Location of the record list inside a response example
+ * (`[]` for a bare array, `["data"]` for `{ data: [...] }`)
+ */
+function findListPath(value: unknown, depth = 0): string[] | undefined {
+  if (Array.isArray(value)) return value.every(isRecord) ? [] : undefined;
+  if (!isRecord(value) || depth >= MAX_ENVELOPE_DEPTH) return undefined;
+
+  for (const [key, child] of Object.entries(value)) {
+    const path = findListPath(child, depth + 1);
+    if (path) return [key, ...path];
+  }
+  return undefined;
+}
+
+/**
+ * Location of the record inside a response example
+ * (`[]` when the example is the record, `["data"]` for `{ data: {...} }`)
+ */
+function findRecordPath(value: unknown, depth = 0): string[] | undefined {
+  if (!isRecord(value)) return undefined;
+  if (idKey(value)) return [];
+  if (depth >= MAX_ENVELOPE_DEPTH) return undefined;
+
+  for (const [key, child] of Object.entries(value)) {
+    const path = findRecordPath(child, depth + 1);
+    if (path) return [key, ...path];
+  }
+  return undefined;
+}
+
+/**
+ * Whether an example is a list response (a list, and not itself a record
+ * that happens to hold an array)
+ */
+function isListExample(example: unknown): boolean {
+  return (
+    findListPath(example) !== undefined && findRecordPath(example) === undefined
+  );
+}
+
+/**
+ * Value at a path
+ */
+function getPath(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) => (isRecord(current) ? current[key] : undefined),
+    value,
+  );
+}
+
+/**
+ * Copy of a value with the value at a path replaced
+ */
+function setPath(
+  value: unknown,
+  path: string[],
+  replacement: unknown,
+): unknown {
+  if (path.length === 0) return replacement;
+  const copy = { ...(value as MockRecord) };
+  copy[path[0]] = setPath(copy[path[0]], path.slice(1), replacement);
+  return copy;
+}
+
+/**
+ * Example with its list replaced by the stored records
+ * `total` and page counters next to the list (or in a sibling
+ * `pagination`/`meta` object) follow the record count.
+ */
+function renderList(example: unknown, records: MockRecord[]): unknown {
+  const path = findListPath(example);
+  if (!path) return records;
+
+  let rendered = setPath(example, path, records);
+  const parentPath = path.slice(0, -1);
+  const parent = getPath(rendered, parentPath);
+  if (!isRecord(parent)) return rendered;
+
+  for (const key of ['', 'pagination', 'meta']) {
+    const holder = key ? parent[key] : parent;
+    if (!isRecord(holder) || typeof holder.total !== 'number') continue;
+
+    const holderPath = [...parentPath, ...(key ? [key] : [])];
+    rendered = setPath(rendered, [...holderPath, 'total'], records.length);
+    const limit = holder.limit;
+    for (const pages of ['pages', 'totalPages']) {
+      if (typeof holder[pages] === 'number' && typeof limit === 'number') {
+        const count = Math.ceil(records.length / Math.max(limit, 1));
+        rendered = setPath(rendered, [...holderPath, pages], count);
+      }
+    }
+  }
+  return rendered;
+}
+
+/**
+ * Example with its record replaced
+ */
+function renderRecord(example: unknown, record: MockRecord): unknown {
+  const path = findRecordPath(example);
+  if (path) return setPath(example, path, record);
+  // Examples without an id (e.g., `{ success, message }`) are returned as is
+  return example ?? record;
+}
+
+/**
+ * Record described by an example (the record inside its envelope)
+ */
+function exampleRecord(example: unknown): MockRecord {
+  const path = findRecordPath(example);
+  const record = path ? getPath(example, path) : example;
+  return isRecord(record) ? clone(record) : {};
+}
+
+/**
+ * Set the timestamp fields a record already has to now
+ */
+function touch(record: MockRecord, keys: string[]): void {
+  const now = new Date().toISOString();
+  for (const key of keys) {
+    if (key in record) record[key] = now;
+  }
+}
+
+/**
+ * Example with fields named like path parameters set to their values
+ */
+function applyParameters(
+  example: unknown,
+  parameters: Record<string, string>,
+): unknown {
+  const path = findRecordPath(example) ?? [];
+  const record = getPath(example, path);
+  if (!isRecord(record)) return example;
+
+  const updated = { ...record };
+  for (const [name, value] of Object.entries(parameters)) {
+    if (name in updated) updated[name] = value;
+  }
+  return setPath(example, path, updated);
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * One collection of records
+ */
+interface MockCollection {
+  records: Map<string, MockRecord>;
+
+  /** Whether unknown ids are 404s (seeded from a list example or written) */
+  known: boolean;
+}
+
+/**
+ * In-memory data behind the mock endpoints
+ */
+class MockStore {
+  private collections = new Map<string, MockCollection>();
+  private singletons = new Map<string, MockRecord | null>();
+
+  /**
+   * Collection at a path, seeded on first use
+   */
+  collection(
+    key: string,
+    seed: () => MockRecord[] | undefined,
+  ): MockCollection {
+    let collection = this.collections.get(key);
+    if (!collection) {
+      const records = seed();
+      collection = { records: new Map(), known: records !== undefined };
+      for (const record of records ?? []) {
+        const id = idKey(record);
+        if (id) collection.records.set(String(record[id]), clone(record));
+      }
+      this.collections.set(key, collection);
+    }
+    return collection;
+  }
+
+  /**
+   * Record at a path without parameters, seeded on first use
+   * @returns The record, or null once deleted
+   */
+  singleton(
+    key: string,
+    seed: () => MockRecord | undefined,
+  ): MockRecord | null | undefined {
+    if (!this.singletons.has(key)) {
+      const record = seed();
+      if (record) this.singletons.set(key, clone(record));
+    }
+    return this.singletons.get(key);
+  }
+
+  /**
+   * Replace or delete (null) the record at a path
+   */
+  setSingleton(key: string, record: MockRecord | null): void {
+    this.singletons.set(key, record);
+  }
+}
+
+/**
+ * Next id for a new record, in the style of the existing ids
+ */
+function nextId(collection: MockCollection, template: MockRecord): unknown {
+  const key = idKey(template) ?? 'id';
+  const ids = [...collection.records.values()].map((record) => record[key]);
+  const sample = template[key] ?? ids[0];
+
+  if (typeof sample === 'number') {
+    return Math.max(0, ...ids.filter((id) => typeof id === 'number')) + 1;
+  }
+  return randomUUID();
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * Serves the endpoints of a set of contracts
+ */
+class MockApi {
+  private routes: MockRoute[];
+  private store = new MockStore();
+
+  constructor(endpoints: ApiEndpoint[]) {
+    this.routes = endpoints.map((endpoint) => {
+      const segments = trimPath(endpoint.path).split('/');
+      const source = segments
+        .map((segment) =>
+          isParameter(segment)
+            ? '([^/]+)'
+            : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+        )
+        .join('/');
+      const example = parseJson(endpoint.responseExample);
+      return {
+        endpoint,
+        segments,
+        pattern: new RegExp(`^${source}$`),
+        example,
+        template:
+          example ??
+          (endpoint.responseJsonSchema &&
+            sampleFromSchema(endpoint.responseJsonSchema)),
+      };
+    });
+  }
+
+  /**
+   * Handle one request
+   * @returns Status code and JSON body (undefined for no content)
+   * @throws MockHttpError for bodies that cannot be read and unknown records
+   */
+  async handle(
+    req: IncomingMessage,
+    url: URL,
+  ): Promise<{ status: number; body?: unknown; allow?: string }> {
+    const path = trimPath(url.pathname);
+    const candidates = this.routes.filter((route) => route.pattern.test(path));
+    if (candidates.length === 0) {
+      return errorBody(404, `No documented endpoint for ${path}`);
+    }
+
+    const route = candidates.find(
+      (candidate) => candidate.endpoint.method === req.method,
+    );
+    if (!route) {
+      const allow = candidates.map((c) => c.endpoint.method).join(', ');
+      return {
+        ...errorBody(405, `${req.method} is not documented for ${path}`),
+        allow,
+      };
+    }
+
+    const { endpoint } = route;
+    const authorization = req.headers.authorization ?? '';
+    if (endpoint.authentication && !/^Bearer\s+\S+/i.test(authorization)) {
+      return this.documentedError(route, 401, 'Authentication required');
+    }
+
+    const requested =
+      (req.headers[MOCK_STATUS_HEADER] as string | undefined) ??
+      url.searchParams.get(MOCK_STATUS_QUERY) ??
+      undefined;
+    if (requested) {
+      const status = Number(requested);
+      if (!Number.isInteger(status) || status < 400 || status > 599) {
+        return errorBody(
+          400,
+          `${MOCK_STATUS_HEADER}/${MOCK_STATUS_QUERY} must be an HTTP error status (400-599), got "${requested}"`,
+        );
+      }
+      const documented = endpoint.errorResponses?.find(
+        (error) => error.statusCode === status,
+      );
+      if (!documented) {
+        // Undocumented codes still get the status, with a generic body
+        const codes = (endpoint.errorResponses ?? []).map((e) => e.statusCode);
+        return errorBody(
+          status,
+          `Status ${status} is not documented for ${endpoint.method} ${endpoint.path}` +
+            (codes.length > 0 ? ` (documented: ${codes.join(', ')})` : ''),
+        );
+      }
+      return this.documentedError(route, status, documented.description);
+    }
+
+    const body = ['POST', 'PUT', 'PATCH'].includes(endpoint.method)
+      ? await readBody(req)
+      : undefined;
+    const invalid = this.validateBody(route, body);
+    if (invalid) return invalid;
+
+    const segments = path.split('/');
+    const parameters: Record<string, string> = {};
+    route.segments.forEach((segment, index) => {
+      if (isParameter(segment)) {
+        parameters[parameterName(segment)] = decodeSegment(segments[index]);
+      }
+    });
+
+    return this.dispatch(route, segments, parameters, body);
+  }
+
+  /**
+   * Documented error response: its example, else a Fastify-style error body
+   */
+  documentedError(
+    route: MockRoute,
+    status: number,
+    fallbackMessage: string,
+  ): { status: number; body: unknown } {
+    const documented = route.endpoint.errorResponses?.find(
+      (error) => error.statusCode === status,
+    );
+    const example = parseJson(documented?.example);
+    return example !== undefined
+      ? { status, body: example }
+      : errorBody(status, documented?.description ?? fallbackMessage);
+  }
+
+  /**
+   * Check a request body against the documented request schema
+   * PATCH bodies may leave out required fields.
+   */
+  validateBody(
+    route: MockRoute,
+    body: unknown,
+  ): { status: number; body: unknown } | undefined {
+    const { endpoint } = route;
+    if (body === undefined || !endpoint.requestJsonSchema) {
+      return undefined;
+    }
+
+    const violations = validateJsonSchema(
+      body,
+      endpoint.requestJsonSchema,
+    ).filter(
+      (violation) =>
+        endpoint.method !== 'PATCH' || violation.kind !== 'missing',
+    );
+    if (violations.length === 0) return undefined;
+
+    const invalid = this.documentedError(route, 400, 'Invalid request body');
+    return isRecord(invalid.body)
+      ? { ...invalid, body: { ...invalid.body, violations } }
+      : invalid;
+  }
+
+  /**
+   * Resource a request operates on, from the shape of its path
+   */
+  resource(route: MockRoute, segments: string[]): MockResource {
+    const template = route.segments;
+    const last = template.length - 1;
+    const method = route.endpoint.method;
+
+    if (isParameter(template[last])) {
+      return {
+        kind: 'item',
+        key: segments.slice(0, last).join('/'),
+        id: decodeSegment(segments[last]),
+        action: false,
+      };
+    }
+    // Actions on a record (PUT /roles/:id/permissions) update the record
+    if (
+      last > 1 &&
+      isParameter(template[last - 1]) &&
+      method !== 'GET' &&
+      method !== 'POST'
+    ) {
+      return {
+        kind: 'item',
+        key: segments.slice(0, last - 1).join('/'),
+        id: decodeSegment(segments[last - 1]),
+        action: true,
+      };
+    }
+
+    const key = segments.join('/');
+    if (method === 'POST') return { kind: 'collection', key };
+    if (method === 'GET' && isListExample(route.example)) {
+      return { kind: 'collection', key };
+    }
+    return { kind: 'singleton', key };
+  }
+
+  /**
+   * Records from the list example of the GET endpoint serving a path
+   */
+  seedCollection(key: string): MockRecord[] | undefined {
+    const list = this.routes.find(
+      (route) =>
+        route.endpoint.method === 'GET' &&
+        route.pattern.test(key) &&
+        isListExample(route.example),
+    );
+    if (!list) return undefined;
+    const records = getPath(list.example, findListPath(list.example)!);
+    return Array.isArray(records) ? records.filter(isRecord) : undefined;
+  }
+
+  /**
+   * Record from the example of the GET endpoint serving a path
+   */
+  seedSingleton(key: string): MockRecord | undefined {
+    const read = this.routes.find(
+      (route) => route.endpoint.method === 'GET' && route.pattern.test(key),
+    );
+    return read?.example !== undefined
+      ? exampleRecord(read.example)
+      : undefined;
+  }
+
+  /**
+   * Run a request against the store
+   */
+  dispatch(
+    route: MockRoute,
+    segments: string[],
+    parameters: Record<string, string>,
+    body: unknown,
+  ): { status: number; body?: unknown } {
+    const { endpoint, example, template } = route;
+    const resource = this.resource(route, segments);
+    const input = isRecord(body) ? body : {};
+
+    if (resource.kind === 'singleton') {
+      const record = this.store.singleton(resource.key, () =>
+        this.seedSingleton(resource.key),
+      );
+      if (record === null) {
+        throw new MockHttpError(
+          404,
+          this.documentedError(route, 404, 'Not found').body,
+        );
+      }
+      if (endpoint.method === 'DELETE') {
+        this.store.setSingleton(resource.key, null);
+        return example === undefined
+          ? { status: 204 }
+          : { status: 200, body: example };
+      }
+      if (endpoint.method === 'GET') {
+        return { status: 200, body: renderRecord(example, record ?? {}) };
+      }
+
+      // Fields this response documents but the stored record lacks (e.g.
+      // updatedAt) come from the response example or schema
+      const updated = {
+        ...exampleRecord(template),
+        ...(record ?? {}),
+        ...input,
+      };
+      touch(updated, UPDATED_KEYS);
+      this.store.setSingleton(resource.key, updated);
+      return {
+        status: endpoint.method === 'POST' ? 201 : 200,
+        body: renderRecord(template, updated),
+      };
+    }
+
+    const collection = this.store.collection(resource.key, () =>
+      this.seedCollection(resource.key),
+    );
+
+    if (resource.kind === 'collection') {
+      if (endpoint.method === 'GET') {
+        return {
+          status: 200,
+          body: renderList(example, [...collection.records.values()]),
+        };
+      }
+
+      const fields = exampleRecord(template);
+      const record: MockRecord = { ...fields, ...input };
+      const key = idKey(fields) ?? 'id';
+      if (input[key] === undefined) record[key] = nextId(collection, fields);
+      touch(record, [...CREATED_KEYS, ...UPDATED_KEYS]);
+      collection.records.set(String(record[key]), record);
+      collection.known = true;
+      return { status: 201, body: renderRecord(template, record) };
+    }
+
+    const existing = collection.records.get(resource.id);
+    if (!existing) {
+      if (collection.known) {
+        throw new MockHttpError(
+          404,
+          this.documentedError(route, 404, `No record with id ${resource.id}`)
+            .body,
+        );
+      }
+      // Nothing to look up: answer from the example, with the path params
+      if (endpoint.method === 'DELETE' && example === undefined) {
+        return { status: 204 };
+      }
+      return {
+        status: 200,
+        body: applyParameters(template ?? {}, parameters),
+      };
+    }
+
+    if (endpoint.method === 'GET' && !resource.action) {
+      return { status: 200, body: renderRecord(example, existing) };
+    }
+    if (endpoint.method === 'DELETE' && !resource.action) {
+      collection.records.delete(resource.id);
+      return example === undefined
+        ? { status: 204 }
+        : { status: 200, body: renderRecord(example, existing) };
+    }
+
+    const updated = { ...exampleRecord(template), ...existing, ...input };
+    const key = idKey(existing);
+    if (key) updated[key] = existing[key];
+    touch(updated, UPDATED_KEYS);
+    collection.records.set(resource.id, updated);
+    return { status: 200, body: renderRecord(template, updated) };
+  }
+}
+
+/**
+ * Fastify-style error body
+ */
+function errorBody(
+  status: number,
+  message: string,
+): { status: number; body: unknown } {
+  return {
+    status,
+    body: { statusCode: status, error: STATUS_CODES[status], message },
+  };
+}
+
+/**
+ * Read and JSON-parse a request body
+ * @throws MockHttpError for oversized or malformed bodies
+ */
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new MockHttpError(413, errorBody(413, 'Body too large').body);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (raw.trim().length === 0) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new MockHttpError(400, errorBody(400, 'Body is not valid JSON').body);
+  }
+}
+
+/**
+ * Write a JSON response with permissive CORS headers
+ */
+function send(
+  res: ServerResponse,
+  status: number,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': `Authorization, Content-Type, ${MOCK_STATUS_HEADER}`,
+    ...(body !== undefined && { 'Content-Type': 'application/json' }),
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+/**
+ * Start a mock server for the endpoints of some contracts
+ * @param contracts - Contracts to serve
+ * @param options - Port, host and request logger
+ * @returns The running server
+ */
+export async function startMockServer(
+  contracts: ApiContract[],
+  options: MockServerOptions,
+): Promise<MockServer> {
+  const endpoints = contracts.flatMap((contract) => contract.endpoints);
+  const api = new MockApi(endpoints);
+
+  const httpServer = createHttpServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
+    let status = 500;
+    try {
+      let url: URL;
+      try {
+        url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+      } catch {
+        // Malformed Host header or request target
+        throw new MockHttpError(400, errorBody(400, 'Malformed URL').body);
+      }
+      const result = await api.handle(req, url);
+      status = result.status;
+      send(
+        res,
+        status,
+        result.body,
+        result.allow ? { Allow: result.allow } : {},
+      );
+    } catch (error) {
+      const failure =
+        error instanceof MockHttpError
+          ? { status: error.statusCode, body: error.body }
+          : errorBody(500, error instanceof Error ? error.message : 'Error');
+      status = failure.status;
+      if (!res.headersSent) send(res, status, failure.body);
+    }
+    options.log?.(`${req.method} ${req.url} → ${status}`);
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolvePromise());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`,
+    host: options.host,
+    port,
+    features: Array.from(new Set(contracts.map((c) => c.feature))),
+    endpoints,
+    close: () =>
+      new Promise<void>((resolvePromise) => {
+        httpServer.closeAllConnections?.();
+        httpServer.close(() => resolvePromise());
+      }),
+  };
+}
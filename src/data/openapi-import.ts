@@ -0,0 +1,685 @@
+/**
+ * OpenAPI Import
+ * Reads OpenAPI 3.x documents (JSON or YAML) into the API contract model
+ *
+ * Operations are grouped into features by their first tag (or the first
+ * path segment after /api), component schemas are rendered back into the
+ * TypeScript interfaces contracts use, and examples become the JSON and curl
+ * snippets the markdown layout expects. Pair with `formatContractMarkdown`
+ * to create API_CONTRACTS.md files for features that have none.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type {
+  ApiContract,
+  ApiEndpoint,
+  ErrorResponse,
+  HttpMethod,
+  PathParameter,
+  QueryParameter,
+} from './api-contracts-parser.js';
+import { CONTRACT_FILE_NAME } from './api-contracts-writer.js';
+import { compileSchema, JsonSchema } from './schema-compiler.js';
+
+/**
+ * OpenAPI document as read from JSON or YAML; fields are checked on use
+ */
+export type OpenApiSource = Record<string, unknown>;
+
+/**
+ * Any object node of an OpenAPI document (operation, parameter, media, ...)
+ */
+type OpenApiNode = Record<string, unknown>;
+
+/**
+ * Options for importing an OpenAPI document
+ */
+export interface OpenApiImportOptions {
+  /** Only import this feature (matched case-insensitively) */
+  feature?: string;
+
+  /** Docs directory used to build each contract's filePath */
+  docsPath?: string;
+}
+
+const HTTP_METHODS: HttpMethod[] = [
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+  'OPTIONS',
+];
+
+// ============================================================================
+// Narrowing
+// ============================================================================
+
+/**
+ * Whether a value is an object node (not null or an array)
+ */
+function isNode(value: unknown): value is OpenApiNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A value as an object node, or an empty node
+ */
+function asNode(value: unknown): OpenApiNode {
+  return isNode(value) ? value : {};
+}
+
+/**
+ * A value as an array, or an empty array
+ */
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * A value as a string, or undefined
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Parse OpenAPI text (JSON is valid YAML, so one parser handles both)
+ * @param text - Document text
+ * @returns Parsed document
+ * @throws Error when the text is not an OpenAPI 3.x document
+ */
+export function parseOpenApiDocument(text: string): OpenApiSource {
+  const parsed: unknown = parseYaml(text);
+
+  if (!isNode(parsed)) {
+    throw new Error('Not an OpenAPI document: expected a JSON or YAML object');
+  }
+  const document: OpenApiSource = parsed;
+  if (document.swagger) {
+    throw new Error(
+      `Swagger ${String(document.swagger)} documents are not supported; export OpenAPI 3.x instead (e.g., @fastify/swagger with openapi options)`,
+    );
+  }
+  if (
+    typeof document.openapi !== 'string' ||
+    !document.openapi.startsWith('3.')
+  ) {
+    throw new Error(
+      'Not an OpenAPI 3.x document: missing "openapi: 3.x" field',
+    );
+  }
+
+  return document;
+}
+
+/**
+ * Load an OpenAPI document from a file or an http(s) URL
+ * @param source - File path or URL (e.g., http://localhost:3000/documentation/json)
+ * @returns Parsed document
+ */
+export async function loadOpenApiDocument(
+  source: string,
+): Promise<OpenApiSource> {
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${source}: ${response.status} ${response.statusText}`,
+      );
+    }
+    return parseOpenApiDocument(await response.text());
+  }
+
+  return parseOpenApiDocument(await fs.readFile(source, 'utf-8'));
+}
+
+// ============================================================================
+// References
+// ============================================================================
+
+/**
+ * Follow a local `$ref` (e.g., "#/components/schemas/Role")
+ * Objects without a ref are returned unchanged.
+ */
+function deref(document: OpenApiSource, value: unknown): OpenApiNode {
+  const seen = new Set<string>();
+  let current = asNode(value);
+
+  while (typeof current.$ref === 'string') {
+    const ref = current.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) return {};
+    seen.add(ref);
+
+    current = ref
+      .slice(2)
+      .split('/')
+      .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<OpenApiNode>((node, part) => asNode(node[part]), document);
+  }
+
+  return current;
+}
+
+/**
+ * Component name of a schema ref, or null for inline schemas
+ */
+function schemaRefName(schema: JsonSchema | undefined): string | null {
+  const match = schema?.$ref?.match(/^#\/components\/schemas\/(.+)$/);
+  return match ? match[1].replace(/~1/g, '/').replace(/~0/g, '~') : null;
+}
+
+// ============================================================================
+// JSON Schema → TypeScript
+// ============================================================================
+
+/**
+ * Valid TypeScript identifier for a component name
+ */
+function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^\w$]/g, '_');
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Quote a property name when it is not a plain identifier
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+/**
+ * Renders JSON Schemas as TypeScript, collecting referenced components
+ */
+class TypeScriptRenderer {
+  /** Component names still to render as interfaces, in discovery order */
+  readonly pending: string[] = [];
+  private queued = new Set<string>();
+
+  /**
+   * Render a schema as a type expression
+   * @param schema - JSON Schema
+   * @param indent - Indentation of the enclosing declaration
+   */
+  type(schema: JsonSchema | undefined, indent: string = ''): string {
+    if (!schema || typeof schema !== 'object') return 'unknown';
+
+    const refName = schemaRefName(schema);
+    if (refName) {
+      if (!this.queued.has(refName)) {
+        this.queued.add(refName);
+        this.pending.push(refName);
+      }
+      return toIdentifier(refName);
+    }
+
+    const union = (schema.oneOf ?? schema.anyOf) as JsonSchema[] | undefined;
+    if (union) {
+      return this.nullable(
+        union.map((s) => this.type(s, indent)).join(' | '),
+        schema,
+      );
+    }
+    if (schema.allOf) {
+      return schema.allOf.map((s) => this.type(s, indent)).join(' & ');
+    }
+    if (schema.const !== undefined) return JSON.stringify(schema.const);
+    if (schema.enum) {
+      return schema.enum
+        .map((value) =>
+          typeof value === 'string' ? `'${value}'` : JSON.stringify(value),
+        )
+        .join(' | ');
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const rendered = types.map((type) => {
+      switch (type) {
+        case 'string':
+          return 'string';
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array': {
+          const items = this.type(schema.items, indent);
+          return /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+        }
+        case 'object':
+        case undefined:
+          return this.object(schema, indent);
+        default:
+          return 'unknown';
+      }
+    });
+
+    return this.nullable(rendered.join(' | '), schema);
+  }
+
+  /**
+   * Add `| null` for OpenAPI 3.0 `nullable: true`
+   */
+  private nullable(type: string, schema: JsonSchema): string {
+    return schema.nullable === true ? `${type} | null` : type;
+  }
+
+  /**
+   * Render an object schema as an inline type literal
+   */
+  private object(schema: JsonSchema, indent: string): string {
+    const members = this.members(schema, `${indent}  `);
+    if (members.length === 0) {
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return `Record<string, ${this.type(schema.additionalProperties, indent)}>`;
+      }
+      return schema.properties || schema.type === 'object'
+        ? 'Record<string, unknown>'
+        : 'unknown';
+    }
+    return `{\n${members.join('\n')}\n${indent}}`;
+  }
+
+  /**
+   * Member lines of an object schema
+   */
+  members(schema: JsonSchema, indent: string): string[] {
+    const required = new Set(schema.required ?? []);
+    const lines = Object.entries(schema.properties ?? {}).map(
+      ([name, property]) =>
+        `${indent}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${this.type(property, indent)};`,
+    );
+    if (
+      lines.length > 0 &&
+      schema.additionalProperties &&
+      schema.additionalProperties !== true
+    ) {
+      lines.push(
+        `${indent}[key: string]: ${this.type(schema.additionalProperties, indent)};`,
+      );
+    }
+    return lines;
+  }
+
+  /**
+   * Render a named declaration (interface for objects, type alias otherwise)
+   */
+  declaration(name: string, schema: JsonSchema): string {
+    const identifier = toIdentifier(name);
+    const isObject =
+      (schema.type === 'object' || schema.properties) &&
+      !schema.oneOf &&
+      !schema.anyOf &&
+      !schema.allOf;
+
+    if (isObject) {
+      const members = this.members(schema, '  ');
+      return members.length > 0
+        ? `interface ${identifier} {\n${members.join('\n')}\n}`
+        : `interface ${identifier} {}`;
+    }
+    return `type ${identifier} = ${this.type(schema)};`;
+  }
+}
+
+/**
+ * Render a body schema and every component it references as TypeScript
+ * @param document - OpenAPI document (for component lookups)
+ * @param schema - Request or response body schema
+ * @param fallbackName - Declaration name for inline schemas
+ * @returns TypeScript declarations, root first
+ */
+function schemaToTypeScript(
+  document: OpenApiSource,
+  schema: JsonSchema,
+  fallbackName: string,
+): string {
+  const renderer = new TypeScriptRenderer();
+  const declarations: string[] = [];
+
+  const refName = schemaRefName(schema);
+  if (refName) {
+    renderer.type(schema);
+  } else {
+    declarations.push(renderer.declaration(fallbackName, schema));
+  }
+
+  for (let i = 0; i < renderer.pending.length; i++) {
+    const name = renderer.pending[i];
+    declarations.push(
+      renderer.declaration(
+        name,
+        deref(document, { $ref: `#/components/schemas/${name}` }),
+      ),
+    );
+  }
+
+  return declarations.join('\n\n');
+}
+
+// ============================================================================
+// Operations → Endpoints
+// ============================================================================
+
+/**
+ * Convert "Budget Requests" or "budgetRequests" to "budget-requests"
+ */
+function toKebabCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase();
+}
+
+/**
+ * Convert "get /api/users/{id}" style names to "GetApiUsersId"
+ */
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Contract type name for a parameter schema (uuid, number, string[], ...)
+ */
+function parameterType(schema: JsonSchema): string {
+  if (schema.type === 'array') {
+    return `${parameterType((schema.items as JsonSchema) ?? {})}[]`;
+  }
+  if (schema.type === 'string' && schema.format) {
+    return ['uuid', 'email', 'date', 'date-time', 'uri'].includes(schema.format)
+      ? schema.format
+      : 'string';
+  }
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== 'null')
+    : schema.type;
+  return type ?? 'string';
+}
+
+/**
+ * First example of a media type, pretty-printed as JSON
+ */
+function mediaExample(media: OpenApiNode | undefined): string | undefined {
+  const example =
+    media?.example ??
+    asNode(Object.values(asNode(media?.examples))[0]).value ??
+    asNode(media?.schema).example;
+  return example === undefined ? undefined : JSON.stringify(example, null, 2);
+}
+
+/**
+ * First media type of a content map, with its content type
+ */
+function firstMedia(content: unknown): {
+  contentType?: string;
+  media?: OpenApiNode;
+} {
+  const node = asNode(content);
+  const [contentType] = Object.keys(node);
+  return contentType ? { contentType, media: asNode(node[contentType]) } : {};
+}
+
+/**
+ * Build a curl request example from a request body example
+ */
+function curlExample(
+  method: HttpMethod,
+  url: string,
+  contentType: string,
+  body: string | undefined,
+  authenticated: boolean,
+): string | undefined {
+  if (!body) return undefined;
+  const lines = [`curl -X ${method} "${url}"`];
+  if (authenticated) lines.push(`-H "Authorization: Bearer $TOKEN"`);
+  lines.push(`-H "Content-Type: ${contentType}"`);
+  lines.push(`-d '${body.replace(/'/g, "'\\''")}'`);
+  return lines.join(' \\\n  ');
+}
+
+/**
+ * Whether a security requirement list demands credentials
+ * `[]` and `[{}]` (optional auth) do not.
+ */
+function requiresAuth(security: unknown): boolean {
+  return (
+    Array.isArray(security) &&
+    security.length > 0 &&
+    security.every((requirement) => Object.keys(asNode(requirement)).length > 0)
+  );
+}
+
+/**
+ * Convert one OpenAPI operation to an endpoint
+ */
+function operationToEndpoint(
+  document: OpenApiSource,
+  path: string,
+  method: HttpMethod,
+  pathItem: OpenApiNode,
+  operation: OpenApiNode,
+  feature: string,
+  serverUrl: string,
+): { endpoint: ApiEndpoint; contentType?: string } {
+  const contractPath = path.replace(/\{([^}]+)\}/g, ':$1');
+  const authentication = requiresAuth(operation.security ?? document.security);
+  const operationId = asString(operation.operationId);
+  const baseName = toPascalCase(
+    operationId ?? `${method.toLowerCase()} ${path}`,
+  );
+
+  // Parameters: path-level first, overridden by operation-level
+  const parameters = new Map<string, OpenApiNode>();
+  for (const param of [
+    ...asArray(pathItem.parameters),
+    ...asArray(operation.parameters),
+  ]) {
+    const resolved = deref(document, param);
+    const name = asString(resolved.name);
+    if (name) parameters.set(`${String(resolved.in)}:${name}`, resolved);
+  }
+
+  const pathParameters: PathParameter[] = [];
+  const queryParameters: QueryParameter[] = [];
+  for (const param of parameters.values()) {
+    const schema: JsonSchema = deref(document, param.schema);
+    const base = {
+      name: String(param.name),
+      type: parameterType(schema),
+      description: asString(param.description) ?? '',
+    };
+    if (param.in === 'path') {
+      pathParameters.push({ ...base, required: true });
+    } else if (param.in === 'query') {
+      queryParameters.push({
+        ...base,
+        required: param.required === true,
+        ...(schema.default !== undefined && {
+          default: String(schema.default),
+        }),
+      });
+    }
+  }
+
+  // Request body
+  const requestBody = deref(document, operation.requestBody);
+  const request = firstMedia(requestBody.content);
+  const requestSchema = isNode(request.media?.schema)
+    ? schemaToTypeScript(document, request.media.schema, `${baseName}Request`)
+    : undefined;
+
+  // Success response: first 2xx, else "default"
+  const responses = asNode(operation.responses);
+  const successCode =
+    Object.keys(responses).find((code) => /^2\d\d$|^2XX$/i.test(code)) ??
+    (responses.default ? 'default' : undefined);
+  const success = firstMedia(
+    successCode ? deref(document, responses[successCode]).content : undefined,
+  );
+  const responseSchema = isNode(success.media?.schema)
+    ? schemaToTypeScript(document, success.media.schema, `${baseName}Response`)
+    : undefined;
+
+  const errorResponses: ErrorResponse[] = Object.entries(responses)
+    .filter(([code]) => /^[45]\d\d$/.test(code))
+    .map(([code, value]) => {
+      const response = deref(document, value);
+      return {
+        statusCode: Number(code),
+        description: asString(response.description) ?? '',
+        example: mediaExample(firstMedia(response.content).media),
+      };
+    });
+
+  const contentType = request.contentType ?? success.contentType;
+  const endpoint: ApiEndpoint = {
+    method,
+    path: contractPath,
+    description:
+      asString(operation.summary) ?? operationId ?? `${method} ${contractPath}`,
+    feature,
+    authentication,
+    requestSchema,
+    responseSchema,
+    requestJsonSchema: requestSchema ? compileSchema(requestSchema) : undefined,
+    responseJsonSchema: responseSchema
+      ? compileSchema(responseSchema)
+      : undefined,
+    requestExample: curlExample(
+      method,
+      `${serverUrl}${contractPath}`,
+      request.contentType ?? 'application/json',
+      mediaExample(request.media),
+      authentication,
+    ),
+    responseExample: mediaExample(success.media),
+    errorResponses: errorResponses.length > 0 ? errorResponses : undefined,
+    queryParameters: queryParameters.length > 0 ? queryParameters : undefined,
+    pathParameters: pathParameters.length > 0 ? pathParameters : undefined,
+  };
+
+  return { endpoint, contentType };
+}
+
+/**
+ * Feature an operation belongs to: its first tag, else the path segment
+ * after "/api" (e.g., /api/budget-requests/{id} → "budget-requests")
+ * A tag with no letters or digits (e.g., "---") falls back to the path too,
+ * since it would otherwise name an empty feature directory.
+ */
+function operationFeature(path: string, operation: OpenApiNode): string {
+  const tag = toKebabCase(asString(asArray(operation.tags)[0]) ?? '');
+  if (tag) return tag;
+
+  const segments = path.split('/').filter(Boolean);
+  const start = segments[0] === 'api' ? 1 : 0;
+  const segment = segments
+    .slice(start)
+    .find((s) => !s.startsWith('{') && !/^v\d+$/.test(s));
+  return segment ? toKebabCase(segment) : 'api';
+}
+
+/**
+ * Longest common leading path of a feature's endpoints, up to the first
+ * parameter (e.g., /api/rbac/roles and /api/rbac/users → /api/rbac)
+ */
+function commonBasePath(paths: string[]): string {
+  const split = paths.map((p) => p.split('/').filter(Boolean));
+  const common: string[] = [];
+  for (let i = 0; i < (split[0]?.length ?? 0); i++) {
+    const segment = split[0][i];
+    if (segment.startsWith(':') || split.some((s) => s[i] !== segment)) break;
+    common.push(segment);
+  }
+  return common.length > 0 ? `/${common.join('/')}` : '';
+}
+
+/**
+ * Convert an OpenAPI 3.x document into API contracts, one per feature
+ * @param document - Document from `parseOpenApiDocument`/`loadOpenApiDocument`
+ * @param options - Feature filter and docs directory
+ * @returns Contracts in first-seen feature order
+ */
+export function importOpenApi(
+  document: OpenApiSource,
+  options: OpenApiImportOptions = {},
+): ApiContract[] {
+  const serverUrl = (
+    asString(asNode(asArray(document.servers)[0]).url) ?? ''
+  ).replace(/\/+$/, '');
+  const tagDescriptions = new Map<string, string>(
+    asArray(document.tags)
+      .map(asNode)
+      .map((tag) => [
+        toKebabCase(asString(tag.name) ?? ''),
+        asString(tag.description) ?? '',
+      ]),
+  );
+
+  const features = new Map<
+    string,
+    { endpoints: ApiEndpoint[]; contentType?: string }
+  >();
+
+  for (const [path, rawPathItem] of Object.entries(asNode(document.paths))) {
+    const pathItem = deref(document, rawPathItem);
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method.toLowerCase()];
+      if (!isNode(operation)) continue;
+
+      const feature = operationFeature(path, operation);
+      if (
+        options.feature &&
+        feature.toLowerCase() !== options.feature.toLowerCase()
+      ) {
+        continue;
+      }
+
+      const { endpoint, contentType } = operationToEndpoint(
+        document,
+        path,
+        method,
+        pathItem,
+        operation,
+        feature,
+        serverUrl,
+      );
+      const group = features.get(feature) ?? { endpoints: [] };
+      group.endpoints.push(endpoint);
+      group.contentType ??= contentType;
+      features.set(feature, group);
+    }
+  }
+
+  return Array.from(features, ([feature, group]) => {
+    // aegisx_api_export_openapi writes "Base URL: /api/..." tag descriptions
+    const tagBaseUrl = tagDescriptions
+      .get(feature)
+      ?.match(/Base URL:\s*`?([^\s`]+)`?/)?.[1];
+    const authenticated = group.endpoints.some((e) => e.authentication);
+
+    return {
+      feature,
+      baseUrl: tagBaseUrl ?? commonBasePath(group.endpoints.map((e) => e.path)),
+      authentication: authenticated ? 'Required' : 'None',
+      contentType: group.contentType ?? 'application/json',
+      endpoints: group.endpoints,
+      filePath: join(options.docsPath ?? '', feature, CONTRACT_FILE_NAME),
+    };
+  });
+}
@@ -0,0 +1,479 @@
+/**
+ * OpenAPI Export
+ * Converts parsed API contracts into an OpenAPI 3.1 document
+ *
+ * Paths, parameters, examples and error responses come straight from the
+ * `ApiEndpoint` model. TypeScript interfaces captured from the contract code
+ * fences are compiled to JSON Schema components, so the result can feed
+ * Swagger UI, Postman and client generators.
+ */
+
+import { stringify as stringifyYaml } from 'yaml';
+import {
+  compileDeclarations,
+  DEFS_REF_PREFIX,
+  JsonSchema,
+} from './schema-compiler.js';
+import {
+  REQUEST_BODY_METHODS,
+  type ApiContract,
+  type ApiEndpoint,
+  type PathParameter,
+} from './api-contracts-parser.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * OpenAPI parameter object
+ */
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  description?: string;
+  required: boolean;
+  schema: JsonSchema;
+}
+
+/**
+ * OpenAPI media type object
+ */
+export interface OpenApiMediaType {
+  schema?: JsonSchema;
+  example?: unknown;
+}
+
+/**
+ * OpenAPI response object
+ */
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+/**
+ * OpenAPI operation object
+ */
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+  };
+  responses: Record<string, OpenApiResponse>;
+  security?: Array<Record<string, string[]>>;
+}
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string }>;
+  tags: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes?: Record<string, Record<string, string>>;
+  };
+}
+
+/**
+ * Output formats supported by `serializeOpenApi`
+ */
+export type OpenApiFormat = 'json' | 'yaml';
+
+/**
+ * Options for building an OpenAPI document
+ */
+export interface OpenApiExportOptions {
+  /** Document title (default: "AegisX API") */
+  title?: string;
+
+  /** API version (default: "1.0.0") */
+  version?: string;
+
+  /** Server URL (e.g., "http://localhost:3000") */
+  serverUrl?: string;
+}
+
+/** Security scheme name used for authenticated endpoints */
+export const BEARER_SECURITY_SCHEME = 'bearerAuth';
+
+// ============================================================================
+// Component Schemas
+// ============================================================================
+
+/**
+ * Whether an object schema has no properties (e.g., a "no body" interface)
+ */
+function isEmptyObject(schema: JsonSchema): boolean {
+  return (
+    schema.type === 'object' &&
+    Object.keys(schema.properties ?? {}).length === 0 &&
+    schema.additionalProperties === undefined
+  );
+}
+
+/**
+ * Copy a schema, replacing `#/$defs/` refs with component refs
+ */
+function resolveRefs(
+  schema: JsonSchema,
+  names: Map<string, string>,
+): JsonSchema {
+  return JSON.parse(JSON.stringify(schema), (key, value) => {
+    if (key !== '$ref' || !value.startsWith(DEFS_REF_PREFIX)) return value;
+    const name = names.get(value.slice(DEFS_REF_PREFIX.length));
+    return name ? `#/components/schemas/${name}` : value;
+  });
+}
+
+/**
+ * Collects component schemas across every endpoint of a document
+ * Declarations with the same name and shape are shared; a different shape
+ * under an existing name is prefixed with the feature name.
+ */
+class SchemaRegistry {
+  readonly schemas: Record<string, JsonSchema> = {};
+  private keys = new Map<string, string>();
+
+  /**
+   * Register the declarations of a code fence
+   * @param source - TypeScript snippet
+   * @param feature - Feature the snippet belongs to (for name clashes)
+   * @returns Ref to the snippet's root declaration, or null if it has no fields
+   */
+  register(source: string | undefined, feature: string): JsonSchema | null {
+    const block = source ? compileDeclarations(source) : null;
+    if (!block || isEmptyObject(block.definitions[block.root])) return null;
+
+    // Pick component names
+    const names = new Map<string, string>();
+    for (const name of block.names) {
+      const key = JSON.stringify(block.definitions[name]);
+      let componentName = name;
+      let attempt = 1;
+      while (
+        this.keys.has(componentName) &&
+        this.keys.get(componentName) !== key
+      ) {
+        componentName =
+          attempt === 1
+            ? `${toPascalCase(feature)}${name}`
+            : `${toPascalCase(feature)}${name}${attempt}`;
+        attempt++;
+      }
+      this.keys.set(componentName, key);
+      names.set(name, componentName);
+    }
+
+    for (const name of block.names) {
+      this.schemas[names.get(name)!] = resolveRefs(
+        block.definitions[name],
+        names,
+      );
+    }
+
+    return { $ref: `#/components/schemas/${names.get(block.root)}` };
+  }
+}
+
+// ============================================================================
+// Document Building
+// ============================================================================
+
+/**
+ * Convert "user-profile" or "budget_request" to "UserProfile"
+ */
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Convert an Express/Fastify path to an OpenAPI path
+ * @param path - Contract path (e.g., "/api/users/:id")
+ * @returns OpenAPI path (e.g., "/api/users/{id}")
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Build an operationId from method and path
+ * e.g. GET /api/users/:id → getApiUsersById
+ */
+function buildOperationId(endpoint: ApiEndpoint): string {
+  const segments = endpoint.path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith(':')
+        ? `By${toPascalCase(segment.slice(1))}`
+        : toPascalCase(segment),
+    );
+  return `${endpoint.method.toLowerCase()}${segments.join('')}`;
+}
+
+/**
+ * JSON Schema for a documented parameter type
+ * @param type - Contract type (string, number, uuid, date, boolean, ...)
+ * @param defaultValue - Documented default, as text
+ */
+export function parameterSchema(
+  type: string,
+  defaultValue?: string,
+): JsonSchema {
+  const normalized = type.trim().toLowerCase();
+  let schema: JsonSchema;
+
+  if (normalized.endsWith('[]') || normalized === 'array') {
+    schema = {
+      type: 'array',
+      items: parameterSchema(
+        normalized === 'array' ? 'string' : normalized.slice(0, -2),
+      ),
+    };
+  } else if (['number', 'float', 'double', 'decimal'].includes(normalized)) {
+    schema = { type: 'number' };
+  } else if (['integer', 'int'].includes(normalized)) {
+    schema = { type: 'integer' };
+  } else if (['boolean', 'bool'].includes(normalized)) {
+    schema = { type: 'boolean' };
+  } else if (['uuid', 'email', 'date', 'uri'].includes(normalized)) {
+    schema = { type: 'string', format: normalized };
+  } else if (['datetime', 'date-time', 'timestamp'].includes(normalized)) {
+    schema = { type: 'string', format: 'date-time' };
+  } else {
+    schema = { type: 'string' };
+  }
+
+  if (defaultValue !== undefined) {
+    if (schema.type === 'number' || schema.type === 'integer') {
+      const numeric = Number(defaultValue);
+      schema.default = Number.isNaN(numeric) ? defaultValue : numeric;
+    } else if (schema.type === 'boolean') {
+      schema.default = defaultValue === 'true';
+    } else {
+      schema.default = defaultValue;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Path and query parameters of an endpoint
+ * Every `:param` in the path is declared, documented or not.
+ */
+function buildParameters(endpoint: ApiEndpoint): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = [];
+  const documented = new Map<string, PathParameter>(
+    (endpoint.pathParameters ?? []).map((p) => [p.name, p]),
+  );
+
+  for (const [, name] of endpoint.path.matchAll(/:(\w+)/g)) {
+    const param = documented.get(name);
+    parameters.push({
+      name,
+      in: 'path',
+      ...(param?.description && { description: param.description }),
+      required: true,
+      schema: parameterSchema(param?.type ?? 'string'),
+    });
+  }
+
+  for (const param of endpoint.queryParameters ?? []) {
+    parameters.push({
+      name: param.name,
+      in: 'query',
+      ...(param.description && { description: param.description }),
+      required: param.required,
+      schema: parameterSchema(param.type, param.default),
+    });
+  }
+
+  return parameters;
+}
+
+/**
+ * Parse a JSON example, or undefined when it is not valid JSON
+ */
+function parseExample(example: string | undefined): unknown {
+  if (!example) return undefined;
+  try {
+    return JSON.parse(example);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Media type object with schema and/or example, or undefined if neither
+ */
+function mediaType(
+  schema: JsonSchema | null,
+  example: unknown,
+): OpenApiMediaType | undefined {
+  if (!schema && example === undefined) return undefined;
+  return {
+    ...(schema && { schema }),
+    ...(example !== undefined && { example }),
+  };
+}
+
+/**
+ * Build the operation object for one endpoint
+ */
+function buildOperation(
+  endpoint: ApiEndpoint,
+  contentType: string,
+  registry: SchemaRegistry,
+): OpenApiOperation {
+  const parameters = buildParameters(endpoint);
+
+  const requestSchema = REQUEST_BODY_METHODS.has(endpoint.method)
+    ? registry.register(endpoint.requestSchema, endpoint.feature)
+    : null;
+
+  const responses: Record<string, OpenApiResponse> = {};
+  const responseSchema = registry.register(
+    endpoint.responseSchema,
+    endpoint.feature,
+  );
+  const success = mediaType(
+    responseSchema,
+    parseExample(endpoint.responseExample),
+  );
+  if (success) {
+    responses['200'] = {
+      description: 'Successful response',
+      content: { [contentType]: success },
+    };
+  } else {
+    responses[endpoint.method === 'DELETE' ? '204' : '200'] = {
+      description: 'Successful response',
+    };
+  }
+
+  for (const error of endpoint.errorResponses ?? []) {
+    const content = mediaType(null, parseExample(error.example));
+    responses[String(error.statusCode)] = {
+      description: error.description,
+      ...(content && { content: { [contentType]: content } }),
+    };
+  }
+
+  return {
+    operationId: buildOperationId(endpoint),
+    summary: endpoint.description || `${endpoint.method} ${endpoint.path}`,
+    tags: [endpoint.feature],
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestSchema && {
+      requestBody: {
+        required: true,
+        content: { [contentType]: { schema: requestSchema } },
+      },
+    }),
+    responses,
+    ...(endpoint.authentication && {
+      security: [{ [BEARER_SECURITY_SCHEME]: [] }],
+    }),
+  };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from parsed contracts
+ * @param contracts - Contracts to include (one feature or all)
+ * @param options - Title, version and server URL
+ * @returns OpenAPI document
+ */
+export function buildOpenApiDocument(
+  contracts: ApiContract[],
+  options: OpenApiExportOptions = {},
+): OpenApiDocument {
+  const registry = new SchemaRegistry();
+  const paths: OpenApiDocument['paths'] = {};
+  const operationIds = new Set<string>();
+  let needsAuth = false;
+
+  for (const contract of contracts) {
+    for (const endpoint of contract.endpoints) {
+      const operation = buildOperation(
+        endpoint,
+        contract.contentType || 'application/json',
+        registry,
+      );
+
+      // Keep operationIds unique when two endpoints normalize the same way
+      let operationId = operation.operationId;
+      for (let i = 2; operationIds.has(operationId); i++) {
+        operationId = `${operation.operationId}${i}`;
+      }
+      operationIds.add(operationId);
+      operation.operationId = operationId;
+
+      const path = toOpenApiPath(endpoint.path);
+      paths[path] = {
+        ...paths[path],
+        [endpoint.method.toLowerCase()]: operation,
+      };
+      needsAuth ||= endpoint.authentication;
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title ?? 'AegisX API',
+      version: options.version ?? '1.0.0',
+      description: 'Generated from API_CONTRACTS.md by aegisx-mcp',
+    },
+    ...(options.serverUrl && { servers: [{ url: options.serverUrl }] }),
+    tags: contracts.map((contract) => ({
+      name: contract.feature,
+      ...(contract.baseUrl && {
+        description: `Base URL: ${contract.baseUrl}`,
+      }),
+    })),
+    paths,
+    components: {
+      schemas: registry.schemas,
+      ...(needsAuth && {
+        securitySchemes: {
+          [BEARER_SECURITY_SCHEME]: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT',
+          },
+        },
+      }),
+    },
+  };
+}
+
+/**
+ * Serialize an OpenAPI document
+ * @param document - Document from `buildOpenApiDocument`
+ * @param format - "json" (default) or "yaml"
+ * @returns Document text
+ */
+export function serializeOpenApi(
+  document: OpenApiDocument,
+  format: OpenApiFormat = 'json',
+): string {
+  if (format === 'yaml') {
+    // Shared schema objects must not turn into YAML anchors
+    return stringifyYaml(document, { aliasDuplicateObjects: false });
+  }
+  return JSON.stringify(document, null, 2);
+}
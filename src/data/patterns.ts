@@ -7,9 +7,7 @@
  * DO NOT EDIT MANUALLY - Changes will be overwritten on next sync
  */
 
- 
- 
- 
+import { createSearchIndex, type SearchIndex } from '../utils/search-index.js';
 
 /**
  * AegisX Development Patterns
@@ -812,15 +810,41 @@ export function getPatternByName(name: string): CodePattern | undefined {
 }
 
 /**
- * Search patterns
+ * Full-text index over the patterns (built on first search)
+ */
+
+let patternIndex: SearchIndex<CodePattern> | null = null;
+
+function getPatternIndex(): SearchIndex<CodePattern> {
+  if (!patternIndex) {
+    patternIndex = createSearchIndex<CodePattern>({
+      name: 3,
+      category: 2,
+      description: 1,
+      notes: 0.5,
+      code: 0.2,
+    });
+    for (const p of patterns) {
+      patternIndex.add(p, {
+        name: p.name,
+        category: p.category,
+        description: p.description,
+        notes: p.notes,
+        code: p.code,
+      });
+    }
+  }
+  return patternIndex;
+}
+
+/**
+ * Search patterns, most relevant first
+ * An empty query returns every pattern in registry order.
  */
 
 export function searchPatterns(query: string): CodePattern[] {
-  const q = query.toLowerCase();
-  return patterns.filter(
-    (p) =>
-      p.name.toLowerCase().includes(q) ||
-      p.description.toLowerCase().includes(q) ||
-      p.category.includes(q),
-  );
+  if (!query.trim()) return patterns;
+  return getPatternIndex()
+    .search(query)
+    .map((hit) => hit.item);
 }
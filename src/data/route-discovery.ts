@@ -0,0 +1,1082 @@
+/**
+ * Fastify Route Discovery
+ * Finds implemented routes with the TypeScript AST instead of line regexes
+ *
+ * Starting from the API entry file, the analyzer tracks Fastify instances
+ * (`Fastify()` results, plugin parameters, `withTypeProvider()` aliases) and
+ * follows `register(plugin, { prefix })` chains across imports, so routes
+ * get their full path. It understands:
+ * - Shorthand routes: `app.get('/path', ...)` on any instance identifier
+ * - `app.route({ method, url })`, including method arrays
+ * - Multi-line calls and string constants used as paths or prefixes
+ * - Plugins passed inline, by name, wrapped in `fp()` or via `import()`
+ * - Helpers that receive the instance (`registerRoutes(app)`)
+ *
+ * Route files matching the globs that the entry never reaches are analyzed
+ * on their own; their routes are flagged `prefixResolved: false`.
+ *
+ * The TypeBox schemas of each route's `schema` option are converted to JSON
+ * Schema (see `convertTypeBox`), following imports into `*.schemas.ts`.
+ */
+
+import { promises as fs, existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import * as ts from 'typescript';
+import type { HttpMethod } from './api-contracts-parser.js';
+import type { JsonSchema } from './schema-compiler.js';
+import { convertTypeBox, type ResolvedBinding } from './typebox-schema.js';
+import { findFiles } from '../utils/glob.js';
+
+/**
+ * A route registration found in the codebase
+ */
+export interface DiscoveredRoute {
+  method: HttpMethod;
+
+  /** Full path including register prefixes (e.g., "/api/users/:id") */
+  path: string;
+
+  /** Absolute path of the file declaring the route */
+  file: string;
+
+  /** 1-based line of the route call */
+  line: number;
+
+  /** False when the entry never reaches the file, so prefixes are unknown */
+  prefixResolved: boolean;
+
+  /** Validation schemas from the route's `schema` option */
+  schemas?: RouteSchemas;
+}
+
+/**
+ * JSON Schemas of a route's `schema` option
+ */
+export interface RouteSchemas {
+  body?: JsonSchema;
+  querystring?: JsonSchema;
+  params?: JsonSchema;
+
+  /** Response schemas by status code (e.g., "200", "2xx") */
+  response?: Record<string, JsonSchema>;
+}
+
+/**
+ * Where to look for routes
+ */
+export interface RouteDiscoveryOptions {
+  /** App entry file, relative to codebaseRoot */
+  entry?: string;
+
+  /** Route file globs, relative to codebaseRoot */
+  routeGlobs: string[];
+}
+
+type FunctionNode =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration;
+
+/** A function and the file declaring it */
+interface ResolvedFunction {
+  fn: FunctionNode;
+  sourceFile: ts.SourceFile;
+}
+
+/** Instance methods that declare a single-method route */
+const SHORTHAND_METHODS: Record<string, HttpMethod> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  head: 'HEAD',
+  options: 'OPTIONS',
+};
+
+const HTTP_METHODS = new Set<string>(Object.values(SHORTHAND_METHODS));
+
+/** Calls that return a new Fastify instance */
+const FACTORY_NAMES = new Set(['Fastify', 'fastify']);
+
+/** Limit for helper calls followed from the entry without an instance */
+const MAX_ENTRY_DEPTH = 3;
+
+/** Request parts of the `schema` option that hold a single schema */
+const REQUEST_SCHEMA_PARTS = ['body', 'querystring', 'params'] as const;
+
+/**
+ * Join a register prefix and a route path the way Fastify does
+ * @param prefix - Register prefix (e.g., "/api/users")
+ * @param path - Route path (e.g., "/:id", "/" or "")
+ * @returns Full path
+ */
+export function joinRoutePath(prefix: string, path: string): string {
+  if (!prefix) return path || '/';
+  if (path === '' || path === '/') return prefix;
+  return `${prefix}/${path}`.replace(/\/{2,}/g, '/');
+}
+
+/**
+ * Whether a node is a function expression or declaration
+ */
+function isFunctionNode(node: ts.Node): node is FunctionNode {
+  return (
+    ts.isFunctionDeclaration(node) ||
+    ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isMethodDeclaration(node)
+  );
+}
+
+/**
+ * Strip `await`, parentheses and type assertions
+ */
+function unwrap(node: ts.Expression): ts.Expression {
+  let current = node;
+  while (
+    ts.isAwaitExpression(current) ||
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isNonNullExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * Whether a node carries a modifier (e.g., `export`, `default`)
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some((modifier) => modifier.kind === kind)
+  );
+}
+
+/**
+ * Whether a top-level statement declares a name
+ */
+function declaresName(statement: ts.Statement, name: string): boolean {
+  if (ts.isFunctionDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+    return statement.name?.text === name;
+  }
+  return (
+    ts.isVariableStatement(statement) &&
+    statement.declarationList.declarations.some(
+      (d) => ts.isIdentifier(d.name) && d.name.text === name,
+    )
+  );
+}
+
+/**
+ * Whether a function is a module export: an exported declaration, or the
+ * (possibly `fp()`-wrapped) value of an exported constant or default export
+ */
+function isExportedFunction(
+  fn: FunctionNode,
+  sourceFile: ts.SourceFile,
+): boolean {
+  if (ts.isFunctionDeclaration(fn)) {
+    return (
+      fn.parent === sourceFile && hasModifier(fn, ts.SyntaxKind.ExportKeyword)
+    );
+  }
+
+  let node: ts.Node = fn.parent;
+  if (ts.isCallExpression(node)) node = node.parent;
+  if (ts.isExportAssignment(node)) return true;
+  return (
+    ts.isVariableDeclaration(node) &&
+    ts.isVariableStatement(node.parent.parent) &&
+    node.parent.parent.parent === sourceFile &&
+    hasModifier(node.parent.parent, ts.SyntaxKind.ExportKeyword)
+  );
+}
+
+/**
+ * Walks plugin bodies and collects routes
+ */
+class RouteAnalyzer {
+  private sourceFiles = new Map<string, ts.SourceFile | null>();
+  private visited = new Set<string>();
+  private seenCalls = new Set<string>();
+  private schemaCache = new Map<ts.Node, Promise<RouteSchemas | undefined>>();
+  readonly routes: DiscoveredRoute[] = [];
+
+  /**
+   * Parse a file once
+   */
+  async load(file: string): Promise<ts.SourceFile | null> {
+    if (!this.sourceFiles.has(file)) {
+      try {
+        const content = await fs.readFile(file, 'utf-8');
+        this.sourceFiles.set(
+          file,
+          ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true),
+        );
+      } catch {
+        this.sourceFiles.set(file, null);
+      }
+    }
+    return this.sourceFiles.get(file) ?? null;
+  }
+
+  // ==========================================================================
+  // Resolution
+  // ==========================================================================
+
+  /**
+   * Resolve a relative import specifier to a TypeScript file
+   */
+  resolveModule(fromFile: string, specifier: string): string | null {
+    if (!specifier.startsWith('.')) return null;
+    const base = resolve(dirname(fromFile), specifier);
+    const stem = base.replace(/\.(js|ts|mjs|cjs)$/, '');
+    const candidates = [
+      base.endsWith('.ts') ? base : null,
+      `${stem}.ts`,
+      join(stem, 'index.ts'),
+    ];
+    return (
+      candidates.find((file): file is string => !!file && existsSync(file)) ??
+      null
+    );
+  }
+
+  /**
+   * Value of a string expression: literals, constants, templates and `+`
+   */
+  stringValue(
+    node: ts.Expression,
+    sourceFile: ts.SourceFile,
+    depth = 0,
+  ): string | undefined {
+    const expression = unwrap(node);
+    if (depth > 8) return undefined;
+
+    if (
+      ts.isStringLiteral(expression) ||
+      ts.isNoSubstitutionTemplateLiteral(expression)
+    ) {
+      return expression.text;
+    }
+
+    if (ts.isTemplateExpression(expression)) {
+      let text = expression.head.text;
+      for (const span of expression.templateSpans) {
+        const value = this.stringValue(span.expression, sourceFile, depth + 1);
+        if (value === undefined) return undefined;
+        text += value + span.literal.text;
+      }
+      return text;
+    }
+
+    if (
+      ts.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === ts.SyntaxKind.PlusToken
+    ) {
+      const left = this.stringValue(expression.left, sourceFile, depth + 1);
+      const right = this.stringValue(expression.right, sourceFile, depth + 1);
+      return left !== undefined && right !== undefined
+        ? left + right
+        : undefined;
+    }
+
+    if (ts.isIdentifier(expression)) {
+      for (const statement of sourceFile.statements) {
+        if (!ts.isVariableStatement(statement)) continue;
+        for (const declaration of statement.declarationList.declarations) {
+          if (
+            ts.isIdentifier(declaration.name) &&
+            declaration.name.text === expression.text &&
+            declaration.initializer
+          ) {
+            return this.stringValue(
+              declaration.initializer,
+              sourceFile,
+              depth + 1,
+            );
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve an expression to the function it refers to
+   * Handles inline functions, identifiers, `fp(fn)` wrappers, `import()`
+   * and `namespace.member`.
+   */
+  async resolveFunction(
+    node: ts.Expression,
+    sourceFile: ts.SourceFile,
+    depth = 0,
+  ): Promise<ResolvedFunction | null> {
+    const expression = unwrap(node);
+    if (depth > 8) return null;
+
+    if (isFunctionNode(expression)) {
+      return { fn: expression, sourceFile };
+    }
+
+    if (ts.isIdentifier(expression)) {
+      return this.resolveIdentifier(expression.text, sourceFile, depth + 1);
+    }
+
+    if (ts.isCallExpression(expression)) {
+      // import('./plugin') resolves to the module's default export
+      if (expression.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        const specifier = expression.arguments[0];
+        const target =
+          specifier && ts.isStringLiteral(specifier)
+            ? this.resolveModule(sourceFile.fileName, specifier.text)
+            : null;
+        return target ? this.resolveExport(target, 'default', depth + 1) : null;
+      }
+      // fp(plugin, options) and similar wrappers
+      const wrapped = expression.arguments[0];
+      return wrapped
+        ? this.resolveFunction(wrapped, sourceFile, depth + 1)
+        : null;
+    }
+
+    if (
+      ts.isPropertyAccessExpression(expression) &&
+      ts.isIdentifier(expression.expression)
+    ) {
+      const namespace = this.namespaceImport(
+        expression.expression.text,
+        sourceFile,
+      );
+      if (namespace) {
+        return this.resolveExport(
+          namespace,
+          expression.name.text === 'default' ? 'default' : expression.name.text,
+          depth + 1,
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * File imported as `import * as name from './x'`
+   */
+  namespaceImport(name: string, sourceFile: ts.SourceFile): string | null {
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isImportDeclaration(statement) &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.importClause?.namedBindings &&
+        ts.isNamespaceImport(statement.importClause.namedBindings) &&
+        statement.importClause.namedBindings.name.text === name
+      ) {
+        return this.resolveModule(
+          sourceFile.fileName,
+          statement.moduleSpecifier.text,
+        );
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a top-level name to the function it refers to
+   */
+  async resolveIdentifier(
+    name: string,
+    sourceFile: ts.SourceFile,
+    depth: number,
+  ): Promise<ResolvedFunction | null> {
+    return this.bindingToFunction(
+      await this.resolveBinding(name, sourceFile, depth),
+      depth,
+    );
+  }
+
+  /**
+   * Resolve an exported name of a module to the function it refers to
+   */
+  async resolveExport(
+    file: string,
+    exportName: string,
+    depth: number,
+  ): Promise<ResolvedFunction | null> {
+    return this.bindingToFunction(
+      await this.resolveExportBinding(file, exportName, depth),
+      depth,
+    );
+  }
+
+  /**
+   * Function a binding holds (declaration, or a value wrapping one)
+   */
+  async bindingToFunction(
+    binding: ResolvedBinding | null,
+    depth: number,
+  ): Promise<ResolvedFunction | null> {
+    if (!binding) return null;
+    if (ts.isFunctionDeclaration(binding.node)) {
+      return { fn: binding.node, sourceFile: binding.sourceFile };
+    }
+    return ts.isExpression(binding.node)
+      ? this.resolveFunction(binding.node, binding.sourceFile, depth + 1)
+      : null;
+  }
+
+  /**
+   * Resolve a top-level name: local declaration, constant value or import
+   */
+  async resolveBinding(
+    name: string,
+    sourceFile: ts.SourceFile,
+    depth = 0,
+  ): Promise<ResolvedBinding | null> {
+    if (depth > 8) return null;
+
+    for (const statement of sourceFile.statements) {
+      if (
+        (ts.isFunctionDeclaration(statement) ||
+          ts.isEnumDeclaration(statement)) &&
+        statement.name?.text === name
+      ) {
+        return { node: statement, sourceFile };
+      }
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (
+            ts.isIdentifier(declaration.name) &&
+            declaration.name.text === name &&
+            declaration.initializer
+          ) {
+            return { node: declaration.initializer, sourceFile };
+          }
+        }
+      }
+
+      if (
+        ts.isImportDeclaration(statement) &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.importClause
+      ) {
+        const clause = statement.importClause;
+        let exportName: string | undefined;
+        if (clause.name?.text === name) {
+          exportName = 'default';
+        } else if (
+          clause.namedBindings &&
+          ts.isNamedImports(clause.namedBindings)
+        ) {
+          const element = clause.namedBindings.elements.find(
+            (e) => e.name.text === name,
+          );
+          if (element) {
+            exportName = element.propertyName?.text ?? element.name.text;
+          }
+        }
+        if (exportName) {
+          const target = this.resolveModule(
+            sourceFile.fileName,
+            statement.moduleSpecifier.text,
+          );
+          return target
+            ? this.resolveExportBinding(target, exportName, depth + 1)
+            : null;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve an exported name of a module (follows re-exports)
+   */
+  async resolveExportBinding(
+    file: string,
+    exportName: string,
+    depth: number,
+  ): Promise<ResolvedBinding | null> {
+    const sourceFile = await this.load(file);
+    if (!sourceFile || depth > 8) return null;
+
+    for (const statement of sourceFile.statements) {
+      if (exportName === 'default') {
+        if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+          return { node: statement.expression, sourceFile };
+        }
+        if (
+          ts.isFunctionDeclaration(statement) &&
+          hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+        ) {
+          return { node: statement, sourceFile };
+        }
+      } else if (
+        hasModifier(statement, ts.SyntaxKind.ExportKeyword) &&
+        declaresName(statement, exportName)
+      ) {
+        return this.resolveBinding(exportName, sourceFile, depth);
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        const target =
+          statement.moduleSpecifier &&
+          ts.isStringLiteral(statement.moduleSpecifier)
+            ? this.resolveModule(file, statement.moduleSpecifier.text)
+            : null;
+        const clause = statement.exportClause;
+
+        if (!clause && target) {
+          // export * from './x'
+          const found = await this.resolveExportBinding(
+            target,
+            exportName,
+            depth + 1,
+          );
+          if (found) return found;
+        } else if (clause && ts.isNamedExports(clause)) {
+          const element = clause.elements.find(
+            (e) => e.name.text === exportName,
+          );
+          if (element) {
+            const local = element.propertyName?.text ?? element.name.text;
+            return target
+              ? this.resolveExportBinding(target, local, depth + 1)
+              : this.resolveBinding(local, sourceFile, depth + 1);
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  // ==========================================================================
+  // Walking
+  // ==========================================================================
+
+  /**
+   * Whether an expression evaluates to a tracked Fastify instance
+   */
+  isInstance(node: ts.Expression, instances: Set<string>): boolean {
+    const expression = unwrap(node);
+    if (ts.isIdentifier(expression)) return instances.has(expression.text);
+    // app.withTypeProvider<T>() and similar fluent calls return the instance
+    return (
+      ts.isCallExpression(expression) &&
+      ts.isPropertyAccessExpression(expression.expression) &&
+      expression.expression.name.text.startsWith('with') &&
+      this.isInstance(expression.expression.expression, instances)
+    );
+  }
+
+  /**
+   * Whether an expression creates a Fastify instance (`Fastify({...})`)
+   */
+  isFactoryCall(node: ts.Expression): boolean {
+    const expression = unwrap(node);
+    return (
+      ts.isCallExpression(expression) &&
+      ts.isIdentifier(expression.expression) &&
+      FACTORY_NAMES.has(expression.expression.text)
+    );
+  }
+
+  /**
+   * Whether a call goes to a helper that creates a Fastify instance
+   * (`const app = await buildApp()`)
+   */
+  async returnsInstance(
+    node: ts.Expression,
+    sourceFile: ts.SourceFile,
+  ): Promise<boolean> {
+    const expression = unwrap(node);
+    if (!ts.isCallExpression(expression)) return false;
+
+    const helper = await this.resolveFunction(
+      expression.expression,
+      sourceFile,
+    );
+    if (!helper?.fn.body) return false;
+
+    let creates = false;
+    const search = (child: ts.Node): void => {
+      if (creates) return;
+      if (ts.isExpression(child) && this.isFactoryCall(child)) {
+        creates = true;
+        return;
+      }
+      ts.forEachChild(child, search);
+    };
+    search(helper.fn.body);
+    return creates;
+  }
+
+  /**
+   * Record one route declaration
+   * @param options - Route options object holding the `schema` option
+   */
+  async addRoute(
+    method: string,
+    path: string | undefined,
+    call: ts.CallExpression,
+    sourceFile: ts.SourceFile,
+    prefix: string,
+    prefixResolved: boolean,
+    options?: ts.ObjectLiteralExpression,
+  ): Promise<void> {
+    const upper = method.toUpperCase();
+    if (path === undefined || !HTTP_METHODS.has(upper)) return;
+    if (path !== '' && !path.startsWith('/')) return;
+
+    const key = `${sourceFile.fileName}:${call.pos}`;
+    // Routes reached from the entry win over the standalone fallback
+    if (!prefixResolved && this.seenCalls.has(key)) return;
+    this.seenCalls.add(key);
+
+    const fullPath = joinRoutePath(prefix, path);
+    const line =
+      sourceFile.getLineAndCharacterOfPosition(call.getStart(sourceFile)).line +
+      1;
+    const duplicate = this.routes.some(
+      (route) =>
+        route.file === sourceFile.fileName &&
+        route.line === line &&
+        route.method === upper &&
+        route.path === fullPath,
+    );
+    if (!duplicate) {
+      const schemas = options
+        ? await this.routeSchemas(options, sourceFile)
+        : undefined;
+      this.routes.push({
+        method: upper as HttpMethod,
+        path: fullPath,
+        file: sourceFile.fileName,
+        line,
+        prefixResolved,
+        ...(schemas ? { schemas } : {}),
+      });
+    }
+  }
+
+  /**
+   * Convert the `schema` option of a route (cached per options object)
+   */
+  routeSchemas(
+    options: ts.ObjectLiteralExpression,
+    sourceFile: ts.SourceFile,
+  ): Promise<RouteSchemas | undefined> {
+    let schemas = this.schemaCache.get(options);
+    if (!schemas) {
+      schemas = this.convertRouteSchemas(options, sourceFile);
+      this.schemaCache.set(options, schemas);
+    }
+    return schemas;
+  }
+
+  /**
+   * Convert `schema: { body, querystring, params, response }` to JSON Schema
+   */
+  async convertRouteSchemas(
+    options: ts.ObjectLiteralExpression,
+    sourceFile: ts.SourceFile,
+  ): Promise<RouteSchemas | undefined> {
+    const resolveName = (name: string, file: ts.SourceFile) =>
+      this.resolveBinding(name, file);
+
+    const schemaOption = await this.objectProperty(
+      options,
+      'schema',
+      sourceFile,
+    );
+    if (!schemaOption) return undefined;
+    const { node: schemaObject, sourceFile: schemaFile } = schemaOption;
+
+    const schemas: RouteSchemas = {};
+    for (const part of REQUEST_SCHEMA_PARTS) {
+      const value = this.propertyValue(schemaObject, part, schemaFile);
+      if (value) {
+        schemas[part] = await convertTypeBox(value, schemaFile, resolveName);
+      }
+    }
+
+    const response = await this.objectProperty(
+      schemaObject,
+      'response',
+      schemaFile,
+    );
+    if (response) {
+      schemas.response = {};
+      for (const property of response.node.properties) {
+        if (!ts.isPropertyAssignment(property)) continue;
+        const status = property.name.getText(response.sourceFile);
+        schemas.response[status.replace(/['"]/g, '')] = await convertTypeBox(
+          property.initializer,
+          response.sourceFile,
+          resolveName,
+        );
+      }
+    }
+
+    return Object.keys(schemas).length > 0 ? schemas : undefined;
+  }
+
+  /**
+   * Value of a property (or shorthand property) in an object literal
+   */
+  propertyValue(
+    object: ts.ObjectLiteralExpression,
+    name: string,
+    sourceFile: ts.SourceFile,
+  ): ts.Expression | undefined {
+    for (const property of object.properties) {
+      if (
+        ts.isPropertyAssignment(property) &&
+        property.name.getText(sourceFile).replace(/['"]/g, '') === name
+      ) {
+        return property.initializer;
+      }
+      if (
+        ts.isShorthandPropertyAssignment(property) &&
+        property.name.text === name
+      ) {
+        return property.name;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Object literal a property holds, following constants
+   * (`schema: listRolesSchema`)
+   */
+  async objectProperty(
+    object: ts.ObjectLiteralExpression,
+    name: string,
+    sourceFile: ts.SourceFile,
+  ): Promise<{
+    node: ts.ObjectLiteralExpression;
+    sourceFile: ts.SourceFile;
+  } | null> {
+    const value = this.propertyValue(object, name, sourceFile);
+    let expression = value && unwrap(value);
+    let file = sourceFile;
+    for (let depth = 0; expression && ts.isIdentifier(expression); depth++) {
+      const binding =
+        depth < 8 ? await this.resolveBinding(expression.text, file) : null;
+      if (!binding || !ts.isExpression(binding.node)) return null;
+      expression = unwrap(binding.node);
+      file = binding.sourceFile;
+    }
+    return expression && ts.isObjectLiteralExpression(expression)
+      ? { node: expression, sourceFile: file }
+      : null;
+  }
+
+  /**
+   * Analyze a plugin function: its instance parameter declares routes
+   * @param resolved - Plugin function and its file
+   * @param instanceIndex - Parameter holding the Fastify instance
+   * @param prefix - Accumulated register prefix
+   * @param prefixResolved - Whether the prefix chain starts at the entry
+   */
+  async analyzePlugin(
+    resolved: ResolvedFunction,
+    instanceIndex: number,
+    prefix: string,
+    prefixResolved: boolean,
+  ): Promise<void> {
+    const { fn, sourceFile } = resolved;
+    const key = `${sourceFile.fileName}:${fn.pos}:${instanceIndex}:${prefix}:${prefixResolved}`;
+    if (this.visited.has(key) || !fn.body) return;
+    this.visited.add(key);
+
+    const param = fn.parameters[instanceIndex];
+    if (!param || !ts.isIdentifier(param.name)) return;
+
+    await this.walk(
+      fn.body,
+      sourceFile,
+      new Set([param.name.text]),
+      prefix,
+      prefixResolved,
+    );
+  }
+
+  /**
+   * Walk statements, tracking instances and following registrations
+   * @param entryDepth - Remaining depth for following instance-less helper
+   *   calls (only from the entry, where the instance may be created inside)
+   */
+  async walk(
+    root: ts.Node,
+    sourceFile: ts.SourceFile,
+    instances: Set<string>,
+    prefix: string,
+    prefixResolved: boolean,
+    entryDepth = 0,
+  ): Promise<void> {
+    const visit = async (node: ts.Node): Promise<void> => {
+      if (
+        ts.isVariableDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        node.initializer &&
+        (this.isInstance(node.initializer, instances) ||
+          this.isFactoryCall(node.initializer) ||
+          (entryDepth > 0 &&
+            (await this.returnsInstance(node.initializer, sourceFile))))
+      ) {
+        instances.add(node.name.text);
+      }
+
+      if (ts.isCallExpression(node)) {
+        const handled = await this.visitCall(
+          node,
+          sourceFile,
+          instances,
+          prefix,
+          prefixResolved,
+          entryDepth,
+        );
+        if (handled) return;
+      }
+
+      const children: ts.Node[] = [];
+      ts.forEachChild(node, (child) => {
+        children.push(child);
+      });
+      for (const child of children) {
+        await visit(child);
+      }
+    };
+
+    await visit(root);
+  }
+
+  /**
+   * Handle one call expression
+   * @returns True when the call's arguments must not be walked further
+   */
+  async visitCall(
+    call: ts.CallExpression,
+    sourceFile: ts.SourceFile,
+    instances: Set<string>,
+    prefix: string,
+    prefixResolved: boolean,
+    entryDepth: number,
+  ): Promise<boolean> {
+    const callee = call.expression;
+    const args = call.arguments;
+
+    if (
+      ts.isPropertyAccessExpression(callee) &&
+      this.isInstance(callee.expression, instances)
+    ) {
+      const name = callee.name.text;
+
+      if (SHORTHAND_METHODS[name] && args[0]) {
+        // app.get(path, { schema, ... }, handler) or { schema, handler }
+        const options = args[1] && unwrap(args[1]);
+        await this.addRoute(
+          name,
+          this.stringValue(args[0], sourceFile),
+          call,
+          sourceFile,
+          prefix,
+          prefixResolved,
+          options && ts.isObjectLiteralExpression(options)
+            ? options
+            : undefined,
+        );
+        return false;
+      }
+
+      if (
+        name === 'route' &&
+        args[0] &&
+        ts.isObjectLiteralExpression(args[0])
+      ) {
+        await this.visitRouteOptions(
+          args[0],
+          call,
+          sourceFile,
+          prefix,
+          prefixResolved,
+        );
+        return false;
+      }
+
+      if (name === 'register' && args[0]) {
+        const plugin = await this.resolveFunction(args[0], sourceFile);
+        const options = args[1] && unwrap(args[1]);
+        let childPrefix = '';
+        if (options && ts.isObjectLiteralExpression(options)) {
+          const prefixProperty = options.properties.find(
+            (p): p is ts.PropertyAssignment =>
+              ts.isPropertyAssignment(p) &&
+              p.name.getText(sourceFile) === 'prefix',
+          );
+          childPrefix = prefixProperty
+            ? (this.stringValue(prefixProperty.initializer, sourceFile) ?? '')
+            : '';
+        }
+        if (plugin) {
+          await this.analyzePlugin(
+            plugin,
+            0,
+            joinRoutePath(prefix, childPrefix).replace(/\/$/, ''),
+            prefixResolved,
+          );
+        }
+        // Inline plugins are analyzed above with their own instance name
+        return true;
+      }
+
+      return false;
+    }
+
+    // Helpers receiving the instance: registerRoutes(app, ...)
+    const instanceIndex = args.findIndex((arg) =>
+      this.isInstance(arg, instances),
+    );
+    if (instanceIndex >= 0) {
+      const helper = await this.resolveFunction(callee, sourceFile);
+      if (helper) {
+        await this.analyzePlugin(helper, instanceIndex, prefix, prefixResolved);
+      }
+      return false;
+    }
+
+    // From the entry, follow helpers that may create the instance themselves
+    if (entryDepth > 0 && ts.isIdentifier(callee)) {
+      const helper = await this.resolveFunction(callee, sourceFile);
+      const key = helper && `${helper.sourceFile.fileName}:${helper.fn.pos}`;
+      if (helper?.fn.body && !this.visited.has(key!)) {
+        this.visited.add(key!);
+        await this.walk(
+          helper.fn.body,
+          helper.sourceFile,
+          new Set(),
+          prefix,
+          prefixResolved,
+          entryDepth - 1,
+        );
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Record routes from `app.route({ method, url })`
+   */
+  async visitRouteOptions(
+    options: ts.ObjectLiteralExpression,
+    call: ts.CallExpression,
+    sourceFile: ts.SourceFile,
+    prefix: string,
+    prefixResolved: boolean,
+  ): Promise<void> {
+    let methods: string[] = [];
+    let path: string | undefined;
+
+    for (const property of options.properties) {
+      if (!ts.isPropertyAssignment(property)) continue;
+      const key = property.name.getText(sourceFile);
+      const value = unwrap(property.initializer);
+
+      if (key === 'method') {
+        const items = ts.isArrayLiteralExpression(value)
+          ? value.elements
+          : [value];
+        methods = items
+          .map((item) => this.stringValue(item as ts.Expression, sourceFile))
+          .filter((method): method is string => !!method);
+      } else if (key === 'url' || key === 'path') {
+        path = this.stringValue(value, sourceFile);
+      }
+    }
+
+    for (const method of methods) {
+      await this.addRoute(
+        method,
+        path,
+        call,
+        sourceFile,
+        prefix,
+        prefixResolved,
+        options,
+      );
+    }
+  }
+
+  /**
+   * Analyze a route file not reached from the entry
+   * Exported functions and functions whose first parameter is typed as a
+   * Fastify instance are treated as plugins without a known prefix.
+   */
+  async analyzeStandalone(file: string): Promise<void> {
+    const sourceFile = await this.load(file);
+    if (!sourceFile) return;
+
+    const candidates: ResolvedFunction[] = [];
+    const collect = (node: ts.Node): void => {
+      if (isFunctionNode(node) && node.parameters.length > 0) {
+        const type = node.parameters[0].type?.getText(sourceFile) ?? '';
+        if (/Fastify/.test(type) || isExportedFunction(node, sourceFile)) {
+          candidates.push({ fn: node, sourceFile });
+        }
+      }
+      ts.forEachChild(node, collect);
+    };
+    collect(sourceFile);
+
+    for (const candidate of candidates) {
+      await this.analyzePlugin(candidate, 0, '', false);
+    }
+  }
+}
+
+/**
+ * Discover the routes a Fastify app registers
+ * @param codebaseRoot - Root directory of the codebase
+ * @param options - Entry file and route file globs
+ * @returns Routes sorted by file and line
+ */
+export async function discoverRoutes(
+  codebaseRoot: string,
+  options: RouteDiscoveryOptions,
+): Promise<DiscoveredRoute[]> {
+  const analyzer = new RouteAnalyzer();
+
+  if (options.entry) {
+    const entryFile = resolve(codebaseRoot, options.entry);
+    const sourceFile = existsSync(entryFile)
+      ? await analyzer.load(entryFile)
+      : null;
+    if (sourceFile) {
+      await analyzer.walk(
+        sourceFile,
+        sourceFile,
+        new Set(),
+        '',
+        true,
+        MAX_ENTRY_DEPTH,
+      );
+    }
+  }
+
+  for (const file of await findFiles(codebaseRoot, options.routeGlobs)) {
+    await analyzer.analyzeStandalone(file);
+  }
+
+  return analyzer.routes.sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line,
+  );
+}
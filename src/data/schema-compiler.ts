@@ -0,0 +1,418 @@
+/**
+ * Contract Schema Compiler
+ * Turns the TypeScript interfaces in contract code fences into JSON Schema
+ *
+ * Uses the TypeScript compiler API to parse `ApiEndpoint.requestSchema` and
+ * `responseSchema` snippets. Interfaces, type aliases and enums declared in
+ * the same block become `$defs`, so nested types (e.g., `Role` inside
+ * `ListRolesResponse`) resolve to `#/$defs/Role`. Unions, optionals, arrays,
+ * tuples, literal types, `Record<K, V>` and `extends` clauses are supported;
+ * anything else compiles to an unconstrained schema.
+ */
+
+import * as ts from 'typescript';
+
+/**
+ * JSON Schema (2020-12, as used by OpenAPI 3.1)
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  additionalProperties?: boolean | JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  default?: unknown;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Declarations compiled from one code fence
+ */
+export interface CompiledDeclarations {
+  /** Declaration the snippet describes: the first one no other refers to */
+  root: string;
+
+  /** Declaration names in source order */
+  names: string[];
+
+  /** Schema per declaration; refs use `#/$defs/<Name>` */
+  definitions: Record<string, JsonSchema>;
+}
+
+/** Prefix of refs between declarations of the same block */
+export const DEFS_REF_PREFIX = '#/$defs/';
+
+type Declaration =
+  ts.InterfaceDeclaration | ts.TypeAliasDeclaration | ts.EnumDeclaration;
+
+/**
+ * Compiles type nodes of one source file
+ */
+class SchemaBuilder {
+  constructor(
+    private sourceFile: ts.SourceFile,
+    private declared: Set<string>,
+  ) {}
+
+  /**
+   * Leading `/** ... *\/` or `// ...` comment of a node, as a description
+   */
+  description(node: ts.Node): string | undefined {
+    const ranges =
+      ts.getLeadingCommentRanges(this.sourceFile.text, node.pos) ?? [];
+    const text = ranges
+      .map((range) =>
+        this.sourceFile.text
+          .slice(range.pos, range.end)
+          .replace(/^\/\*\*?|\*\/$/g, '')
+          .replace(/^\s*(\/\/|\*)\s?/gm, '')
+          .trim(),
+      )
+      .filter(Boolean)
+      .join(' ');
+    return text || undefined;
+  }
+
+  /**
+   * Compile a declaration
+   */
+  declaration(node: Declaration): JsonSchema {
+    if (ts.isEnumDeclaration(node)) {
+      let next = 0;
+      const values = node.members.map((member) => {
+        const initializer = member.initializer;
+        if (initializer && ts.isStringLiteral(initializer)) {
+          return initializer.text;
+        }
+        if (initializer && ts.isNumericLiteral(initializer)) {
+          next = Number(initializer.text);
+        }
+        return next++;
+      });
+      const types = Array.from(new Set(values.map((v) => typeof v)));
+      return {
+        type: types.length === 1 ? types[0] : types,
+        enum: values,
+      };
+    }
+
+    if (ts.isTypeAliasDeclaration(node)) {
+      return this.type(node.type);
+    }
+
+    const schema = this.members(node.members);
+    const bases = (node.heritageClauses ?? [])
+      .filter((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+      .flatMap((clause) => clause.types)
+      .map((base) => this.reference(base.expression.getText(), base));
+
+    return bases.length > 0 ? { allOf: [...bases, schema] } : schema;
+  }
+
+  /**
+   * Compile object members (interface body or type literal)
+   */
+  members(members: ts.NodeArray<ts.TypeElement>): JsonSchema {
+    const schema: JsonSchema = { type: 'object', properties: {} };
+    const required: string[] = [];
+
+    for (const member of members) {
+      if (ts.isIndexSignatureDeclaration(member)) {
+        schema.additionalProperties = this.type(member.type);
+        continue;
+      }
+      if (!ts.isPropertySignature(member) || !member.name) continue;
+
+      const name =
+        ts.isIdentifier(member.name) ||
+        ts.isStringLiteral(member.name) ||
+        ts.isNumericLiteral(member.name)
+          ? member.name.text
+          : member.name.getText();
+      const property = member.type ? this.type(member.type) : {};
+      const description = this.description(member);
+
+      schema.properties![name] = description
+        ? { ...property, description }
+        : property;
+      if (!member.questionToken) required.push(name);
+    }
+
+    if (required.length > 0) schema.required = required;
+    return schema;
+  }
+
+  /**
+   * Schema for a named type: a local declaration or a well-known global
+   */
+  reference(name: string, node: ts.Node, args: ts.TypeNode[] = []): JsonSchema {
+    if (this.declared.has(name)) return { $ref: `${DEFS_REF_PREFIX}${name}` };
+
+    switch (name) {
+      case 'Array':
+      case 'ReadonlyArray':
+      case 'Set':
+        return {
+          type: 'array',
+          items: args[0] ? this.type(args[0]) : {},
+          ...(name === 'Set' && { uniqueItems: true }),
+        };
+      case 'Record':
+      case 'Map':
+        return {
+          type: 'object',
+          additionalProperties: args[1] ? this.type(args[1]) : {},
+        };
+      case 'Date':
+        return { type: 'string', format: 'date-time' };
+      case 'Partial':
+      case 'Required':
+      case 'Readonly':
+      case 'Pick':
+      case 'Omit':
+      case 'NonNullable':
+      case 'Promise':
+        // Keep the wrapped type's shape; property selection is not modeled
+        return args[0] ? this.type(args[0]) : {};
+    }
+
+    const description = `Unresolved type ${node.getText()}`;
+    return { description };
+  }
+
+  /**
+   * Compile a type node
+   */
+  type(node: ts.TypeNode): JsonSchema {
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return { type: 'string' };
+      case ts.SyntaxKind.NumberKeyword:
+      case ts.SyntaxKind.BigIntKeyword:
+        return { type: 'number' };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { type: 'boolean' };
+      case ts.SyntaxKind.NullKeyword:
+        return { type: 'null' };
+      case ts.SyntaxKind.ObjectKeyword:
+        return { type: 'object' };
+      case ts.SyntaxKind.AnyKeyword:
+      case ts.SyntaxKind.UnknownKeyword:
+        return {};
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) return this.type(node.type);
+
+    if (ts.isTypeOperatorNode(node)) return this.type(node.type);
+
+    if (ts.isArrayTypeNode(node)) {
+      return { type: 'array', items: this.type(node.elementType) };
+    }
+
+    if (ts.isTupleTypeNode(node)) {
+      const items = node.elements.map((element) =>
+        this.type(
+          ts.isNamedTupleMember(element)
+            ? element.type
+            : (element as ts.TypeNode),
+        ),
+      );
+      return {
+        type: 'array',
+        prefixItems: items,
+        minItems: items.length,
+        maxItems: items.length,
+      };
+    }
+
+    if (ts.isTypeLiteralNode(node)) return this.members(node.members);
+
+    if (ts.isLiteralTypeNode(node)) {
+      const literal = node.literal;
+      if (literal.kind === ts.SyntaxKind.NullKeyword) return { type: 'null' };
+      if (literal.kind === ts.SyntaxKind.TrueKeyword) {
+        return { type: 'boolean', const: true };
+      }
+      if (literal.kind === ts.SyntaxKind.FalseKeyword) {
+        return { type: 'boolean', const: false };
+      }
+      if (ts.isStringLiteral(literal)) {
+        return { type: 'string', const: literal.text };
+      }
+      if (ts.isNumericLiteral(literal)) {
+        return { type: 'number', const: Number(literal.text) };
+      }
+      if (ts.isPrefixUnaryExpression(literal)) {
+        return { type: 'number', const: Number(literal.getText()) };
+      }
+    }
+
+    if (ts.isTemplateLiteralTypeNode(node)) return { type: 'string' };
+
+    if (ts.isUnionTypeNode(node)) return this.union(node.types);
+
+    if (ts.isIntersectionTypeNode(node)) {
+      return { allOf: node.types.map((t) => this.type(t)) };
+    }
+
+    if (ts.isTypeReferenceNode(node)) {
+      return this.reference(
+        node.typeName.getText(),
+        node,
+        Array.from(node.typeArguments ?? []),
+      );
+    }
+
+    return {};
+  }
+
+  /**
+   * Compile a union: literal unions become enums, `T | null` a type list
+   */
+  union(nodes: ts.NodeArray<ts.TypeNode>): JsonSchema {
+    const members = nodes
+      .filter((node) => node.kind !== ts.SyntaxKind.UndefinedKeyword)
+      .map((node) => this.type(node));
+
+    if (members.length === 1) return members[0];
+
+    const literals = members.filter((m) => m.const !== undefined);
+    if (literals.length === members.length) {
+      const types = Array.from(new Set(literals.map((m) => m.type as string)));
+      return {
+        type: types.length === 1 ? types[0] : types,
+        enum: literals.map((m) => m.const),
+      };
+    }
+
+    // string | number | null → type: ['string', 'number', 'null']
+    const simple = members.every(
+      (m) => typeof m.type === 'string' && Object.keys(m).length === 1,
+    );
+    if (simple) {
+      return {
+        type: Array.from(new Set(members.map((m) => m.type as string))),
+      };
+    }
+
+    return { anyOf: members };
+  }
+}
+
+/**
+ * Refs from one schema to other declarations of its block
+ */
+function collectDefRefs(schema: unknown, refs: Set<string>): Set<string> {
+  if (Array.isArray(schema)) {
+    schema.forEach((item) => collectDefRefs(item, refs));
+  } else if (schema && typeof schema === 'object') {
+    for (const [key, value] of Object.entries(schema)) {
+      if (
+        key === '$ref' &&
+        typeof value === 'string' &&
+        value.startsWith(DEFS_REF_PREFIX)
+      ) {
+        refs.add(value.slice(DEFS_REF_PREFIX.length));
+      } else {
+        collectDefRefs(value, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Compile every declaration of a TypeScript snippet
+ * @param source - Code fence content (e.g., `ApiEndpoint.responseSchema`)
+ * @param external - Types declared in other blocks; references to them
+ *   become `$ref`s instead of unknown types
+ * @returns Declarations with their schemas, or null when there are none
+ */
+export function compileDeclarations(
+  source: string,
+  external: ReadonlySet<string> = new Set(),
+): CompiledDeclarations | null {
+  const sourceFile = ts.createSourceFile(
+    'contract.ts',
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+
+  const declarations = sourceFile.statements.filter(
+    (statement): statement is Declaration =>
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement),
+  );
+  if (declarations.length === 0) return null;
+
+  const names = declarations.map((d) => d.name.text);
+  const builder = new SchemaBuilder(
+    sourceFile,
+    new Set([...external, ...names]),
+  );
+  const definitions: Record<string, JsonSchema> = {};
+
+  // Interfaces with the same name merge, as in TypeScript
+  for (const declaration of declarations) {
+    const name = declaration.name.text;
+    const schema = builder.declaration(declaration);
+    const description = builder.description(declaration);
+    const compiled = description ? { description, ...schema } : schema;
+    definitions[name] = definitions[name]
+      ? { allOf: [definitions[name], compiled] }
+      : compiled;
+  }
+
+  const referenced = new Set<string>();
+  for (const name of names) {
+    for (const ref of collectDefRefs(definitions[name], new Set())) {
+      if (ref !== name) referenced.add(ref);
+    }
+  }
+  const unique = Array.from(new Set(names));
+
+  return {
+    root: unique.find((name) => !referenced.has(name)) ?? unique[0],
+    names: unique,
+    definitions,
+  };
+}
+
+/**
+ * Compile a TypeScript snippet into one self-contained JSON Schema
+ * The root declaration becomes the schema; the others go under `$defs`.
+ *
+ * @param source - Code fence content
+ * @returns JSON Schema, or undefined when the snippet declares no types
+ */
+export function compileSchema(source: string): JsonSchema | undefined {
+  const compiled = compileDeclarations(source);
+  if (!compiled) return undefined;
+
+  const { root, names, definitions } = compiled;
+  const defs = names.filter((name) => name !== root);
+  const schema: JsonSchema = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: root,
+    ...definitions[root],
+    ...(defs.length > 0 && {
+      $defs: Object.fromEntries(defs.map((name) => [name, definitions[name]])),
+    }),
+  };
+
+  // References to the root point at the document itself
+  return JSON.parse(JSON.stringify(schema), (key, value) =>
+    key === '$ref' && value === `${DEFS_REF_PREFIX}${root}` ? '#' : value,
+  );
+}
@@ -0,0 +1,517 @@
+/**
+ * Schema Drift Detection
+ * Compares documented request/response shapes with a route's TypeBox schemas
+ *
+ * The contract side comes from the compiled TypeScript interfaces
+ * (`requestJsonSchema`, `responseJsonSchema`) and the documented query and
+ * path parameters; the implementation side from the route's `schema` option
+ * (see `discoverRoutes`). Fields are compared by name, recursively through
+ * objects and arrays, reporting:
+ * - missing: documented field the route schema does not declare
+ * - extra: field the route schema declares but the contract does not
+ * - type: different JSON types or enum values
+ * - required: required in one, optional in the other
+ *
+ * `integer` and `number` count as the same type (TypeScript has no integer),
+ * and unconstrained schemas on either side (`any`, unresolved imports) are
+ * skipped. Response envelopes (`{ success, data }`) are unwrapped when the
+ * contract documents only the payload.
+ */
+
+import type { ApiEndpoint } from './api-contracts-parser.js';
+import { parameterSchema } from './openapi.js';
+import type { RouteSchemas } from './route-discovery.js';
+import type { JsonSchema } from './schema-compiler.js';
+
+/**
+ * Part of the route schema a drift was found in
+ */
+export type SchemaLocation = 'body' | 'querystring' | 'params' | 'response';
+
+/**
+ * Kind of drift between contract and route schema
+ */
+export type SchemaDriftKind = 'missing' | 'extra' | 'type' | 'required';
+
+/**
+ * One field-level difference between contract and route schema
+ */
+export interface SchemaDrift {
+  location: SchemaLocation;
+
+  /** Field path (e.g., "roles[].name"); empty for the schema itself */
+  field: string;
+
+  kind: SchemaDriftKind;
+
+  /** Type or requiredness in the contract */
+  documented?: string;
+
+  /** Type or requiredness in the route schema */
+  implemented?: string;
+
+  /** Whether a missing or extra field is required where it is declared */
+  required?: boolean;
+
+  /** Human-readable description */
+  message: string;
+}
+
+/** Guard against deeply nested or self-referencing schemas */
+const MAX_DEPTH = 16;
+
+/** Property the response envelope keeps the payload in */
+const ENVELOPE_PROPERTY = 'data';
+
+/**
+ * Join a parent field path and a property name
+ */
+function joinField(field: string, name: string): string {
+  return field ? `${field}.${name}` : name;
+}
+
+/**
+ * Whether two sets hold the same values
+ */
+function sameSet<T>(a: Set<T>, b: Set<T>): boolean {
+  return a.size === b.size && [...a].every((value) => b.has(value));
+}
+
+/**
+ * Whether an object schema accepts properties it does not declare
+ */
+function allowsAdditional(schema: JsonSchema): boolean {
+  return (
+    schema.additionalProperties !== undefined &&
+    schema.additionalProperties !== false
+  );
+}
+
+/**
+ * Compares one contract schema with one route schema
+ */
+class SchemaComparer {
+  readonly drifts: SchemaDrift[] = [];
+
+  /**
+   * @param location - Part of the route schema being compared
+   * @param docRoot - Contract schema (its `$defs` resolve refs)
+   * @param checkPresence - Report missing/extra/required (off for path
+   *   parameters, whose presence the path itself defines)
+   * @param implRoot - Root the second schema's refs resolve against (route
+   *   schemas are self-contained, so each resolves against itself)
+   */
+  constructor(
+    private location: SchemaLocation,
+    private docRoot: JsonSchema,
+    private checkPresence = true,
+    private implRoot?: JsonSchema,
+  ) {}
+
+  /**
+   * Follow local refs and merge `allOf` branches into one schema
+   */
+  normalize(schema: JsonSchema, root: JsonSchema, depth = 0): JsonSchema {
+    let current = schema;
+    for (let hops = 0; current.$ref && hops < MAX_DEPTH; hops++) {
+      let target: unknown = root;
+      for (const token of current.$ref.slice(1).split('/').filter(Boolean)) {
+        target =
+          target && typeof target === 'object'
+            ? (target as Record<string, unknown>)[token]
+            : undefined;
+      }
+      if (!target || typeof target !== 'object') return {};
+      current = target as JsonSchema;
+    }
+
+    if (!current.allOf || depth > MAX_DEPTH) return current;
+
+    const properties: Record<string, JsonSchema> = {};
+    const required = new Set<string>();
+    let additionalProperties: JsonSchema['additionalProperties'];
+    for (const branch of current.allOf) {
+      const part = this.normalize(branch, root, depth + 1);
+      Object.assign(properties, part.properties ?? {});
+      (part.required ?? []).forEach((name) => required.add(name));
+      additionalProperties = part.additionalProperties ?? additionalProperties;
+    }
+    return {
+      type: 'object',
+      properties: { ...properties, ...(current.properties ?? {}) },
+      required: [...required, ...(current.required ?? [])],
+      ...(additionalProperties !== undefined ? { additionalProperties } : {}),
+    };
+  }
+
+  /**
+   * JSON types a schema accepts (`integer` reads as `number`)
+   * @returns Type names, or null when the schema is unconstrained
+   */
+  kinds(schema: JsonSchema, root: JsonSchema, depth = 0): Set<string> | null {
+    const resolved = this.normalize(schema, root);
+    if (depth > MAX_DEPTH) return null;
+
+    const kindOf = (value: unknown): string =>
+      value === null ? 'null' : typeof value;
+    let kinds: string[];
+
+    if (resolved.type) {
+      kinds = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+    } else if (resolved.const !== undefined) {
+      kinds = [kindOf(resolved.const)];
+    } else if (resolved.enum) {
+      kinds = resolved.enum.map(kindOf);
+    } else if (resolved.anyOf ?? resolved.oneOf) {
+      const union = new Set<string>();
+      for (const branch of (resolved.anyOf ?? resolved.oneOf) as JsonSchema[]) {
+        const branchKinds = this.kinds(branch, root, depth + 1);
+        if (!branchKinds) return null;
+        branchKinds.forEach((kind) => union.add(kind));
+      }
+      return union;
+    } else if (resolved.properties || resolved.additionalProperties) {
+      kinds = ['object'];
+    } else {
+      return null;
+    }
+
+    return new Set(kinds.map((kind) => (kind === 'integer' ? 'number' : kind)));
+  }
+
+  /**
+   * Literal values a schema allows, or null when it is not an enum
+   */
+  enumValues(schema: JsonSchema, root: JsonSchema): Set<unknown> | null {
+    const resolved = this.normalize(schema, root);
+    if (resolved.enum) return new Set(resolved.enum);
+    if (resolved.const !== undefined) return new Set([resolved.const]);
+
+    const branches = (resolved.anyOf ?? resolved.oneOf) as
+      JsonSchema[] | undefined;
+    if (!branches) return null;
+    const values = new Set<unknown>();
+    for (const branch of branches) {
+      const branchValues = this.enumValues(branch, root);
+      if (!branchValues) return null;
+      branchValues.forEach((value) => values.add(value));
+    }
+    return values;
+  }
+
+  /**
+   * Short description of what a schema accepts, for reports
+   */
+  describe(schema: JsonSchema, root: JsonSchema, depth = 0): string {
+    const resolved = this.normalize(schema, root);
+    if (depth > MAX_DEPTH) return 'any';
+
+    const values = this.enumValues(resolved, root);
+    if (values) {
+      return [...values].map((value) => JSON.stringify(value)).join(' | ');
+    }
+    const branches = (resolved.anyOf ?? resolved.oneOf) as
+      JsonSchema[] | undefined;
+    if (branches) {
+      return branches
+        .map((branch) => this.describe(branch, root, depth + 1))
+        .join(' | ');
+    }
+    const types = Array.isArray(resolved.type)
+      ? resolved.type
+      : resolved.type
+        ? [resolved.type]
+        : [];
+    if (types.includes('array') && resolved.items) {
+      const item = this.describe(resolved.items, root, depth + 1);
+      return types
+        .map((type) =>
+          type === 'array'
+            ? item.includes(' ')
+              ? `(${item})[]`
+              : `${item}[]`
+            : type,
+        )
+        .join(' | ');
+    }
+    if (types.length > 0) return types.join(' | ');
+    return resolved.properties ? 'object' : 'any';
+  }
+
+  /**
+   * The one non-null branch of a schema (`T | null` reads as `T`)
+   * @returns Normalized schema, or null for unions of several types
+   */
+  single(schema: JsonSchema, root: JsonSchema): JsonSchema | null {
+    const resolved = this.normalize(schema, root);
+    const branches = (resolved.anyOf ?? resolved.oneOf) as
+      JsonSchema[] | undefined;
+    if (!branches) return resolved;
+
+    const nonNull = branches.filter((branch) => {
+      const kinds = this.kinds(branch, root);
+      return !(kinds && kinds.size === 1 && kinds.has('null'));
+    });
+    return nonNull.length === 1 ? this.single(nonNull[0], root) : null;
+  }
+
+  /**
+   * Record one drift
+   */
+  report(
+    field: string,
+    kind: SchemaDriftKind,
+    message: string,
+    documented?: string,
+    implemented?: string,
+    required?: boolean,
+  ): void {
+    this.drifts.push({
+      location: this.location,
+      field,
+      kind,
+      ...(documented !== undefined ? { documented } : {}),
+      ...(implemented !== undefined ? { implemented } : {}),
+      ...(required !== undefined ? { required } : {}),
+      message,
+    });
+  }
+
+  /**
+   * Compare two schemas, recursing into objects and arrays
+   * @param doc - Contract schema (refs resolve against `docRoot`)
+   * @param impl - Route schema (self-contained)
+   * @param field - Field path of both schemas
+   */
+  compare(doc: JsonSchema, impl: JsonSchema, field: string, depth = 0): void {
+    if (depth > MAX_DEPTH) return;
+
+    const implRoot = this.implRoot ?? impl;
+    const docKinds = this.kinds(doc, this.docRoot);
+    const implKinds = this.kinds(impl, implRoot);
+    if (!docKinds || !implKinds) return;
+
+    const label = field || this.location;
+    if (!sameSet(docKinds, implKinds)) {
+      const documented = this.describe(doc, this.docRoot);
+      const implemented = this.describe(impl, implRoot);
+      this.report(
+        field,
+        'type',
+        `\`${label}\` is ${documented} in the contract but ${implemented} in the route schema`,
+        documented,
+        implemented,
+      );
+      return;
+    }
+
+    const docValues = this.enumValues(doc, this.docRoot);
+    const implValues = this.enumValues(impl, implRoot);
+    if (docValues && implValues && !sameSet(docValues, implValues)) {
+      const documented = this.describe(doc, this.docRoot);
+      const implemented = this.describe(impl, implRoot);
+      this.report(
+        field,
+        'type',
+        `\`${label}\` allows ${documented} in the contract but ${implemented} in the route schema`,
+        documented,
+        implemented,
+      );
+      return;
+    }
+
+    const docSingle = this.single(doc, this.docRoot);
+    const implSingle = this.single(impl, implRoot);
+    if (!docSingle || !implSingle) return;
+
+    if (docSingle.properties && implSingle.properties) {
+      this.compareProperties(docSingle, implSingle, field, depth);
+    }
+    if (docSingle.items && implSingle.items) {
+      this.compare(docSingle.items, implSingle.items, `${field}[]`, depth + 1);
+    }
+  }
+
+  /**
+   * Compare the properties of two object schemas
+   */
+  compareProperties(
+    doc: JsonSchema,
+    impl: JsonSchema,
+    field: string,
+    depth: number,
+  ): void {
+    const docProperties = doc.properties ?? {};
+    const implProperties = impl.properties ?? {};
+    const docRequired = new Set(doc.required ?? []);
+    const implRequired = new Set(impl.required ?? []);
+
+    for (const [name, docProperty] of Object.entries(docProperties)) {
+      const child = joinField(field, name);
+      const implProperty = implProperties[name];
+
+      if (!implProperty) {
+        if (this.checkPresence && !allowsAdditional(impl)) {
+          this.report(
+            child,
+            'missing',
+            `\`${child}\` is documented but not in the route schema`,
+            this.describe(docProperty, this.docRoot),
+            undefined,
+            docRequired.has(name),
+          );
+        }
+        continue;
+      }
+
+      if (
+        this.checkPresence &&
+        docRequired.has(name) !== implRequired.has(name)
+      ) {
+        const documented = docRequired.has(name) ? 'required' : 'optional';
+        const implemented = implRequired.has(name) ? 'required' : 'optional';
+        this.report(
+          child,
+          'required',
+          `\`${child}\` is ${documented} in the contract but ${implemented} in the route schema`,
+          documented,
+          implemented,
+        );
+      }
+
+      this.compare(docProperty, implProperty, child, depth + 1);
+    }
+
+    if (!this.checkPresence || allowsAdditional(doc)) return;
+    for (const [name, implProperty] of Object.entries(implProperties)) {
+      if (!(name in docProperties)) {
+        const child = joinField(field, name);
+        this.report(
+          child,
+          'extra',
+          `\`${child}\` is in the route schema but not documented`,
+          undefined,
+          this.describe(implProperty, this.implRoot ?? implProperty),
+          implRequired.has(name),
+        );
+      }
+    }
+  }
+
+  /**
+   * Payload of a `{ success, data }` envelope when the contract documents
+   * the payload itself
+   */
+  unwrapEnvelope(doc: JsonSchema, impl: JsonSchema): JsonSchema {
+    const docSingle = this.single(doc, this.docRoot);
+    const implSingle = this.single(impl, this.implRoot ?? impl);
+    const payload = implSingle?.properties?.[ENVELOPE_PROPERTY];
+    return payload && !docSingle?.properties?.[ENVELOPE_PROPERTY]
+      ? payload
+      : impl;
+  }
+}
+
+/**
+ * Object schema for documented query or path parameters
+ */
+function parametersSchema(
+  parameters: { name: string; type: string; required: boolean }[],
+): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      parameters.map((parameter) => [
+        parameter.name,
+        parameterSchema(parameter.type),
+      ]),
+    ),
+    required: parameters
+      .filter((parameter) => parameter.required)
+      .map((parameter) => parameter.name),
+  };
+}
+
+/**
+ * Success response schema of a route: the first 2xx entry, else `default`
+ */
+function successResponse(
+  response: Record<string, JsonSchema> | undefined,
+): JsonSchema | undefined {
+  if (!response) return undefined;
+  const status = Object.keys(response)
+    .sort()
+    .find((code) => /^2(\d\d|xx)$/i.test(code));
+  return response[status ?? 'default'];
+}
+
+/**
+ * Compare an endpoint's contract with the schemas of its route
+ * Only parts both sides describe are compared; query parameters are
+ * compared whenever the route declares a querystring schema.
+ *
+ * @param endpoint - Documented endpoint
+ * @param schemas - Route schemas from `discoverRoutes`
+ * @returns Field-level drifts, in body, querystring, params, response order
+ */
+export function compareRouteSchemas(
+  endpoint: ApiEndpoint,
+  schemas: RouteSchemas | undefined,
+): SchemaDrift[] {
+  if (!schemas) return [];
+  const drifts: SchemaDrift[] = [];
+
+  if (endpoint.requestJsonSchema && schemas.body) {
+    const comparer = new SchemaComparer('body', endpoint.requestJsonSchema);
+    comparer.compare(endpoint.requestJsonSchema, schemas.body, '');
+    drifts.push(...comparer.drifts);
+  }
+
+  if (schemas.querystring) {
+    const documented = parametersSchema(endpoint.queryParameters ?? []);
+    const comparer = new SchemaComparer('querystring', documented);
+    comparer.compare(documented, schemas.querystring, '');
+    drifts.push(...comparer.drifts);
+  }
+
+  if (schemas.params && endpoint.pathParameters?.length) {
+    const documented = parametersSchema(endpoint.pathParameters);
+    const comparer = new SchemaComparer('params', documented, false);
+    comparer.compare(documented, schemas.params, '');
+    drifts.push(...comparer.drifts);
+  }
+
+  const response = successResponse(schemas.response);
+  if (endpoint.responseJsonSchema && response) {
+    const documented = endpoint.responseJsonSchema;
+    const comparer = new SchemaComparer('response', documented);
+    comparer.compare(
+      documented,
+      comparer.unwrapEnvelope(documented, response),
+      '',
+    );
+    drifts.push(...comparer.drifts);
+  }
+
+  return drifts;
+}
+
+/**
+ * Compare two versions of a contract schema
+ * Drifts read as before → after: `missing` fields were removed, `extra`
+ * fields added, and `documented`/`implemented` hold the old and new values.
+ *
+ * @param location - Part of the endpoint the schemas describe
+ * @param before - Older schema (its `$defs` resolve refs)
+ * @param after - Newer schema (its `$defs` resolve refs)
+ * @returns Field-level differences
+ */
+export function compareSchemaVersions(
+  location: SchemaLocation,
+  before: JsonSchema,
+  after: JsonSchema,
+): SchemaDrift[] {
+  const comparer = new SchemaComparer(location, before, true, after);
+  comparer.compare(before, after, '');
+  return comparer.drifts;
+}
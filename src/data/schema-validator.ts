@@ -0,0 +1,393 @@
+/**
+ * JSON Schema Validator
+ * Checks JSON values against the schemas produced by `compileSchema`
+ *
+ * Covers the keywords the compiler emits (`type`, `properties`, `required`,
+ * `additionalProperties`, `items`, `prefixItems`, `enum`, `const`, `anyOf`,
+ * `oneOf`, `allOf` and local `$ref`s). Contract interfaces are treated as
+ * closed: properties they do not declare are reported as extra unless an
+ * index signature (`additionalProperties`) allows them.
+ */
+
+import type { JsonSchema } from './schema-compiler.js';
+
+/**
+ * Kind of mismatch between a value and its schema
+ * - missing: required property absent
+ * - extra: property the schema does not declare
+ * - type: value has the wrong JSON type
+ * - enum: value is not one of the allowed literals
+ */
+export type SchemaViolationKind = 'missing' | 'extra' | 'type' | 'enum';
+
+/**
+ * One mismatch between a value and its schema
+ */
+export interface SchemaViolation {
+  /** JSON pointer to the offending value (e.g., "/roles/0/name") */
+  pointer: string;
+
+  kind: SchemaViolationKind;
+
+  /** Expected type or values (e.g., "string", "\"admin\" | \"user\"") */
+  expected?: string;
+
+  /** JSON type found in the value */
+  actual?: string;
+
+  /** Human-readable description */
+  message: string;
+}
+
+/** Guard against `$ref` cycles that never reach a concrete schema */
+const MAX_REF_DEPTH = 32;
+
+/**
+ * Escape one JSON pointer token (RFC 6901)
+ */
+function escapePointer(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * JSON type name of a value, as used by the `type` keyword
+ */
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+/**
+ * Check a value against one `type` name (integers are numbers too)
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return jsonType(value) === 'object';
+}
+
+/**
+ * Validates values against one root schema
+ */
+class SchemaValidator {
+  constructor(private root: JsonSchema) {}
+
+  /**
+   * Follow local `$ref`s ("#", "#/$defs/Name", "#/a/b") to a concrete schema
+   */
+  resolve(schema: JsonSchema): JsonSchema {
+    let current = schema;
+    for (let depth = 0; current.$ref && depth < MAX_REF_DEPTH; depth++) {
+      const ref = current.$ref;
+      if (!ref.startsWith('#')) return {};
+
+      let target: unknown = this.root;
+      for (const token of ref.slice(1).split('/').filter(Boolean)) {
+        const key = decodeURIComponent(token)
+          .replace(/~1/g, '/')
+          .replace(/~0/g, '~');
+        target = isObject(target) ? target[key] : undefined;
+      }
+      if (!isObject(target)) return {};
+      current = target as JsonSchema;
+    }
+    return current;
+  }
+
+  /**
+   * Short description of what a schema accepts, for messages
+   */
+  describe(schema: JsonSchema): string {
+    const resolved = this.resolve(schema);
+    if (resolved.enum) {
+      return resolved.enum.map((value) => JSON.stringify(value)).join(' | ');
+    }
+    if (resolved.const !== undefined) return JSON.stringify(resolved.const);
+    if (resolved.type) {
+      return Array.isArray(resolved.type)
+        ? resolved.type.join(' | ')
+        : resolved.type;
+    }
+    const branches = resolved.anyOf ?? resolved.oneOf;
+    if (Array.isArray(branches)) {
+      return branches.map((branch) => this.describe(branch)).join(' | ');
+    }
+    if (resolved.properties || resolved.allOf) return 'object';
+    return 'any';
+  }
+
+  /**
+   * Properties a schema declares, across `allOf` and union branches
+   * @returns Property names, or null when the schema allows any property
+   */
+  knownProperties(
+    schema: JsonSchema,
+    seen = new Set<JsonSchema>(),
+  ): Set<string> | null {
+    const resolved = this.resolve(schema);
+    if (seen.has(resolved)) return new Set();
+    seen.add(resolved);
+
+    if (
+      resolved.additionalProperties !== undefined &&
+      resolved.additionalProperties !== false
+    ) {
+      return null;
+    }
+
+    const branches = [
+      ...(resolved.allOf ?? []),
+      ...(resolved.anyOf ?? []),
+      ...((resolved.oneOf as JsonSchema[] | undefined) ?? []),
+    ];
+    // Unconstrained schemas (unknown, unresolved types) allow anything
+    if (!resolved.properties && branches.length === 0) return null;
+
+    const known = new Set(Object.keys(resolved.properties ?? {}));
+    for (const branch of branches) {
+      const names = this.knownProperties(branch, seen);
+      if (names === null) return null;
+      names.forEach((name) => known.add(name));
+    }
+    return known;
+  }
+
+  /**
+   * Validate a value, appending violations
+   * @param value - Value to check
+   * @param schema - Schema the value should match
+   * @param pointer - JSON pointer of the value
+   * @param violations - Collected violations
+   * @param partial - Skip extra-property checks (an enclosing `allOf` does them)
+   */
+  validate(
+    value: unknown,
+    schema: JsonSchema,
+    pointer: string,
+    violations: SchemaViolation[],
+    partial = false,
+  ): void {
+    const resolved = this.resolve(schema);
+
+    if (resolved.allOf) {
+      for (const branch of resolved.allOf) {
+        this.validate(value, branch, pointer, violations, true);
+      }
+      if (!partial && isObject(value)) {
+        this.checkExtra(
+          value,
+          this.knownProperties(resolved),
+          pointer,
+          violations,
+        );
+      }
+    }
+
+    const branches =
+      resolved.anyOf ?? (resolved.oneOf as JsonSchema[] | undefined);
+    if (branches && branches.length > 0) {
+      this.validateUnion(value, branches, pointer, violations, partial);
+    }
+
+    if (resolved.type) {
+      const types = Array.isArray(resolved.type)
+        ? resolved.type
+        : [resolved.type];
+      if (!types.some((type) => matchesType(value, type))) {
+        violations.push({
+          pointer,
+          kind: 'type',
+          expected: types.join(' | '),
+          actual: jsonType(value),
+          message: `Expected ${types.join(' | ')}, got ${jsonType(value)}`,
+        });
+        return;
+      }
+    }
+
+    if (resolved.const !== undefined && resolved.const !== value) {
+      violations.push({
+        pointer,
+        kind: 'enum',
+        expected: JSON.stringify(resolved.const),
+        actual: JSON.stringify(value),
+        message: `Expected ${JSON.stringify(resolved.const)}, got ${JSON.stringify(value)}`,
+      });
+    }
+
+    if (resolved.enum && !resolved.enum.includes(value as never)) {
+      const expected = this.describe({ enum: resolved.enum });
+      violations.push({
+        pointer,
+        kind: 'enum',
+        expected,
+        actual: JSON.stringify(value),
+        message: `Expected one of ${expected}, got ${JSON.stringify(value)}`,
+      });
+    }
+
+    if (isObject(value)) {
+      this.validateObject(value, resolved, pointer, violations, partial);
+    }
+
+    if (Array.isArray(value)) {
+      const prefix = resolved.prefixItems ?? [];
+      value.forEach((item, index) => {
+        const itemSchema = prefix[index] ?? resolved.items;
+        if (itemSchema) {
+          this.validate(item, itemSchema, `${pointer}/${index}`, violations);
+        }
+      });
+    }
+  }
+
+  /**
+   * Validate against `anyOf`/`oneOf`: pass if any branch matches, otherwise
+   * report the closest branch whose type fits
+   */
+  validateUnion(
+    value: unknown,
+    branches: JsonSchema[],
+    pointer: string,
+    violations: SchemaViolation[],
+    partial: boolean,
+  ): void {
+    let best: SchemaViolation[] | null = null;
+
+    for (const branch of branches) {
+      const branchViolations: SchemaViolation[] = [];
+      this.validate(value, branch, pointer, branchViolations, partial);
+      if (branchViolations.length === 0) return;
+
+      const typeMismatch = branchViolations.some(
+        (violation) =>
+          violation.pointer === pointer && violation.kind === 'type',
+      );
+      if (!typeMismatch && (!best || branchViolations.length < best.length)) {
+        best = branchViolations;
+      }
+    }
+
+    if (best) {
+      violations.push(...best);
+      return;
+    }
+
+    const expected = branches
+      .map((branch) => this.describe(branch))
+      .join(' | ');
+    violations.push({
+      pointer,
+      kind: 'type',
+      expected,
+      actual: jsonType(value),
+      message: `Expected ${expected}, got ${jsonType(value)}`,
+    });
+  }
+
+  /**
+   * Validate declared, required and additional properties of an object
+   */
+  validateObject(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    pointer: string,
+    violations: SchemaViolation[],
+    partial: boolean,
+  ): void {
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        const expected = properties[name]
+          ? this.describe(properties[name])
+          : undefined;
+        violations.push({
+          pointer: `${pointer}/${escapePointer(name)}`,
+          kind: 'missing',
+          expected,
+          message: `Missing required property "${name}"`,
+        });
+      }
+    }
+
+    for (const [name, propertySchema] of Object.entries(properties)) {
+      if (name in value) {
+        this.validate(
+          value[name],
+          propertySchema,
+          `${pointer}/${escapePointer(name)}`,
+          violations,
+        );
+      }
+    }
+
+    const additional = schema.additionalProperties;
+    if (isObject(additional)) {
+      for (const [name, item] of Object.entries(value)) {
+        if (!(name in properties)) {
+          this.validate(
+            item,
+            additional as JsonSchema,
+            `${pointer}/${escapePointer(name)}`,
+            violations,
+          );
+        }
+      }
+    } else if (!partial && !schema.allOf && schema.properties) {
+      this.checkExtra(
+        value,
+        additional === true ? null : this.knownProperties(schema),
+        pointer,
+        violations,
+      );
+    }
+  }
+
+  /**
+   * Report properties outside the known set
+   */
+  checkExtra(
+    value: Record<string, unknown>,
+    known: Set<string> | null,
+    pointer: string,
+    violations: SchemaViolation[],
+  ): void {
+    if (!known) return;
+    for (const name of Object.keys(value)) {
+      if (!known.has(name)) {
+        violations.push({
+          pointer: `${pointer}/${escapePointer(name)}`,
+          kind: 'extra',
+          actual: jsonType(value[name]),
+          message: `Property "${name}" is not in the schema`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Validate a JSON value against a JSON Schema
+ * @param value - Parsed JSON value
+ * @param schema - Schema from `compileSchema` (refs resolve against it)
+ * @returns Violations in document order; empty when the value conforms
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  new SchemaValidator(schema).validate(value, schema, '', violations);
+  return violations;
+}
@@ -0,0 +1,230 @@
+/**
+ * Unified Search
+ * One ranked index over UI components, code patterns, CLI commands and API
+ * endpoints, so a single query returns the best matches of every kind.
+ * Every kind is indexed into the same fields (name, keywords, category,
+ * description, details, body), which keeps their scores comparable.
+ */
+
+import type { ApiContract, ApiEndpoint } from './api-contracts-parser.js';
+import {
+  getCommandToolSpecs,
+  type CommandToolSpec,
+} from './command-registry.js';
+import { getAllComponents, type ComponentInfo } from './components.js';
+import { getAllPatterns, type CodePattern } from './patterns.js';
+import {
+  createSearchIndex,
+  type SearchHit,
+  type SearchIndex,
+} from '../utils/search-index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kinds of searchable items
+ */
+export const searchEntryTypes = [
+  'component',
+  'pattern',
+  'command',
+  'endpoint',
+] as const;
+
+export type SearchEntryType = (typeof searchEntryTypes)[number];
+
+/**
+ * A searchable item with its display name
+ */
+export type SearchEntry =
+  | { type: 'component'; name: string; component: ComponentInfo }
+  | { type: 'pattern'; name: string; pattern: CodePattern }
+  | { type: 'command'; name: string; command: CommandToolSpec }
+  | { type: 'endpoint'; name: string; endpoint: ApiEndpoint };
+
+/**
+ * Options for a unified search
+ */
+export interface UnifiedSearchOptions {
+  /** Only return these kinds (default: all) */
+  types?: SearchEntryType[];
+
+  /** Maximum results (default: all) */
+  limit?: number;
+}
+
+/**
+ * Field weights shared by every kind
+ */
+const FIELD_BOOSTS = {
+  name: 3,
+  keywords: 3,
+  category: 2,
+  description: 1,
+  details: 0.5,
+  body: 0.2,
+};
+
+type EntryFields = Partial<
+  Record<keyof typeof FIELD_BOOSTS, string | string[]>
+>;
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+/**
+ * Components, patterns and commands with their fields (built once)
+ */
+let staticEntries: Array<[SearchEntry, EntryFields]> | null = null;
+
+function getStaticEntries(): Array<[SearchEntry, EntryFields]> {
+  if (staticEntries) return staticEntries;
+
+  const components = getAllComponents().map(
+    (component): [SearchEntry, EntryFields] => [
+      { type: 'component', name: component.name, component },
+      {
+        name: component.name,
+        keywords: component.selector,
+        category: ['component', component.category],
+        description: component.description,
+        details: [...component.inputs, ...component.outputs].map(
+          (io) => `${io.name} ${io.description}`,
+        ),
+      },
+    ],
+  );
+
+  const patterns = getAllPatterns().map(
+    (pattern): [SearchEntry, EntryFields] => [
+      { type: 'pattern', name: pattern.name, pattern },
+      {
+        name: pattern.name,
+        keywords: pattern.language,
+        category: ['pattern', pattern.category],
+        description: pattern.description,
+        details: pattern.notes,
+        body: pattern.code,
+      },
+    ],
+  );
+
+  const commands = getCommandToolSpecs().map(
+    (spec): [SearchEntry, EntryFields] => [
+      { type: 'command', name: spec.commandPath, command: spec },
+      {
+        name: spec.commandPath,
+        keywords: spec.toolName,
+        category: 'command cli',
+        description: spec.command.description,
+        details: [
+          ...spec.command.options.map((o) => `${o.name} ${o.description}`),
+          ...(spec.command.notes ?? []),
+        ],
+        body: spec.command.examples,
+      },
+    ],
+  );
+
+  staticEntries = [...components, ...patterns, ...commands];
+  return staticEntries;
+}
+
+/**
+ * An endpoint with its fields
+ */
+function endpointEntry(endpoint: ApiEndpoint): [SearchEntry, EntryFields] {
+  return [
+    {
+      type: 'endpoint',
+      name: `${endpoint.method} ${endpoint.path}`,
+      endpoint,
+    },
+    {
+      name: endpoint.description,
+      keywords: endpoint.path,
+      category: ['endpoint api', endpoint.feature, endpoint.method],
+      details: [
+        ...(endpoint.pathParameters ?? []),
+        ...(endpoint.queryParameters ?? []),
+      ].map((p) => `${p.name} ${p.description}`),
+      body: [endpoint.requestSchema, endpoint.responseSchema].filter(
+        (schema): schema is string => !!schema,
+      ),
+    },
+  ];
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Index of the last searched contracts; reused while the parser returns the
+ * same contract objects (it does until a contract file changes)
+ */
+let cachedIndex: {
+  contracts: ApiContract[];
+  index: SearchIndex<SearchEntry>;
+} | null = null;
+
+function getIndex(contracts: ApiContract[]): SearchIndex<SearchEntry> {
+  if (
+    cachedIndex &&
+    cachedIndex.contracts.length === contracts.length &&
+    cachedIndex.contracts.every((contract, i) => contract === contracts[i])
+  ) {
+    return cachedIndex.index;
+  }
+
+  const index = createSearchIndex<SearchEntry>(FIELD_BOOSTS);
+  const endpoints = contracts.flatMap((c) => c.endpoints).map(endpointEntry);
+  for (const [entry, fields] of [...getStaticEntries(), ...endpoints]) {
+    index.add(entry, fields);
+  }
+
+  cachedIndex = { contracts: [...contracts], index };
+  return index;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Search components, patterns, commands and endpoints together
+ * @param query - Free-form query (multi-word, typos allowed)
+ * @param contracts - Contracts whose endpoints are searched
+ * @param options - Kinds to include and result limit
+ * @returns Hits, most relevant first
+ */
+export function searchAll(
+  query: string,
+  contracts: ApiContract[],
+  options: UnifiedSearchOptions = {},
+): SearchHit<SearchEntry>[] {
+  const types = options.types?.length ? new Set(options.types) : null;
+  return getIndex(contracts).search(query, {
+    limit: options.limit,
+    filter: types ? (entry) => types.has(entry.type) : undefined,
+  });
+}
+
+/**
+ * One-line description of an entry
+ */
+export function describeSearchEntry(entry: SearchEntry): string {
+  switch (entry.type) {
+    case 'component':
+      return entry.component.description;
+    case 'pattern':
+      return entry.pattern.description;
+    case 'command':
+      return entry.command.command.description;
+    case 'endpoint':
+      return entry.endpoint.description;
+  }
+}
@@ -0,0 +1,553 @@
+/**
+ * TypeBox Schema Extraction
+ * Turns TypeBox expressions in route files into JSON Schema, statically
+ *
+ * Route schemas (`schema: { body, querystring, params, response }`) are
+ * usually constants imported from `*.schemas.ts` files. The converter
+ * follows those references through a resolver supplied by the caller and
+ * evaluates the `Type.*` builders without running any code:
+ * - `Object`, `Optional`, `Partial`, `Required`, `Pick`, `Omit`
+ * - `String`, `Number`, `Integer`, `Boolean`, `Null`, `Date`, `Literal`
+ * - `Array`, `Tuple`, `Record`, `Union`, `Intersect`, `Composite`, `Enum`
+ * - Helpers returning a schema (`PaginatedResponseSchema(ItemSchema)`)
+ * - Plain JSON Schema object literals
+ *
+ * Anything else (unresolved imports, `Type.Unsafe`, recursive types)
+ * converts to an unconstrained schema, which comparisons skip.
+ */
+
+import * as ts from 'typescript';
+import type { JsonSchema } from './schema-compiler.js';
+
+/**
+ * A top-level declaration or value and the file declaring it
+ */
+export interface ResolvedBinding {
+  node: ts.Node;
+  sourceFile: ts.SourceFile;
+}
+
+/**
+ * Looks up a top-level name (local declaration or import) of a file
+ */
+export type BindingResolver = (
+  name: string,
+  sourceFile: ts.SourceFile,
+) => Promise<ResolvedBinding | null>;
+
+/** Values bound to helper parameters while converting a helper's body */
+type Scope = Map<
+  string,
+  { node: ts.Expression; sourceFile: ts.SourceFile; scope: Scope }
+>;
+
+/** Guard against self-referencing constants and deeply nested helpers */
+const MAX_DEPTH = 16;
+
+/** `Type.<Kind>()` builders that map to a single JSON type */
+const PRIMITIVE_KINDS: Record<string, JsonSchema> = {
+  String: { type: 'string' },
+  Number: { type: 'number' },
+  Integer: { type: 'integer' },
+  Boolean: { type: 'boolean' },
+  Null: { type: 'null' },
+  Date: { type: 'string', format: 'date-time' },
+};
+
+/** Builders that only wrap their first argument */
+const WRAPPER_KINDS = new Set(['Readonly', 'Ref', 'Strict']);
+
+/** Options copied from builder arguments (e.g., `Type.String({ format })`) */
+const COPIED_OPTIONS = ['format', 'enum', 'additionalProperties'];
+
+/**
+ * Strip parentheses, type assertions and `satisfies`
+ */
+function unwrap(node: ts.Expression): ts.Expression {
+  let current = node;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isNonNullExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * Name of a property in an object literal (identifiers, strings, numbers)
+ */
+function propertyName(
+  name: ts.PropertyName,
+  sourceFile: ts.SourceFile,
+): string {
+  return ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+    ? name.text
+    : name.getText(sourceFile);
+}
+
+/**
+ * Expression a function returns: an arrow's expression body, or the
+ * argument of the body's last `return`
+ */
+function returnedExpression(fn: ts.SignatureDeclaration): ts.Expression | null {
+  if (ts.isArrowFunction(fn) && !ts.isBlock(fn.body)) return fn.body;
+  const body = (fn as ts.FunctionLikeDeclaration).body;
+  if (!body || !ts.isBlock(body)) return null;
+  const last = [...body.statements]
+    .reverse()
+    .find((statement) => ts.isReturnStatement(statement));
+  return last && ts.isReturnStatement(last) ? (last.expression ?? null) : null;
+}
+
+/**
+ * Merge object schemas (`allOf` branches) into one object schema
+ */
+function mergeObjects(schemas: JsonSchema[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required = new Set<string>();
+  for (const schema of schemas) {
+    const parts = schema.allOf ? schema.allOf : [schema];
+    for (const part of parts) {
+      Object.assign(properties, part.properties ?? {});
+      (part.required ?? []).forEach((name) => required.add(name));
+    }
+  }
+  return { type: 'object', properties, required: Array.from(required) };
+}
+
+/**
+ * Evaluates TypeBox expressions of one codebase
+ */
+class TypeBoxConverter {
+  /** Schemas produced by `Type.Optional()`, for `required` lists */
+  private optional = new WeakSet<JsonSchema>();
+
+  constructor(private resolveName: BindingResolver) {}
+
+  /**
+   * Convert an expression to JSON Schema
+   * @param node - TypeBox or JSON Schema expression
+   * @param sourceFile - File containing the expression
+   * @param scope - Helper parameters bound to argument expressions
+   * @param depth - Reference depth so far
+   */
+  async convert(
+    node: ts.Expression,
+    sourceFile: ts.SourceFile,
+    scope: Scope = new Map(),
+    depth = 0,
+  ): Promise<JsonSchema> {
+    const expression = unwrap(node);
+    if (depth > MAX_DEPTH) return {};
+
+    if (ts.isIdentifier(expression)) {
+      const bound = scope.get(expression.text);
+      if (bound) {
+        return this.convert(
+          bound.node,
+          bound.sourceFile,
+          bound.scope,
+          depth + 1,
+        );
+      }
+      const binding = await this.resolveName(expression.text, sourceFile);
+      return binding && ts.isExpression(binding.node)
+        ? this.convert(binding.node, binding.sourceFile, new Map(), depth + 1)
+        : {};
+    }
+
+    if (ts.isObjectLiteralExpression(expression)) {
+      const value = await this.literal(expression, sourceFile, scope, depth);
+      return value && typeof value === 'object' ? (value as JsonSchema) : {};
+    }
+
+    if (!ts.isCallExpression(expression)) return {};
+
+    // Type.Object(...), T.String(...)
+    if (ts.isPropertyAccessExpression(expression.expression)) {
+      return this.convertBuilder(
+        expression.expression.name.text,
+        expression.arguments,
+        sourceFile,
+        scope,
+        depth,
+      );
+    }
+
+    // Helpers returning a schema: PaginatedResponseSchema(ItemSchema)
+    if (ts.isIdentifier(expression.expression)) {
+      return this.convertHelper(
+        expression.expression.text,
+        expression.arguments,
+        sourceFile,
+        scope,
+        depth,
+      );
+    }
+
+    return {};
+  }
+
+  /**
+   * Convert one `Type.<kind>(...)` builder call
+   */
+  async convertBuilder(
+    kind: string,
+    args: ts.NodeArray<ts.Expression>,
+    sourceFile: ts.SourceFile,
+    scope: Scope,
+    depth: number,
+  ): Promise<JsonSchema> {
+    const convertArg = (index: number): Promise<JsonSchema> =>
+      args[index]
+        ? this.convert(args[index], sourceFile, scope, depth + 1)
+        : Promise.resolve({});
+    const convertList = async (index: number): Promise<JsonSchema[]> => {
+      const list = args[index] && unwrap(args[index]);
+      if (!list || !ts.isArrayLiteralExpression(list)) return [];
+      return Promise.all(
+        list.elements.map((element) =>
+          this.convert(element, sourceFile, scope, depth + 1),
+        ),
+      );
+    };
+
+    if (PRIMITIVE_KINDS[kind]) {
+      return {
+        ...PRIMITIVE_KINDS[kind],
+        ...(await this.options(args[0], sourceFile, scope, depth)),
+      };
+    }
+
+    if (WRAPPER_KINDS.has(kind)) return convertArg(0);
+
+    switch (kind) {
+      case 'Optional':
+      case 'ReadonlyOptional': {
+        const schema = { ...(await convertArg(0)) };
+        this.optional.add(schema);
+        return schema;
+      }
+
+      case 'Any':
+      case 'Unknown':
+        return {};
+
+      case 'Literal': {
+        const value = args[0]
+          ? await this.literal(args[0], sourceFile, scope, depth)
+          : undefined;
+        return value === undefined ||
+          (value !== null && typeof value === 'object')
+          ? {}
+          : { type: value === null ? 'null' : typeof value, const: value };
+      }
+
+      case 'Object': {
+        const schema = await this.convertObject(
+          args[0],
+          sourceFile,
+          scope,
+          depth,
+        );
+        return {
+          ...schema,
+          ...(await this.options(args[1], sourceFile, scope, depth)),
+        };
+      }
+
+      case 'Array':
+        return { type: 'array', items: await convertArg(0) };
+
+      case 'Tuple':
+        return { type: 'array', prefixItems: await convertList(0) };
+
+      case 'Record':
+        return { type: 'object', additionalProperties: await convertArg(1) };
+
+      case 'Union':
+        return { anyOf: await convertList(0) };
+
+      case 'Intersect':
+      case 'Composite':
+        return { allOf: await convertList(0) };
+
+      case 'Enum':
+        return this.convertEnum(args[0], sourceFile, depth);
+
+      case 'Partial':
+        return { ...mergeObjects([await convertArg(0)]), required: [] };
+
+      case 'Required': {
+        const merged = mergeObjects([await convertArg(0)]);
+        return { ...merged, required: Object.keys(merged.properties ?? {}) };
+      }
+
+      case 'Pick':
+      case 'Omit': {
+        const merged = mergeObjects([await convertArg(0)]);
+        const keys = await this.keyList(args[1], sourceFile, scope, depth);
+        if (!keys) return merged;
+        const keep = (name: string): boolean =>
+          kind === 'Pick' ? keys.includes(name) : !keys.includes(name);
+        return {
+          type: 'object',
+          properties: Object.fromEntries(
+            Object.entries(merged.properties ?? {}).filter(([name]) =>
+              keep(name),
+            ),
+          ),
+          required: (merged.required ?? []).filter(keep),
+        };
+      }
+
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Convert `Type.Object({ ... })` properties, honoring `Type.Optional`
+   */
+  async convertObject(
+    node: ts.Expression | undefined,
+    sourceFile: ts.SourceFile,
+    scope: Scope,
+    depth: number,
+  ): Promise<JsonSchema> {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    const members = node && unwrap(node);
+    if (!members || !ts.isObjectLiteralExpression(members)) {
+      return { type: 'object', properties, required };
+    }
+
+    for (const member of members.properties) {
+      // ...OtherSchema.properties
+      if (ts.isSpreadAssignment(member)) {
+        const spread = unwrap(member.expression);
+        const base = ts.isPropertyAccessExpression(spread)
+          ? spread.expression
+          : spread;
+        const merged = mergeObjects([
+          await this.convert(base, sourceFile, scope, depth + 1),
+        ]);
+        Object.assign(properties, merged.properties);
+        required.push(...(merged.required ?? []));
+        continue;
+      }
+
+      let value: ts.Expression;
+      if (ts.isPropertyAssignment(member)) {
+        value = member.initializer;
+      } else if (ts.isShorthandPropertyAssignment(member)) {
+        value = member.name;
+      } else {
+        continue;
+      }
+
+      const name = propertyName(member.name, sourceFile);
+      const schema = await this.convert(value, sourceFile, scope, depth + 1);
+      properties[name] = schema;
+      if (!this.optional.has(schema)) required.push(name);
+    }
+
+    return { type: 'object', properties, required };
+  }
+
+  /**
+   * Convert `Type.Enum(SomeEnum)` for TypeScript enums and object literals
+   */
+  async convertEnum(
+    node: ts.Expression | undefined,
+    sourceFile: ts.SourceFile,
+    depth: number,
+  ): Promise<JsonSchema> {
+    const target = node && unwrap(node);
+    if (!target || !ts.isIdentifier(target)) return {};
+    const binding = await this.resolveName(target.text, sourceFile);
+    if (!binding) return {};
+
+    const values: unknown[] = [];
+    if (ts.isEnumDeclaration(binding.node)) {
+      binding.node.members.forEach((member, index) => {
+        const initializer = member.initializer;
+        if (initializer && ts.isStringLiteral(initializer)) {
+          values.push(initializer.text);
+        } else if (initializer && ts.isNumericLiteral(initializer)) {
+          values.push(Number(initializer.text));
+        } else if (!initializer) {
+          values.push(index);
+        }
+      });
+    } else if (ts.isExpression(binding.node)) {
+      const value = await this.literal(
+        binding.node,
+        binding.sourceFile,
+        new Map(),
+        depth + 1,
+      );
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        values.push(...Object.values(value));
+      }
+    }
+    return values.length > 0 ? { enum: values } : {};
+  }
+
+  /**
+   * Convert a helper call by converting what the helper returns, with its
+   * parameters bound to the call's arguments
+   */
+  async convertHelper(
+    name: string,
+    args: ts.NodeArray<ts.Expression>,
+    sourceFile: ts.SourceFile,
+    scope: Scope,
+    depth: number,
+  ): Promise<JsonSchema> {
+    const binding = await this.resolveName(name, sourceFile);
+    const fn =
+      binding &&
+      (ts.isFunctionDeclaration(binding.node) ||
+      ts.isArrowFunction(binding.node) ||
+      ts.isFunctionExpression(binding.node)
+        ? binding.node
+        : null);
+    const returned = fn && returnedExpression(fn);
+    if (!binding || !fn || !returned) return {};
+
+    const helperScope: Scope = new Map();
+    fn.parameters.forEach((param, index) => {
+      if (!ts.isIdentifier(param.name)) return;
+      const arg = args[index];
+      if (arg)
+        helperScope.set(param.name.text, { node: arg, sourceFile, scope });
+    });
+
+    return this.convert(returned, binding.sourceFile, helperScope, depth + 1);
+  }
+
+  /**
+   * Builder options (`{ format: 'uuid' }`) worth keeping
+   */
+  async options(
+    node: ts.Expression | undefined,
+    sourceFile: ts.SourceFile,
+    scope: Scope,
+    depth: number,
+  ): Promise<JsonSchema> {
+    const value = node
+      ? await this.literal(node, sourceFile, scope, depth)
+      : undefined;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+    const options = value as Record<string, unknown>;
+    return Object.fromEntries(
+      COPIED_OPTIONS.filter((key) => options[key] !== undefined).map((key) => [
+        key,
+        options[key],
+      ]),
+    );
+  }
+
+  /**
+   * Keys of `Type.Pick`/`Type.Omit`: string arrays or unions of literals
+   */
+  async keyList(
+    node: ts.Expression | undefined,
+    sourceFile: ts.SourceFile,
+    scope: Scope,
+    depth: number,
+  ): Promise<string[] | null> {
+    if (!node) return null;
+    const expression = unwrap(node);
+    if (ts.isArrayLiteralExpression(expression)) {
+      const keys = expression.elements
+        .map((element) => unwrap(element))
+        .filter(ts.isStringLiteral)
+        .map((element) => element.text);
+      return keys.length === expression.elements.length ? keys : null;
+    }
+
+    const schema = await this.convert(expression, sourceFile, scope, depth + 1);
+    const branches = schema.anyOf ?? [schema];
+    const keys = branches
+      .map((branch) => branch.const)
+      .filter((key): key is string => typeof key === 'string');
+    return keys.length === branches.length ? keys : null;
+  }
+
+  /**
+   * Evaluate a literal value; nested non-literals convert as schemas
+   */
+  async literal(
+    node: ts.Expression,
+    sourceFile: ts.SourceFile,
+    scope: Scope,
+    depth: number,
+  ): Promise<unknown> {
+    const expression = unwrap(node);
+
+    if (
+      ts.isStringLiteral(expression) ||
+      ts.isNoSubstitutionTemplateLiteral(expression)
+    ) {
+      return expression.text;
+    }
+    if (ts.isNumericLiteral(expression)) return Number(expression.text);
+    if (
+      ts.isPrefixUnaryExpression(expression) &&
+      expression.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(expression.operand)
+    ) {
+      return -Number(expression.operand.text);
+    }
+    if (expression.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (expression.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (expression.kind === ts.SyntaxKind.NullKeyword) return null;
+
+    if (ts.isArrayLiteralExpression(expression)) {
+      return Promise.all(
+        expression.elements.map((element) =>
+          this.literal(element, sourceFile, scope, depth),
+        ),
+      );
+    }
+
+    if (ts.isObjectLiteralExpression(expression)) {
+      const value: Record<string, unknown> = {};
+      for (const member of expression.properties) {
+        if (ts.isPropertyAssignment(member)) {
+          value[propertyName(member.name, sourceFile)] = await this.literal(
+            member.initializer,
+            sourceFile,
+            scope,
+            depth,
+          );
+        }
+      }
+      return value;
+    }
+
+    return this.convert(expression, sourceFile, scope, depth + 1);
+  }
+}
+
+/**
+ * Convert a TypeBox (or plain JSON Schema) expression to JSON Schema
+ * @param node - Expression, e.g. the `body` of a route's `schema` option
+ * @param sourceFile - File containing the expression
+ * @param resolveName - Resolves identifiers to their declarations
+ * @returns JSON Schema; `{}` where the expression cannot be evaluated
+ */
+export async function convertTypeBox(
+  node: ts.Expression,
+  sourceFile: ts.SourceFile,
+  resolveName: BindingResolver,
+): Promise<JsonSchema> {
+  return new TypeBoxConverter(resolveName).convert(node, sourceFile);
+}
@@ -0,0 +1,306 @@
+/**
+ * Validation Report Formats
+ * Machine-readable renderings of `ValidationReport`s for CI and review tools
+ *
+ * Every report entry becomes a finding with a rule and a severity:
+ * - missing-endpoint (error): documented but not implemented
+ * - method-mismatch (error): implemented with a different method
+ * - schema-mismatch (error, warn for extra fields): TypeBox schema drift
+ * - undocumented-endpoint (warn): implemented but not documented
+ *
+ * Findings render as SARIF 2.1.0 (file/line locations for code scanning) or
+ * JUnit XML (one test case per endpoint); JSON is the reports themselves.
+ */
+
+import type {
+  ApiContract,
+  ValidationReport,
+  ValidationSeverity,
+} from './api-contracts-parser.js';
+import { formatJUnitXml, type JUnitTestSuite } from './junit.js';
+
+/**
+ * Output formats of `aegisx_api_validate` and `validate-contracts`
+ */
+export type ValidationOutputFormat = 'markdown' | 'json' | 'sarif' | 'junit';
+
+/**
+ * Lowest severity that fails validation ('none' never fails)
+ */
+export type ValidationThreshold = ValidationSeverity | 'none';
+
+/**
+ * Kind of validation finding
+ */
+export type ValidationRule =
+  | 'missing-endpoint'
+  | 'undocumented-endpoint'
+  | 'method-mismatch'
+  | 'schema-mismatch';
+
+/**
+ * One problem found by validation
+ */
+export interface ValidationFinding {
+  feature: string;
+  rule: ValidationRule;
+  severity: ValidationSeverity;
+
+  /** Documented method (the implemented one for undocumented routes) */
+  method: string;
+  path: string;
+
+  message: string;
+
+  /** File the finding points at, relative to the codebase root */
+  file?: string;
+  line?: number;
+}
+
+/**
+ * Rule descriptions, as listed in SARIF output
+ */
+export const VALIDATION_RULES: Record<
+  ValidationRule,
+  { name: string; description: string; severity: ValidationSeverity }
+> = {
+  'missing-endpoint': {
+    name: 'MissingEndpoint',
+    description: 'Endpoint is documented but not implemented',
+    severity: 'error',
+  },
+  'undocumented-endpoint': {
+    name: 'UndocumentedEndpoint',
+    description: 'Route is implemented but not documented',
+    severity: 'warn',
+  },
+  'method-mismatch': {
+    name: 'MethodMismatch',
+    description: 'Route uses a different HTTP method than documented',
+    severity: 'error',
+  },
+  'schema-mismatch': {
+    name: 'SchemaMismatch',
+    description: 'Route TypeBox schema differs from the documented contract',
+    severity: 'error',
+  },
+};
+
+/** Severity order for threshold checks */
+const SEVERITY_RANK: Record<ValidationSeverity, number> = {
+  warn: 1,
+  error: 2,
+};
+
+/**
+ * Whether a finding of this severity fails validation
+ * @param severity - Finding severity
+ * @param threshold - Lowest failing severity
+ */
+export function meetsThreshold(
+  severity: ValidationSeverity,
+  threshold: ValidationThreshold,
+): boolean {
+  return (
+    threshold !== 'none' && SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold]
+  );
+}
+
+/**
+ * Flatten validation reports into findings
+ * @param reports - Reports from `validateFeature`/`validateAllFeatures`
+ * @returns Findings in report order
+ */
+export function collectFindings(
+  reports: ValidationReport[],
+): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+
+  for (const report of reports) {
+    const { feature } = report;
+
+    for (const endpoint of report.missing) {
+      findings.push({
+        feature,
+        rule: 'missing-endpoint',
+        severity: VALIDATION_RULES['missing-endpoint'].severity,
+        method: endpoint.method,
+        path: endpoint.path,
+        message: `${endpoint.method} ${endpoint.path} is documented but not implemented (expected in ${endpoint.expectedFile})`,
+        file: endpoint.documentedIn,
+        line: endpoint.line,
+      });
+    }
+
+    for (const mismatch of report.methodMismatches) {
+      findings.push({
+        feature,
+        rule: 'method-mismatch',
+        severity: VALIDATION_RULES['method-mismatch'].severity,
+        method: mismatch.documentedMethod,
+        path: mismatch.path,
+        message: `${mismatch.path} is documented as ${mismatch.documentedMethod} but implemented as ${mismatch.implementedMethod}`,
+        file: mismatch.file,
+        line: mismatch.line,
+      });
+    }
+
+    for (const mismatch of report.schemaMismatches) {
+      findings.push({
+        feature,
+        rule: 'schema-mismatch',
+        // Extra fields are undocumented additions, not broken promises
+        severity: mismatch.kind === 'extra' ? 'warn' : 'error',
+        method: mismatch.method,
+        path: mismatch.path,
+        message: `${mismatch.method} ${mismatch.path} (${mismatch.location}): ${mismatch.message}`,
+        file: mismatch.file,
+        line: mismatch.line,
+      });
+    }
+
+    for (const endpoint of report.undocumented) {
+      findings.push({
+        feature,
+        rule: 'undocumented-endpoint',
+        severity: VALIDATION_RULES['undocumented-endpoint'].severity,
+        method: endpoint.method,
+        path: endpoint.path,
+        message: `${endpoint.method} ${endpoint.path} is implemented but not documented`,
+        file: endpoint.foundIn,
+        line: endpoint.line,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Render reports as JSON (timestamps as ISO strings)
+ */
+export function formatValidationJson(reports: ValidationReport[]): string {
+  return JSON.stringify(reports, null, 2) + '\n';
+}
+
+/**
+ * Render reports as a SARIF 2.1.0 log
+ * Locations are relative to the codebase root (`%SRCROOT%`).
+ *
+ * @param reports - Validation reports
+ * @returns SARIF JSON document
+ */
+export function formatValidationSarif(reports: ValidationReport[]): string {
+  const rules = Object.entries(VALIDATION_RULES).map(([id, rule]) => ({
+    id,
+    name: rule.name,
+    shortDescription: { text: rule.description },
+    defaultConfiguration: { level: sarifLevel(rule.severity) },
+  }));
+
+  const results = collectFindings(reports).map((finding) => ({
+    ruleId: finding.rule,
+    level: sarifLevel(finding.severity),
+    message: { text: finding.message },
+    ...(finding.file && {
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: finding.file.split('\\').join('/'),
+              uriBaseId: '%SRCROOT%',
+            },
+            ...(finding.line && { region: { startLine: finding.line } }),
+          },
+        },
+      ],
+    }),
+    properties: { feature: finding.feature },
+  }));
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: 'aegisx-mcp', rules } },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+/**
+ * SARIF level for a severity
+ */
+function sarifLevel(severity: ValidationSeverity): 'error' | 'warning' {
+  return severity === 'error' ? 'error' : 'warning';
+}
+
+/**
+ * Render reports as JUnit XML
+ * Each documented endpoint is a test case that fails on findings at or above
+ * the threshold; undocumented routes are extra cases, skipped when below it.
+ *
+ * @param reports - Validation reports
+ * @param contracts - Contracts the reports were built from
+ * @param failOn - Lowest severity that fails a test case
+ * @returns JUnit XML document
+ */
+export function formatValidationJUnit(
+  reports: ValidationReport[],
+  contracts: ApiContract[],
+  failOn: ValidationThreshold = 'error',
+): string {
+  const findings = collectFindings(reports);
+
+  const suites: JUnitTestSuite[] = reports.map((report) => {
+    const featureFindings = findings.filter(
+      (finding) => finding.feature === report.feature,
+    );
+    const endpoints = contracts
+      .filter(
+        (contract) =>
+          report.feature === 'all' || contract.feature === report.feature,
+      )
+      .flatMap((contract) => contract.endpoints);
+
+    const documentedCases = endpoints.map((endpoint) => {
+      const failing = featureFindings.filter(
+        (finding) =>
+          finding.rule !== 'undocumented-endpoint' &&
+          finding.method === endpoint.method &&
+          finding.path === endpoint.path &&
+          meetsThreshold(finding.severity, failOn),
+      );
+      return {
+        name: `${endpoint.method} ${endpoint.path}`,
+        classname: endpoint.feature,
+        ...(failing.length > 0 && {
+          failure: {
+            message: failing[0].message,
+            details: failing.map((finding) => finding.message).join('\n'),
+          },
+        }),
+      };
+    });
+
+    const undocumentedCases = featureFindings
+      .filter((finding) => finding.rule === 'undocumented-endpoint')
+      .map((finding) => ({
+        name: `${finding.method} ${finding.path} (undocumented)`,
+        classname: finding.feature,
+        ...(meetsThreshold(finding.severity, failOn)
+          ? { failure: { message: finding.message } }
+          : { skipped: finding.message }),
+      }));
+
+    return {
+      name: `api-validation.${report.feature}`,
+      cases: [...documentedCases, ...undocumentedCases],
+    };
+  });
+
+  return formatJUnitXml(suites);
+}
@@ -0,0 +1,373 @@
+/**
+ * AegisX MCP Prompts
+ * Reusable workflow prompts that clients can offer as slash-commands
+ *
+ * Prompts are assembled from the same data and tools the server exposes,
+ * so the instructions always reference real commands, components and
+ * contracts instead of hand-written examples.
+ */
+
+import { z } from 'zod';
+import { relative } from 'path';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { searchComponents, ComponentInfo } from '../data/components.js';
+import { suggestPatterns } from '../tools/patterns.tool.js';
+import { callTool } from '../tools/index.js';
+import type { ToolResult } from '../tools/index.js';
+import { complete } from '../completions/index.js';
+import { getConfig } from '../config/index.js';
+
+/**
+ * Declarative definition of a single MCP prompt
+ */
+export interface PromptDefinition<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  /** Unique prompt name (e.g., "aegisx_scaffold_crud") */
+  name: string;
+
+  /** Short title shown in slash-command pickers */
+  title: string;
+
+  /** Description shown to the user */
+  description: string;
+
+  /**
+   * Zod raw shape describing prompt arguments (strings only)
+   * Wrap an argument in `completable()` to offer MCP completions.
+   */
+  argsSchema: Shape;
+
+  /** Build the prompt messages */
+  handler(
+    args: z.infer<z.ZodObject<Shape>>,
+  ): GetPromptResult | Promise<GetPromptResult>;
+}
+
+/**
+ * Prompt definition with erased argument types, for heterogeneous lists
+ * `handler` is a method, so a definition with a concrete shape still fits.
+ */
+export type AnyPromptDefinition = PromptDefinition<z.ZodRawShape>;
+
+/**
+ * Define a prompt with argument types inferred from its schema
+ * @param definition - Prompt definition
+ * @returns The same definition, typed
+ */
+export function definePrompt<Shape extends z.ZodRawShape>(
+  definition: PromptDefinition<Shape>,
+): PromptDefinition<Shape> {
+  return definition;
+}
+
+/**
+ * Build a prompt result with a single user message
+ * @param description - Description of the generated prompt
+ * @param text - Prompt text
+ * @returns Prompt result
+ */
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
+
+/**
+ * Join the text blocks of a tool result
+ */
+function toolText(result: ToolResult): string {
+  return result.content.map((c) => c.text).join('\n');
+}
+
+/**
+ * Split a comma/space separated list argument
+ * @param value - Raw argument (e.g., "import, events")
+ * @returns Lowercase items
+ */
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(/[,\s]+/)
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item.length > 0);
+}
+
+// ============ PROMPTS ============
+
+export const allPrompts: AnyPromptDefinition[] = [
+  definePrompt({
+    name: 'aegisx_scaffold_crud',
+    title: 'Scaffold CRUD feature',
+    description:
+      'Scaffold a complete CRUD feature (backend + frontend) for a database table using the AegisX CRUD generator.',
+    argsSchema: {
+      tableName: z
+        .string()
+        .describe('Database table name in snake_case (e.g., "products")'),
+      domain: z
+        .string()
+        .optional()
+        .describe('Domain path for module organization (e.g., "inventory")'),
+      shell: z
+        .string()
+        .optional()
+        .describe('Target shell for the frontend (e.g., "inventory")'),
+      features: z
+        .string()
+        .optional()
+        .describe(
+          'Comma-separated extras: import, events, export, hierarchy (e.g., "import, events")',
+        ),
+    },
+    handler: async ({ tableName, domain, shell, features }) => {
+      const extras = parseList(features);
+      const workflow = await callTool('aegisx_crud_workflow', {
+        tableName,
+        domain,
+        shell,
+        withImport: extras.includes('import'),
+        withEvents: extras.includes('events'),
+        withExport: extras.includes('export'),
+        withHierarchy: extras.includes('hierarchy'),
+      });
+
+      const lines: string[] = [];
+      lines.push(
+        `Scaffold a complete CRUD feature for the \`${tableName}\` table in the AegisX monorepo.`,
+      );
+      lines.push('');
+      lines.push(
+        'Follow the workflow below step by step. Run each command, check its output and fix problems before moving on. If a step fails, use `aegisx_crud_troubleshoot` with the error message.',
+      );
+      lines.push('');
+      lines.push(toolText(workflow));
+      lines.push('');
+      lines.push(
+        'When finished, summarize the generated backend and frontend files and list any manual follow-ups (navigation, permissions, seed data).',
+      );
+
+      return userPrompt(
+        `Scaffold CRUD feature for ${tableName}`,
+        lines.join('\n'),
+      );
+    },
+  }),
+
+  definePrompt({
+    name: 'aegisx_build_list_page',
+    title: 'Build list page',
+    description:
+      'Build an Angular list page for an entity with AegisX UI components and the recommended frontend patterns.',
+    argsSchema: {
+      entity: z
+        .string()
+        .describe(
+          'Entity shown on the page (e.g., "products", "purchase orders")',
+        ),
+      features: z
+        .string()
+        .optional()
+        .describe(
+          'Page requirements (e.g., "filters, pagination, status badge, export")',
+        ),
+    },
+    handler: ({ entity, features }) => {
+      const requirements = parseList(features);
+
+      // Components for a typical list page plus anything the user asked for
+      const queries = ['table', 'list', 'empty', 'loading', ...requirements];
+      const components = new Map<string, ComponentInfo>();
+      for (const query of queries) {
+        for (const component of searchComponents(query)) {
+          components.set(component.selector, component);
+        }
+      }
+      const selected = Array.from(components.values()).slice(0, 12);
+
+      const patterns = suggestPatterns(
+        `angular component ui list ${requirements.join(' ')}`,
+      );
+
+      const lines: string[] = [];
+      lines.push(
+        `Build an Angular list page for **${entity}** in the AegisX admin app.`,
+      );
+      if (requirements.length > 0) {
+        lines.push('');
+        lines.push(`Requirements: ${requirements.join(', ')}`);
+      }
+      lines.push('');
+      lines.push('## Candidate AegisX UI Components');
+      lines.push('');
+      if (selected.length > 0) {
+        for (const component of selected) {
+          lines.push(
+            `- **${component.name}** (\`${component.selector}\`) - ${component.description}`,
+          );
+        }
+      } else {
+        lines.push('- No matching components found; use Angular Material.');
+      }
+      lines.push('');
+      lines.push('## Patterns to Follow');
+      lines.push('');
+      for (const pattern of patterns) {
+        lines.push(`- **${pattern.name}** - ${pattern.description}`);
+      }
+      lines.push('');
+      lines.push('## Instructions');
+      lines.push('');
+      lines.push(
+        '1. Call `aegisx_components_get` for each component you use and follow its inputs, outputs and best practices.',
+      );
+      lines.push(
+        '2. Call `aegisx_patterns_get` for each pattern and match its structure (signals, standalone components, HTTP service).',
+      );
+      lines.push(
+        '3. Prefer AegisX UI components over custom markup; use design tokens from `aegisx://design-tokens` for spacing and colors.',
+      );
+      lines.push(
+        '4. Handle loading, empty and error states, and keep data access in a service.',
+      );
+
+      return userPrompt(`Build list page for ${entity}`, lines.join('\n'));
+    },
+  }),
+
+  definePrompt({
+    name: 'aegisx_document_api',
+    title: 'Document and validate API feature',
+    description:
+      'Write or update the API contract for a feature from its route files, then validate the implementation against it.',
+    argsSchema: {
+      feature: completable(
+        z
+          .string()
+          .describe(
+            'Feature name as in docs/features/<feature> (e.g., "rbac")',
+          ),
+        complete.feature,
+      ),
+    },
+    handler: async ({ feature }) => {
+      const contract = await callTool('aegisx_api_list', { feature });
+      const { codebaseRoot, docsPath, routeGlobs } = getConfig();
+      const contractFile = `${relative(codebaseRoot, docsPath) || '.'}/${feature}/API_CONTRACTS.md`;
+
+      const lines: string[] = [];
+      lines.push(
+        `Document and validate the API of the \`${feature}\` feature.`,
+      );
+      lines.push('');
+
+      if (contract.isError) {
+        lines.push('## Current Contract');
+        lines.push('');
+        lines.push(
+          `No contract is documented yet. Create \`${contractFile}\`.`,
+        );
+      } else {
+        const validation = await callTool('aegisx_api_validate', { feature });
+        lines.push('## Current Contract');
+        lines.push('');
+        lines.push(toolText(contract));
+        lines.push('');
+        lines.push('## Current Validation');
+        lines.push('');
+        lines.push(toolText(validation));
+      }
+
+      lines.push('');
+      lines.push('## Instructions');
+      lines.push('');
+      lines.push(
+        `1. Read the route files for \`${feature}\` (matching ${routeGlobs.map((glob) => `\`${glob}\``).join(', ')}) and their TypeBox schemas.`,
+      );
+      lines.push(
+        `2. Update \`${contractFile}\`: an "API Overview" with base URL, authentication and content type, then one \`### N. Title\` section per endpoint with \`**METHOD** \\\`/path\\\`\`, description, parameters, request/response schemas (TypeScript) and examples.`,
+      );
+      lines.push(
+        '3. Document every missing and undocumented endpoint from the validation report, and fix method mismatches in whichever side is wrong.',
+      );
+      lines.push(
+        `4. Run \`aegisx_api_validate\` with feature="${feature}" again until it reports no problems.`,
+      );
+
+      return userPrompt(
+        `Document and validate ${feature} API`,
+        lines.join('\n'),
+      );
+    },
+  }),
+
+  definePrompt({
+    name: 'aegisx_debug_endpoint',
+    title: 'Debug failing endpoint',
+    description:
+      'Debug a failing API endpoint by comparing live responses with its documented contract.',
+    argsSchema: {
+      path: completable(
+        z
+          .string()
+          .describe('Endpoint path (e.g., "/api/profile", "/api/users/:id")'),
+        complete.endpointPath,
+      ),
+      method: z
+        .enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+        .optional()
+        .describe('HTTP method'),
+      error: z
+        .string()
+        .optional()
+        .describe('Observed error message or status code'),
+    },
+    handler: async ({ path, method, error }) => {
+      const endpoint = await callTool('aegisx_api_get', { path, method });
+      const label = `${method ? method + ' ' : ''}${path}`;
+
+      const lines: string[] = [];
+      lines.push(`Debug the failing endpoint \`${label}\`.`);
+      if (error) {
+        lines.push('');
+        lines.push(`Observed error: ${error}`);
+      }
+      lines.push('');
+      lines.push('## Documented Contract');
+      lines.push('');
+      lines.push(
+        endpoint.isError
+          ? `${toolText(endpoint)}\n\nThe endpoint has no documented contract; infer expected behavior from the route file.`
+          : toolText(endpoint),
+      );
+      lines.push('');
+      lines.push('## Instructions');
+      lines.push('');
+      lines.push(
+        '1. Check `aegisx_auth_status`; log in with `aegisx_auth_login` if the endpoint requires authentication.',
+      );
+      lines.push(
+        `2. Reproduce the failure with \`aegisx_api_request\` (method ${method ?? 'from the contract'}, path "${path}") using the documented request example.`,
+      );
+      lines.push(
+        '3. Compare status code, response shape and error format with the contract above and the `aegisx://api-reference` conventions.',
+      );
+      lines.push(
+        '4. Locate the route, controller, service and repository for this path and find the root cause; check the API server logs.',
+      );
+      lines.push(
+        '5. Fix the code (or the contract if the docs are wrong), then repeat the request and review `aegisx_api_history` to confirm.',
+      );
+
+      return userPrompt(`Debug ${label}`, lines.join('\n'));
+    },
+  }),
+];
+
+/**
+ * Find a prompt definition by name
+ * @param name - Prompt name
+ * @returns Prompt definition or undefined
+ */
+export function getPrompt(name: string): AnyPromptDefinition | undefined {
+  return allPrompts.find((prompt) => prompt.name === name);
+}
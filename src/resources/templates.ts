@@ -0,0 +1,364 @@
+/**
+ * AegisX MCP Resource Templates
+ * Per-item resources for components, patterns, CLI commands and API contracts
+ *
+ * Unlike the static guides in `index.ts`, these URIs address a single
+ * component, pattern, command or endpoint, so clients can attach exactly the
+ * docs they need as context.
+ */
+
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { getAllComponents, getComponentByName } from '../data/components.js';
+import { getAllPatterns, getPatternByName } from '../data/patterns.js';
+import { getCommand, CommandInfo } from '../data/crud-commands.js';
+import { getCommandToolSpecs } from '../data/command-registry.js';
+import {
+  getAllContracts,
+  findEndpoint,
+  ApiContract,
+  ApiEndpoint,
+} from '../data/api-contracts-parser.js';
+import type { ContractChangeEvent } from '../data/contract-watcher.js';
+import type { SearchEntry } from '../data/search.js';
+import { formatComponentDetail } from '../tools/components.tool.js';
+import { formatPatternDetail } from '../tools/patterns.tool.js';
+import {
+  formatContractList,
+  formatEndpointDetail,
+  getDocsPath,
+} from '../tools/api-contracts.tool.js';
+import {
+  complete,
+  commandCandidates,
+  componentCandidates,
+  patternCandidates,
+} from '../completions/index.js';
+import { didYouMean, formatDidYouMean } from '../utils/fuzzy-match.js';
+
+/**
+ * Completion callback for one URI template variable
+ * `context.arguments` holds variables the client has already filled in.
+ */
+export type CompleteVariable = (
+  value: string,
+  context?: { arguments?: Record<string, string> },
+) => string[] | Promise<string[]>;
+
+/**
+ * Declarative definition of a resource template
+ */
+export interface ResourceTemplateDefinition {
+  /** Unique template name (e.g., "component") */
+  name: string;
+
+  /** Human-readable title */
+  title: string;
+
+  /** RFC 6570 URI template (e.g., "aegisx://components/{selector}") */
+  uriTemplate: string;
+
+  /** Description shown to clients */
+  description: string;
+
+  /** List every concrete resource matching the template */
+  list: () => Resource[] | Promise<Resource[]>;
+
+  /** Completion callbacks keyed by variable name */
+  complete: Record<string, CompleteVariable>;
+
+  /**
+   * Render the resource as markdown
+   * Variables arrive URI-decoded. Throws when nothing matches.
+   */
+  read: (variables: Record<string, string>) => string | Promise<string>;
+}
+
+/**
+ * Build a markdown resource entry
+ */
+function markdownResource(
+  uri: string,
+  name: string,
+  description: string,
+): Resource {
+  return { uri, name, description, mimeType: 'text/markdown' };
+}
+
+/**
+ * URI for a single endpoint; the path is encoded into one segment
+ * e.g. aegisx://api/rbac/GET/%2Fapi%2Frbac%2Froles
+ */
+export function endpointUri(endpoint: ApiEndpoint): string {
+  return `aegisx://api/${encodeURIComponent(endpoint.feature)}/${endpoint.method}/${encodeURIComponent(endpoint.path)}`;
+}
+
+/**
+ * URIs of the API contract resources a contract change affects
+ * @param event - Change reported by the contract watcher
+ * @returns Feature and endpoint resource URIs
+ */
+export function contractResourceUris(event: ContractChangeEvent): string[] {
+  return [
+    ...event.features.map((f) => `aegisx://api/${encodeURIComponent(f)}`),
+    ...event.endpoints.map(endpointUri),
+  ];
+}
+
+/**
+ * URI of the resource for a search result
+ * @param entry - Component, pattern, command or endpoint from `searchAll()`
+ * @returns Resource URI
+ */
+export function searchEntryUri(entry: SearchEntry): string {
+  switch (entry.type) {
+    case 'component':
+      return `aegisx://components/${entry.component.selector}`;
+    case 'pattern':
+      return `aegisx://patterns/${encodeURIComponent(entry.pattern.name)}`;
+    case 'command':
+      return `aegisx://commands/${encodeURIComponent(entry.command.commandPath)}`;
+    case 'endpoint':
+      return endpointUri(entry.endpoint);
+  }
+}
+
+/**
+ * Find the contract for a feature (case-insensitive)
+ */
+function findContract(
+  contracts: ApiContract[],
+  feature: string,
+): ApiContract | undefined {
+  return contracts.find(
+    (c) => c.feature.toLowerCase() === feature.toLowerCase(),
+  );
+}
+
+/**
+ * Resolve a CLI command by command path ("templates add") or metadata name
+ * @returns Display title and metadata, or undefined
+ */
+function resolveCommand(
+  name: string,
+): { title: string; command: CommandInfo } | undefined {
+  const spec = getCommandToolSpecs().find(
+    (s) => s.commandPath.toLowerCase() === name.toLowerCase(),
+  );
+  if (spec) {
+    return { title: spec.commandPath, command: spec.command };
+  }
+  const command = getCommand(name);
+  return command ? { title: command.name, command } : undefined;
+}
+
+/**
+ * Format CLI command metadata as markdown
+ */
+function formatCommandInfo(title: string, command: CommandInfo): string {
+  const lines: string[] = [];
+
+  lines.push(`# ${title}`);
+  lines.push('');
+  lines.push(command.description);
+  lines.push('');
+  lines.push('## Usage');
+  lines.push('```bash');
+  lines.push(command.usage);
+  lines.push('```');
+  lines.push('');
+
+  if (command.options.length > 0) {
+    lines.push('## Options');
+    lines.push('| Option | Type | Default | Description |');
+    lines.push('|--------|------|---------|-------------|');
+    for (const option of command.options) {
+      const flag = option.alias
+        ? `\`--${option.name}\`, \`-${option.alias}\``
+        : `\`--${option.name}\``;
+      const choices = option.choices ? ` (${option.choices.join(', ')})` : '';
+      lines.push(
+        `| ${flag} | ${option.type} | ${option.default ?? '-'} | ${option.description}${choices} |`,
+      );
+    }
+    lines.push('');
+  }
+
+  if (command.examples.length > 0) {
+    lines.push('## Examples');
+    lines.push('```bash');
+    lines.push(...command.examples);
+    lines.push('```');
+    lines.push('');
+  }
+
+  if (command.notes && command.notes.length > 0) {
+    lines.push('## Notes');
+    for (const note of command.notes) {
+      lines.push(note.startsWith('-') ? note : `- ${note}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+// ============ TEMPLATES ============
+
+export const resourceTemplates: ResourceTemplateDefinition[] = [
+  {
+    name: 'component',
+    title: 'AegisX UI Component',
+    uriTemplate: 'aegisx://components/{selector}',
+    description:
+      'API documentation for one AegisX UI component: inputs, outputs, usage and best practices',
+    list: () =>
+      getAllComponents().map((c) =>
+        markdownResource(
+          `aegisx://components/${c.selector}`,
+          c.name,
+          c.description,
+        ),
+      ),
+    complete: {
+      selector: complete.componentSelector,
+    },
+    read: ({ selector }) => {
+      const component = getComponentByName(selector);
+      if (!component) {
+        throw new Error(
+          `Component not found: ${selector}${formatDidYouMean(didYouMean(selector, componentCandidates()))}`,
+        );
+      }
+      return formatComponentDetail(component);
+    },
+  },
+
+  {
+    name: 'pattern',
+    title: 'AegisX Development Pattern',
+    uriTemplate: 'aegisx://patterns/{name}',
+    description: 'One development pattern with its complete code example',
+    list: () =>
+      getAllPatterns().map((p) =>
+        markdownResource(
+          `aegisx://patterns/${encodeURIComponent(p.name)}`,
+          p.name,
+          p.description,
+        ),
+      ),
+    complete: {
+      name: complete.pattern,
+    },
+    read: ({ name }) => {
+      const pattern = getPatternByName(name);
+      if (!pattern) {
+        throw new Error(
+          `Pattern not found: ${name}${formatDidYouMean(didYouMean(name, patternCandidates()))}`,
+        );
+      }
+      return formatPatternDetail(pattern);
+    },
+  },
+
+  {
+    name: 'command',
+    title: 'AegisX CLI Command',
+    uriTemplate: 'aegisx://commands/{name}',
+    description:
+      'Usage, options, examples and notes for one AegisX CLI command',
+    list: () =>
+      getCommandToolSpecs().map((spec) =>
+        markdownResource(
+          `aegisx://commands/${encodeURIComponent(spec.commandPath)}`,
+          spec.commandPath,
+          spec.command.description,
+        ),
+      ),
+    complete: {
+      name: complete.command,
+    },
+    read: ({ name }) => {
+      const resolved = resolveCommand(name);
+      if (!resolved) {
+        throw new Error(
+          `Command not found: ${name}${formatDidYouMean(didYouMean(name, commandCandidates()))}`,
+        );
+      }
+      return formatCommandInfo(resolved.title, resolved.command);
+    },
+  },
+
+  {
+    name: 'api-contract',
+    title: 'API Contract (feature)',
+    uriTemplate: 'aegisx://api/{feature}',
+    description: 'All documented endpoints of one API feature',
+    list: async () => {
+      const contracts = await getAllContracts(getDocsPath());
+      return contracts.map((c) =>
+        markdownResource(
+          `aegisx://api/${encodeURIComponent(c.feature)}`,
+          c.feature,
+          `${c.endpoints.length} endpoints under ${c.baseUrl || '/api'}`,
+        ),
+      );
+    },
+    complete: {
+      feature: complete.feature,
+    },
+    read: async ({ feature }) => {
+      const contracts = await getAllContracts(getDocsPath());
+      const contract = findContract(contracts, feature);
+      if (!contract) {
+        const features = contracts.map((c) => c.feature);
+        throw new Error(
+          `API contract not found for feature: ${feature}${formatDidYouMean(didYouMean(feature, features))}`,
+        );
+      }
+      return formatContractList([contract]);
+    },
+  },
+
+  {
+    name: 'api-endpoint',
+    title: 'API Contract (endpoint)',
+    uriTemplate: 'aegisx://api/{feature}/{method}/{path}',
+    description:
+      'Full contract for one endpoint; the path is URI-encoded (e.g. aegisx://api/rbac/GET/%2Fapi%2Frbac%2Froles)',
+    list: async () => {
+      const contracts = await getAllContracts(getDocsPath());
+      return contracts.flatMap((c) =>
+        c.endpoints.map((e) =>
+          markdownResource(
+            endpointUri(e),
+            `${e.method} ${e.path}`,
+            e.description,
+          ),
+        ),
+      );
+    },
+    complete: {
+      feature: complete.feature,
+      method: complete.method,
+      path: complete.endpointPath,
+    },
+    read: async ({ feature, method, path }) => {
+      const contracts = await getAllContracts(getDocsPath());
+      const contract = findContract(contracts, feature);
+      const endpoint = contract
+        ? findEndpoint(
+            [contract],
+            path,
+            method.toUpperCase() as ApiEndpoint['method'],
+          )
+        : null;
+      if (!endpoint) {
+        const paths = contract?.endpoints.map((e) => e.path) ?? [];
+        throw new Error(
+          `Endpoint not found: ${method} ${path} in ${feature}${formatDidYouMean(didYouMean(path, paths))}`,
+        );
+      }
+      return formatEndpointDetail(endpoint);
+    },
+  },
+];
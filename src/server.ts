@@ -0,0 +1,164 @@
+/**
+ * AegisX MCP Server Factory
+ * Builds a fully registered MCP server instance
+ *
+ * A fresh instance is created per client session so that session-scoped
+ * state (auth token, request history) is isolated between clients when
+ * the server is shared over HTTP.
+ */
+
+import {
+  McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { resolve } from 'path';
+import { allTools, createToolContext } from './tools/index.js';
+import { allPrompts } from './prompts/index.js';
+import { registerResources, handleResourceRead } from './resources/index.js';
+import {
+  contractResourceUris,
+  resourceTemplates,
+} from './resources/templates.js';
+import { getDocsPath } from './tools/api-contracts.tool.js';
+import { getWorkspaces } from './config/index.js';
+import { watchContracts } from './data/contract-watcher.js';
+
+/**
+ * Create a new MCP server with all tools, prompts and resources registered
+ */
+export function createServer(): McpServer {
+  // Each server instance is bound to exactly one client session
+  const server = new McpServer({
+    name: 'aegisx-mcp',
+    version: '1.0.0',
+  });
+  const context = createToolContext();
+
+  // ============ TOOLS ============
+
+  for (const tool of allTools) {
+    server.registerTool(
+      tool.name,
+      {
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema,
+        annotations: tool.annotations,
+      },
+      async (args: Record<string, unknown>) => ({
+        ...(await tool.handler(args, context)),
+      }),
+    );
+  }
+
+  // ============ PROMPTS ============
+
+  for (const prompt of allPrompts) {
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: prompt.argsSchema,
+      },
+      async (args: Record<string, unknown>) => prompt.handler(args),
+    );
+  }
+
+  // ============ RESOURCES ============
+
+  const resources = registerResources();
+  for (const resource of resources) {
+    server.registerResource(
+      resource.name,
+      resource.uri,
+      { description: resource.description, mimeType: resource.mimeType },
+      async () => {
+        const result = handleResourceRead(resource.uri);
+        return {
+          contents: result.contents.map((c) => ({
+            uri: c.uri,
+            mimeType: c.mimeType as 'text/markdown',
+            text: c.text,
+          })),
+        };
+      },
+    );
+  }
+
+  // ============ RESOURCE TEMPLATES ============
+
+  for (const template of resourceTemplates) {
+    server.registerResource(
+      template.name,
+      new ResourceTemplate(template.uriTemplate, {
+        list: async () => ({ resources: await template.list() }),
+        complete: template.complete,
+      }),
+      {
+        title: template.title,
+        description: template.description,
+        mimeType: 'text/markdown',
+      },
+      async (uri, variables) => {
+        // Template variables arrive percent-encoded
+        const decoded: Record<string, string> = {};
+        for (const [key, value] of Object.entries(variables)) {
+          decoded[key] = decodeURIComponent(
+            Array.isArray(value) ? value[0] : value,
+          );
+        }
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'text/markdown',
+              text: await template.read(decoded),
+            },
+          ],
+        };
+      },
+    );
+  }
+
+  // ============ CONTRACT WATCHING ============
+
+  // Resource URIs address the default workspace; other workspaces are
+  // watched only to keep their contract cache fresh
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true },
+  });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const defaultDocsPath = resolve(getDocsPath());
+  const docsPaths = new Set(
+    getWorkspaces().map((w) => resolve(w.config.docsPath)),
+  );
+  const stopWatching = Array.from(docsPaths).map((docsPath) =>
+    watchContracts(docsPath, (event) => {
+      if (event.docsPath !== defaultDocsPath || !server.isConnected()) return;
+
+      for (const uri of contractResourceUris(event)) {
+        if (subscriptions.has(uri)) {
+          server.server.sendResourceUpdated({ uri }).catch(() => {});
+        }
+      }
+      if (event.listChanged) server.sendResourceListChanged();
+    }),
+  );
+  server.server.onclose = () => stopWatching.forEach((stop) => stop());
+
+  return server;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { callTool } from '../index.js';
+
+describe('aegisx_crud_build_command', () => {
+  it('builds the generate command from the synced options', async () => {
+    const result = await callTool('aegisx_crud_build_command', {
+      tableName: 'products',
+      withImport: true,
+      dryRun: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({
+      command: './bin/cli.js generate products --dry-run --with-import',
+      dryRun: true,
+    });
+  });
+
+  it('adds --with-hierarchy on top of the synced options', async () => {
+    const result = await callTool('aegisx_crud_build_command', {
+      tableName: 'categories',
+      withHierarchy: true,
+      target: 'frontend',
+    });
+    const { command, prerequisites } = result.structuredContent as {
+      command: string;
+      prerequisites: string[];
+    };
+
+    expect(command).toMatch(
+      /^\.\/bin\/cli\.js generate categories .*--with-hierarchy$/,
+    );
+    expect(prerequisites[0]).toContain('--with-hierarchy');
+  });
+});
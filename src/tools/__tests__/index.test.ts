@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { allTools, callTool, createToolContext, getTool } from '../index.js';
+import { createServer } from '../../server.js';
+
+const DOCS_PATH = fileURLToPath(
+  new URL('../../data/__tests__/fixtures/docs', import.meta.url),
+);
+
+beforeEach(() => {
+  vi.stubEnv('AEGISX_DOCS_PATH', DOCS_PATH);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('allTools', () => {
+  it('has unique, prefixed names', () => {
+    const names = allTools.map((tool) => tool.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    expect(names.every((name) => name.startsWith('aegisx_'))).toBe(true);
+  });
+
+  it('declares a description, zod input shape and output schema', () => {
+    for (const tool of allTools) {
+      expect(tool.description, tool.name).not.toBe('');
+      expect(() => z.object(tool.inputSchema), tool.name).not.toThrow();
+      expect(tool.outputSchema, tool.name).toBeDefined();
+    }
+  });
+});
+
+describe('getTool', () => {
+  it('finds a tool by name', () => {
+    expect(getTool('aegisx_components_get')?.name).toBe(
+      'aegisx_components_get',
+    );
+    expect(getTool('aegisx_nope')).toBeUndefined();
+  });
+});
+
+describe('callTool', () => {
+  it('reports an unknown tool as an error result', async () => {
+    const result = await callTool('aegisx_nope', {});
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Unknown tool: aegisx_nope');
+  });
+
+  it('validates arguments against the input schema', async () => {
+    await expect(callTool('aegisx_components_get', {})).rejects.toThrow(
+      z.ZodError,
+    );
+  });
+
+  it('returns structured content matching the output schema', async () => {
+    const tool = getTool('aegisx_components_get')!;
+    const result = await callTool('aegisx_components_get', {
+      name: 'Badge',
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(() =>
+      z.object(tool.outputSchema!).parse(result.structuredContent),
+    ).not.toThrow();
+  });
+
+  it('keeps API testing state in the given context', async () => {
+    const context = createToolContext();
+    context.apiTesting.authState.token = 'token';
+
+    const loggedIn = await callTool('aegisx_auth_logout', {}, context);
+    const fresh = await callTool('aegisx_auth_logout', {});
+
+    expect(loggedIn.structuredContent).toEqual({ wasLoggedIn: true });
+    expect(context.apiTesting.authState.token).toBeNull();
+    expect(fresh.structuredContent).toEqual({ wasLoggedIn: false });
+  });
+});
+
+describe('createServer', () => {
+  it('registers every tool with its schemas', async () => {
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    const server = createServer();
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    try {
+      const { tools } = await client.listTools();
+      expect(tools.map((tool) => tool.name)).toEqual(
+        allTools.map((tool) => tool.name),
+      );
+      expect(
+        tools.find((tool) => tool.name === 'aegisx_components_get'),
+      ).toMatchObject({
+        inputSchema: { required: ['name'] },
+        outputSchema: { type: 'object' },
+        annotations: { readOnlyHint: true },
+      });
+
+      const result = await client.callTool({
+        name: 'aegisx_components_get',
+        arguments: { name: 'Badge' },
+      });
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        component: { name: 'Badge' },
+      });
+    } finally {
+      await client.close();
+    }
+  });
+});
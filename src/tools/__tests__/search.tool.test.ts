@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'url';
+import { callTool } from '../index.js';
+import { getAllComponents } from '../../data/components.js';
+import { getAllPatterns } from '../../data/patterns.js';
+
+const DOCS_PATH = fileURLToPath(
+  new URL('../../data/__tests__/fixtures/docs', import.meta.url),
+);
+
+beforeEach(() => {
+  vi.stubEnv('AEGISX_DOCS_PATH', DOCS_PATH);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('aegisx_search', () => {
+  it('ranks endpoints, components and patterns together', async () => {
+    const result = await callTool('aegisx_search', {
+      query: 'role permissions',
+    });
+    const { results } = result.structuredContent as {
+      results: Array<{ type: string; name: string; uri: string }>;
+    };
+
+    expect(result.isError).toBeFalsy();
+    expect(results[0]).toMatchObject({
+      type: 'endpoint',
+      name: 'PUT /api/rbac/roles/:id/permissions',
+    });
+    expect(results[0].uri).toMatch(/^aegisx:\/\/api\/rbac\//);
+  });
+
+  it('limits results to the requested kinds', async () => {
+    const result = await callTool('aegisx_search', {
+      query: 'badge',
+      types: ['component'],
+      limit: 3,
+    });
+    const { results } = result.structuredContent as {
+      results: Array<{ type: string; name: string }>;
+    };
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.length).toBeLessThanOrEqual(3);
+    expect(results.every((r) => r.type === 'component')).toBe(true);
+  });
+
+  it('rejects an empty query', async () => {
+    const result = await callTool('aegisx_search', { query: '  ' });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('aegisx_api_search', () => {
+  it('ranks endpoints by their heading, path and schemas', async () => {
+    const result = await callTool('aegisx_api_search', {
+      query: 'create role',
+    });
+    const { endpoints } = result.structuredContent as {
+      endpoints: Array<{ method: string; path: string }>;
+    };
+
+    expect(endpoints[0]).toMatchObject({
+      method: 'POST',
+      path: '/api/rbac/roles',
+    });
+  });
+
+  it('rejects an empty query', async () => {
+    const result = await callTool('aegisx_api_search', { query: '' });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('aegisx_components_search', () => {
+  it('lists every component for an empty query', async () => {
+    const result = await callTool('aegisx_components_search', { query: '' });
+    expect(result.structuredContent?.total).toBe(getAllComponents().length);
+  });
+
+  it('finds components by partial words', async () => {
+    const result = await callTool('aegisx_components_search', {
+      query: 'bad',
+    });
+    const { components } = result.structuredContent as {
+      components: Array<{ name: string }>;
+    };
+    expect(components.map((c) => c.name)).toContain('Badge');
+  });
+});
+
+describe('aegisx_patterns_search', () => {
+  it('lists every pattern for an empty query', async () => {
+    const result = await callTool('aegisx_patterns_search', { query: '' });
+    expect(result.structuredContent?.total).toBe(getAllPatterns().length);
+  });
+
+  it('tolerates typos', async () => {
+    const result = await callTool('aegisx_patterns_search', {
+      query: 'migraton',
+    });
+    const { patterns } = result.structuredContent as {
+      patterns: Array<{ name: string }>;
+    };
+    expect(patterns[0].name).toMatch(/Migration/);
+  });
+});
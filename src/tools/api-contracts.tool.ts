@@ -3,6 +3,8 @@
  * MCP tool handlers for discovering and exploring API contract documentation
  */
 
+import { promises as fs } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
 import type {
   ApiEndpoint,
   ApiContract,
@@ -15,8 +17,53 @@ import {
   findEndpoint,
   validateFeature,
   validateAllFeatures,
+  clearContractCache,
 } from '../data/api-contracts-parser.js';
-import { resolve } from 'path';
+import { buildOpenApiDocument, serializeOpenApi } from '../data/openapi.js';
+import type { JsonSchema } from '../data/schema-compiler.js';
+import { importOpenApi, loadOpenApiDocument } from '../data/openapi-import.js';
+import { formatContractMarkdown } from '../data/api-contracts-writer.js';
+import { generateAngularClient } from '../data/angular-client.js';
+import { lintContract, type LintIssue } from '../data/contract-linter.js';
+import {
+  computeContractCoverage,
+  formatCoverageReport,
+} from '../data/contract-coverage.js';
+import { discoverRoutes } from '../data/route-discovery.js';
+import {
+  diffContracts,
+  formatContractChangelog,
+  loadContractsAtRef,
+} from '../data/contract-diff.js';
+import {
+  collectFindings,
+  formatValidationJUnit,
+  formatValidationJson,
+  formatValidationSarif,
+} from '../data/validation-formats.js';
+import { z } from 'zod';
+import {
+  CONFIG_FILE_NAME,
+  getConfig,
+  workspaceArgShape,
+} from '../config/index.js';
+import {
+  defineTool,
+  errorResult,
+  structuredResult,
+} from './tool-definition.js';
+import {
+  apiContractSummarySchema,
+  apiEndpointSchema,
+  apiEndpointSummarySchema,
+  contractChangeSchema,
+  contractLintReportSchema,
+  featureCoverageSchema,
+  httpMethodSchema,
+  validationFindingSchema,
+  validationReportSchema,
+} from './output-schemas.js';
+import { didYouMean, formatDidYouMean } from '../utils/fuzzy-match.js';
 
 /**
  * Format endpoint as brief one-line summary
@@ -27,11 +74,23 @@ function formatEndpointBrief(endpoint: ApiEndpoint): string {
   return `- **${endpoint.method}** \`${endpoint.path}\` ${authBadge} - ${endpoint.description}`;
 }
 
+/**
+ * Append a compiled JSON Schema below its TypeScript source
+ */
+function pushJsonSchema(lines: string[], schema: JsonSchema | undefined): void {
+  if (!schema) return;
+  lines.push('**JSON Schema:**');
+  lines.push('```json');
+  lines.push(JSON.stringify(schema, null, 2));
+  lines.push('```');
+  lines.push('');
+}
+
 /**
  * Format endpoint with complete detailed information
  * Includes method, path, description, schemas, examples, parameters, and error responses
  */
-function formatEndpointDetail(endpoint: ApiEndpoint): string {
+export function formatEndpointDetail(endpoint: ApiEndpoint): string {
   const lines: string[] = [];
 
   // Header
@@ -88,6 +147,7 @@ function formatEndpointDetail(endpoint: ApiEndpoint): string {
     lines.push(endpoint.requestSchema);
     lines.push('```');
     lines.push('');
+    pushJsonSchema(lines, endpoint.requestJsonSchema);
   }
 
   // Request example
@@ -106,6 +166,7 @@ function formatEndpointDetail(endpoint: ApiEndpoint): string {
     lines.push(endpoint.responseSchema);
     lines.push('```');
     lines.push('');
+    pushJsonSchema(lines, endpoint.responseJsonSchema);
   }
 
   // Response example
@@ -138,7 +199,7 @@ function formatEndpointDetail(endpoint: ApiEndpoint): string {
  * Format contract list grouped by feature
  * Shows all endpoints with brief format
  */
-function formatContractList(contracts: ApiContract[]): string {
+export function formatContractList(contracts: ApiContract[]): string {
   const lines: string[] = [];
 
   // Count total endpoints
@@ -188,9 +249,23 @@ function formatContractList(contracts: ApiContract[]): string {
   return lines.join('\n');
 }
 
+/**
+ * Format "file:line" for route locations
+ */
+function formatLocation(file: string, line?: number): string {
+  return line ? `${file}:${line}` : file;
+}
+
+/**
+ * Format a schema type for a table cell (unions contain pipes)
+ */
+function formatTableType(type?: string): string {
+  return type ? `\`${type.replace(/\|/g, '\\|')}\`` : '-';
+}
+
 /**
  * Format validation report as markdown
- * Shows summary, matched endpoints, missing endpoints, undocumented endpoints, and method mismatches
+ * Shows summary, matched endpoints, missing endpoints, undocumented endpoints, method mismatches and schema mismatches
  */
 function formatValidationReport(report: ValidationReport): string {
   const lines: string[] = [];
@@ -216,6 +291,7 @@ function formatValidationReport(report: ValidationReport): string {
     `- **Undocumented (Implemented but Not Documented):** ${report.undocumented.length}`,
   );
   lines.push(`- **Method Mismatches:** ${report.methodMismatches.length}`);
+  lines.push(`- **Schema Mismatches:** ${report.schemaMismatches.length}`);
   lines.push('');
 
   // Missing endpoints
@@ -240,7 +316,7 @@ function formatValidationReport(report: ValidationReport): string {
     lines.push('|--------|------|----------|');
     for (const endpoint of report.undocumented) {
       lines.push(
-        `| \`${endpoint.method}\` | \`${endpoint.path}\` | \`${endpoint.foundIn}\` |`,
+        `| \`${endpoint.method}\` | \`${endpoint.path}\` | \`${formatLocation(endpoint.foundIn, endpoint.line)}\` |`,
       );
     }
     lines.push('');
@@ -254,7 +330,25 @@ function formatValidationReport(report: ValidationReport): string {
     lines.push('|------|-------------------|-------------------|------|');
     for (const mismatch of report.methodMismatches) {
       lines.push(
-        `| \`${mismatch.path}\` | \`${mismatch.documentedMethod}\` | \`${mismatch.implementedMethod}\` | \`${mismatch.file}\` |`,
+        `| \`${mismatch.path}\` | \`${mismatch.documentedMethod}\` | \`${mismatch.implementedMethod}\` | \`${formatLocation(mismatch.file, mismatch.line)}\` |`,
+      );
+    }
+    lines.push('');
+  }
+
+  // Schema mismatches
+  if (report.schemaMismatches.length > 0) {
+    lines.push('## Schema Mismatches (Contract vs TypeBox)');
+    lines.push('');
+    lines.push(
+      '| Endpoint | Location | Field | Issue | Documented | Implemented | File |',
+    );
+    lines.push(
+      '|----------|----------|-------|-------|------------|-------------|------|',
+    );
+    for (const mismatch of report.schemaMismatches) {
+      lines.push(
+        `| \`${mismatch.method} ${mismatch.path}\` | ${mismatch.location} | \`${mismatch.field || '(root)'}\` | ${mismatch.kind} | ${formatTableType(mismatch.documented)} | ${formatTableType(mismatch.implemented)} | \`${formatLocation(mismatch.file, mismatch.line)}\` |`,
       );
     }
     lines.push('');
@@ -264,6 +358,7 @@ function formatValidationReport(report: ValidationReport): string {
   if (
     report.missing.length === 0 &&
     report.methodMismatches.length === 0 &&
+    report.schemaMismatches.length === 0 &&
     report.undocumented.length === 0
   ) {
     lines.push('## Status');
@@ -276,115 +371,213 @@ function formatValidationReport(report: ValidationReport): string {
 }
 
 /**
- * Main handler for API contract tools
- * Routes requests to appropriate logic based on tool name
+ * Format text as inline code, fencing with double backticks when it has one
+ */
+function formatInlineCode(text: string): string {
+  return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+/**
+ * Format contract lint results as markdown
+ * One table per file with issues: line, severity, rule, message and fix
+ */
+function formatLintReports(
+  reports: { feature: string; filePath: string; issues: LintIssue[] }[],
+): string {
+  const lines: string[] = [];
+  const issues = reports.flatMap((report) => report.issues);
+  const errors = issues.filter((issue) => issue.severity === 'error').length;
+
+  lines.push('# API Contract Lint Report');
+  lines.push('');
+  lines.push(`- **Files:** ${reports.length}`);
+  lines.push(`- **Errors:** ${errors}`);
+  lines.push(`- **Warnings:** ${issues.length - errors}`);
+  lines.push('');
+
+  for (const report of reports) {
+    lines.push(`## ${report.feature} (\`${report.filePath}\`)`);
+    lines.push('');
+
+    if (report.issues.length === 0) {
+      lines.push('✅ No issues found');
+      lines.push('');
+      continue;
+    }
+
+    lines.push('| Line | Severity | Rule | Issue | Suggested Fix |');
+    lines.push('|------|----------|------|-------|---------------|');
+    for (const issue of report.issues) {
+      const fix = issue.fix?.replacement
+        ? formatInlineCode(issue.fix.replacement)
+        : (issue.fix?.description ?? '-');
+      lines.push(
+        `| ${issue.line} | ${issue.severity} | ${issue.rule} | ${issue.message.replace(/\|/g, '\\|')} | ${fix.replace(/\|/g, '\\|')} |`,
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Contract docs location (`docsPath` from the project config)
+ * @param workspace - Workspace name (default: the default workspace)
+ */
+export function getDocsPath(workspace?: string): string {
+  return getConfig(workspace).docsPath;
+}
+
+/**
+ * Format a caught error for tool output
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Strip an endpoint down to its list/search fields
+ */
+function toEndpointSummary(endpoint: ApiEndpoint) {
+  const { method, path, description, feature, authentication } = endpoint;
+  return { method, path, description, feature, authentication };
+}
+
+/**
+ * Contract metadata with endpoint summaries (drops parse timestamps)
  */
-export async function handleApiContractTool(
-  name: string,
-  args: Record<string, unknown>,
-): Promise<{ content: Array<{ type: string; text: string }> }> {
-  // Determine docs path (default to docs/features from project root)
-  const docsPath = resolve(process.cwd(), 'docs/features');
-
-  switch (name) {
-    case 'aegisx_api_list': {
+function toContractSummary(contract: ApiContract) {
+  const { feature, baseUrl, authentication, contentType, filePath } = contract;
+  return {
+    feature,
+    baseUrl,
+    authentication,
+    contentType,
+    filePath,
+    endpoints: contract.endpoints.map(toEndpointSummary),
+  };
+}
+
+/**
+ * Validation report with its timestamp serialized for JSON output
+ */
+function toValidationReportData(report: ValidationReport) {
+  return { ...report, validatedAt: report.validatedAt?.toISOString() };
+}
+
+/**
+ * Error result for an unknown feature, listing the closest and all features
+ */
+function unknownFeatureResult(feature: string, contracts: ApiContract[]) {
+  const features = contracts.map((c) => c.feature);
+  return errorResult(
+    `No contracts found for feature "${feature}". Available features: ${features.join(', ')}${formatDidYouMean(didYouMean(feature, features))}`,
+  );
+}
+
+/**
+ * Structured result for a contract list
+ */
+function contractListResult(contracts: ApiContract[], feature?: string) {
+  return structuredResult(formatContractList(contracts), {
+    feature,
+    totalFeatures: contracts.length,
+    totalEndpoints: contracts.reduce((sum, c) => sum + c.endpoints.length, 0),
+    contracts: contracts.map(toContractSummary),
+  });
+}
+
+export const apiContractTools = [
+  defineTool({
+    name: 'aegisx_api_list',
+    description:
+      'List all API endpoints or filter by feature. Returns endpoint summary with HTTP method, path, and description.',
+    inputSchema: {
+      feature: z
+        .string()
+        .optional()
+        .describe('Optional feature name to filter endpoints'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      feature: z.string().optional(),
+      totalFeatures: z.number(),
+      totalEndpoints: z.number(),
+      contracts: z.array(apiContractSummarySchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ feature, workspace }) => {
       try {
-        // Get all contracts
+        const docsPath = getDocsPath(workspace);
         const contracts = await getAllContracts(docsPath);
 
         if (contracts.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No API contracts found. Make sure contract files exist in docs/features/*/api-contracts.md',
-              },
-            ],
-          };
+          return errorResult(
+            `No API contracts found. Make sure contract files exist in ${docsPath}/*/api-contracts.md (docsPath in ${CONFIG_FILE_NAME})`,
+          );
         }
 
         // Filter by feature if specified
-        const feature = args.feature as string | undefined;
         if (feature) {
           const filtered = contracts.filter(
             (c) => c.feature.toLowerCase() === feature.toLowerCase(),
           );
 
           if (filtered.length === 0) {
-            const availableFeatures = contracts
-              .map((c) => c.feature)
-              .join(', ');
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `No contracts found for feature "${feature}". Available features: ${availableFeatures}`,
-                },
-              ],
-            };
+            return unknownFeatureResult(feature, contracts);
           }
 
-          return {
-            content: [{ type: 'text', text: formatContractList(filtered) }],
-          };
+          return contractListResult(filtered, feature);
         }
 
-        // Return all contracts
-        return {
-          content: [{ type: 'text', text: formatContractList(contracts) }],
-        };
+        return contractListResult(contracts);
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error loading contracts: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-        };
+        return errorResult(`Error loading contracts: ${errorMessage(error)}`);
       }
-    }
-
-    case 'aegisx_api_search': {
-      const query = args.query as string;
-
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_search',
+    description:
+      'Search API endpoints by keyword. Searches across endpoint paths, methods, descriptions, and feature names.',
+    inputSchema: {
+      query: z
+        .string()
+        .describe(
+          'Search term (e.g., "profile", "GET", "inventory", or feature name)',
+        ),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      query: z.string(),
+      total: z.number(),
+      endpoints: z.array(apiEndpointSummarySchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ query, workspace }) => {
       if (!query || query.trim().length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Error: Search query is required. Please provide a search term.',
-            },
-          ],
-        };
+        return errorResult(
+          'Error: Search query is required. Please provide a search term.',
+        );
       }
 
       try {
-        const contracts = await getAllContracts(docsPath);
+        const contracts = await getAllContracts(getDocsPath(workspace));
 
         if (contracts.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No API contracts found to search.',
-              },
-            ],
-          };
+          return errorResult('No API contracts found to search.');
         }
 
         const results = searchEndpoints(contracts, query);
 
         if (results.length === 0) {
           const features = contracts.map((c) => c.feature).join(', ');
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `No endpoints found matching "${query}". Try searching for feature names (${features}), HTTP methods (GET, POST), or path keywords.`,
-              },
-            ],
-          };
+          return structuredResult(
+            `No endpoints found matching "${query}". Try searching for feature names (${features}), HTTP methods (GET, POST), or path keywords.`,
+            { query, total: 0, endpoints: [] },
+          );
         }
 
         const lines: string[] = [];
@@ -395,195 +588,740 @@ export async function handleApiContractTool(
           lines.push(formatEndpointBrief(result));
         }
 
-        return {
-          content: [{ type: 'text', text: lines.join('\n') }],
-        };
+        return structuredResult(lines.join('\n'), {
+          query,
+          total: results.length,
+          endpoints: results.map(toEndpointSummary),
+        });
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error searching contracts: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-        };
+        return errorResult(`Error searching contracts: ${errorMessage(error)}`);
       }
-    }
-
-    case 'aegisx_api_get': {
-      const path = args.path as string;
-      const method = args.method as
-        | 'GET'
-        | 'POST'
-        | 'PUT'
-        | 'PATCH'
-        | 'DELETE'
-        | 'HEAD'
-        | 'OPTIONS'
-        | undefined;
-
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_get',
+    description:
+      'Get detailed API contract for a specific endpoint including request/response schemas, examples, and error responses.',
+    inputSchema: {
+      path: z
+        .string()
+        .describe('API endpoint path (e.g., "/api/profile", "/api/users/:id")'),
+      method: z
+        .enum(httpMethodSchema.options)
+        .optional()
+        .describe(
+          'HTTP method (optional, if multiple endpoints share the same path)',
+        ),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      endpoint: apiEndpointSchema,
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ path, method, workspace }) => {
       if (!path || path.trim().length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Error: Path parameter is required. Please provide an endpoint path (e.g., "/api/profile").',
-            },
-          ],
-        };
+        return errorResult(
+          'Error: Path parameter is required. Please provide an endpoint path (e.g., "/api/profile").',
+        );
       }
 
       try {
-        const contracts = await getAllContracts(docsPath);
+        const contracts = await getAllContracts(getDocsPath(workspace));
 
         if (contracts.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No API contracts found.',
-              },
-            ],
-          };
+          return errorResult('No API contracts found.');
         }
 
         const endpoint = findEndpoint(contracts, path, method);
 
         if (!endpoint) {
-          // Try to suggest similar endpoints
+          // Suggest keyword matches, then fuzzy path matches for typos
+          const allEndpoints = contracts.flatMap((c) => c.endpoints);
           const searchResults = searchEndpoints(contracts, path);
-          const suggestions =
+          const similar =
             searchResults.length > 0
-              ? `\n\nDid you mean one of these?\n${searchResults
+              ? searchResults
+              : didYouMean(
+                  path,
+                  allEndpoints.map((e) => e.path),
+                  5,
+                ).flatMap((p) => allEndpoints.filter((e) => e.path === p));
+          const suggestions =
+            similar.length > 0
+              ? `\n\nDid you mean one of these?\n${similar
                   .slice(0, 5)
                   .map((e) => formatEndpointBrief(e))
                   .join('\n')}`
               : '';
 
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Endpoint not found: ${method ? method + ' ' : ''}${path}${suggestions}`,
-              },
-            ],
-          };
+          return errorResult(
+            `Endpoint not found: ${method ? method + ' ' : ''}${path}${suggestions}`,
+          );
         }
 
-        return {
-          content: [{ type: 'text', text: formatEndpointDetail(endpoint) }],
-        };
+        return structuredResult(formatEndpointDetail(endpoint), { endpoint });
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error retrieving endpoint: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-        };
+        return errorResult(`Error retrieving endpoint: ${errorMessage(error)}`);
       }
-    }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_validate',
+    description:
+      'Validate that API implementation matches contracts. Checks for missing endpoints, parameter mismatches, and schema violations. Output as markdown, JSON, SARIF (code scanning) or JUnit XML.',
+    inputSchema: {
+      feature: z
+        .string()
+        .optional()
+        .describe(
+          'Optional feature name to validate specific feature contracts',
+        ),
+      format: z
+        .enum(['markdown', 'json', 'sarif', 'junit'])
+        .optional()
+        .describe('Output format (default: markdown)'),
+      failOn: z
+        .enum(['error', 'warn', 'none'])
+        .optional()
+        .describe(
+          'Lowest finding severity that fails a JUnit test case (default: error)',
+        ),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      reports: z.array(validationReportSchema),
+      findings: z.array(validationFindingSchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({
+      feature,
+      format = 'markdown',
+      failOn = 'error',
+      workspace,
+    }) => {
+      try {
+        const contracts = await getAllContracts(getDocsPath(workspace));
+
+        if (contracts.length === 0) {
+          return errorResult('No API contracts found to validate.');
+        }
+
+        // Resolve the feature name case-insensitively
+        const match = feature
+          ? contracts.find(
+              (c) => c.feature.toLowerCase() === feature.toLowerCase(),
+            )
+          : undefined;
 
-    case 'aegisx_api_validate': {
-      const feature = args.feature as string | undefined;
+        if (feature && !match) {
+          return unknownFeatureResult(feature, contracts);
+        }
 
+        // Routes are discovered from the entry file and the configured globs
+        const { codebaseRoot, routeGlobs, apiEntry } = getConfig(workspace);
+        const reports = match
+          ? [
+              await validateFeature(
+                contracts,
+                match.feature,
+                codebaseRoot,
+                routeGlobs,
+                apiEntry,
+              ),
+            ]
+          : await validateAllFeatures(
+              contracts,
+              codebaseRoot,
+              routeGlobs,
+              apiEntry,
+            );
+
+        let text: string;
+        if (format === 'json') {
+          text = formatValidationJson(reports);
+        } else if (format === 'sarif') {
+          text = formatValidationSarif(reports);
+        } else if (format === 'junit') {
+          text = formatValidationJUnit(reports, contracts, failOn);
+        } else {
+          text = reports.map(formatValidationReport).join('\n\n---\n\n');
+        }
+
+        return structuredResult(text, {
+          reports: reports.map(toValidationReportData),
+          findings: collectFindings(reports),
+        });
+      } catch (error) {
+        return errorResult(
+          `Error validating contracts: ${errorMessage(error)}`,
+        );
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_coverage',
+    description:
+      'Documentation coverage across all features: per feature, endpoints documented and implemented (route discovery), and the share with schemas, examples, error responses and requests in this session. Also lists features with routes but no API_CONTRACTS.md.',
+    inputSchema: {
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      features: z.array(featureCoverageSchema),
+      totals: featureCoverageSchema,
+      undocumentedFeatures: z.array(
+        z.object({
+          feature: z.string(),
+          directory: z.string().describe('Relative to codebaseRoot'),
+          routes: z.number(),
+        }),
+      ),
+      requestCount: z.number(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ workspace }, context) => {
+      try {
+        const { codebaseRoot, docsPath, routeGlobs, apiEntry } =
+          getConfig(workspace);
+        const contracts = await getAllContracts(docsPath);
+        const routes = await discoverRoutes(codebaseRoot, {
+          entry: apiEntry,
+          routeGlobs,
+        });
+        const reports = await validateAllFeatures(
+          contracts,
+          codebaseRoot,
+          routeGlobs,
+          apiEntry,
+          routes,
+        );
+
+        const report = computeContractCoverage({
+          contracts,
+          reports,
+          routes,
+          history: context.apiTesting.requestHistory,
+          codebaseRoot,
+          routeGlobs,
+        });
+
+        return structuredResult(formatCoverageReport(report), {
+          features: report.features,
+          totals: report.totals,
+          undocumentedFeatures: report.undocumentedFeatures,
+          requestCount: report.requestCount,
+        });
+      } catch (error) {
+        return errorResult(`Error computing coverage: ${errorMessage(error)}`);
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_lint',
+    description:
+      'Lint API_CONTRACTS.md files for authoring mistakes the parser skips silently: sections without method/path, duplicate endpoints, undocumented path params, invalid or schema-mismatched JSON examples, missing auth error responses and numbering gaps. Reports line numbers and suggested fixes.',
+    inputSchema: {
+      feature: z
+        .string()
+        .optional()
+        .describe('Optional feature name to lint a single contract file'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      reports: z.array(contractLintReportSchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ feature, workspace }) => {
       try {
+        const docsPath = getDocsPath(workspace);
         const contracts = await getAllContracts(docsPath);
 
         if (contracts.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No API contracts found to validate.',
-              },
-            ],
-          };
+          return errorResult('No API contracts found to lint.');
         }
 
-        // Filter by feature if specified
-        const targetContracts = feature
+        const selected = feature
           ? contracts.filter(
               (c) => c.feature.toLowerCase() === feature.toLowerCase(),
             )
           : contracts;
 
-        if (feature && targetContracts.length === 0) {
-          const availableFeatures = contracts.map((c) => c.feature).join(', ');
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `No contracts found for feature "${feature}". Available features: ${availableFeatures}`,
-              },
-            ],
-          };
+        if (selected.length === 0) {
+          return unknownFeatureResult(feature!, contracts);
         }
 
-        const lines: string[] = [];
-        lines.push('# API Contract Validation Report');
-        lines.push('');
-
-        // Count endpoints
-        const totalEndpoints = targetContracts.reduce(
-          (sum, c) => sum + c.endpoints.length,
-          0,
+        const reports = await Promise.all(
+          selected.map(async (contract) => ({
+            feature: contract.feature,
+            filePath: relative(docsPath, contract.filePath),
+            issues: lintContract(await fs.readFile(contract.filePath, 'utf-8')),
+          })),
         );
 
-        lines.push(`**Features Validated:** ${targetContracts.length}`);
-        lines.push(`**Total Endpoints:** ${totalEndpoints}`);
-        lines.push('');
+        return structuredResult(formatLintReports(reports), { reports });
+      } catch (error) {
+        return errorResult(`Error linting contracts: ${errorMessage(error)}`);
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_diff',
+    description:
+      'Compare two versions of the API contracts and classify each change as breaking (removed endpoint, new required parameter, removed response field, changed type), non-breaking or documentation-only. Compares the working tree against a git ref, or two directories. Returns a markdown changelog.',
+    inputSchema: {
+      baseRef: z
+        .string()
+        .optional()
+        .describe(
+          'Git ref with the old contracts (e.g., "main", "HEAD~1"); read with git show from the same docs directory',
+        ),
+      baseDir: z
+        .string()
+        .optional()
+        .describe(
+          'Directory with the old contracts (relative to codebaseRoot), instead of baseRef',
+        ),
+      headDir: z
+        .string()
+        .optional()
+        .describe(
+          'Directory with the new contracts (relative to codebaseRoot, default: docsPath)',
+        ),
+      feature: z
+        .string()
+        .optional()
+        .describe('Optional feature name to compare a single feature'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      base: z.string(),
+      head: z.string(),
+      summary: z.object({
+        breaking: z.number(),
+        'non-breaking': z.number(),
+        documentation: z.number(),
+      }),
+      changes: z.array(contractChangeSchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ baseRef, baseDir, headDir, feature, workspace }) => {
+      if (!baseRef === !baseDir) {
+        return errorResult('Pass either baseRef or baseDir (not both).');
+      }
 
-        // Report that validation infrastructure is in place
-        // Full implementation would check actual implementation against contracts
-        lines.push('## Validation Status');
-        lines.push('');
-        lines.push(
-          '✓ All contract definitions found and can be accessed via endpoints',
-        );
+      try {
+        const { codebaseRoot, docsPath } = getConfig(workspace);
+        const headPath = headDir ? resolve(codebaseRoot, headDir) : docsPath;
+        const basePath = baseDir ? resolve(codebaseRoot, baseDir) : undefined;
+
+        let before = basePath
+          ? await getAllContracts(basePath)
+          : await loadContractsAtRef(headPath, baseRef!);
+        let after = await getAllContracts(headPath);
+
+        if (feature) {
+          const matches = (c: ApiContract) =>
+            c.feature.toLowerCase() === feature.toLowerCase();
+          if (!before.some(matches) && !after.some(matches)) {
+            return unknownFeatureResult(
+              feature,
+              after.length > 0 ? after : before,
+            );
+          }
+          before = before.filter(matches);
+          after = after.filter(matches);
+        }
+
+        const diff = diffContracts(before, after, {
+          base: baseRef ?? relative(codebaseRoot, basePath!),
+          head: headDir ?? 'working tree',
+        });
+        return structuredResult(formatContractChangelog(diff), { ...diff });
+      } catch (error) {
+        return errorResult(`Error comparing contracts: ${errorMessage(error)}`);
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_export_openapi',
+    description:
+      'Export API contracts as an OpenAPI 3.1 document (JSON or YAML) for Swagger UI, Postman and client generators. TypeScript interfaces in the contracts become JSON Schema components.',
+    inputSchema: {
+      feature: z
+        .string()
+        .optional()
+        .describe('Feature to export (default: all features)'),
+      format: z
+        .enum(['json', 'yaml'])
+        .optional()
+        .describe('Output format (default: json)'),
+      title: z
+        .string()
+        .optional()
+        .describe('Document title (default: "AegisX API")'),
+      version: z
+        .string()
+        .optional()
+        .describe('API version in info.version (default: "1.0.0")'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      format: z.enum(['json', 'yaml']),
+      features: z.array(z.string()),
+      pathCount: z.number(),
+      schemaCount: z.number(),
+      document: z
+        .record(z.unknown())
+        .describe('The OpenAPI document as an object'),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({
+      feature,
+      format = 'json',
+      title,
+      version,
+      workspace,
+    }) => {
+      try {
+        const contracts = await getAllContracts(getDocsPath(workspace));
+
+        if (contracts.length === 0) {
+          return errorResult('No API contracts found to export.');
+        }
+
+        const selected = feature
+          ? contracts.filter(
+              (c) => c.feature.toLowerCase() === feature.toLowerCase(),
+            )
+          : contracts;
+
+        if (selected.length === 0) {
+          return unknownFeatureResult(feature!, contracts);
+        }
+
+        const document = buildOpenApiDocument(selected, {
+          title:
+            title ??
+            (feature ? `AegisX ${selected[0].feature} API` : undefined),
+          version,
+          serverUrl: getConfig(workspace).apiBaseUrl,
+        });
+        const pathCount = Object.keys(document.paths).length;
+        const schemaCount = Object.keys(document.components.schemas).length;
+
+        const lines: string[] = [];
         lines.push(
-          '✓ Use `aegisx_api_get` tool to review specific endpoint contracts',
+          `# OpenAPI 3.1 Export: ${feature ? selected[0].feature : 'all features'}`,
         );
+        lines.push('');
         lines.push(
-          '✓ Use `aegisx_api_search` tool to find endpoints by keyword',
+          `**Paths:** ${pathCount} | **Schemas:** ${schemaCount} | **Format:** ${format.toUpperCase()}`,
         );
         lines.push('');
+        lines.push(`\`\`\`${format}`);
+        lines.push(serializeOpenApi(document, format).trimEnd());
+        lines.push('```');
+
+        return structuredResult(lines.join('\n'), {
+          format,
+          features: selected.map((c) => c.feature),
+          pathCount,
+          schemaCount,
+          document: document as unknown as Record<string, unknown>,
+        });
+      } catch (error) {
+        return errorResult(`Error exporting contracts: ${errorMessage(error)}`);
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_import_openapi',
+    description:
+      'Import an OpenAPI 3.x document (JSON or YAML file, or a URL such as the Fastify swagger endpoint) and render API_CONTRACTS.md files in the layout the contract tools read. Previews the markdown unless write=true.',
+    inputSchema: {
+      source: z
+        .string()
+        .describe(
+          'OpenAPI file path (relative to codebaseRoot) or http(s) URL (e.g., "http://localhost:3000/documentation/json")',
+        ),
+      feature: z
+        .string()
+        .optional()
+        .describe('Only import this feature (default: all tags/features)'),
+      write: z
+        .boolean()
+        .optional()
+        .describe(
+          'Write <docsPath>/<feature>/API_CONTRACTS.md files (default: false, preview only)',
+        ),
+      overwrite: z
+        .boolean()
+        .optional()
+        .describe('Replace existing contract files when writing'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      source: z.string(),
+      written: z.boolean(),
+      contracts: z.array(
+        z.object({
+          feature: z.string(),
+          filePath: z.string(),
+          endpointCount: z.number(),
+          status: z.enum(['preview', 'written', 'skipped']),
+          markdown: z.string(),
+        }),
+      ),
+    },
+    annotations: { openWorldHint: true },
+    handler: async ({ source, feature, write, overwrite, workspace }) => {
+      try {
+        const { codebaseRoot, docsPath } = getConfig(workspace);
+        const location = /^https?:\/\//i.test(source)
+          ? source
+          : resolve(codebaseRoot, source);
+        const contracts = importOpenApi(await loadOpenApiDocument(location), {
+          feature,
+          docsPath,
+        });
+
+        if (contracts.length === 0) {
+          return errorResult(
+            feature
+              ? `No operations found for feature "${feature}" in ${source}`
+              : `No operations found in ${source}`,
+          );
+        }
+
+        const results = [];
+        for (const contract of contracts) {
+          const markdown = formatContractMarkdown(contract);
+          let status: 'preview' | 'written' | 'skipped' = 'preview';
+
+          if (write) {
+            const exists = await fs
+              .access(contract.filePath)
+              .then(() => true)
+              .catch(() => false);
+            if (exists && !overwrite) {
+              status = 'skipped';
+            } else {
+              await fs.mkdir(dirname(contract.filePath), { recursive: true });
+              await fs.writeFile(contract.filePath, markdown, 'utf-8');
+              status = 'written';
+            }
+          }
+
+          results.push({
+            feature: contract.feature,
+            filePath: contract.filePath,
+            endpointCount: contract.endpoints.length,
+            status,
+            markdown,
+          });
+        }
+
+        if (write) {
+          clearContractCache(docsPath);
+        }
+
+        const lines: string[] = [];
+        lines.push(`# OpenAPI Import: ${source}`);
+        lines.push('');
+        lines.push('| Feature | Endpoints | File | Status |');
+        lines.push('|---------|-----------|------|--------|');
+        for (const result of results) {
+          lines.push(
+            `| ${result.feature} | ${result.endpointCount} | \`${relative(codebaseRoot, result.filePath)}\` | ${result.status} |`,
+          );
+        }
 
-        lines.push('## Summary');
-        for (const contract of targetContracts) {
+        if (results.some((r) => r.status === 'skipped')) {
+          lines.push('');
           lines.push(
-            `- **${contract.feature}**: ${contract.endpoints.length} endpoints`,
+            '⚠️ Existing contract files were kept. Pass overwrite=true to replace them.',
           );
         }
+
+        if (!write) {
+          for (const result of results) {
+            lines.push('');
+            lines.push(`## ${result.feature}`);
+            lines.push('');
+            lines.push('````markdown');
+            lines.push(result.markdown.trimEnd());
+            lines.push('````');
+          }
+          lines.push('');
+          lines.push('Run again with write=true to create these files.');
+        }
+
+        return structuredResult(lines.join('\n'), {
+          source,
+          written: write === true,
+          contracts: results,
+        });
+      } catch (error) {
+        return errorResult(`Error importing OpenAPI: ${errorMessage(error)}`);
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_api_generate_client',
+    description:
+      'Generate a typed Angular client for a feature: an injectable service in the "Angular HTTP Service" pattern with one method per endpoint (typed path params, query params and request/response bodies from the contract interfaces), signal wrappers for GET endpoints, and a types file. Returns the code unless outputDir is given.',
+    inputSchema: {
+      feature: z.string().describe('Feature to generate a client for'),
+      outputDir: z
+        .string()
+        .optional()
+        .describe(
+          'Directory to write <feature>.service.ts and <feature>.types.ts to, relative to codebaseRoot (default: return the code only)',
+        ),
+      overwrite: z
+        .boolean()
+        .optional()
+        .describe('Replace existing files when writing'),
+      environmentImport: z
+        .string()
+        .optional()
+        .describe(
+          'Module that exports `environment` with `apiUrl` (default: "@env/environment")',
+        ),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      feature: z.string(),
+      serviceName: z.string(),
+      written: z.boolean(),
+      files: z.array(
+        z.object({
+          fileName: z.string(),
+          filePath: z.string().optional(),
+          status: z.enum(['preview', 'written', 'skipped']),
+          content: z.string(),
+        }),
+      ),
+      methods: z.array(
+        z.object({
+          name: z.string(),
+          method: httpMethodSchema,
+          path: z.string(),
+          resource: z.string().optional(),
+        }),
+      ),
+    },
+    annotations: { openWorldHint: false },
+    handler: async ({
+      feature,
+      outputDir,
+      overwrite,
+      environmentImport,
+      workspace,
+    }) => {
+      try {
+        const { codebaseRoot, docsPath } = getConfig(workspace);
+        const contracts = await getAllContracts(docsPath);
+        const contract = contracts.find(
+          (c) => c.feature.toLowerCase() === feature.toLowerCase(),
+        );
+        if (!contract) {
+          return unknownFeatureResult(feature, contracts);
+        }
+        if (contract.endpoints.length === 0) {
+          return errorResult(
+            `No documented endpoints in the ${contract.feature} contract.`,
+          );
+        }
+
+        const client = generateAngularClient(contract, { environmentImport });
+        const directory = outputDir ? resolve(codebaseRoot, outputDir) : null;
+
+        const files = [];
+        for (const file of client.files) {
+          const filePath = directory ? join(directory, file.fileName) : null;
+          let status: 'preview' | 'written' | 'skipped' = 'preview';
+
+          if (filePath) {
+            const exists = await fs
+              .access(filePath)
+              .then(() => true)
+              .catch(() => false);
+            if (exists && !overwrite) {
+              status = 'skipped';
+            } else {
+              await fs.mkdir(dirname(filePath), { recursive: true });
+              await fs.writeFile(filePath, file.content, 'utf-8');
+              status = 'written';
+            }
+          }
+
+          files.push({
+            fileName: file.fileName,
+            ...(filePath && { filePath }),
+            status,
+            content: file.content,
+          });
+        }
+
+        const lines: string[] = [];
+        lines.push(`# Angular Client: ${contract.feature}`);
         lines.push('');
         lines.push(
-          'Full validation against actual implementation requires code inspection.',
+          `**Service:** \`${client.serviceName}\` | **Methods:** ${client.methods.length}`,
         );
+        lines.push('');
+        lines.push('| Method | Endpoint | Signal wrapper |');
+        lines.push('|--------|----------|----------------|');
+        for (const method of client.methods) {
+          lines.push(
+            `| \`${method.name}()\` | ${method.method} \`${method.path}\` | ${method.resource ? `\`${method.resource}()\`` : '-'} |`,
+          );
+        }
+
+        if (directory) {
+          lines.push('');
+          lines.push('| File | Status |');
+          lines.push('|------|--------|');
+          for (const file of files) {
+            lines.push(
+              `| \`${relative(codebaseRoot, file.filePath!)}\` | ${file.status} |`,
+            );
+          }
+          if (files.some((f) => f.status === 'skipped')) {
+            lines.push('');
+            lines.push(
+              '⚠️ Existing files were kept. Pass overwrite=true to replace them.',
+            );
+          }
+        } else {
+          for (const file of files) {
+            lines.push('');
+            lines.push(`## ${file.fileName}`);
+            lines.push('');
+            lines.push('```typescript');
+            lines.push(file.content.trimEnd());
+            lines.push('```');
+          }
+        }
 
-        return {
-          content: [{ type: 'text', text: lines.join('\n') }],
-        };
+        return structuredResult(lines.join('\n'), {
+          feature: contract.feature,
+          serviceName: client.serviceName,
+          written: files.some((f) => f.status === 'written'),
+          files,
+          methods: client.methods,
+        });
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error validating contracts: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            },
-          ],
-        };
+        return errorResult(`Error generating client: ${errorMessage(error)}`);
       }
-    }
-
-    default:
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Unknown API contract tool: ${name}`,
-          },
-        ],
-      };
-  }
-}
+    },
+  }),
+];
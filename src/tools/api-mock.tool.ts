@@ -0,0 +1,204 @@
+/**
+ * AegisX Mock API Tools
+ * Start and stop local mock servers that serve the documented contracts
+ */
+
+import { z } from 'zod';
+import { getConfig, workspaceArgShape } from '../config/index.js';
+import { getAllContracts } from '../data/api-contracts-parser.js';
+import {
+  MOCK_STATUS_HEADER,
+  MOCK_STATUS_QUERY,
+  startMockServer,
+  type MockServer,
+} from '../data/mock-server.js';
+import { didYouMean, formatDidYouMean } from '../utils/fuzzy-match.js';
+import {
+  defineTool,
+  errorResult,
+  structuredResult,
+} from './tool-definition.js';
+
+/** Port used when none is given */
+export const DEFAULT_MOCK_PORT = 4010;
+
+/**
+ * Running mock servers by port
+ * A server owns its port, so servers are shared by every session of this
+ * process instead of living in the per-session `ToolContext`.
+ */
+const mockServers = new Map<number, MockServer>();
+
+/**
+ * Format a started mock server as markdown
+ */
+function formatMockServer(server: MockServer, restarted: boolean): string {
+  const lines: string[] = [];
+
+  lines.push(`# Mock API Server ${restarted ? 'Restarted' : 'Started'}`);
+  lines.push('');
+  lines.push(`**URL:** ${server.url}`);
+  lines.push(`**Features:** ${server.features.join(', ')}`);
+  lines.push(`**Endpoints:** ${server.endpoints.length}`);
+  lines.push('');
+  lines.push('| Method | Path | Auth |');
+  lines.push('|--------|------|------|');
+  for (const endpoint of server.endpoints) {
+    lines.push(
+      `| ${endpoint.method} | \`${endpoint.path}\` | ${endpoint.authentication ? '🔒' : '🔓'} |`,
+    );
+  }
+  lines.push('');
+  lines.push('## Usage');
+  lines.push(
+    '- 🔒 endpoints need `Authorization: Bearer <token>` (any token is accepted)',
+  );
+  lines.push(
+    `- Documented error responses: send \`${MOCK_STATUS_HEADER}: 404\` or add \`?${MOCK_STATUS_QUERY}=404\``,
+  );
+  lines.push(
+    '- Data lives in memory: created, updated and deleted records persist until the server stops',
+  );
+
+  return lines.join('\n');
+}
+
+export const apiMockTools = [
+  defineTool({
+    name: 'aegisx_mock_start',
+    description:
+      'Start a local mock API server that serves every documented endpoint from its contract: response examples, path params, documented error responses (x-mock-status header or __status query) and Bearer-token authentication. Data is kept in memory, so create/update/delete sequences behave like the real API. Restarts the server if one is already running on the port.',
+    inputSchema: {
+      feature: z
+        .string()
+        .optional()
+        .describe('Only serve this feature (default: all features)'),
+      port: z
+        .number()
+        .int()
+        .min(0)
+        .max(65535)
+        .optional()
+        .describe(`Port to listen on (default: ${DEFAULT_MOCK_PORT})`),
+      host: z
+        .string()
+        .optional()
+        .describe('Interface to bind to (default: 127.0.0.1)'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      url: z.string(),
+      host: z.string(),
+      port: z.number(),
+      features: z.array(z.string()),
+      endpoints: z.array(
+        z.object({
+          method: z.string(),
+          path: z.string(),
+          authentication: z.boolean(),
+        }),
+      ),
+      restarted: z.boolean(),
+    },
+    annotations: { openWorldHint: false },
+    handler: async ({
+      feature,
+      port = DEFAULT_MOCK_PORT,
+      host = '127.0.0.1',
+      workspace,
+    }) => {
+      try {
+        const contracts = await getAllContracts(getConfig(workspace).docsPath);
+        if (contracts.length === 0) {
+          return errorResult('No API contracts found to serve.');
+        }
+
+        const selected = feature
+          ? contracts.filter(
+              (c) => c.feature.toLowerCase() === feature.toLowerCase(),
+            )
+          : contracts;
+
+        if (feature && selected.length === 0) {
+          const features = contracts.map((c) => c.feature);
+          return errorResult(
+            `No contracts found for feature "${feature}". Available features: ${features.join(', ')}${formatDidYouMean(didYouMean(feature, features))}`,
+          );
+        }
+        if (selected.every((c) => c.endpoints.length === 0)) {
+          return errorResult('No documented endpoints to serve.');
+        }
+
+        const previous = mockServers.get(port);
+        if (previous) {
+          await previous.close();
+          mockServers.delete(port);
+        }
+
+        const server = await startMockServer(selected, {
+          port,
+          host,
+          log: (line) => console.error(`[mock :${server.port}] ${line}`),
+        });
+        mockServers.set(server.port, server);
+
+        return structuredResult(formatMockServer(server, !!previous), {
+          url: server.url,
+          host: server.host,
+          port: server.port,
+          features: server.features,
+          endpoints: server.endpoints.map(
+            ({ method, path, authentication }) => ({
+              method,
+              path,
+              authentication,
+            }),
+          ),
+          restarted: !!previous,
+        });
+      } catch (error) {
+        return errorResult(
+          `Error starting mock server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_mock_stop',
+    description:
+      'Stop a mock API server started with aegisx_mock_start (all of them when no port is given). In-memory data is discarded.',
+    inputSchema: {
+      port: z
+        .number()
+        .int()
+        .optional()
+        .describe('Port of the server to stop (default: all)'),
+    },
+    outputSchema: {
+      stopped: z.array(z.number()).describe('Ports that were stopped'),
+    },
+    annotations: { destructiveHint: true, idempotentHint: true },
+    handler: async ({ port }) => {
+      if (port !== undefined && !mockServers.has(port)) {
+        const running = Array.from(mockServers.keys());
+        return errorResult(
+          `No mock server running on port ${port}.${running.length > 0 ? ` Running: ${running.join(', ')}` : ''}`,
+        );
+      }
+
+      const ports =
+        port !== undefined ? [port] : Array.from(mockServers.keys());
+      for (const current of ports) {
+        await mockServers.get(current)!.close();
+        mockServers.delete(current);
+      }
+
+      const text =
+        ports.length > 0
+          ? `Stopped mock server${ports.length > 1 ? 's' : ''} on port ${ports.join(', ')}`
+          : 'No mock servers running.';
+      return structuredResult(text, { stopped: ports });
+    },
+  }),
+];
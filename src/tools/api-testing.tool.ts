@@ -3,7 +3,40 @@
  * Tools for authentication and API endpoint testing
  */
 
-import type { ToolDefinition } from './index.js';
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { z } from 'zod';
+import {
+  defineTool,
+  errorResult,
+  structuredResult,
+  ToolResult,
+} from './tool-definition.js';
+import {
+  conformanceReportSchema,
+  contractTestResultSchema,
+  decodedTokenSchema,
+  requestHistoryEntrySchema,
+} from './output-schemas.js';
+import { getConfig, workspaceArgShape } from '../config/index.js';
+import {
+  filterByFeature,
+  findEndpoint,
+  getAllContracts,
+  HttpMethod,
+} from '../data/api-contracts-parser.js';
+import {
+  checkResponseConformance,
+  ConformanceReport,
+} from '../data/contract-conformance.js';
+import {
+  ContractTestReport,
+  ContractTestSender,
+  runContractTests,
+  toJUnitSuite,
+} from '../data/contract-tests.js';
+import { formatJUnitXml } from '../data/junit.js';
+import { didYouMean, formatDidYouMean } from '../utils/fuzzy-match.js';
 
 // ============ STATE MANAGEMENT ============
 
@@ -12,6 +45,7 @@ interface AuthState {
   user: any | null;
   baseUrl: string;
   loginTime: number | null;
+  workspace?: string;
 }
 
 interface RequestHistoryEntry {
@@ -28,141 +62,34 @@ interface RequestHistoryEntry {
   error?: string;
 }
 
-// Global state
-let authState: AuthState = {
-  token: null,
-  user: null,
-  baseUrl: 'http://localhost:3000',
-  loginTime: null,
-};
+/**
+ * Per-client testing state
+ * Each MCP session (stdio process or HTTP session) owns one of these, so
+ * tokens and history never leak between clients sharing a server.
+ */
+export interface ApiTestingSession {
+  authState: AuthState;
+  requestHistory: RequestHistoryEntry[];
+  requestIdCounter: number;
+}
 
-let requestHistory: RequestHistoryEntry[] = [];
-let requestIdCounter = 1;
 const MAX_HISTORY = 50;
 
-// ============ TOOL DEFINITIONS ============
-
-export const apiTestingTools: ToolDefinition[] = [
-  {
-    name: 'aegisx_auth_login',
-    description:
-      'Login to AegisX API and store access token for subsequent requests. Default baseUrl is http://localhost:3000',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        email: {
-          type: 'string',
-          description: 'User email address',
-        },
-        password: {
-          type: 'string',
-          description: 'User password',
-        },
-        baseUrl: {
-          type: 'string',
-          description:
-            'API base URL (default: http://localhost:3000, supports AEGISX_API_URL env var)',
-        },
-      },
-      required: ['email', 'password'],
-    },
-  },
-  {
-    name: 'aegisx_auth_status',
-    description:
-      'Check current authentication status including token info and user details',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
-  },
-  {
-    name: 'aegisx_auth_decode_jwt',
-    description:
-      'Decode and display JWT token information including header, payload, and expiry details',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        token: {
-          type: 'string',
-          description:
-            'JWT token to decode (optional - uses current logged-in token if not provided)',
-        },
-      },
-    },
-  },
-  {
-    name: 'aegisx_auth_logout',
-    description: 'Logout and clear authentication token and session data',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
-  },
-  {
-    name: 'aegisx_api_request',
-    description:
-      'Make an authenticated HTTP request to AegisX API endpoints. Automatically includes Authorization header if logged in.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        method: {
-          type: 'string',
-          enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
-          description: 'HTTP method',
-        },
-        path: {
-          type: 'string',
-          description:
-            'API endpoint path (e.g., "/api/profile", "/api/inventory/drugs")',
-        },
-        body: {
-          type: 'object',
-          description: 'Request body for POST/PUT/PATCH requests (optional)',
-        },
-        headers: {
-          type: 'object',
-          description: 'Additional headers (optional)',
-        },
-        queryParams: {
-          type: 'object',
-          description: 'Query parameters as key-value pairs (optional)',
-        },
-      },
-      required: ['method', 'path'],
-    },
-  },
-  {
-    name: 'aegisx_api_history',
-    description:
-      'View request/response history. Shows last 50 requests with status, timing, and response data.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'number',
-          description: 'Number of recent requests to show (default: 10)',
-        },
-        method: {
-          type: 'string',
-          description: 'Filter by HTTP method (optional)',
-        },
-        status: {
-          type: 'number',
-          description: 'Filter by status code (optional)',
-        },
-      },
-    },
-  },
-  {
-    name: 'aegisx_api_clear_history',
-    description: 'Clear all request/response history',
-    inputSchema: {
-      type: 'object',
-      properties: {},
+/**
+ * Create an empty testing session
+ */
+export function createApiTestingSession(): ApiTestingSession {
+  return {
+    authState: {
+      token: null,
+      user: null,
+      baseUrl: getConfig().apiBaseUrl,
+      loginTime: null,
     },
-  },
-];
+    requestHistory: [],
+    requestIdCounter: 1,
+  };
+}
 
 // ============ HELPER FUNCTIONS ============
 
@@ -214,6 +141,15 @@ function decodeJWT(token: string): {
   }
 }
 
+/**
+ * Decoded token fields exposed as structured content (signature omitted)
+ */
+function tokenData(decoded: ReturnType<typeof decodeJWT>) {
+  const { header, payload, isExpired, expiresIn, issuedAt, expiresAt } =
+    decoded;
+  return { header, payload, isExpired, expiresIn, issuedAt, expiresAt };
+}
+
 function formatTimeRemaining(seconds: number): string {
   if (seconds <= 0) return 'Expired';
 
@@ -229,16 +165,39 @@ function formatTimeRemaining(seconds: number): string {
   return parts.join(' ') || '< 1m';
 }
 
-function addToHistory(entry: Omit<RequestHistoryEntry, 'id'>): void {
-  requestHistory.unshift({
-    id: requestIdCounter++,
+function addToHistory(
+  session: ApiTestingSession,
+  entry: Omit<RequestHistoryEntry, 'id'>,
+): void {
+  session.requestHistory.unshift({
+    id: session.requestIdCounter++,
     ...entry,
   });
 
   // Keep only last MAX_HISTORY entries
-  if (requestHistory.length > MAX_HISTORY) {
-    requestHistory = requestHistory.slice(0, MAX_HISTORY);
+  if (session.requestHistory.length > MAX_HISTORY) {
+    session.requestHistory = session.requestHistory.slice(0, MAX_HISTORY);
+  }
+}
+
+/**
+ * Base URL and token for a request in a workspace
+ * The login's base URL and token apply to the workspace it logged in to;
+ * naming another workspace targets that workspace's configured apiBaseUrl,
+ * without the token, so it is never sent to a different server.
+ */
+function requestTarget(
+  authState: AuthState,
+  workspace: string | undefined,
+): { baseUrl: string; token: string | null } {
+  if (workspace === undefined || workspace === authState.workspace) {
+    return { baseUrl: authState.baseUrl, token: authState.token };
   }
+  const { apiBaseUrl } = getConfig(workspace);
+  return {
+    baseUrl: apiBaseUrl,
+    token: apiBaseUrl === authState.baseUrl ? authState.token : null,
+  };
 }
 
 async function makeHttpRequest(
@@ -295,23 +254,83 @@ async function makeHttpRequest(
   }
 }
 
+/**
+ * Check a response against the documented contract for method + path
+ * @returns Report, or null when no endpoint is documented for the request
+ */
+async function checkContract(
+  workspace: string | undefined,
+  method: HttpMethod,
+  path: string,
+  status: number,
+  body: any,
+): Promise<ConformanceReport | null> {
+  const contracts = await getAllContracts(getConfig(workspace).docsPath);
+  const endpoint = findEndpoint(contracts, path.split('?')[0], method);
+  return endpoint ? checkResponseConformance(endpoint, status, body) : null;
+}
+
+/**
+ * Render a conformance report as markdown lines
+ */
+function formatConformance(
+  report: ConformanceReport | null,
+  method: string,
+  path: string,
+): string[] {
+  if (!report) {
+    return [
+      `**Contract:** ⚠️ No documented endpoint for ${method} ${path} (see aegisx_api_list)`,
+    ];
+  }
+
+  const target = `${report.method} ${report.path}`;
+  const lines: string[] = [];
+  lines.push(
+    report.conforms
+      ? `**Contract:** ✅ Conforms to ${target}`
+      : `**Contract:** ❌ Does not conform to ${target}`,
+  );
+
+  if (!report.statusDocumented) {
+    lines.push(
+      `- Status ${report.status} is not documented (expected ${report.documentedStatuses.join(', ')})`,
+    );
+  }
+  for (const violation of report.violations) {
+    lines.push(
+      `- \`${violation.pointer || '/'}\` **${violation.kind}**: ${violation.message}`,
+    );
+  }
+  if (!report.bodyChecked && report.status >= 200 && report.status < 300) {
+    lines.push('- Body not checked: empty response or no response schema');
+  }
+
+  return lines;
+}
+
 // ============ TOOL HANDLERS ============
 
-async function handleLogin(args: any): Promise<{ content: any[] }> {
-  const { email, password, baseUrl } = args;
+async function handleLogin(
+  session: ApiTestingSession,
+  args: any,
+): Promise<ToolResult> {
+  const { email, password, baseUrl, workspace } = args;
+  const { authState } = session;
+  const { apiBaseUrl, auth } = getConfig(workspace);
 
-  // Use provided baseUrl or env var or default
-  authState.baseUrl =
-    baseUrl || process.env.AEGISX_API_URL || 'http://localhost:3000';
+  // Use provided baseUrl or the configured one (AEGISX_API_URL, config file)
+  authState.baseUrl = baseUrl || apiBaseUrl;
+  authState.workspace = workspace;
 
-  const url = `${authState.baseUrl}/api/auth/login`;
+  const url = `${authState.baseUrl}${auth.loginPath}`;
 
   try {
     const result = await makeHttpRequest('POST', url, {
       body: { email, password },
     });
 
-    addToHistory({
+    addToHistory(session, {
       timestamp: new Date().toISOString(),
       method: 'POST',
       url,
@@ -337,7 +356,7 @@ async function handleLogin(args: any): Promise<{ content: any[] }> {
           try {
             const forceResult = await makeHttpRequest(
               'POST',
-              `${authState.baseUrl}/api/auth/force-login`,
+              `${authState.baseUrl}${auth.forceLoginPath}`,
               {
                 body: {
                   ticket,
@@ -350,10 +369,10 @@ async function handleLogin(args: any): Promise<{ content: any[] }> {
               Object.assign(result, forceResult);
 
               // Log which session was revoked
-              addToHistory({
+              addToHistory(session, {
                 timestamp: new Date().toISOString(),
                 method: 'POST',
-                url: `${authState.baseUrl}/api/auth/force-login`,
+                url: `${authState.baseUrl}${auth.forceLoginPath}`,
                 status: forceResult.status,
                 statusText: forceResult.statusText,
                 responseTime: forceResult.responseTime,
@@ -364,44 +383,24 @@ async function handleLogin(args: any): Promise<{ content: any[] }> {
                 responseBody: forceResult.body,
               });
             } else {
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `❌ Force login failed (${forceResult.status})\n\nResponse:\n${JSON.stringify(forceResult.body, null, 2)}\n\n💡 ใช้ aegisx sessions <email> --clear เพื่อล้าง session ด้วยมือ`,
-                  },
-                ],
-              };
+              return errorResult(
+                `❌ Force login failed (${forceResult.status})\n\nResponse:\n${JSON.stringify(forceResult.body, null, 2)}\n\n💡 ใช้ aegisx sessions <email> --clear เพื่อล้าง session ด้วยมือ`,
+              );
             }
           } catch {
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `❌ Force login failed — could not revoke session\n\n💡 ใช้ aegisx sessions <email> --clear เพื่อล้าง session ด้วยมือ\n\nActive sessions:\n${sessions.map((s: any) => `  - ${s.id} (${s.ipAddress || 'unknown IP'})`).join('\n')}`,
-                },
-              ],
-            };
+            return errorResult(
+              `❌ Force login failed — could not revoke session\n\n💡 ใช้ aegisx sessions <email> --clear เพื่อล้าง session ด้วยมือ\n\nActive sessions:\n${sessions.map((s: any) => `  - ${s.id} (${s.ipAddress || 'unknown IP'})`).join('\n')}`,
+            );
           }
         } else {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `❌ Login failed — MAX_SESSIONS_REACHED\n\nไม่มี ticket สำหรับ force login กรุณา logout จาก browser/tab อื่นก่อน\nหรือใช้ aegisx sessions <email> --clear\n\nResponse:\n${JSON.stringify(result.body, null, 2)}`,
-              },
-            ],
-          };
+          return errorResult(
+            `❌ Login failed — MAX_SESSIONS_REACHED\n\nไม่มี ticket สำหรับ force login กรุณา logout จาก browser/tab อื่นก่อน\nหรือใช้ aegisx sessions <email> --clear\n\nResponse:\n${JSON.stringify(result.body, null, 2)}`,
+          );
         }
       } else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `❌ Login failed (${result.status} ${result.statusText})\n\nResponse:\n${JSON.stringify(result.body, null, 2)}`,
-            },
-          ],
-        };
+        return errorResult(
+          `❌ Login failed (${result.status} ${result.statusText})\n\nResponse:\n${JSON.stringify(result.body, null, 2)}`,
+        );
       }
     }
 
@@ -416,29 +415,25 @@ async function handleLogin(args: any): Promise<{ content: any[] }> {
     authState.loginTime = Date.now();
 
     if (!authState.token) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `⚠️  Login response received but no token found\n\nResponse:\n${JSON.stringify(result.body, null, 2)}`,
-          },
-        ],
-      };
+      return errorResult(
+        `⚠️  Login response received but no token found\n\nResponse:\n${JSON.stringify(result.body, null, 2)}`,
+      );
     }
 
     // Decode token to show info
     const decoded = decodeJWT(authState.token);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ Login successful!\n\n**User Info:**\n${JSON.stringify(authState.user, null, 2)}\n\n**Token Info:**\n- Issued at: ${decoded.issuedAt}\n- Expires at: ${decoded.expiresAt}\n- Time remaining: ${decoded.expiresIn}\n\n**Base URL:** ${authState.baseUrl}\n\n✨ You can now make authenticated requests using aegisx_api_request`,
-        },
-      ],
-    };
+    return structuredResult(
+      `✅ Login successful!\n\n**User Info:**\n${JSON.stringify(authState.user, null, 2)}\n\n**Token Info:**\n- Issued at: ${decoded.issuedAt}\n- Expires at: ${decoded.expiresAt}\n- Time remaining: ${decoded.expiresIn}\n\n**Base URL:** ${authState.baseUrl}\n\n✨ You can now make authenticated requests using aegisx_api_request`,
+      {
+        authenticated: true,
+        baseUrl: authState.baseUrl,
+        user: authState.user,
+        token: tokenData(decoded),
+      },
+    );
   } catch (error: any) {
-    addToHistory({
+    addToHistory(session, {
       timestamp: new Date().toISOString(),
       method: 'POST',
       url,
@@ -448,27 +443,23 @@ async function handleLogin(args: any): Promise<{ content: any[] }> {
       error: error.error || error.message,
     });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ Login failed\n\nError: ${error.error || error.message}\n\nPlease check:\n- API server is running at ${authState.baseUrl}\n- Email and password are correct\n- Network connectivity`,
-        },
-      ],
-    };
+    return errorResult(
+      `❌ Login failed\n\nError: ${error.error || error.message}\n\nPlease check:\n- API server is running at ${authState.baseUrl}\n- Email and password are correct\n- Network connectivity`,
+    );
   }
 }
 
-function handleStatus(): { content: any[] } {
+function handleStatus(session: ApiTestingSession): ToolResult {
+  const { authState } = session;
+
   if (!authState.token) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `🔓 **Not Authenticated**\n\nUse aegisx_auth_login to login first.\n\nExample:\n\`\`\`\naegix_auth_login({ email: "admin@example.com", password: "password" })\n\`\`\``,
-        },
-      ],
-    };
+    return structuredResult(
+      `🔓 **Not Authenticated**\n\nUse aegisx_auth_login to login first.\n\nExample:\n\`\`\`\naegix_auth_login({ email: "admin@example.com", password: "password" })\n\`\`\``,
+      {
+        authenticated: false,
+        baseUrl: authState.baseUrl,
+      },
+    );
   }
 
   try {
@@ -497,38 +488,27 @@ function handleStatus(): { content: any[] } {
       );
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: lines.join('\n'),
-        },
-      ],
-    };
+    return structuredResult(lines.join('\n'), {
+      authenticated: true,
+      baseUrl: authState.baseUrl,
+      user: authState.user,
+      loginTime: new Date(authState.loginTime!).toISOString(),
+      token: tokenData(decoded),
+    });
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `⚠️  Authentication status unknown\n\nError decoding token: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease login again using aegisx_auth_login`,
-        },
-      ],
-    };
+    return errorResult(
+      `⚠️  Authentication status unknown\n\nError decoding token: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease login again using aegisx_auth_login`,
+    );
   }
 }
 
-function handleDecodeJWT(args: any): { content: any[] } {
-  const token = args.token || authState.token;
+function handleDecodeJWT(session: ApiTestingSession, args: any): ToolResult {
+  const token = args.token || session.authState.token;
 
   if (!token) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ No token provided and not logged in\n\nPlease either:\n1. Login using aegisx_auth_login\n2. Provide a token: aegisx_auth_decode_jwt({ token: "your-token" })`,
-        },
-      ],
-    };
+    return errorResult(
+      `❌ No token provided and not logged in\n\nPlease either:\n1. Login using aegisx_auth_login\n2. Provide a token: aegisx_auth_decode_jwt({ token: "your-token" })`,
+    );
   }
 
   try {
@@ -551,69 +531,63 @@ function handleDecodeJWT(args: any): { content: any[] } {
     lines.push(`- **Time remaining:** ${decoded.expiresIn}`);
     lines.push(`- **Signature:** ${decoded.signature.substring(0, 20)}...`);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: lines.join('\n'),
-        },
-      ],
-    };
+    return structuredResult(lines.join('\n'), tokenData(decoded));
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ Failed to decode JWT\n\nError: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease ensure the token is a valid JWT in format: header.payload.signature`,
-        },
-      ],
-    };
+    return errorResult(
+      `❌ Failed to decode JWT\n\nError: ${error instanceof Error ? error.message : 'Unknown error'}\n\nPlease ensure the token is a valid JWT in format: header.payload.signature`,
+    );
   }
 }
 
-async function handleLogout(): Promise<{ content: any[] }> {
+async function handleLogout(session: ApiTestingSession): Promise<ToolResult> {
+  const { authState } = session;
+
   if (!authState.token) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: '🔓 Already logged out',
-        },
-      ],
-    };
+    return structuredResult('🔓 Already logged out', { wasLoggedIn: false });
   }
 
   // Call server logout to release session
   try {
-    await makeHttpRequest('POST', `${authState.baseUrl}/api/auth/logout`, {
-      headers: { Authorization: `Bearer ${authState.token}` },
-    });
+    await makeHttpRequest(
+      'POST',
+      `${authState.baseUrl}${getConfig(authState.workspace).auth.logoutPath}`,
+      { headers: { Authorization: `Bearer ${authState.token}` } },
+    );
   } catch {
     // Ignore errors — clear local state regardless
   }
 
-  authState = {
+  session.authState = {
     token: null,
     user: null,
     baseUrl: authState.baseUrl,
     loginTime: null,
   };
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: '✅ Logged out successfully\n\nServer session released and local token cleared.',
-      },
-    ],
-  };
+  return structuredResult(
+    '✅ Logged out successfully\n\nServer session released and local token cleared.',
+    { wasLoggedIn: true },
+  );
 }
 
-async function handleApiRequest(args: any): Promise<{ content: any[] }> {
-  const { method, path, body, headers = {}, queryParams } = args;
+async function handleApiRequest(
+  session: ApiTestingSession,
+  args: any,
+): Promise<ToolResult> {
+  const {
+    method,
+    path,
+    body,
+    headers = {},
+    queryParams,
+    validateContract,
+    workspace,
+  } = args;
+  const { authState } = session;
+  const { baseUrl, token } = requestTarget(authState, workspace);
 
   // Build URL with query params
-  let url = `${authState.baseUrl}${path}`;
+  let url = `${baseUrl}${path}`;
   if (queryParams) {
     const params = new URLSearchParams(queryParams);
     url += `?${params.toString()}`;
@@ -621,8 +595,8 @@ async function handleApiRequest(args: any): Promise<{ content: any[] }> {
 
   // Add auth header if logged in
   const requestHeaders: Record<string, string> = { ...headers };
-  if (authState.token) {
-    requestHeaders['Authorization'] = `Bearer ${authState.token}`;
+  if (token) {
+    requestHeaders['Authorization'] = `Bearer ${token}`;
   }
 
   try {
@@ -631,7 +605,7 @@ async function handleApiRequest(args: any): Promise<{ content: any[] }> {
       headers: requestHeaders,
     });
 
-    addToHistory({
+    addToHistory(session, {
       timestamp: new Date().toISOString(),
       method,
       url,
@@ -655,16 +629,26 @@ async function handleApiRequest(args: any): Promise<{ content: any[] }> {
     lines.push(JSON.stringify(result.body, null, 2));
     lines.push('```');
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: lines.join('\n'),
-        },
-      ],
-    };
+    let conformance: ConformanceReport | null | undefined;
+    if (validateContract) {
+      conformance = await checkContract(
+        workspace ?? authState.workspace,
+        method,
+        path,
+        result.status,
+        result.body,
+      );
+      lines.push('');
+      lines.push(...formatConformance(conformance, method, path));
+    }
+
+    return structuredResult(lines.join('\n'), {
+      ok: result.status >= 200 && result.status < 300,
+      entry: session.requestHistory[0],
+      ...(validateContract && { conformance }),
+    });
   } catch (error: any) {
-    addToHistory({
+    addToHistory(session, {
       timestamp: new Date().toISOString(),
       method,
       url,
@@ -676,21 +660,160 @@ async function handleApiRequest(args: any): Promise<{ content: any[] }> {
       error: error.error || error.message,
     });
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ **${method} ${path}** Failed\n\nError: ${error.error || error.message}\n\nPlease check:\n- API server is running at ${authState.baseUrl}\n- Endpoint path is correct\n- You are authenticated (if required)`,
-        },
-      ],
-    };
+    return errorResult(
+      `❌ **${method} ${path}** Failed\n\nError: ${error.error || error.message}\n\nPlease check:\n- API server is running at ${baseUrl}\n- Endpoint path is correct\n- You are authenticated (if required)`,
+    );
   }
 }
 
-function handleHistory(args: any): { content: any[] } {
+/**
+ * Render a contract test report as a pass/fail matrix
+ */
+function formatContractTestReport(
+  report: ContractTestReport,
+  baseUrl: string,
+): string[] {
+  const icons = { pass: '✅', fail: '❌', skip: '⏭️' };
+  const lines: string[] = [];
+
+  lines.push(`# Contract Tests: ${report.feature}\n`);
+  lines.push(`**Base URL:** ${baseUrl}`);
+  lines.push(
+    `**Result:** ✅ ${report.passed} passed | ❌ ${report.failed} failed | ⏭️ ${report.skipped} skipped (${report.duration}ms)`,
+  );
+  lines.push('');
+  lines.push('| # | Method | Path | Status | Result | Time |');
+  lines.push('|---|--------|------|--------|--------|------|');
+  report.results.forEach((result, i) => {
+    lines.push(
+      `| ${i + 1} | ${result.method} | \`${result.requestPath ?? result.path}\` | ${result.status ?? '-'} | ${icons[result.outcome]} ${result.outcome} | ${result.responseTime}ms |`,
+    );
+  });
+
+  const failures = report.results.filter((r) => r.outcome === 'fail');
+  if (failures.length > 0) {
+    lines.push('');
+    lines.push('## Failures');
+    for (const failure of failures) {
+      lines.push('');
+      lines.push(`### ❌ ${failure.method} ${failure.path}`);
+      if (failure.message) lines.push(failure.message);
+      for (const violation of failure.violations) {
+        lines.push(
+          `- \`${violation.pointer || '/'}\` **${violation.kind}**: ${violation.message}`,
+        );
+      }
+    }
+  }
+
+  const skipped = report.results.filter((r) => r.outcome === 'skip');
+  if (skipped.length > 0) {
+    lines.push('');
+    lines.push('## Skipped');
+    for (const skip of skipped) {
+      lines.push(`- ⏭️ ${skip.method} ${skip.path}: ${skip.message}`);
+    }
+  }
+
+  return lines;
+}
+
+async function handleContractTest(
+  session: ApiTestingSession,
+  args: any,
+): Promise<ToolResult> {
+  const { feature, junitFile, workspace } = args;
+  const { authState } = session;
+  const config = getConfig(workspace ?? authState.workspace);
+  const { baseUrl, token } = requestTarget(authState, workspace);
+
+  const contracts = await getAllContracts(config.docsPath);
+  const endpoints = filterByFeature(contracts, feature);
+  if (endpoints.length === 0) {
+    const features = contracts.map((c) => c.feature);
+    return errorResult(
+      `No contracts found for feature "${feature}". Available features: ${features.join(', ') || 'none'}${formatDidYouMean(didYouMean(feature, features))}`,
+    );
+  }
+
+  if (!token && endpoints.some((e) => e.authentication)) {
+    return errorResult(
+      `🔓 Not authenticated\n\n${feature} has endpoints that require authentication. Login with aegisx_auth_login first; contract tests reuse its token.`,
+    );
+  }
+
+  const send: ContractTestSender = async (method, path, body) => {
+    const url = `${baseUrl}${path}`;
+    const requestHeaders: Record<string, string> = {};
+    if (token) {
+      requestHeaders['Authorization'] = `Bearer ${token}`;
+    }
+
+    try {
+      const result = await makeHttpRequest(method, url, {
+        body,
+        headers: requestHeaders,
+      });
+      addToHistory(session, {
+        timestamp: new Date().toISOString(),
+        method,
+        url,
+        status: result.status,
+        statusText: result.statusText,
+        responseTime: result.responseTime,
+        requestHeaders,
+        requestBody: body,
+        responseBody: result.body,
+      });
+      return result;
+    } catch (error: any) {
+      addToHistory(session, {
+        timestamp: new Date().toISOString(),
+        method,
+        url,
+        status: 0,
+        statusText: 'Error',
+        responseTime: error.responseTime || 0,
+        requestHeaders,
+        requestBody: body,
+        error: error.error || error.message,
+      });
+      throw new Error(error.error || error.message);
+    }
+  };
+
+  const report = await runContractTests(endpoints[0].feature, endpoints, send);
+  const junit = formatJUnitXml([toJUnitSuite(report)]);
+
+  const junitPath = junitFile
+    ? resolve(config.codebaseRoot, junitFile)
+    : undefined;
+
+  const lines = formatContractTestReport(report, baseUrl);
+  lines.push('');
+  if (junitPath) {
+    await fs.mkdir(dirname(junitPath), { recursive: true });
+    await fs.writeFile(junitPath, junit, 'utf-8');
+    lines.push(`**JUnit report:** ${junitPath}`);
+  } else {
+    lines.push('**JUnit report:**');
+    lines.push('```xml');
+    lines.push(junit.trimEnd());
+    lines.push('```');
+  }
+
+  return structuredResult(lines.join('\n'), {
+    ...report,
+    baseUrl,
+    junit,
+    junitFile: junitPath,
+  });
+}
+
+function handleHistory(session: ApiTestingSession, args: any): ToolResult {
   const { limit = 10, method, status } = args;
 
-  let filtered = requestHistory;
+  let filtered = session.requestHistory;
 
   if (method) {
     filtered = filtered.filter((entry) => entry.method === method);
@@ -703,14 +826,10 @@ function handleHistory(args: any): { content: any[] } {
   const entries = filtered.slice(0, limit);
 
   if (entries.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: '📭 No request history\n\nMake some API requests using aegisx_api_request to see history.',
-        },
-      ],
-    };
+    return structuredResult(
+      '📭 No request history\n\nMake some API requests using aegisx_api_request to see history.',
+      { total: filtered.length, entries: [] },
+    );
   }
 
   const lines: string[] = [];
@@ -742,67 +861,208 @@ function handleHistory(args: any): { content: any[] } {
     lines.push('');
   }
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: lines.join('\n'),
-      },
-    ],
-  };
+  return structuredResult(lines.join('\n'), {
+    total: filtered.length,
+    entries,
+  });
 }
 
-function handleClearHistory(): { content: any[] } {
-  const count = requestHistory.length;
-  requestHistory = [];
-  requestIdCounter = 1;
+function handleClearHistory(session: ApiTestingSession): ToolResult {
+  const count = session.requestHistory.length;
+  session.requestHistory = [];
+  session.requestIdCounter = 1;
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: `✅ Cleared ${count} request(s) from history`,
-      },
-    ],
-  };
+  return structuredResult(`✅ Cleared ${count} request(s) from history`, {
+    cleared: count,
+  });
 }
 
-// ============ MAIN HANDLER ============
+// ============ TOOL DEFINITIONS ============
 
-export async function handleApiTestingTool(
-  toolName: string,
-  args: any,
-): Promise<{ content: any[] }> {
-  switch (toolName) {
-    case 'aegisx_auth_login':
-      return handleLogin(args);
-
-    case 'aegisx_auth_status':
-      return handleStatus();
-
-    case 'aegisx_auth_decode_jwt':
-      return handleDecodeJWT(args);
-
-    case 'aegisx_auth_logout':
-      return handleLogout();
-
-    case 'aegisx_api_request':
-      return handleApiRequest(args);
-
-    case 'aegisx_api_history':
-      return handleHistory(args);
-
-    case 'aegisx_api_clear_history':
-      return handleClearHistory();
-
-    default:
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Unknown tool: ${toolName}`,
-          },
-        ],
-      };
-  }
-}
+export const apiTestingTools = [
+  defineTool({
+    name: 'aegisx_auth_login',
+    description:
+      'Login to AegisX API and store access token for subsequent requests. Default baseUrl is apiBaseUrl from the project config (http://localhost:3000)',
+    inputSchema: {
+      email: z.string().describe('User email address'),
+      password: z.string().describe('User password'),
+      baseUrl: z
+        .string()
+        .optional()
+        .describe(
+          'API base URL (default: apiBaseUrl from aegisx-mcp.config.json or AEGISX_API_URL, else http://localhost:3000)',
+        ),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      authenticated: z.boolean(),
+      baseUrl: z.string(),
+      user: z.unknown(),
+      token: decodedTokenSchema,
+    },
+    annotations: { openWorldHint: true },
+    handler: (args, context) => handleLogin(context.apiTesting, args),
+  }),
+
+  defineTool({
+    name: 'aegisx_auth_status',
+    description:
+      'Check current authentication status including token info and user details',
+    inputSchema: {},
+    outputSchema: {
+      authenticated: z.boolean(),
+      baseUrl: z.string(),
+      user: z.unknown().optional(),
+      loginTime: z.string().optional().describe('ISO timestamp'),
+      token: decodedTokenSchema.optional(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: (_args, context) => handleStatus(context.apiTesting),
+  }),
+
+  defineTool({
+    name: 'aegisx_auth_decode_jwt',
+    description:
+      'Decode and display JWT token information including header, payload, and expiry details',
+    inputSchema: {
+      token: z
+        .string()
+        .optional()
+        .describe(
+          'JWT token to decode (optional - uses current logged-in token if not provided)',
+        ),
+    },
+    outputSchema: decodedTokenSchema.shape,
+    annotations: { readOnlyHint: true },
+    handler: (args, context) => handleDecodeJWT(context.apiTesting, args),
+  }),
+
+  defineTool({
+    name: 'aegisx_auth_logout',
+    description: 'Logout and clear authentication token and session data',
+    inputSchema: {},
+    outputSchema: {
+      wasLoggedIn: z.boolean(),
+    },
+    annotations: { openWorldHint: true },
+    handler: (_args, context) => handleLogout(context.apiTesting),
+  }),
+
+  defineTool({
+    name: 'aegisx_api_request',
+    description:
+      'Make an authenticated HTTP request to AegisX API endpoints. Automatically includes Authorization header if logged in. Set validateContract to check the response against the documented contract.',
+    inputSchema: {
+      method: z
+        .enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+        .describe('HTTP method'),
+      path: z
+        .string()
+        .describe(
+          'API endpoint path (e.g., "/api/profile", "/api/inventory/drugs")',
+        ),
+      body: z
+        .any()
+        .optional()
+        .describe('Request body for POST/PUT/PATCH requests (optional)'),
+      headers: z
+        .record(z.string())
+        .optional()
+        .describe('Additional headers (optional)'),
+      queryParams: z
+        .record(z.string())
+        .optional()
+        .describe('Query parameters as key-value pairs (optional)'),
+      validateContract: z
+        .boolean()
+        .optional()
+        .describe(
+          'Check the status and body against the documented API contract (default: false)',
+        ),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      ok: z.boolean().describe('Whether the response status was 2xx'),
+      entry: requestHistoryEntrySchema,
+      conformance: conformanceReportSchema
+        .nullable()
+        .optional()
+        .describe(
+          'Contract check when validateContract is set; null if the endpoint is undocumented',
+        ),
+    },
+    annotations: { openWorldHint: true },
+    handler: (args, context) => handleApiRequest(context.apiTesting, args),
+  }),
+
+  defineTool({
+    name: 'aegisx_api_contract_test',
+    description:
+      'Run contract tests for a feature: call every documented endpoint with the current login (creates first, then reads, updates and deletes, which only touch records the run created) and check status codes and response shapes. Returns a pass/fail matrix and a JUnit XML report.',
+    inputSchema: {
+      feature: z
+        .string()
+        .describe('Feature whose contract to test (e.g., "budget-request")'),
+      junitFile: z
+        .string()
+        .optional()
+        .describe(
+          'Write the JUnit XML report to this path, relative to codebaseRoot (optional)',
+        ),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      feature: z.string(),
+      baseUrl: z.string(),
+      passed: z.number(),
+      failed: z.number(),
+      skipped: z.number(),
+      duration: z.number().describe('Milliseconds'),
+      results: z.array(contractTestResultSchema),
+      junit: z.string().describe('JUnit XML report'),
+      junitFile: z
+        .string()
+        .optional()
+        .describe('Absolute path the report was written to'),
+    },
+    annotations: { openWorldHint: true, destructiveHint: true },
+    handler: (args, context) => handleContractTest(context.apiTesting, args),
+  }),
+
+  defineTool({
+    name: 'aegisx_api_history',
+    description:
+      'View request/response history. Shows last 50 requests with status, timing, and response data.',
+    inputSchema: {
+      limit: z
+        .number()
+        .optional()
+        .describe('Number of recent requests to show (default: 10)'),
+      method: z
+        .string()
+        .optional()
+        .describe('Filter by HTTP method (optional)'),
+      status: z
+        .number()
+        .optional()
+        .describe('Filter by status code (optional)'),
+    },
+    outputSchema: {
+      total: z.number().describe('Entries matching the filters'),
+      entries: z.array(requestHistoryEntrySchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: (args, context) => handleHistory(context.apiTesting, args),
+  }),
+
+  defineTool({
+    name: 'aegisx_api_clear_history',
+    description: 'Clear all request/response history',
+    inputSchema: {},
+    outputSchema: {
+      cleared: z.number(),
+    },
+    handler: (_args, context) => handleClearHistory(context.apiTesting),
+  }),
+];
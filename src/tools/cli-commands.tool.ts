@@ -0,0 +1,86 @@
+/**
+ * AegisX CLI Command Tools
+ * One MCP tool per synced CLI command, generated from CommandInfo metadata
+ */
+
+import {
+  getCommandToolSpecs,
+  buildCliCommand,
+  CommandToolSpec,
+} from '../data/command-registry.js';
+import { z } from 'zod';
+import {
+  AnyToolDefinition,
+  defineTool,
+  structuredResult,
+} from './tool-definition.js';
+import { builtCommandShape } from './output-schemas.js';
+import { getConfig, workspaceArgShape } from '../config/index.js';
+
+/**
+ * Format the built command for one CLI tool call
+ * @param spec - Tool spec for the command
+ * @param command - Built command string
+ * @param args - Tool arguments keyed by camelCase names
+ * @returns Markdown with the command, notes and dry-run hint
+ */
+function formatCliCommand(
+  spec: CommandToolSpec,
+  command: string,
+  args: Record<string, unknown>,
+): string {
+  const lines: string[] = [];
+  lines.push(`# \`${spec.commandPath}\``);
+  lines.push('');
+  lines.push(spec.command.description);
+  lines.push('');
+  lines.push('```bash');
+  lines.push(command);
+  lines.push('```');
+  lines.push('');
+
+  if (spec.command.notes && spec.command.notes.length > 0) {
+    lines.push('## Notes');
+    for (const note of spec.command.notes) {
+      lines.push(note.startsWith('-') ? note : `- ${note}`);
+    }
+    lines.push('');
+  }
+
+  if (args.dryRun) {
+    lines.push(
+      '> This is a dry run. Remove `--dry-run` to actually generate files.',
+    );
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+export const cliCommandTools: AnyToolDefinition[] = getCommandToolSpecs().map(
+  (spec) =>
+    defineTool({
+      name: spec.toolName,
+      description: `Build the \`${spec.commandPath}\` CLI command: ${spec.command.description}`,
+      inputSchema: {
+        ...spec.inputShape,
+        ...workspaceArgShape,
+      } as z.ZodRawShape,
+      outputSchema: {
+        ...builtCommandShape,
+        commandPath: z.string(),
+      },
+      annotations: { readOnlyHint: true },
+      handler: (args) => {
+        const command = buildCliCommand(
+          spec,
+          args,
+          getConfig(args.workspace as string | undefined).cliPath,
+        );
+        return structuredResult(formatCliCommand(spec, command, args), {
+          command,
+          dryRun: args.dryRun === true,
+          commandPath: spec.commandPath,
+        });
+      },
+    }),
+);
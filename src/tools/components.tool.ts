@@ -2,7 +2,7 @@
  * AegisX UI Components Tools
  */
 
-import type { ToolDefinition } from './index.js';
+import { z } from 'zod';
 import {
   getAllComponents,
   getComponentsByCategory,
@@ -10,65 +10,32 @@ import {
   searchComponents,
   componentCategories,
   ComponentInfo,
+  ComponentCategory,
 } from '../data/components.js';
+import {
+  defineTool,
+  errorResult,
+  structuredResult,
+} from './tool-definition.js';
+import {
+  componentInfoSchema,
+  componentSummarySchema,
+} from './output-schemas.js';
+import { didYouMean, formatDidYouMean } from '../utils/fuzzy-match.js';
 
-// Re-export for use in index.ts
-export { componentCategories };
-
-export const componentTools: ToolDefinition[] = [
-  {
-    name: 'aegisx_components_list',
-    description:
-      'List all AegisX UI components or filter by category. Returns component names, selectors, and brief descriptions.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        category: {
-          type: 'string',
-          description: `Filter by category: ${componentCategories.join(', ')}`,
-          enum: [...componentCategories],
-        },
-      },
-    },
-  },
-  {
-    name: 'aegisx_components_get',
-    description:
-      'Get detailed information about a specific AegisX UI component including all inputs, outputs, usage examples, and best practices.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description:
-            'Component name (e.g., "Badge", "Card") or selector (e.g., "ax-badge")',
-        },
-      },
-      required: ['name'],
-    },
-  },
-  {
-    name: 'aegisx_components_search',
-    description:
-      'Search AegisX UI components by name, description, or functionality.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query (e.g., "loading", "form", "chart")',
-        },
-      },
-      required: ['query'],
-    },
-  },
-];
+/**
+ * Strip a component down to its list/search fields
+ */
+function toComponentSummary(component: ComponentInfo) {
+  const { name, selector, category, description } = component;
+  return { name, selector, category, description };
+}
 
 function formatComponentBrief(component: ComponentInfo): string {
   return `- **${component.name}** (\`${component.selector}\`) - ${component.description}`;
 }
 
-function formatComponentDetail(component: ComponentInfo): string {
+export function formatComponentDetail(component: ComponentInfo): string {
   const lines: string[] = [];
 
   lines.push(`# ${component.name}`);
@@ -127,15 +94,26 @@ function formatComponentDetail(component: ComponentInfo): string {
   return lines.join('\n');
 }
 
-export function handleComponentTool(
-  name: string,
-  args: Record<string, unknown>,
-): { content: Array<{ type: string; text: string }> } {
-  switch (name) {
-    case 'aegisx_components_list': {
-      const category = args.category as string | undefined;
+export const componentTools = [
+  defineTool({
+    name: 'aegisx_components_list',
+    description:
+      'List all AegisX UI components or filter by category. Returns component names, selectors, and brief descriptions.',
+    inputSchema: {
+      category: z
+        .enum(componentCategories)
+        .optional()
+        .describe(`Filter by category: ${componentCategories.join(', ')}`),
+    },
+    outputSchema: {
+      category: z.string().optional(),
+      total: z.number(),
+      components: z.array(componentSummarySchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ category }) => {
       const components = category
-        ? getComponentsByCategory(category as any)
+        ? getComponentsByCategory(category as ComponentCategory)
         : getAllComponents();
 
       const grouped = new Map<string, ComponentInfo[]>();
@@ -161,44 +139,74 @@ export function handleComponentTool(
         lines.push('');
       }
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), {
+        category,
+        total: components.length,
+        components: components.map(toComponentSummary),
+      });
+    },
+  }),
 
-    case 'aegisx_components_get': {
-      const componentName = args.name as string;
-      const component = getComponentByName(componentName);
+  defineTool({
+    name: 'aegisx_components_get',
+    description:
+      'Get detailed information about a specific AegisX UI component including all inputs, outputs, usage examples, and best practices.',
+    inputSchema: {
+      name: z
+        .string()
+        .describe(
+          'Component name (e.g., "Badge", "Drawer") or selector (e.g., "ax-badge", "ax-drawer")',
+        ),
+    },
+    outputSchema: {
+      component: componentInfoSchema,
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ name }) => {
+      const component = getComponentByName(name);
 
       if (!component) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Component "${componentName}" not found. Use aegisx_components_list to see available components.`,
-            },
-          ],
-        };
+        // Either the name or the selector is accepted, so match both
+        const suggestions = didYouMean(
+          name,
+          getAllComponents().flatMap((c) => [c.selector, c.name]),
+        );
+        return errorResult(
+          `Component "${name}" not found. Use aegisx_components_list to see available components.${formatDidYouMean(suggestions)}`,
+        );
       }
 
-      return {
-        content: [{ type: 'text', text: formatComponentDetail(component) }],
-      };
-    }
+      return structuredResult(formatComponentDetail(component), {
+        component,
+      });
+    },
+  }),
 
-    case 'aegisx_components_search': {
-      const query = args.query as string;
+  defineTool({
+    name: 'aegisx_components_search',
+    description:
+      'Search AegisX UI components by name, description, or functionality.',
+    inputSchema: {
+      query: z
+        .string()
+        .describe(
+          'Search query (e.g., "loading", "form", "chart"); empty lists every component',
+        ),
+    },
+    outputSchema: {
+      query: z.string(),
+      total: z.number(),
+      components: z.array(componentSummarySchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ query }) => {
       const results = searchComponents(query);
 
       if (results.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No components found matching "${query}". Try a different search term.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `No components found matching "${query}". Try a different search term.`,
+          { query, total: 0, components: [] },
+        );
       }
 
       const lines: string[] = [];
@@ -208,14 +216,11 @@ export function handleComponentTool(
         lines.push(formatComponentBrief(comp));
       }
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
-
-    default:
-      return {
-        content: [{ type: 'text', text: `Unknown component tool: ${name}` }],
-      };
-  }
-}
+      return structuredResult(lines.join('\n'), {
+        query,
+        total: results.length,
+        components: results.map(toComponentSummary),
+      });
+    },
+  }),
+];
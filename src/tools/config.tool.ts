@@ -0,0 +1,180 @@
+/**
+ * AegisX Project Configuration Tools
+ */
+
+import { z } from 'zod';
+import {
+  loadConfig,
+  findWorkspace,
+  configSchema,
+  AegisxConfig,
+  ConfigKey,
+  CONFIG_ENV_VARS,
+  CONFIG_FILE_NAME,
+  CONFIG_PATH_ENV_VAR,
+  PACKAGE_JSON_KEY,
+  WORKSPACES_ENV_VAR,
+  workspaceArgShape,
+} from '../config/index.js';
+import {
+  discoverContractFeatures,
+  getCacheStats,
+} from '../data/api-contracts-parser.js';
+import { defineTool, structuredResult } from './tool-definition.js';
+
+/**
+ * Read a setting by its dotted key (e.g., "auth.loginPath")
+ */
+function settingValue(config: AegisxConfig, key: ConfigKey): unknown {
+  return key
+    .split('.')
+    .reduce<unknown>(
+      (value, part) => (value as Record<string, unknown>)[part],
+      config,
+    );
+}
+
+/**
+ * Render a setting value for a markdown table cell
+ */
+function formatValue(value: unknown): string {
+  return Array.isArray(value)
+    ? value.map((item) => `\`${item}\``).join(', ')
+    : `\`${String(value)}\``;
+}
+
+export const configTools = [
+  defineTool({
+    name: 'aegisx_config_show',
+    description: `Show the effective aegisx-mcp project configuration (docs path, codebase root, route globs, API URL, auth paths, admin app, CLI path) and where each value comes from: ${CONFIG_FILE_NAME}, the "${PACKAGE_JSON_KEY}" key in package.json, environment variables, or a workspace entry.`,
+    inputSchema: { ...workspaceArgShape },
+    outputSchema: {
+      configFile: z
+        .string()
+        .optional()
+        .describe('Config file that was read, if any'),
+      projectRoot: z.string(),
+      workspace: z.string(),
+      config: configSchema,
+      sources: z.record(z.enum(['default', 'file', 'env', 'workspace'])),
+      warnings: z.array(z.string()),
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ workspace }) => {
+      const loaded = loadConfig();
+      const { name, config, sources } = findWorkspace(loaded, workspace);
+      const { warnings } = loaded;
+
+      const lines: string[] = [];
+      lines.push('# AegisX MCP Configuration');
+      lines.push('');
+      lines.push(
+        `**Config file:** ${loaded.configFile ? `\`${loaded.configFile}\`` : `none (defaults; create \`${CONFIG_FILE_NAME}\` or set \`${CONFIG_PATH_ENV_VAR}\`)`}`,
+      );
+      lines.push(`**Project root:** \`${loaded.projectRoot}\``);
+      lines.push(
+        `**Workspace:** \`${name}\`${name === loaded.defaultWorkspace ? ' (default)' : ''}`,
+      );
+      lines.push('');
+      lines.push('| Setting | Value | Source | Env Var |');
+      lines.push('|---------|-------|--------|---------|');
+      for (const key of Object.keys(CONFIG_ENV_VARS) as ConfigKey[]) {
+        lines.push(
+          `| \`${key}\` | ${formatValue(settingValue(config, key))} | ${sources[key]} | \`${CONFIG_ENV_VARS[key]}\` |`,
+        );
+      }
+
+      if (warnings.length > 0) {
+        lines.push('');
+        lines.push('## Warnings');
+        for (const warning of warnings) {
+          lines.push(`- ⚠️ ${warning}`);
+        }
+      }
+
+      return structuredResult(lines.join('\n'), {
+        configFile: loaded.configFile,
+        projectRoot: loaded.projectRoot,
+        workspace: name,
+        config,
+        sources,
+        warnings,
+      });
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_workspaces_list',
+    description: `List the AegisX repositories this server can work on. Workspaces come from the "workspaces" map in ${CONFIG_FILE_NAME} and ${WORKSPACES_ENV_VAR}; pass a name as the \`workspace\` argument of contract, validation and CRUD tools.`,
+    inputSchema: {},
+    outputSchema: {
+      defaultWorkspace: z.string(),
+      workspaces: z.array(
+        z.object({
+          name: z.string(),
+          isDefault: z.boolean(),
+          codebaseRoot: z.string(),
+          docsPath: z.string(),
+          apiBaseUrl: z.string(),
+          features: z.array(z.string()),
+          cachedFiles: z
+            .number()
+            .describe('Contract files in this workspace cache'),
+        }),
+      ),
+      warnings: z.array(z.string()),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async () => {
+      const loaded = loadConfig();
+      const workspaces = await Promise.all(
+        loaded.workspaces.map(async ({ name, config }) => ({
+          name,
+          isDefault: name === loaded.defaultWorkspace,
+          codebaseRoot: config.codebaseRoot,
+          docsPath: config.docsPath,
+          apiBaseUrl: config.apiBaseUrl,
+          features: await discoverContractFeatures(config.docsPath),
+          cachedFiles: getCacheStats(config.docsPath).cachedFiles,
+        })),
+      );
+
+      const lines: string[] = [];
+      lines.push(`# AegisX Workspaces (${workspaces.length})`);
+      lines.push('');
+      for (const workspace of workspaces) {
+        lines.push(
+          `## ${workspace.name}${workspace.isDefault ? ' (default)' : ''}`,
+        );
+        lines.push(`- **Codebase root:** \`${workspace.codebaseRoot}\``);
+        lines.push(`- **Docs path:** \`${workspace.docsPath}\``);
+        lines.push(`- **API URL:** \`${workspace.apiBaseUrl}\``);
+        lines.push(
+          `- **Features:** ${workspace.features.length > 0 ? workspace.features.join(', ') : 'none found'}`,
+        );
+        lines.push(`- **Cached contract files:** ${workspace.cachedFiles}`);
+        lines.push('');
+      }
+
+      if (workspaces.length === 1) {
+        lines.push(
+          `Only the default workspace is configured. Add a "workspaces" map to ${CONFIG_FILE_NAME} or set ${WORKSPACES_ENV_VAR} (e.g., "hotfix=../aegisx-hotfix") to serve more repositories.`,
+        );
+      }
+
+      if (loaded.warnings.length > 0) {
+        lines.push('');
+        lines.push('## Warnings');
+        for (const warning of loaded.warnings) {
+          lines.push(`- ⚠️ ${warning}`);
+        }
+      }
+
+      return structuredResult(lines.join('\n').trimEnd(), {
+        defaultWorkspace: loaded.defaultWorkspace,
+        workspaces,
+        warnings: loaded.warnings,
+      });
+    },
+  }),
+];
@@ -2,426 +2,138 @@
  * AegisX CRUD Generator Tools
  */
 
-import type { ToolDefinition } from './index.js';
+import { z } from 'zod';
 import {
   getTroubleshooting,
-  buildCommand,
   generatedFiles,
+  GeneratedFile,
 } from '../data/crud-commands.js';
+import { defineTool, structuredResult } from './tool-definition.js';
+import {
+  builtCommandShape,
+  generatedFileSchema,
+  troubleshootingItemSchema,
+} from './output-schemas.js';
+import {
+  buildCliCommand,
+  CommandToolSpec,
+  DEFAULT_CLI_PATH,
+  getCommandToolSpec,
+} from '../data/command-registry.js';
+import { getConfig, workspaceArgShape } from '../config/index.js';
 
-export const crudTools: ToolDefinition[] = [
-  {
-    name: 'aegisx_crud_build_command',
-    description:
-      'Build a CRUD generator command with the specified options. Returns the exact command to run.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description:
-            'Database table name in snake_case (e.g., "products", "user_profiles")',
-        },
-        target: {
-          type: 'string',
-          enum: ['backend', 'frontend'],
-          description: 'Generation target (default: backend)',
-        },
-
-        // === App & Shell Options (Frontend) ===
-        app: {
-          type: 'string',
-          enum: ['api', 'web', 'admin'],
-          description:
-            'Target app - api (backend default), web (frontend default), admin',
-        },
-        shell: {
-          type: 'string',
-          description:
-            'Target shell for frontend (e.g., "system", "inventory"). Routes registered in shell routes file.',
-        },
-        section: {
-          type: 'string',
-          description:
-            'Section within shell (e.g., "master-data"). Module registered in section config.',
-        },
-
-        // === Feature Options ===
-        withImport: {
-          type: 'boolean',
-          description: 'Include Excel/CSV import functionality',
-        },
-        withEvents: {
-          type: 'boolean',
-          description: 'Include WebSocket events for real-time updates',
-        },
-        withExport: {
-          type: 'boolean',
-          description: 'Include export functionality (CSV/Excel/PDF)',
-        },
-        withHierarchy: {
-          type: 'boolean',
-          description:
-            'Include tree/hierarchy support for self-referencing tables (parent_id). Generates tree component, hierarchical selector, and tree endpoints.',
-        },
-
-        // === Frontend Options ===
-        smartStats: {
-          type: 'boolean',
-          description: 'Auto-detect statistics fields in table (frontend only)',
-        },
-        includeAuditFields: {
-          type: 'boolean',
-          description:
-            'Include audit fields (created_at, updated_at, etc.) in forms (frontend only)',
-        },
-
-        // === Backend Options ===
-        package: {
-          type: 'string',
-          enum: ['standard', 'enterprise', 'full'],
-          description:
-            'Feature package to generate - standard (basic CRUD), enterprise (+ bulk ops), full (+ validation)',
-        },
-        multipleRoles: {
-          type: 'boolean',
-          description:
-            'Generate 3 roles (admin/editor/viewer) instead of single role (backend only)',
-        },
-        noRoles: {
-          type: 'boolean',
-          description: 'Skip role generation entirely (backend only)',
-        },
-        directDb: {
-          type: 'boolean',
-          description:
-            'Write roles directly to database - development only (backend only)',
-        },
-        migrationOnly: {
-          type: 'boolean',
-          description:
-            'Generate migration file only, no CRUD files (backend only)',
-        },
-
-        // === General Options ===
-        output: {
-          type: 'string',
-          description: 'Custom output directory (overrides --app)',
-        },
-        config: {
-          type: 'string',
-          description: 'Configuration file path',
-        },
-        noRegister: {
-          type: 'boolean',
-          description:
-            'Skip auto-registration in plugin.loader.ts / app.routes.ts',
-        },
-        noFormat: {
-          type: 'boolean',
-          description: 'Skip auto-formatting generated files with prettier',
-        },
-        layer: {
-          type: 'string',
-          description: 'Architectural layer: core, platform, or domains',
-        },
-        type: {
-          type: 'string',
-          description:
-            'Module type within domain (e.g., "master-data", "operations")',
-        },
-
-        // === Domain & Schema ===
-        domain: {
-          type: 'string',
-          description:
-            'Domain path for module organization (e.g., "inventory", "hr", "inventory/master-data")',
-        },
-        schema: {
-          type: 'string',
-          description:
-            'PostgreSQL schema to read table from (default: "public")',
-        },
-
-        // === Control Options ===
-        force: {
-          type: 'boolean',
-          description: 'Overwrite existing files without prompt',
-        },
-        dryRun: {
-          type: 'boolean',
-          description: 'Preview files without creating them',
-        },
-      },
-      required: ['tableName'],
-    },
-  },
-  // REMOVED: aegisx_crud_packages - Package system replaced with option-based system
+// REMOVED: PackageInfo interface and formatPackage function
+// Package system replaced with option-based system
+
+/**
+ * Point a command using the default CLI path at the configured CLI
+ * @param command - Command starting with the default CLI path
+ * @param cliPath - Configured CLI entry point
+ * @returns Command using cliPath
+ */
+function withCliPath(command: string, cliPath: string): string {
+  return command.startsWith(DEFAULT_CLI_PATH)
+    ? cliPath + command.slice(DEFAULT_CLI_PATH.length)
+    : command;
+}
+
+/**
+ * Look up the registry spec of a CLI command wrapped by a tool below
+ * The wrappers take their arguments from the synced metadata, so they accept
+ * exactly what `aegisx_cli_<command>` accepts.
+ *
+ * @param toolName - Generated tool name (e.g., "aegisx_cli_generate")
+ * @returns Spec for the command
+ */
+function requireCommandSpec(toolName: string): CommandToolSpec {
+  const spec = getCommandToolSpec(toolName);
+  if (!spec) {
+    throw new Error(`CLI metadata has no command for ${toolName}`);
+  }
+  return spec;
+}
+
+const generateSpec = requireCommandSpec('aegisx_cli_generate');
+const shellSpec = requireCommandSpec('aegisx_cli_shell');
+const sectionSpec = requireCommandSpec('aegisx_cli_section');
+
+/**
+ * Shell layouts offered by `shell --type`
+ */
+const shellTypes = [
   {
-    name: 'aegisx_crud_files',
-    description: 'Show what files will be generated for a CRUD module.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        target: {
-          type: 'string',
-          enum: ['backend', 'frontend', 'both'],
-          description: 'Which target to show files for',
-        },
-        tableName: {
-          type: 'string',
-          description: 'Table name to show file paths for (optional)',
-        },
-      },
-    },
+    type: 'simple',
+    title: '🟢 SIMPLE',
+    layout: 'Uses `AxEmptyLayoutComponent`',
+    features: [
+      'Minimal layout without navigation',
+      'Suitable for: Auth pages, landing pages, error pages',
+    ],
+    example: './bin/cli.js shell auth --type simple --force',
   },
   {
-    name: 'aegisx_crud_troubleshoot',
-    description: 'Get troubleshooting help for common CRUD generator issues.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        problem: {
-          type: 'string',
-          description: 'Describe the problem you are experiencing',
-        },
-      },
-    },
+    type: 'enterprise',
+    title: '🟡 ENTERPRISE (default)',
+    layout: 'Uses `AxEnterpriseLayoutComponent`',
+    features: [
+      'Full navigation sidebar',
+      'Header with actions',
+      'Footer with version',
+      'Dashboard and Master Data pages',
+      'Single sub-app navigation',
+    ],
+    example: './bin/cli.js shell inventory --force',
   },
   {
-    name: 'aegisx_crud_workflow',
-    description:
-      'Get the recommended workflow for generating a complete CRUD feature (backend + frontend).',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        tableName: {
-          type: 'string',
-          description: 'Table name for the feature',
-        },
-
-        // Feature Options
-        withImport: {
-          type: 'boolean',
-          description: 'Include import functionality',
-        },
-        withEvents: {
-          type: 'boolean',
-          description: 'Include real-time events',
-        },
-        withExport: {
-          type: 'boolean',
-          description: 'Include export functionality',
-        },
-        withHierarchy: {
-          type: 'boolean',
-          description:
-            'Include tree/hierarchy support for self-referencing tables (parent_id)',
-        },
-
-        // App & Shell (Frontend)
-        app: {
-          type: 'string',
-          enum: ['web', 'admin'],
-          description: 'Target frontend app (default: web)',
-        },
-        shell: {
-          type: 'string',
-          description:
-            'Target shell for frontend (e.g., "system", "inventory")',
-        },
-        section: {
-          type: 'string',
-          description: 'Section within shell (e.g., "master-data")',
-        },
-
-        // Domain & Schema
-        domain: {
-          type: 'string',
-          description:
-            'Domain path for module organization (e.g., "inventory", "hr")',
-        },
-        schema: {
-          type: 'string',
-          description: 'PostgreSQL schema to read table from',
-        },
-      },
-      required: ['tableName'],
-    },
+    type: 'multi-app',
+    title: '🔴 MULTI-APP',
+    layout: 'Uses `AxEnterpriseLayoutComponent` with sub-app tabs',
+    features: [
+      'All enterprise features, plus:',
+      'Sub-app tabs in header',
+      'Suitable for: Large enterprise applications',
+    ],
+    example: './bin/cli.js shell erp --type multi-app --force',
   },
+];
 
-  // === Shell Generator Tools ===
-  {
-    name: 'aegisx_shell_generate',
-    description:
-      'Generate App Shell (layout component with navigation, routes, and pages). Use this to create a new shell before generating CRUD modules.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        shellName: {
-          type: 'string',
-          description: 'Shell name in kebab-case (e.g., "inventory", "system")',
-        },
-        type: {
-          type: 'string',
-          enum: ['simple', 'enterprise', 'multi-app'],
-          description:
-            'Shell type - simple (minimal), enterprise (full nav), multi-app (with sub-app tabs)',
-        },
-        app: {
-          type: 'string',
-          enum: ['web', 'admin'],
-          description: 'Target app (default: web)',
-        },
-        name: {
-          type: 'string',
-          description: 'Display name for the shell (e.g., "Inventory System")',
-        },
-        theme: {
-          type: 'string',
-          enum: ['default', 'indigo', 'teal', 'rose'],
-          description: 'Theme preset',
-        },
-        order: {
-          type: 'number',
-          description: 'App order in launcher (default: 0)',
-        },
-        withDashboard: {
-          type: 'boolean',
-          description: 'Include dashboard page (default: true)',
-        },
-        withMasterData: {
-          type: 'boolean',
-          description:
-            'Include Master Data page with ax-launcher (default: true)',
-        },
-        withSettings: {
-          type: 'boolean',
-          description: 'Include settings page',
-        },
-        withAuth: {
-          type: 'boolean',
-          description: 'Include AuthGuard and AuthService (default: true)',
-        },
-        withThemeSwitcher: {
-          type: 'boolean',
-          description: 'Include theme switcher component',
-        },
-        force: {
-          type: 'boolean',
-          description: 'Force overwrite existing files',
-        },
-        dryRun: {
-          type: 'boolean',
-          description: 'Preview files without creating them',
-        },
-      },
-      required: ['shellName'],
-    },
-  },
-  {
-    name: 'aegisx_shell_types',
-    description:
-      'Show available shell types (simple, enterprise, multi-app) and their features.',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
-  },
-  {
-    name: 'aegisx_section_generate',
+export const crudTools = [
+  defineTool({
+    name: 'aegisx_crud_build_command',
     description:
-      'Generate a section within a shell (sub-page with ax-launcher for grouping CRUD modules). Use this to organize CRUD modules into categories like "master-data", "reports", etc.',
+      'Build a CRUD generator command with the specified options. Returns the exact command to run.',
     inputSchema: {
-      type: 'object',
-      properties: {
-        shellName: {
-          type: 'string',
-          description: 'Parent shell name (e.g., "inventory")',
-        },
-        sectionName: {
-          type: 'string',
-          description:
-            'Section name in kebab-case (e.g., "master-data", "reports")',
-        },
-        app: {
-          type: 'string',
-          enum: ['web', 'admin'],
-          description: 'Target app (default: web)',
-        },
-        name: {
-          type: 'string',
-          description:
-            'Display name for the section (e.g., "Master Data Management")',
-        },
-        force: {
-          type: 'boolean',
-          description: 'Force overwrite existing files',
-        },
-        dryRun: {
-          type: 'boolean',
-          description: 'Preview files without creating them',
-        },
-      },
-      required: ['shellName', 'sectionName'],
+      ...generateSpec.inputShape,
+      tableName: z
+        .string()
+        .describe(
+          'Database table name in snake_case (e.g., "products", "user_profiles")',
+        ),
+      // Not in the synced `generate` options, so added on top of the spec
+      withHierarchy: z
+        .boolean()
+        .optional()
+        .describe(
+          'Include tree/hierarchy support for self-referencing tables (parent_id)',
+        ),
+      ...workspaceArgShape,
+    } as z.ZodRawShape,
+    outputSchema: {
+      ...builtCommandShape,
+      tableName: z.string(),
+      prerequisites: z
+        .array(z.string())
+        .describe('Commands to run before the generator command'),
     },
-  },
-];
-
-// REMOVED: PackageInfo interface and formatPackage function
-// Package system replaced with option-based system
-
-export function handleCrudTool(
-  name: string,
-  args: Record<string, unknown>,
-): { content: Array<{ type: string; text: string }> } {
-  switch (name) {
-    case 'aegisx_crud_build_command': {
+    annotations: { readOnlyHint: true },
+    handler: (args) => {
       const tableName = args.tableName as string;
       const domain = args.domain as string | undefined;
-      const schema = args.schema as string | undefined;
-      const command = buildCommand(tableName, {
-        // Target & App
-        target: args.target as 'backend' | 'frontend',
-        app: args.app as 'api' | 'web' | 'admin' | undefined,
-        output: args.output as string | undefined,
-        config: args.config as string | undefined,
-
-        // Shell & Section (Frontend)
-        shell: args.shell as string | undefined,
-        section: args.section as string | undefined,
-
-        // Feature Options
-        withImport: args.withImport as boolean,
-        withEvents: args.withEvents as boolean,
-        withExport: args.withExport as boolean,
-        withHierarchy: args.withHierarchy as boolean,
-
-        // Frontend Options
-        smartStats: args.smartStats as boolean,
-        includeAuditFields: args.includeAuditFields as boolean,
-
-        // Backend Options
-        package: args.package as 'standard' | 'enterprise' | 'full' | undefined,
-        multipleRoles: args.multipleRoles as boolean,
-        noRoles: args.noRoles as boolean,
-        directDb: args.directDb as boolean,
-        migrationOnly: args.migrationOnly as boolean,
-
-        // General Options
-        noRegister: args.noRegister as boolean,
-        noFormat: args.noFormat as boolean,
-        layer: args.layer as string | undefined,
-        type: args.type as string | undefined,
-
-        // Domain & Schema
-        domain,
-        schema,
-
-        // Control
-        force: args.force as boolean,
-        dryRun: args.dryRun as boolean,
-      });
+      const { cliPath } = getConfig(args.workspace as string | undefined);
+      const hierarchyFlag = args.withHierarchy ? ' --with-hierarchy' : '';
+      const command =
+        buildCliCommand(generateSpec, args, cliPath) + hierarchyFlag;
+      const prerequisites: string[] = [];
 
       const lines: string[] = [];
       lines.push('# CRUD Generator Command');
@@ -434,12 +146,16 @@ export function handleCrudTool(
       // Add domain initialization note
       if (domain) {
         const domainRoot = domain.split('/')[0];
+        const domainCommands = [
+          `pnpm run domain:init -- ${domainRoot}`,
+          `npx knex migrate:latest --knexfile knexfile-${domainRoot}.ts`,
+        ];
+        prerequisites.push(...domainCommands);
         lines.push(`> **Note:** Initialize domain first if not already done:`);
         lines.push('> ```bash');
-        lines.push(`> pnpm run domain:init -- ${domainRoot}`);
-        lines.push(
-          `> npx knex migrate:latest --knexfile knexfile-${domainRoot}.ts`,
-        );
+        for (const domainCommand of domainCommands) {
+          lines.push(`> ${domainCommand}`);
+        }
         lines.push('> ```');
         lines.push('');
       }
@@ -448,13 +164,21 @@ export function handleCrudTool(
       if (args.target === 'frontend') {
         lines.push('> **Note:** Generate backend first before frontend.');
         lines.push('> ```bash');
-        let backendCmd = `> ./bin/cli.js generate ${tableName}`;
-        if (domain) backendCmd += ` --domain ${domain}`;
-        if (schema) backendCmd += ` --schema ${schema}`;
-        if (args.withImport) backendCmd += ' --with-import';
-        if (args.withEvents) backendCmd += ' --with-events';
-        backendCmd += ' --force';
-        lines.push(backendCmd);
+        const backendCmd =
+          buildCliCommand(
+            generateSpec,
+            {
+              tableName,
+              domain,
+              schema: args.schema,
+              withImport: args.withImport,
+              withEvents: args.withEvents,
+              force: true,
+            },
+            cliPath,
+          ) + hierarchyFlag;
+        prerequisites.push(backendCmd);
+        lines.push(`> ${backendCmd}`);
         lines.push('> ```');
       }
 
@@ -465,16 +189,39 @@ export function handleCrudTool(
         );
       }
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
-
-    // REMOVED: aegisx_crud_packages handler - Package system replaced with option-based system
+      return structuredResult(lines.join('\n'), {
+        command,
+        dryRun: args.dryRun === true,
+        tableName,
+        prerequisites,
+      });
+    },
+  }),
 
-    case 'aegisx_crud_files': {
-      const target = (args.target as string) || 'both';
-      const tableName = (args.tableName as string) || '{name}';
+  defineTool({
+    name: 'aegisx_crud_files',
+    description: 'Show what files will be generated for a CRUD module.',
+    inputSchema: {
+      target: z
+        .enum(['backend', 'frontend', 'both'])
+        .optional()
+        .describe('Which target to show files for'),
+      tableName: z
+        .string()
+        .optional()
+        .describe('Table name to show file paths for (optional)'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      target: z.enum(['backend', 'frontend', 'both']),
+      files: z.array(generatedFileSchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: (args) => {
+      const target = args.target || 'both';
+      const { adminApp } = getConfig(args.workspace);
+      const files: GeneratedFile[] = [];
+      const tableName = args.tableName || '{name}';
 
       // Convert snake_case to kebab-case
       const kebabName = tableName.replace(/_/g, '-');
@@ -487,8 +234,9 @@ export function handleCrudTool(
         lines.push('## Backend Files');
         lines.push('```');
         for (const file of generatedFiles.backend) {
-          const path = file.path.replace(/{name}/g, kebabName);
-          lines.push(`apps/api/src/${path}`);
+          const path = `apps/api/src/${file.path.replace(/{name}/g, kebabName)}`;
+          files.push({ ...file, path });
+          lines.push(path);
           lines.push(`  └─ ${file.description}`);
         }
         lines.push('```');
@@ -499,20 +247,37 @@ export function handleCrudTool(
         lines.push('## Frontend Files');
         lines.push('```');
         for (const file of generatedFiles.frontend) {
-          const path = file.path.replace(/{name}/g, kebabName);
-          lines.push(`apps/admin/src/app/${path}`);
+          const path = `apps/${adminApp}/src/app/${file.path.replace(/{name}/g, kebabName)}`;
+          files.push({ ...file, path });
+          lines.push(path);
           lines.push(`  └─ ${file.description}`);
         }
         lines.push('```');
       }
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), { target, files });
+    },
+  }),
 
-    case 'aegisx_crud_troubleshoot': {
-      const problem = (args.problem as string) || '';
+  defineTool({
+    name: 'aegisx_crud_troubleshoot',
+    description: 'Get troubleshooting help for common CRUD generator issues.',
+    inputSchema: {
+      problem: z
+        .string()
+        .optional()
+        .describe('Describe the problem you are experiencing'),
+    },
+    outputSchema: {
+      problem: z.string().optional(),
+      matched: z
+        .boolean()
+        .describe('Whether items were filtered by the problem description'),
+      items: z.array(troubleshootingItemSchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: (args) => {
+      const problem = args.problem || '';
       const tips = getTroubleshooting();
 
       const lines: string[] = [];
@@ -527,7 +292,8 @@ export function handleCrudTool(
           t.solution.toLowerCase().includes(q),
       );
 
-      if (relevant.length > 0 && problem) {
+      const matched = relevant.length > 0 && problem !== '';
+      if (matched) {
         lines.push(`## Solutions for: "${problem}"`);
         lines.push('');
         for (const tip of relevant) {
@@ -555,22 +321,89 @@ export function handleCrudTool(
         }
       }
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), {
+        problem: args.problem,
+        matched,
+        items: matched ? relevant : tips,
+      });
+    },
+  }),
 
-    case 'aegisx_crud_workflow': {
-      const tableName = args.tableName as string;
-      const withImport = args.withImport as boolean;
-      const withEvents = args.withEvents as boolean;
-      const withExport = args.withExport as boolean;
-      const withHierarchy = args.withHierarchy as boolean;
-      const app = args.app as 'web' | 'admin' | undefined;
-      const shell = args.shell as string | undefined;
-      const section = args.section as string | undefined;
-      const domain = args.domain as string | undefined;
-      const schema = args.schema as string | undefined;
+  defineTool({
+    name: 'aegisx_crud_workflow',
+    description:
+      'Get the recommended workflow for generating a complete CRUD feature (backend + frontend).',
+    inputSchema: {
+      tableName: z.string().describe('Table name for the feature'),
+
+      // Feature Options
+      withImport: z
+        .boolean()
+        .optional()
+        .describe('Include import functionality'),
+      withEvents: z.boolean().optional().describe('Include real-time events'),
+      withExport: z
+        .boolean()
+        .optional()
+        .describe('Include export functionality'),
+      withHierarchy: z
+        .boolean()
+        .optional()
+        .describe(
+          'Include tree/hierarchy support for self-referencing tables (parent_id)',
+        ),
+
+      // App & Shell (Frontend)
+      app: z
+        .enum(['web', 'admin'])
+        .optional()
+        .describe('Target frontend app (default: web)'),
+      shell: z
+        .string()
+        .optional()
+        .describe('Target shell for frontend (e.g., "system", "inventory")'),
+      section: z
+        .string()
+        .optional()
+        .describe('Section within shell (e.g., "master-data")'),
+
+      // Domain & Schema
+      domain: z
+        .string()
+        .optional()
+        .describe(
+          'Domain path for module organization (e.g., "inventory", "hr")',
+        ),
+      schema: z
+        .string()
+        .optional()
+        .describe('PostgreSQL schema to read table from'),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      tableName: z.string(),
+      backendCommand: z.string(),
+      frontendCommand: z.string(),
+      modulePath: z.string().describe('Backend module directory'),
+      frontendPath: z.string().describe('Frontend feature directory'),
+      apiPath: z.string().describe('Base API route'),
+      navLink: z.string().describe('Frontend route for navigation'),
+      validateCommand: z.string(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: (args) => {
+      const tableName = args.tableName;
+      const withImport = args.withImport;
+      const withEvents = args.withEvents;
+      const withExport = args.withExport;
+      const withHierarchy = args.withHierarchy;
+      const app = args.app;
+      const shell = args.shell;
+      const section = args.section;
+      const domain = args.domain;
+      const schema = args.schema;
+      const { cliPath, apiBaseUrl, adminApp } = getConfig(args.workspace);
+      const frontendApp = app || adminApp;
 
       const kebabName = tableName.replace(/_/g, '-');
       const domainRoot = domain ? domain.split('/')[0] : null;
@@ -623,7 +456,7 @@ export function handleCrudTool(
       lines.push('');
       lines.push('```bash');
 
-      let backendFullCmd = `./bin/cli.js generate ${tableName}`;
+      let backendFullCmd = `${cliPath} generate ${tableName}`;
       if (domain) {
         backendFullCmd += ` --domain ${domain}`;
       }
@@ -671,14 +504,14 @@ export function handleCrudTool(
       const apiPath = domain
         ? `/api/${kebabDomain}/${domain.includes('/') ? domain.split('/').slice(1).join('/') + '/' : ''}${kebabName}`
         : `/api/${kebabName}`;
-      lines.push(`curl http://localhost:3333${apiPath}`);
+      lines.push(`curl ${apiBaseUrl}${apiPath}`);
       lines.push('```');
       lines.push('');
 
       lines.push('## Step 3: Generate Frontend');
       lines.push('');
       lines.push('```bash');
-      let frontendCmd = `./bin/cli.js generate ${tableName} --target frontend`;
+      let frontendCmd = `${cliPath} generate ${tableName} --target frontend`;
       if (domain) {
         frontendCmd += ` --domain ${domain}`;
       }
@@ -708,8 +541,8 @@ export function handleCrudTool(
       lines.push('```');
       lines.push('');
       const frontendPath = domain
-        ? `apps/admin/src/app/features/${kebabDomain}/${domain.includes('/') ? domain.split('/').slice(1).join('/') + '/' : ''}${kebabName}`
-        : `apps/admin/src/app/features/${kebabName}`;
+        ? `apps/${frontendApp}/src/app/features/${kebabDomain}/${domain.includes('/') ? domain.split('/').slice(1).join('/') + '/' : ''}${kebabName}`
+        : `apps/${frontendApp}/src/app/features/${kebabName}`;
       lines.push('Generated files:');
       lines.push(`- \`${frontendPath}/\``);
       lines.push(`  - \`${kebabName}.component.ts\``);
@@ -726,7 +559,7 @@ export function handleCrudTool(
         : `/${kebabName}`;
       lines.push('Add to your navigation config:');
       lines.push('```typescript');
-      lines.push('// apps/admin/src/app/config/navigation.config.ts');
+      lines.push(`// apps/${frontendApp}/src/app/config/navigation.config.ts`);
       lines.push(`{`);
       lines.push(`  id: '${kebabName}',`);
       lines.push(
@@ -745,60 +578,59 @@ export function handleCrudTool(
       lines.push('# Start both servers');
       lines.push('pnpm run dev');
       lines.push('');
-      lines.push('# Open admin app');
+      lines.push(`# Open ${frontendApp} app`);
       lines.push('open http://localhost:4200');
       lines.push('```');
       lines.push('');
 
       lines.push('## Validation');
       lines.push('');
+      const validateCommand = `pnpm run crud:validate -- ${tableName}`;
       lines.push('```bash');
-      lines.push(`pnpm run crud:validate -- ${tableName}`);
+      lines.push(validateCommand);
       lines.push('```');
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), {
+        tableName,
+        backendCommand: backendFullCmd,
+        frontendCommand: frontendCmd,
+        modulePath,
+        frontendPath,
+        apiPath,
+        navLink,
+        validateCommand,
+      });
+    },
+  }),
 
-    case 'aegisx_shell_generate': {
+  defineTool({
+    name: 'aegisx_shell_generate',
+    description:
+      'Generate App Shell (layout component with navigation, routes, and pages). Use this to create a new shell before generating CRUD modules.',
+    inputSchema: {
+      ...shellSpec.inputShape,
+      ...workspaceArgShape,
+    } as z.ZodRawShape,
+    outputSchema: {
+      ...builtCommandShape,
+      shellPath: z.string(),
+      files: z
+        .array(z.string())
+        .describe('Generated files relative to shellPath'),
+    },
+    annotations: { readOnlyHint: true },
+    handler: (args) => {
       const shellName = args.shellName as string;
-      const shellType = (args.type as string) || 'enterprise';
-      const app = (args.app as string) || 'web';
+      const shellType = (args.type as string | undefined) || 'enterprise';
+      const app = (args.app as string | undefined) || 'web';
+      const { cliPath } = getConfig(args.workspace as string | undefined);
 
       const lines: string[] = [];
       lines.push(`# Generate App Shell: ${shellName}`);
       lines.push('');
       lines.push('```bash');
 
-      let cmd = `./bin/cli.js shell ${shellName}`;
-      if (shellType !== 'enterprise') {
-        cmd += ` --type ${shellType}`;
-      }
-      if (app !== 'web') {
-        cmd += ` --app ${app}`;
-      }
-      if (args.name) {
-        cmd += ` --name "${args.name}"`;
-      }
-      if (args.theme && args.theme !== 'default') {
-        cmd += ` --theme ${args.theme}`;
-      }
-      if (args.order) {
-        cmd += ` --order ${args.order}`;
-      }
-      if (args.withSettings) {
-        cmd += ' --with-settings';
-      }
-      if (args.withThemeSwitcher) {
-        cmd += ' --with-theme-switcher';
-      }
-      if (args.force) {
-        cmd += ' --force';
-      }
-      if (args.dryRun) {
-        cmd += ' --dry-run';
-      }
+      const cmd = buildCliCommand(shellSpec, args, cliPath);
 
       lines.push(cmd);
       lines.push('```');
@@ -807,19 +639,32 @@ export function handleCrudTool(
       lines.push('## Generated Files');
       lines.push('');
       const shellPath = `apps/${app}/src/app/features/${shellName}`;
+      const files = [
+        `${shellName}-shell.component.ts`,
+        `${shellName}.config.ts`,
+        `${shellName}.routes.ts`,
+        'index.ts',
+      ];
       lines.push(`\`\`\`\n${shellPath}/`);
-      lines.push(`├── ${shellName}-shell.component.ts`);
-      lines.push(`├── ${shellName}.config.ts`);
-      lines.push(`├── ${shellName}.routes.ts`);
-      lines.push(`├── index.ts`);
+      for (const file of files) {
+        lines.push(`├── ${file}`);
+      }
       lines.push(`└── pages/`);
       if (shellType !== 'simple') {
-        lines.push(`    ├── dashboard/dashboard.page.ts`);
-        lines.push(`    ├── master-data/master-data.page.ts`);
+        if (args.withDashboard !== false) {
+          files.push('pages/dashboard/dashboard.page.ts');
+          lines.push(`    ├── dashboard/dashboard.page.ts`);
+        }
+        if (args.withMasterData !== false) {
+          files.push('pages/master-data/master-data.page.ts');
+          lines.push(`    ├── master-data/master-data.page.ts`);
+        }
         if (args.withSettings) {
+          files.push('pages/settings/settings.page.ts');
           lines.push(`    └── settings/settings.page.ts`);
         }
       } else {
+        files.push('pages/main/main.page.ts');
         lines.push(`    └── main/main.page.ts`);
       }
       lines.push('```');
@@ -842,94 +687,97 @@ export function handleCrudTool(
       lines.push('');
       lines.push('2. Generate sections if needed:');
       lines.push(
-        `\`\`\`bash\n./bin/cli.js section ${shellName} master-data --force\n\`\`\``,
+        `\`\`\`bash\n${cliPath} section ${shellName} master-data --force\n\`\`\``,
       );
       lines.push('');
       lines.push('3. Generate CRUD modules:');
       lines.push(
-        `\`\`\`bash\n./bin/cli.js generate products --target frontend --shell ${shellName} --force\n\`\`\``,
+        `\`\`\`bash\n${cliPath} generate products --target frontend --shell ${shellName} --force\n\`\`\``,
       );
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), {
+        command: cmd,
+        dryRun: args.dryRun === true,
+        shellPath,
+        files,
+      });
+    },
+  }),
+
+  defineTool({
+    name: 'aegisx_shell_types',
+    description:
+      'Show available shell types (simple, enterprise, multi-app) and their features.',
+    inputSchema: { ...workspaceArgShape },
+    outputSchema: {
+      types: z.array(
+        z.object({
+          type: z.string(),
+          layout: z.string(),
+          features: z.array(z.string()),
+          example: z.string(),
+        }),
+      ),
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ workspace }) => {
+      const { cliPath } = getConfig(workspace);
+      const types = shellTypes.map((shellType) => ({
+        ...shellType,
+        example: withCliPath(shellType.example, cliPath),
+      }));
 
-    case 'aegisx_shell_types': {
       const lines: string[] = [];
       lines.push('# Available Shell Types');
-      lines.push('');
-
-      lines.push('## 🟢 SIMPLE');
-      lines.push('Uses `AxEmptyLayoutComponent`');
-      lines.push('');
-      lines.push('**Features:**');
-      lines.push('- Minimal layout without navigation');
-      lines.push('- Suitable for: Auth pages, landing pages, error pages');
-      lines.push('');
-      lines.push('**Example:**');
-      lines.push('```bash');
-      lines.push('./bin/cli.js shell auth --type simple --force');
-      lines.push('```');
-      lines.push('');
-
-      lines.push('## 🟡 ENTERPRISE (default)');
-      lines.push('Uses `AxEnterpriseLayoutComponent`');
-      lines.push('');
-      lines.push('**Features:**');
-      lines.push('- Full navigation sidebar');
-      lines.push('- Header with actions');
-      lines.push('- Footer with version');
-      lines.push('- Dashboard and Master Data pages');
-      lines.push('- Single sub-app navigation');
-      lines.push('');
-      lines.push('**Example:**');
-      lines.push('```bash');
-      lines.push('./bin/cli.js shell inventory --force');
-      lines.push('```');
-      lines.push('');
 
-      lines.push('## 🔴 MULTI-APP');
-      lines.push('Uses `AxEnterpriseLayoutComponent` with sub-app tabs');
-      lines.push('');
-      lines.push('**Features:**');
-      lines.push('- All enterprise features, plus:');
-      lines.push('- Sub-app tabs in header');
-      lines.push('- Suitable for: Large enterprise applications');
-      lines.push('');
-      lines.push('**Example:**');
-      lines.push('```bash');
-      lines.push('./bin/cli.js shell erp --type multi-app --force');
-      lines.push('```');
+      for (const shellType of types) {
+        lines.push('');
+        lines.push(`## ${shellType.title}`);
+        lines.push(shellType.layout);
+        lines.push('');
+        lines.push('**Features:**');
+        for (const feature of shellType.features) {
+          lines.push(`- ${feature}`);
+        }
+        lines.push('');
+        lines.push('**Example:**');
+        lines.push('```bash');
+        lines.push(shellType.example);
+        lines.push('```');
+      }
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), {
+        types: types.map(({ title: _title, ...rest }) => rest),
+      });
+    },
+  }),
 
-    case 'aegisx_section_generate': {
+  defineTool({
+    name: 'aegisx_section_generate',
+    description:
+      'Generate a section within a shell (sub-page with ax-launcher for grouping CRUD modules). Use this to organize CRUD modules into categories like "master-data", "reports", etc.',
+    inputSchema: {
+      ...sectionSpec.inputShape,
+      ...workspaceArgShape,
+    } as z.ZodRawShape,
+    outputSchema: {
+      ...builtCommandShape,
+      sectionPath: z.string(),
+      route: z.string(),
+    },
+    annotations: { readOnlyHint: true },
+    handler: (args) => {
       const shellName = args.shellName as string;
       const sectionName = args.sectionName as string;
-      const app = (args.app as string) || 'web';
+      const app = (args.app as string | undefined) || 'web';
+      const { cliPath } = getConfig(args.workspace as string | undefined);
 
       const lines: string[] = [];
       lines.push(`# Generate Section: ${sectionName} in ${shellName}`);
       lines.push('');
       lines.push('```bash');
 
-      let cmd = `./bin/cli.js section ${shellName} ${sectionName}`;
-      if (app !== 'web') {
-        cmd += ` --app ${app}`;
-      }
-      if (args.name) {
-        cmd += ` --name "${args.name}"`;
-      }
-      if (args.force) {
-        cmd += ' --force';
-      }
-      if (args.dryRun) {
-        cmd += ' --dry-run';
-      }
+      const cmd = buildCliCommand(sectionSpec, args, cliPath);
 
       lines.push(cmd);
       lines.push('```');
@@ -962,7 +810,7 @@ export function handleCrudTool(
       lines.push('Generate CRUD modules into this section:');
       lines.push('```bash');
       lines.push(
-        `./bin/cli.js generate products --target frontend --shell ${shellName} --section ${sectionName} --force`,
+        `${cliPath} generate products --target frontend --shell ${shellName} --section ${sectionName} --force`,
       );
       lines.push('```');
       lines.push('');
@@ -972,14 +820,12 @@ export function handleCrudTool(
         `- Module registered in: \`${sectionPath}/${sectionName}.config.ts\``,
       );
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
-
-    default:
-      return {
-        content: [{ type: 'text', text: `Unknown CRUD tool: ${name}` }],
-      };
-  }
-}
+      return structuredResult(lines.join('\n'), {
+        command: cmd,
+        dryRun: args.dryRun === true,
+        sectionPath,
+        route: `/${shellName}/${sectionName}`,
+      });
+    },
+  }),
+];
@@ -1,20 +1,87 @@
 /**
  * AegisX MCP Tools
- * Re-exports tool handlers for use by main server
+ * Registry of every tool definition served by the MCP server
  */
 
-export { handleComponentTool, componentCategories } from './components.tool.js';
-export { handleCrudTool } from './crud.tool.js';
-export { handlePatternTool } from './patterns.tool.js';
-export { handleApiContractTool } from './api-contracts.tool.js';
+import { z } from 'zod';
+import { componentTools } from './components.tool.js';
+import { crudTools } from './crud.tool.js';
+import { cliCommandTools } from './cli-commands.tool.js';
+import { patternTools } from './patterns.tool.js';
+import { apiContractTools } from './api-contracts.tool.js';
+import { apiMockTools } from './api-mock.tool.js';
+import { configTools } from './config.tool.js';
+import { searchTools } from './search.tool.js';
+import {
+  apiTestingTools,
+  createApiTestingSession,
+} from './api-testing.tool.js';
+import type {
+  AnyToolDefinition,
+  ToolContext,
+  ToolResult,
+} from './tool-definition.js';
 
-// Legacy interface for backward compatibility
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  inputSchema: {
-    type: string;
-    properties?: Record<string, unknown>;
-    required?: string[];
-  };
+export type {
+  AnyToolDefinition,
+  ToolContext,
+  ToolDefinition,
+  ToolResult,
+} from './tool-definition.js';
+export { defineTool, textResult } from './tool-definition.js';
+
+/**
+ * All tools, in the order they are registered
+ */
+export const allTools: AnyToolDefinition[] = [
+  ...componentTools,
+  ...crudTools,
+  ...cliCommandTools,
+  ...patternTools,
+  ...apiContractTools,
+  ...apiTestingTools,
+  ...apiMockTools,
+  ...configTools,
+  ...searchTools,
+];
+
+/**
+ * Create fresh per-session state for tool handlers
+ * @returns Tool context with empty API testing session
+ */
+export function createToolContext(): ToolContext {
+  return { apiTesting: createApiTestingSession() };
+}
+
+/**
+ * Find a tool definition by name
+ * @param name - Tool name
+ * @returns Tool definition or undefined
+ */
+export function getTool(name: string): AnyToolDefinition | undefined {
+  return allTools.find((tool) => tool.name === name);
+}
+
+/**
+ * Validate arguments and run a tool without going through a transport
+ * @param name - Tool name
+ * @param args - Raw tool arguments
+ * @param context - Per-session tool context
+ * @returns Tool result
+ */
+export async function callTool(
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext = createToolContext(),
+): Promise<ToolResult> {
+  const tool = getTool(name);
+  if (!tool) {
+    return {
+      content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+      isError: true,
+    };
+  }
+
+  const parsed = z.object(tool.inputSchema).parse(args);
+  return tool.handler(parsed, context);
 }
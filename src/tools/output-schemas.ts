@@ -0,0 +1,353 @@
+/**
+ * AegisX MCP Output Schemas
+ * Zod mirrors of the data interfaces returned as `structuredContent`
+ *
+ * Each schema matches an interface in `src/data/`, so agents receive the
+ * same fields the markdown is rendered from instead of re-parsing tables.
+ */
+
+import { z } from 'zod';
+
+// ============ COMPONENTS ============
+
+export const componentInputSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  default: z.string().optional(),
+  description: z.string(),
+  required: z.boolean().optional(),
+});
+
+export const componentOutputSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  description: z.string(),
+});
+
+export const componentInfoSchema = z.object({
+  name: z.string(),
+  selector: z.string(),
+  category: z.string(),
+  description: z.string(),
+  inputs: z.array(componentInputSchema),
+  outputs: z.array(componentOutputSchema),
+  usage: z.string(),
+  bestPractices: z.array(z.string()).optional(),
+  relatedComponents: z.array(z.string()).optional(),
+});
+
+/** Component without inputs/outputs/usage, for list and search results */
+export const componentSummarySchema = componentInfoSchema.pick({
+  name: true,
+  selector: true,
+  category: true,
+  description: true,
+});
+
+// ============ PATTERNS ============
+
+export const codePatternSchema = z.object({
+  name: z.string(),
+  category: z.string(),
+  description: z.string(),
+  code: z.string(),
+  language: z.string(),
+  notes: z.array(z.string()).optional(),
+  relatedPatterns: z.array(z.string()).optional(),
+});
+
+/** Pattern without code, for list and search results */
+export const codePatternSummarySchema = codePatternSchema.pick({
+  name: true,
+  category: true,
+  description: true,
+  language: true,
+});
+
+// ============ CRUD GENERATOR ============
+
+export const generatedFileSchema = z.object({
+  path: z.string(),
+  description: z.string(),
+  category: z.enum(['backend', 'frontend', 'shared']),
+});
+
+export const troubleshootingItemSchema = z.object({
+  problem: z.string(),
+  solution: z.string(),
+  example: z.string(),
+});
+
+/** Built CLI command, shared by every command-builder tool */
+export const builtCommandShape = {
+  command: z.string().describe('Command line ready to run'),
+  dryRun: z.boolean().describe('Whether the command only previews changes'),
+};
+
+// ============ API CONTRACTS ============
+
+export const httpMethodSchema = z.enum([
+  'GET',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+  'HEAD',
+  'OPTIONS',
+]);
+
+export const errorResponseSchema = z.object({
+  statusCode: z.number(),
+  description: z.string(),
+  example: z.string().optional(),
+});
+
+export const pathParameterSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  description: z.string(),
+  required: z.boolean(),
+});
+
+export const queryParameterSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  description: z.string(),
+  required: z.boolean(),
+  default: z.string().optional(),
+});
+
+export const apiEndpointSchema = z.object({
+  method: httpMethodSchema,
+  path: z.string(),
+  description: z.string(),
+  feature: z.string(),
+  authentication: z.boolean(),
+  requestSchema: z.string().optional(),
+  responseSchema: z.string().optional(),
+  requestJsonSchema: z
+    .record(z.unknown())
+    .optional()
+    .describe('JSON Schema compiled from requestSchema'),
+  responseJsonSchema: z
+    .record(z.unknown())
+    .optional()
+    .describe('JSON Schema compiled from responseSchema'),
+  requestExample: z.string().optional(),
+  responseExample: z.string().optional(),
+  errorResponses: z.array(errorResponseSchema).optional(),
+  pathParameters: z.array(pathParameterSchema).optional(),
+  queryParameters: z.array(queryParameterSchema).optional(),
+  line: z.number().optional().describe('Line of the heading in the contract'),
+});
+
+/** Endpoint without schemas and examples, for list and search results */
+export const apiEndpointSummarySchema = apiEndpointSchema.pick({
+  method: true,
+  path: true,
+  description: true,
+  feature: true,
+  authentication: true,
+});
+
+export const apiContractSummarySchema = z.object({
+  feature: z.string(),
+  baseUrl: z.string(),
+  authentication: z.string(),
+  contentType: z.string(),
+  filePath: z.string(),
+  endpoints: z.array(apiEndpointSummarySchema),
+});
+
+export const validationReportSchema = z.object({
+  feature: z.string(),
+  matched: z.number(),
+  missing: z.array(
+    z.object({
+      method: z.string(),
+      path: z.string(),
+      expectedFile: z.string(),
+      documentedIn: z.string().optional(),
+      line: z.number().optional(),
+    }),
+  ),
+  undocumented: z.array(
+    z.object({
+      method: z.string(),
+      path: z.string(),
+      foundIn: z.string(),
+      line: z.number().optional(),
+    }),
+  ),
+  methodMismatches: z.array(
+    z.object({
+      path: z.string(),
+      documentedMethod: z.string(),
+      implementedMethod: z.string(),
+      file: z.string(),
+      line: z.number().optional(),
+    }),
+  ),
+  schemaMismatches: z.array(
+    z.object({
+      method: z.string(),
+      path: z.string(),
+      location: z.enum(['body', 'querystring', 'params', 'response']),
+      field: z.string().describe('Field path, e.g. "roles[].name"'),
+      kind: z.enum(['missing', 'extra', 'type', 'required']),
+      documented: z.string().optional(),
+      implemented: z.string().optional(),
+      required: z
+        .boolean()
+        .optional()
+        .describe('For missing/extra fields: required where declared'),
+      message: z.string(),
+      file: z.string(),
+      line: z.number().optional(),
+    }),
+  ),
+  validatedAt: z.string().optional().describe('ISO timestamp'),
+});
+
+export const validationFindingSchema = z.object({
+  feature: z.string(),
+  rule: z.enum([
+    'missing-endpoint',
+    'undocumented-endpoint',
+    'method-mismatch',
+    'schema-mismatch',
+  ]),
+  severity: z.enum(['warn', 'error']),
+  method: z.string(),
+  path: z.string(),
+  message: z.string(),
+  file: z.string().optional().describe('Relative to codebaseRoot'),
+  line: z.number().optional(),
+});
+
+export const contractLintReportSchema = z.object({
+  feature: z.string(),
+  filePath: z.string().describe('Relative to docsPath'),
+  issues: z.array(
+    z.object({
+      rule: z.string(),
+      severity: z.enum(['warn', 'error']),
+      line: z.number(),
+      message: z.string(),
+      fix: z
+        .object({
+          description: z.string(),
+          replacement: z
+            .string()
+            .optional()
+            .describe('Replacement for the reported line'),
+        })
+        .optional(),
+    }),
+  ),
+});
+
+export const contractChangeSchema = z.object({
+  severity: z.enum(['breaking', 'non-breaking', 'documentation']),
+  kind: z.string(),
+  feature: z.string(),
+  method: z.string(),
+  path: z.string(),
+  location: z.enum(['body', 'querystring', 'params', 'response']).optional(),
+  field: z
+    .string()
+    .optional()
+    .describe('Parameter name, field path or status code'),
+  before: z.string().optional(),
+  after: z.string().optional(),
+  message: z.string(),
+});
+
+const coverageMetricSchema = z.object({
+  count: z.number(),
+  percent: z.number().describe('Share of documented endpoints (0-100)'),
+});
+
+export const featureCoverageSchema = z.object({
+  feature: z.string(),
+  documented: z.number(),
+  implemented: coverageMetricSchema,
+  schemas: coverageMetricSchema,
+  examples: coverageMetricSchema,
+  errorResponses: coverageMetricSchema,
+  exercised: coverageMetricSchema.describe(
+    'Endpoints requested during this session',
+  ),
+  undocumentedRoutes: z.number(),
+});
+
+// ============ API TESTING ============
+
+export const requestHistoryEntrySchema = z.object({
+  id: z.number(),
+  timestamp: z.string(),
+  method: z.string(),
+  url: z.string(),
+  status: z.number(),
+  statusText: z.string(),
+  responseTime: z.number().describe('Milliseconds'),
+  requestHeaders: z.record(z.string()).optional(),
+  requestBody: z.unknown().optional(),
+  responseBody: z.unknown().optional(),
+  error: z.string().optional(),
+});
+
+export const schemaViolationSchema = z.object({
+  pointer: z.string().describe('JSON pointer into the response body'),
+  kind: z.enum(['missing', 'extra', 'type', 'enum']),
+  expected: z.string().optional(),
+  actual: z.string().optional(),
+  message: z.string(),
+});
+
+export const conformanceReportSchema = z.object({
+  method: z.string(),
+  path: z.string().describe('Documented path the response was checked against'),
+  status: z.number(),
+  statusDocumented: z.boolean(),
+  documentedStatuses: z.array(z.string()),
+  bodyChecked: z.boolean(),
+  violations: z.array(schemaViolationSchema),
+  conforms: z.boolean(),
+});
+
+export const contractTestResultSchema = z.object({
+  method: httpMethodSchema,
+  path: z.string().describe('Documented path'),
+  requestPath: z
+    .string()
+    .optional()
+    .describe('Requested path with parameters and query string'),
+  status: z.number().optional(),
+  outcome: z.enum(['pass', 'fail', 'skip']),
+  responseTime: z.number().describe('Milliseconds'),
+  message: z.string().optional(),
+  violations: z.array(schemaViolationSchema),
+});
+
+export const decodedTokenSchema = z.object({
+  header: z.record(z.unknown()),
+  payload: z.record(z.unknown()),
+  isExpired: z.boolean(),
+  expiresIn: z.string().nullable(),
+  issuedAt: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+});
+
+// ============ SEARCH ============
+
+export const searchResultSchema = z.object({
+  type: z.enum(['component', 'pattern', 'command', 'endpoint']),
+  name: z
+    .string()
+    .describe('Component or pattern name, command path, or "METHOD /path"'),
+  description: z.string(),
+  score: z.number().describe('BM25 relevance; higher is better'),
+  matched: z.array(z.string()).describe('Query words that matched'),
+  uri: z.string().describe('Resource with the full details'),
+});
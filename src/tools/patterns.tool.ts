@@ -2,7 +2,7 @@
  * AegisX Development Patterns Tools
  */
 
-import type { ToolDefinition } from './index.js';
+import { z } from 'zod';
 import {
   getAllPatterns,
   getPatternsByCategory,
@@ -10,76 +10,30 @@ import {
   searchPatterns,
   CodePattern,
 } from '../data/patterns.js';
+import {
+  defineTool,
+  errorResult,
+  structuredResult,
+} from './tool-definition.js';
+import {
+  codePatternSchema,
+  codePatternSummarySchema,
+} from './output-schemas.js';
+import { didYouMean } from '../utils/fuzzy-match.js';
 
-export const patternTools: ToolDefinition[] = [
-  {
-    name: 'aegisx_patterns_list',
-    description:
-      'List available development patterns and code templates. Filter by category: backend, frontend, database, testing.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        category: {
-          type: 'string',
-          enum: ['backend', 'frontend', 'database', 'testing'],
-          description: 'Filter patterns by category',
-        },
-      },
-    },
-  },
-  {
-    name: 'aegisx_patterns_get',
-    description:
-      'Get a specific development pattern with complete code example and best practices.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description:
-            'Pattern name (e.g., "TypeBox Schema Definition", "Angular Signal-based Component")',
-        },
-      },
-      required: ['name'],
-    },
-  },
-  {
-    name: 'aegisx_patterns_search',
-    description:
-      'Search development patterns by keyword (e.g., "auth", "validation", "signal").',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'aegisx_patterns_suggest',
-    description: 'Get pattern suggestions for a specific use case or task.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        task: {
-          type: 'string',
-          description:
-            'Describe what you want to do (e.g., "create API endpoint", "build form component")',
-        },
-      },
-      required: ['task'],
-    },
-  },
-];
+/**
+ * Strip a pattern down to its list/search fields
+ */
+function toPatternSummary(pattern: CodePattern) {
+  const { name, category, description, language } = pattern;
+  return { name, category, description, language };
+}
 
 function formatPatternBrief(pattern: CodePattern): string {
   return `- **${pattern.name}** (${pattern.category}) - ${pattern.description}`;
 }
 
-function formatPatternDetail(pattern: CodePattern): string {
+export function formatPatternDetail(pattern: CodePattern): string {
   const lines: string[] = [];
 
   lines.push(`# ${pattern.name}`);
@@ -110,7 +64,13 @@ function formatPatternDetail(pattern: CodePattern): string {
   return lines.join('\n');
 }
 
-function suggestPatterns(task: string): CodePattern[] {
+/**
+ * Suggest patterns for a task description
+ * Matches curated keywords per pattern, falling back to a text search
+ * @param task - What the developer wants to do (e.g., "create API endpoint")
+ * @returns Up to 5 matching patterns
+ */
+export function suggestPatterns(task: string): CodePattern[] {
   const taskLower = task.toLowerCase();
   const allPatterns = getAllPatterns();
   const suggestions: CodePattern[] = [];
@@ -192,13 +152,24 @@ function suggestPatterns(task: string): CodePattern[] {
   return suggestions.slice(0, 5);
 }
 
-export function handlePatternTool(
-  name: string,
-  args: Record<string, unknown>,
-): { content: Array<{ type: string; text: string }> } {
-  switch (name) {
-    case 'aegisx_patterns_list': {
-      const category = args.category as string | undefined;
+export const patternTools = [
+  defineTool({
+    name: 'aegisx_patterns_list',
+    description:
+      'List available development patterns and code templates. Filter by category: backend, frontend, database, testing.',
+    inputSchema: {
+      category: z
+        .enum(['backend', 'frontend', 'database', 'testing'])
+        .optional()
+        .describe('Filter patterns by category'),
+    },
+    outputSchema: {
+      category: z.string().optional(),
+      total: z.number(),
+      patterns: z.array(codePatternSummarySchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ category }) => {
       const patterns = category
         ? getPatternsByCategory(category)
         : getAllPatterns();
@@ -228,60 +199,81 @@ export function handlePatternTool(
         'Use `aegisx_patterns_get` with pattern name to see full code example.',
       );
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), {
+        category,
+        total: patterns.length,
+        patterns: patterns.map(toPatternSummary),
+      });
+    },
+  }),
 
-    case 'aegisx_patterns_get': {
-      const patternName = args.name as string;
-      const pattern = getPatternByName(patternName);
+  defineTool({
+    name: 'aegisx_patterns_get',
+    description:
+      'Get a specific development pattern with complete code example and best practices.',
+    inputSchema: {
+      name: z
+        .string()
+        .describe(
+          'Pattern name (e.g., "TypeBox Schema Definition", "Angular Signal-based Component")',
+        ),
+    },
+    outputSchema: {
+      pattern: codePatternSchema,
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ name }) => {
+      const pattern = getPatternByName(name);
 
       if (!pattern) {
-        // Try fuzzy search
-        const results = searchPatterns(patternName);
+        // Keyword search first, then fuzzy name matching for typos
+        const keywordMatches = searchPatterns(name).map((p) => p.name);
+        const results =
+          keywordMatches.length > 0
+            ? keywordMatches
+            : didYouMean(
+                name,
+                getAllPatterns().map((p) => p.name),
+              );
         if (results.length > 0) {
           const suggestions = results
             .slice(0, 3)
-            .map((p) => `- ${p.name}`)
+            .map((p) => `- ${p}`)
             .join('\n');
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Pattern "${patternName}" not found. Did you mean:\n${suggestions}`,
-              },
-            ],
-          };
+          return errorResult(
+            `Pattern "${name}" not found. Did you mean:\n${suggestions}`,
+          );
         }
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Pattern "${patternName}" not found. Use aegisx_patterns_list to see available patterns.`,
-            },
-          ],
-        };
+        return errorResult(
+          `Pattern "${name}" not found. Use aegisx_patterns_list to see available patterns.`,
+        );
       }
 
-      return {
-        content: [{ type: 'text', text: formatPatternDetail(pattern) }],
-      };
-    }
+      return structuredResult(formatPatternDetail(pattern), { pattern });
+    },
+  }),
 
-    case 'aegisx_patterns_search': {
-      const query = args.query as string;
+  defineTool({
+    name: 'aegisx_patterns_search',
+    description:
+      'Search development patterns by keyword (e.g., "auth", "validation", "signal").',
+    inputSchema: {
+      query: z.string().describe('Search query (empty lists every pattern)'),
+    },
+    outputSchema: {
+      query: z.string(),
+      total: z.number(),
+      patterns: z.array(codePatternSummarySchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ query }) => {
       const results = searchPatterns(query);
 
       if (results.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No patterns found matching "${query}". Try different keywords.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `No patterns found matching "${query}". Try different keywords.`,
+          { query, total: 0, patterns: [] },
+        );
       }
 
       const lines: string[] = [];
@@ -291,24 +283,37 @@ export function handlePatternTool(
         lines.push(formatPatternBrief(pat));
       }
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
+      return structuredResult(lines.join('\n'), {
+        query,
+        total: results.length,
+        patterns: results.map(toPatternSummary),
+      });
+    },
+  }),
 
-    case 'aegisx_patterns_suggest': {
-      const task = args.task as string;
+  defineTool({
+    name: 'aegisx_patterns_suggest',
+    description: 'Get pattern suggestions for a specific use case or task.',
+    inputSchema: {
+      task: z
+        .string()
+        .describe(
+          'Describe what you want to do (e.g., "create API endpoint", "build form component")',
+        ),
+    },
+    outputSchema: {
+      task: z.string(),
+      patterns: z.array(codePatternSchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: ({ task }) => {
       const suggestions = suggestPatterns(task);
 
       if (suggestions.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `No specific patterns found for "${task}". Use aegisx_patterns_list to browse all patterns.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `No specific patterns found for "${task}". Use aegisx_patterns_list to browse all patterns.`,
+          { task, patterns: [] },
+        );
       }
 
       const lines: string[] = [];
@@ -340,14 +345,10 @@ export function handlePatternTool(
         'Use `aegisx_patterns_get` with the pattern name to see the complete code example.',
       );
 
-      return {
-        content: [{ type: 'text', text: lines.join('\n') }],
-      };
-    }
-
-    default:
-      return {
-        content: [{ type: 'text', text: `Unknown pattern tool: ${name}` }],
-      };
-  }
-}
+      return structuredResult(lines.join('\n'), {
+        task,
+        patterns: suggestions,
+      });
+    },
+  }),
+];
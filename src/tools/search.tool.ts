@@ -0,0 +1,116 @@
+/**
+ * Unified Search Tool
+ * MCP tool handler for ranked search across components, patterns, CLI
+ * commands and API endpoints
+ */
+
+import { z } from 'zod';
+import { getAllContracts } from '../data/api-contracts-parser.js';
+import {
+  describeSearchEntry,
+  searchAll,
+  searchEntryTypes,
+} from '../data/search.js';
+import { workspaceArgShape } from '../config/index.js';
+import { searchEntryUri } from '../resources/templates.js';
+import { getDocsPath } from './api-contracts.tool.js';
+import {
+  defineTool,
+  errorResult,
+  structuredResult,
+} from './tool-definition.js';
+import { searchResultSchema } from './output-schemas.js';
+
+/** Results returned when no limit is given */
+const DEFAULT_LIMIT = 20;
+
+export const searchTools = [
+  defineTool({
+    name: 'aegisx_search',
+    description:
+      'Search UI components, code patterns, CLI commands and API endpoints at once. Results are ranked by relevance; multi-word queries, partial words and typos are supported.',
+    inputSchema: {
+      query: z
+        .string()
+        .describe(
+          'Search query (e.g., "status badge", "role permissions", "knex migration")',
+        ),
+      types: z
+        .array(z.enum(searchEntryTypes))
+        .optional()
+        .describe('Only return these kinds (default: all)'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe(`Maximum results (default: ${DEFAULT_LIMIT})`),
+      ...workspaceArgShape,
+    },
+    outputSchema: {
+      query: z.string(),
+      total: z.number(),
+      results: z.array(searchResultSchema),
+    },
+    annotations: { readOnlyHint: true },
+    handler: async ({ query, types, limit, workspace }) => {
+      if (!query.trim()) {
+        return errorResult(
+          'Error: Search query is required. Please provide a search term.',
+        );
+      }
+
+      try {
+        const contracts =
+          types && !types.includes('endpoint')
+            ? []
+            : await getAllContracts(getDocsPath(workspace));
+        const hits = searchAll(query, contracts, {
+          types,
+          limit: limit ?? DEFAULT_LIMIT,
+        });
+
+        if (hits.length === 0) {
+          return structuredResult(
+            `No results found matching "${query}". Try fewer or different words.`,
+            { query, total: 0, results: [] },
+          );
+        }
+
+        const results = hits.map((hit) => ({
+          type: hit.item.type,
+          name: hit.item.name,
+          description: describeSearchEntry(hit.item),
+          score: Math.round(hit.score * 100) / 100,
+          matched: hit.matched,
+          uri: searchEntryUri(hit.item),
+        }));
+
+        const lines: string[] = [];
+        lines.push(`# Search Results for "${query}" (${results.length} found)`);
+        lines.push('');
+        results.forEach((result, i) => {
+          lines.push(
+            `${i + 1}. ${result.type} **${result.name}** - ${result.description}`,
+          );
+          lines.push(`   \`${result.uri}\``);
+        });
+        lines.push('');
+        lines.push(
+          'Read a URI as a resource, or use aegisx_components_get, aegisx_patterns_get or aegisx_api_get, for the full details.',
+        );
+
+        return structuredResult(lines.join('\n'), {
+          query,
+          total: results.length,
+          results,
+        });
+      } catch (error) {
+        return errorResult(
+          `Error searching: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    },
+  }),
+];
@@ -0,0 +1,112 @@
+/**
+ * AegisX MCP Tool Definitions
+ * Shared shape for every tool: name, schemas, annotations and handler
+ *
+ * Tools are plain data. The server iterates over them to register with MCP,
+ * and tests can call `handler` directly without a transport.
+ */
+
+import { z } from 'zod';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ApiTestingSession } from './api-testing.tool.js';
+
+/**
+ * Per-session state handed to every tool handler
+ */
+export interface ToolContext {
+  /** Auth token and request history for the API testing tools */
+  apiTesting: ApiTestingSession;
+}
+
+/**
+ * Result returned by a tool handler
+ */
+export interface ToolResult {
+  /** Human-readable content blocks (markdown) */
+  content: Array<{ type: 'text'; text: string }>;
+
+  /** Machine-readable result matching the tool's `outputSchema` */
+  structuredContent?: Record<string, unknown>;
+
+  /** Marks the result as a tool-level error */
+  isError?: boolean;
+}
+
+/**
+ * Declarative definition of a single MCP tool
+ */
+export interface ToolDefinition<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  /** Unique tool name (e.g., "aegisx_components_get") */
+  name: string;
+
+  /** Description shown to the model */
+  description: string;
+
+  /** Zod raw shape describing tool arguments */
+  inputSchema: Shape;
+
+  /**
+   * Zod raw shape describing `structuredContent`
+   * When set, every successful result must include matching structured
+   * content; error results use `isError` instead.
+   */
+  outputSchema?: z.ZodRawShape;
+
+  /** Behavioural hints for clients (read-only, open-world, ...) */
+  annotations?: ToolAnnotations;
+
+  /** Tool implementation */
+  handler(
+    args: z.infer<z.ZodObject<Shape>>,
+    context: ToolContext,
+  ): ToolResult | Promise<ToolResult>;
+}
+
+/**
+ * Tool definition with erased argument types, for heterogeneous lists
+ * `handler` is a method, so a definition with a concrete shape still fits.
+ */
+export type AnyToolDefinition = ToolDefinition<z.ZodRawShape>;
+
+/**
+ * Define a tool with argument types inferred from its input schema
+ * @param definition - Tool definition
+ * @returns The same definition, typed
+ */
+export function defineTool<Shape extends z.ZodRawShape>(
+  definition: ToolDefinition<Shape>,
+): ToolDefinition<Shape> {
+  return definition;
+}
+
+/**
+ * Build a single-block text result
+ * @param text - Markdown text
+ * @returns Tool result
+ */
+export function textResult(text: string): ToolResult {
+  return { content: [{ type: 'text', text }] };
+}
+
+/**
+ * Build a result with markdown for humans and structured data for agents
+ * @param text - Markdown text
+ * @param data - Structured content matching the tool's output schema
+ * @returns Tool result
+ */
+export function structuredResult(
+  text: string,
+  data: Record<string, unknown>,
+): ToolResult {
+  return { content: [{ type: 'text', text }], structuredContent: data };
+}
+
+/**
+ * Build an error result (not found, invalid input, failed request)
+ * Error results are exempt from the output schema.
+ * @param text - Markdown text explaining the error
+ * @returns Tool result flagged with `isError`
+ */
+export function errorResult(text: string): ToolResult {
+  return { content: [{ type: 'text', text }], isError: true };
+}
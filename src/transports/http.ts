@@ -0,0 +1,289 @@
+/**
+ * Streamable HTTP Transport
+ * Serves the MCP server over HTTP (POST + SSE) so several editors and agents
+ * can share one running instance
+ *
+ * Every client gets its own MCP session: a dedicated transport and server
+ * instance keyed by the `mcp-session-id` header. Sessions left idle (no
+ * requests and no open SSE stream) are closed after a timeout, and the
+ * Host/Origin headers must name the address the server listens on, so a web
+ * page cannot reach a local instance through DNS rebinding.
+ */
+
+import {
+  createServer as createHttpServer,
+  IncomingMessage,
+  ServerResponse,
+} from 'http';
+import { randomUUID } from 'crypto';
+import { hostname, networkInterfaces } from 'os';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Options for starting the HTTP transport
+ */
+export interface HttpTransportOptions {
+  /** Port to listen on */
+  port: number;
+
+  /** Interface to bind to (default: 127.0.0.1) */
+  host: string;
+
+  /** Endpoint path for MCP traffic (default: /mcp) */
+  path: string;
+
+  /** Factory that builds a fresh server for every new session */
+  createServer: () => McpServer;
+
+  /** Close sessions idle for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * An active client session
+ */
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+
+  /** Time of the last request (ms since epoch) */
+  lastActivity: number;
+
+  /** Open SSE streams; a session with a stream is never idle */
+  openStreams: number;
+}
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Upper bound on how often idle sessions are checked */
+const IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+/**
+ * Host names a client may use to reach the server
+ * A wildcard bind (0.0.0.0, ::) is reachable on every local interface.
+ */
+function reachableHostnames(host: string): string[] {
+  if (host === '0.0.0.0' || host === '::' || host === '') {
+    const addresses = Object.values(networkInterfaces())
+      .flatMap((entries) => entries ?? [])
+      .map((entry) => entry.address);
+    return Array.from(new Set([...LOOPBACK_HOSTS, hostname(), ...addresses]));
+  }
+  return LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+}
+
+/**
+ * Allowed Host and Origin header values for a listening address
+ * @param host - Interface the server binds to
+ * @param port - Port the server listens on
+ * @returns Host header values (e.g., "127.0.0.1:3100") and origins
+ */
+function allowedRequestHosts(
+  host: string,
+  port: number,
+): { hosts: string[]; origins: string[] } {
+  const hosts = reachableHostnames(host).map((name) =>
+    name.includes(':') ? `[${name}]:${port}` : `${name}:${port}`,
+  );
+  return { hosts, origins: hosts.map((h) => `http://${h}`) };
+}
+
+/**
+ * Read and JSON-parse a request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Send a JSON-RPC error response outside of any session
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    }),
+  );
+}
+
+/**
+ * Start the MCP server on a streamable HTTP endpoint
+ * @param options - Port, host, path and server factory
+ * @returns Resolves once the HTTP server is listening
+ */
+export async function startHttpServer(
+  options: HttpTransportOptions,
+): Promise<void> {
+  const sessions = new Map<string, HttpSession>();
+  const allowed = allowedRequestHosts(options.host, options.port);
+  const idleTimeoutMs =
+    options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  const closeSession = async ({ transport, server }: HttpSession) => {
+    await transport.close();
+    await server.close();
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      let url: URL;
+      try {
+        url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+      } catch {
+        // Malformed Host header or request target
+        res.writeHead(400, { 'Content-Type': 'text/plain' });
+        res.end('Bad request');
+        return;
+      }
+
+      if (url.pathname !== options.path) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+        return;
+      }
+
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      const existing = sessionId ? sessions.get(sessionId) : undefined;
+      if (existing) existing.lastActivity = Date.now();
+
+      if (req.method === 'POST') {
+        const body = await readJsonBody(req);
+
+        if (existing) {
+          await existing.transport.handleRequest(req, res, body);
+          return;
+        }
+
+        if (sessionId || !isInitializeRequest(body)) {
+          sendJsonRpcError(
+            res,
+            sessionId ? 404 : 400,
+            -32000,
+            sessionId
+              ? `Unknown session: ${sessionId}`
+              : 'Bad Request: No valid session ID provided',
+          );
+          return;
+        }
+
+        // New client - build a dedicated server for this session
+        const server = options.createServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          enableDnsRebindingProtection: true,
+          allowedHosts: allowed.hosts,
+          allowedOrigins: allowed.origins,
+          onsessioninitialized: (id) => {
+            sessions.set(id, {
+              transport,
+              server,
+              lastActivity: Date.now(),
+              openStreams: 0,
+            });
+            console.error(`MCP session opened: ${id}`);
+          },
+        });
+
+        transport.onclose = () => {
+          if (transport.sessionId && sessions.delete(transport.sessionId)) {
+            console.error(`MCP session closed: ${transport.sessionId}`);
+          }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+
+        // Rejected initialize (e.g., foreign Host header): nothing to keep
+        if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+          await server.close();
+        }
+        return;
+      }
+
+      // GET opens the SSE notification stream, DELETE ends the session
+      if (req.method === 'GET' || req.method === 'DELETE') {
+        if (!existing) {
+          sendJsonRpcError(res, 400, -32000, 'Invalid or missing session ID');
+          return;
+        }
+        if (req.method === 'GET') {
+          existing.openStreams++;
+          res.once('close', () => {
+            existing.openStreams--;
+            existing.lastActivity = Date.now();
+          });
+        }
+        await existing.transport.handleRequest(req, res);
+        return;
+      }
+
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' });
+      res.end();
+    } catch (error) {
+      console.error('Error handling MCP HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(
+          res,
+          error instanceof SyntaxError ? 400 : 500,
+          error instanceof SyntaxError ? -32700 : -32603,
+          error instanceof SyntaxError ? 'Parse error' : 'Internal error',
+        );
+      }
+    }
+  });
+
+  const idleSweep = setInterval(
+    () => {
+      const cutoff = Date.now() - idleTimeoutMs;
+      for (const [id, session] of sessions) {
+        if (session.openStreams > 0 || session.lastActivity > cutoff) continue;
+        console.error(`MCP session idle, closing: ${id}`);
+        sessions.delete(id);
+        closeSession(session).catch((error) =>
+          console.error(`Error closing MCP session ${id}:`, error),
+        );
+      }
+    },
+    Math.min(idleTimeoutMs, IDLE_SWEEP_INTERVAL_MS),
+  );
+  idleSweep.unref();
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolvePromise());
+  });
+
+  console.error(
+    `AegisX MCP server listening on http://${options.host}:${options.port}${options.path}`,
+  );
+
+  const shutdown = async () => {
+    clearInterval(idleSweep);
+    for (const session of sessions.values()) {
+      await closeSession(session);
+    }
+    sessions.clear();
+    httpServer.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
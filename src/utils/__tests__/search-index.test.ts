@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchIndex, stem, tokenize } from '../search-index.js';
+
+interface Doc {
+  name: string;
+  description: string;
+}
+
+function buildIndex(docs: Doc[]) {
+  const index = createSearchIndex<Doc>({ name: 3, description: 1 });
+  for (const doc of docs) {
+    index.add(doc, { name: doc.name, description: doc.description });
+  }
+  return index;
+}
+
+const DOCS: Doc[] = [
+  { name: 'Badge', description: 'Small count or label' },
+  { name: 'Status Badge', description: 'Colored badge for a record status' },
+  { name: 'Data Table', description: 'Sortable table with pagination' },
+  { name: 'Knex Migration', description: 'Create tables with Knex' },
+  { name: 'Form Validation', description: 'Validate form input with signals' },
+  { name: 'Chip', description: 'Compact element, like a badge with actions' },
+];
+
+describe('stem', () => {
+  it('maps inflections to one stem', () => {
+    expect(stem('tables')).toBe(stem('table'));
+    expect(stem('validation')).toBe(stem('validate'));
+    expect(stem('validated')).toBe(stem('validating'));
+    expect(stem('mapped')).toBe('map');
+    expect(stem('called')).toBe('call');
+  });
+
+  it('leaves short words and numbers alone', () => {
+    expect(stem('api')).toBe('api');
+    expect(stem('v2s')).toBe('v2s');
+  });
+});
+
+describe('tokenize', () => {
+  it('splits camelCase, kebab-case and paths and drops stop words', () => {
+    expect(tokenize('ListRolesResponse')).toEqual(['list', 'role', 'respons']);
+    expect(tokenize('ax-badge')).toEqual(['ax', 'badg']);
+    expect(tokenize('/api/rbac/:id')).toEqual(['api', 'rbac', 'id']);
+    expect(tokenize('the status of a badge')).toEqual(['status', 'badg']);
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('ranks name matches above description matches', () => {
+    const hits = buildIndex(DOCS).search('badge');
+
+    expect(hits.map((h) => h.item.name).sort()).toEqual([
+      'Badge',
+      'Chip',
+      'Status Badge',
+    ]);
+    expect(hits[hits.length - 1].item.name).toBe('Chip');
+    expect(hits[0].matched).toEqual(['badge']);
+  });
+
+  it('ranks documents matching more query words first', () => {
+    const hits = buildIndex(DOCS).search('status badge');
+    expect(hits[0].item.name).toBe('Status Badge');
+    expect(hits[0].matched).toEqual(['status', 'badge']);
+  });
+
+  it('matches stems, prefixes and small typos', () => {
+    const index = buildIndex(DOCS);
+
+    expect(index.search('validating')[0].item.name).toBe('Form Validation');
+    expect(index.search('paginat')[0].item.name).toBe('Data Table');
+    expect(index.search('migraton')[0].item.name).toBe('Knex Migration');
+  });
+
+  it('applies limit and filter', () => {
+    const index = buildIndex(DOCS);
+
+    expect(index.search('table', { limit: 1 })).toHaveLength(1);
+    expect(
+      index
+        .search('table', { filter: (doc) => doc.name.startsWith('Knex') })
+        .map((h) => h.item.name),
+    ).toEqual(['Knex Migration']);
+  });
+
+  it('returns nothing for empty queries or unknown words', () => {
+    const index = buildIndex(DOCS);
+
+    expect(index.size).toBe(DOCS.length);
+    expect(index.search('')).toEqual([]);
+    expect(index.search('   ')).toEqual([]);
+    expect(index.search('zzzzzz')).toEqual([]);
+  });
+});
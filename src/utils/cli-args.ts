@@ -0,0 +1,19 @@
+/**
+ * CLI Argument Helpers
+ * Minimal flag parsing shared by the server entry and CLI subcommands
+ */
+
+/**
+ * Read the value following a CLI flag (`--port 3100` or `--port=3100`)
+ */
+export function getFlagValue(args: string[], flag: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === flag) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`${flag}=`)) {
+      return args[i].slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
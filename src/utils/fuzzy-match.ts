@@ -0,0 +1,144 @@
+/**
+ * Fuzzy Matching
+ * Ranks free-form input against known names for completion and "did you mean" hints
+ *
+ * Scores favour exact and prefix matches, then substrings, then in-order
+ * subsequences ("bdg" → "badge"), and finally small edit distances so typos
+ * like "rbca" still find "rbac".
+ */
+
+/** Maximum completion values returned (MCP caps responses at 100) */
+export const MAX_COMPLETIONS = 100;
+
+/**
+ * Edit distance between two strings (optimal string alignment)
+ * Insertions, deletions, substitutions and adjacent transpositions cost 1.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character edits
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    d[i] = [i];
+  }
+  for (let j = 1; j <= b.length; j++) {
+    d[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/**
+ * Check whether every character of the query appears in order in the candidate
+ * @returns Number of skipped characters, or -1 if not a subsequence
+ */
+function subsequenceGaps(query: string, candidate: string): number {
+  let gaps = 0;
+  let qi = 0;
+  for (let ci = 0; ci < candidate.length && qi < query.length; ci++) {
+    if (candidate[ci] === query[qi]) {
+      qi++;
+    } else if (qi > 0) {
+      gaps++;
+    }
+  }
+  return qi === query.length ? gaps : -1;
+}
+
+/**
+ * Score how well a candidate matches a query (case-insensitive)
+ * @param query - Partial or misspelled input
+ * @param candidate - Known value
+ * @returns Score (0 = no match, higher = better)
+ */
+export function fuzzyScore(query: string, candidate: string): number {
+  const q = query.trim().toLowerCase();
+  const c = candidate.toLowerCase();
+
+  if (q.length === 0) return 1;
+  if (c === q) return 1000;
+  if (c.startsWith(q)) return 800 - Math.min(c.length - q.length, 100);
+
+  const index = c.indexOf(q);
+  if (index !== -1) return 600 - Math.min(index, 100);
+
+  const gaps = subsequenceGaps(q, c);
+  if (gaps !== -1) return 400 - Math.min(gaps, 100);
+
+  // Typos: compare against the whole value and against a same-length prefix
+  const distance = Math.min(
+    editDistance(q, c),
+    editDistance(q, c.slice(0, q.length)),
+  );
+  const allowed = Math.max(1, Math.floor(q.length / 3));
+  if (distance <= allowed) return 200 - distance * 10;
+
+  return 0;
+}
+
+/**
+ * Rank candidates by fuzzy score
+ * Duplicates are dropped; ties keep their original order.
+ *
+ * @param query - Partial or misspelled input
+ * @param candidates - Known values
+ * @param limit - Maximum results
+ * @returns Matching candidates, best first
+ */
+export function fuzzyMatch(
+  query: string,
+  candidates: string[],
+  limit: number = MAX_COMPLETIONS,
+): string[] {
+  return Array.from(new Set(candidates))
+    .map((candidate) => ({ candidate, score: fuzzyScore(query, candidate) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((match) => match.candidate);
+}
+
+/**
+ * Pick the closest candidates for a "did you mean" hint
+ * @param query - Value that was not found
+ * @param candidates - Known values
+ * @param limit - Maximum suggestions
+ * @returns Suggestions, best first (empty when nothing is close)
+ */
+export function didYouMean(
+  query: string,
+  candidates: string[],
+  limit: number = 3,
+): string[] {
+  if (query.trim().length === 0) return [];
+  return fuzzyMatch(query, candidates, limit);
+}
+
+/**
+ * Format suggestions as a markdown hint to append to a not-found message
+ * @param suggestions - Values returned by `didYouMean`
+ * @returns "\n\nDid you mean: ...?" or an empty string
+ */
+export function formatDidYouMean(suggestions: string[]): string {
+  if (suggestions.length === 0) return '';
+  return `\n\nDid you mean: ${suggestions.map((s) => `\`${s}\``).join(', ')}?`;
+}
@@ -0,0 +1,114 @@
+/**
+ * File Globbing
+ * Minimal glob matching for route file discovery (Node 18 has no fs.glob)
+ *
+ * Supports `**` (any number of directories), `*`, `?` and `{a,b}`
+ * alternatives. Patterns always use forward slashes.
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative, sep } from 'path';
+
+/**
+ * Convert a glob pattern to a regular expression
+ * @param pattern - Glob pattern (e.g., "apps/api/src/layers/**\/*.routes.ts")
+ * @returns Anchored regular expression matching relative paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Leading directories of a pattern that contain no wildcards
+ * Walking starts there instead of at the root.
+ */
+function staticPrefix(pattern: string): string {
+  const segments = pattern.split('/');
+  const fixed: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (/[*?{]/.test(segment)) break;
+    fixed.push(segment);
+  }
+  return fixed.join('/');
+}
+
+/**
+ * Find files under a root directory matching any of the glob patterns
+ * Hidden directories and node_modules are skipped.
+ *
+ * @param root - Directory the patterns are relative to
+ * @param patterns - Glob patterns
+ * @returns Absolute file paths, sorted
+ */
+export async function findFiles(
+  root: string,
+  patterns: string[],
+): Promise<string[]> {
+  const matchers = patterns.map(globToRegExp);
+  const found = new Set<string>();
+
+  async function walkDir(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      // Missing or unreadable directories simply contribute no files
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          await walkDir(fullPath);
+        }
+      } else if (entry.isFile()) {
+        const relativePath = relative(root, fullPath).split(sep).join('/');
+        if (matchers.some((matcher) => matcher.test(relativePath))) {
+          found.add(fullPath);
+        }
+      }
+    }
+  }
+
+  const starts = new Set(patterns.map((p) => join(root, staticPrefix(p))));
+  for (const start of starts) {
+    await walkDir(start);
+  }
+
+  return Array.from(found).sort();
+}
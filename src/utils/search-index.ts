@@ -0,0 +1,334 @@
+/**
+ * Full-Text Search Index
+ * In-memory BM25 index shared by the component, pattern, command and
+ * endpoint searches
+ *
+ * Text is tokenized on non-alphanumerics and camelCase boundaries
+ * ("ListRoles", "ax-badge", "/api/rbac/roles"), lowercased and stemmed, so
+ * "validating" finds "validation". Each document has named fields with
+ * boosts (a name match outweighs a description match). Every query word
+ * contributes its BM25 score; documents matching more of the words rank
+ * higher. Words that match nothing exactly fall back to prefixes ("bad" →
+ * "badge") and then to small edit distances ("pagnation" → "pagination").
+ */
+
+import { editDistance } from './fuzzy-match.js';
+
+/**
+ * One ranked match
+ */
+export interface SearchHit<T> {
+  item: T;
+
+  /** BM25 score; only comparable within one index */
+  score: number;
+
+  /** Query words that matched (as typed, lowercased) */
+  matched: string[];
+}
+
+/**
+ * Options for a search
+ */
+export interface SearchQueryOptions<T> {
+  /** Maximum hits (default: all) */
+  limit?: number;
+
+  /** Only consider items passing this check */
+  filter?: (item: T) => boolean;
+}
+
+/**
+ * Field values of a document; arrays are joined
+ */
+export type SearchFields = Record<string, string | string[] | undefined>;
+
+/**
+ * In-memory full-text index
+ */
+export interface SearchIndex<T> {
+  /** Add a document */
+  add(item: T, fields: SearchFields): void;
+
+  /** Rank documents against a free-form query */
+  search(query: string, options?: SearchQueryOptions<T>): SearchHit<T>[];
+
+  /** Number of documents */
+  readonly size: number;
+}
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+
+/** BM25 length normalization */
+const B = 0.75;
+
+/** Weight of a prefix expansion relative to an exact term */
+const PREFIX_WEIGHT = 0.7;
+
+/** Weight of a typo expansion relative to an exact term */
+const TYPO_WEIGHT = 0.5;
+
+/**
+ * Hits scoring below this share of the best hit are dropped, so a word every
+ * document contains (e.g. "ax" in "ax-badge") doesn't return everything
+ */
+const MIN_RELATIVE_SCORE = 0.1;
+
+/** Words too common to rank by */
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'how',
+  'i',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'this',
+  'to',
+  'with',
+]);
+
+// ============================================================================
+// Text Analysis
+// ============================================================================
+
+/**
+ * Reduce a word to its stem (a light Porter-style stemmer)
+ * Handles plurals, -ed/-ing, -ation/-ator and a trailing e, so "tables",
+ * "table", "validation", "validated" and "validate" share stems.
+ *
+ * @param word - Lowercase word
+ * @returns Stem
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let w = word;
+
+  if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('ies') && w.length > 4) {
+    w = `${w.slice(0, -3)}y`;
+  } else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  for (const suffix of ['ing', 'ed']) {
+    const base = w.slice(0, -suffix.length);
+    if (w.endsWith(suffix) && base.length >= 3 && /[aeiouy]/.test(base)) {
+      // "mapped" → "map", but "called" → "call"
+      w = /([^aeioulsz])\1$/.test(base) ? base.slice(0, -1) : base;
+      break;
+    }
+  }
+
+  if (w.endsWith('ation') && w.length > 6) {
+    w = `${w.slice(0, -3)}e`;
+  } else if (w.endsWith('ator') && w.length > 5) {
+    w = `${w.slice(0, -2)}e`;
+  }
+  if (w.endsWith('e') && w.length > 4) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+/**
+ * Split text into lowercase words
+ * e.g. "ListRolesResponse" → list, roles, response; "/api/rbac/:id" → api, rbac, id
+ */
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Tokenize text into stemmed terms
+ * @param text - Any text (names, selectors, paths, prose)
+ * @returns Terms in order, duplicates kept
+ */
+export function tokenize(text: string): string[] {
+  return words(text).map(stem);
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Term statistics of one document
+ */
+interface IndexedDocument<T> {
+  item: T;
+
+  /** Term frequency per field */
+  terms: Map<string, number>[];
+
+  /** Term count per field */
+  lengths: number[];
+}
+
+/**
+ * BM25F-style index: per-field BM25 saturation, boosted and summed
+ */
+class Bm25Index<T> implements SearchIndex<T> {
+  private documents: IndexedDocument<T>[] = [];
+  private documentFrequency = new Map<string, number>();
+  private totalLengths: number[];
+  private fieldNames: string[];
+  private boosts: number[];
+
+  constructor(boosts: Record<string, number>) {
+    this.fieldNames = Object.keys(boosts);
+    this.boosts = Object.values(boosts);
+    this.totalLengths = this.fieldNames.map(() => 0);
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  add(item: T, fields: SearchFields): void {
+    const document: IndexedDocument<T> = { item, terms: [], lengths: [] };
+    const seen = new Set<string>();
+
+    this.fieldNames.forEach((name, index) => {
+      const value = fields[name];
+      const tokens = tokenize(
+        Array.isArray(value) ? value.join(' ') : (value ?? ''),
+      );
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+        seen.add(token);
+      }
+      document.terms.push(frequencies);
+      document.lengths.push(tokens.length);
+      this.totalLengths[index] += tokens.length;
+    });
+
+    for (const term of seen) {
+      this.documentFrequency.set(
+        term,
+        (this.documentFrequency.get(term) ?? 0) + 1,
+      );
+    }
+    this.documents.push(document);
+  }
+
+  /**
+   * Index terms a query word stands for, with weights
+   * Exact stem first; otherwise prefixes, then close spellings.
+   */
+  private expand(word: string): Array<[string, number]> {
+    const term = stem(word);
+    if (this.documentFrequency.has(term)) return [[term, 1]];
+
+    const vocabulary = Array.from(this.documentFrequency.keys());
+    if (word.length >= 3) {
+      const prefixed = vocabulary.filter(
+        (candidate) => candidate.startsWith(term) || candidate.startsWith(word),
+      );
+      if (prefixed.length > 0) {
+        return prefixed.map((candidate) => [candidate, PREFIX_WEIGHT]);
+      }
+    }
+
+    if (word.length < 4) return [];
+    const maxDistance = word.length >= 8 ? 2 : 1;
+    return vocabulary
+      .filter(
+        (candidate) =>
+          Math.abs(candidate.length - term.length) <= maxDistance &&
+          editDistance(candidate, term) <= maxDistance,
+      )
+      .map((candidate) => [candidate, TYPO_WEIGHT]);
+  }
+
+  /**
+   * BM25 score of one term in one document, summed over boosted fields
+   */
+  private termScore(document: IndexedDocument<T>, term: string): number {
+    const total = this.documents.length;
+    const df = this.documentFrequency.get(term) ?? 0;
+    const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+
+    let score = 0;
+    document.terms.forEach((frequencies, index) => {
+      const tf = frequencies.get(term);
+      if (!tf) return;
+      const averageLength = this.totalLengths[index] / total || 1;
+      const norm = 1 - B + (B * document.lengths[index]) / averageLength;
+      score += (this.boosts[index] * (tf * (K1 + 1))) / (tf + K1 * norm);
+    });
+    return idf * score;
+  }
+
+  search(query: string, options: SearchQueryOptions<T> = {}): SearchHit<T>[] {
+    const queryWords = Array.from(new Set(words(query)));
+    if (queryWords.length === 0) return [];
+
+    const expansions = queryWords.map((word) => this.expand(word));
+    const hits: SearchHit<T>[] = [];
+
+    for (const document of this.documents) {
+      if (options.filter && !options.filter(document.item)) continue;
+
+      let score = 0;
+      const matched: string[] = [];
+      queryWords.forEach((word, index) => {
+        // A word counts once, through its best expansion
+        let best = 0;
+        for (const [term, weight] of expansions[index]) {
+          best = Math.max(best, weight * this.termScore(document, term));
+        }
+        if (best > 0) {
+          score += best;
+          matched.push(word);
+        }
+      });
+
+      if (score > 0) {
+        // Coordination: documents matching more query words rank higher
+        hits.push({
+          item: document.item,
+          score: score * (matched.length / queryWords.length),
+          matched,
+        });
+      }
+    }
+
+    hits.sort((a, b) => b.score - a.score);
+    const floor = (hits[0]?.score ?? 0) * MIN_RELATIVE_SCORE;
+    const relevant = hits.filter((hit) => hit.score >= floor);
+    return options.limit ? relevant.slice(0, options.limit) : relevant;
+  }
+}
+
+/**
+ * Create an empty search index
+ * @param boosts - Field names and their weights (e.g., `{ name: 3, description: 1 }`)
+ * @returns Index to add documents to
+ */
+export function createSearchIndex<T>(
+  boosts: Record<string, number>,
+): SearchIndex<T> {
+  return new Bm25Index<T>(boosts);
+}